@@ -17,6 +17,9 @@ namespace WebBehaviorTree
         [Range(1f, 60f)]
         public float ticksPerSecond = 10f;
 
+        [Tooltip("Seed of random composites (0 = the seed saved with the tree, or a different order every time the tree starts if it has none)")]
+        public int randomSeed = 0;
+
         [Header("Runtime State")]
         [Tooltip("Is the tree currently running?")]
         public bool isRunning = false;
@@ -31,7 +34,9 @@ namespace WebBehaviorTree
         public NodeStatus CurrentStatus { get; private set; } = NodeStatus.Idle;
 
         private float tickTimer = 0f;
+        private int treeSeed = 0;
         private Dictionary<string, Func<NodeStatus>> registeredActions = new Dictionary<string, Func<NodeStatus>>();
+        private Dictionary<string, Func<bool>> registeredConditions = new Dictionary<string, Func<bool>>();
 
         /// <summary>
         /// Register a Unity-specific action implementation.
@@ -44,6 +49,17 @@ namespace WebBehaviorTree
             registeredActions[actionName] = action;
         }
 
+        /// <summary>
+        /// Register a Unity-specific condition implementation.
+        /// Needed for script conditions; builder conditions read the blackboard themselves.
+        /// </summary>
+        /// <param name="conditionName">Name of the condition node from the web editor</param>
+        /// <param name="condition">Function that checks the condition</param>
+        public void RegisterCondition(string conditionName, Func<bool> condition)
+        {
+            registeredConditions[conditionName] = condition;
+        }
+
         /// <summary>
         /// Load and parse the behavior tree from JSON.
         /// Called automatically on Start if treeJson is assigned.
@@ -58,7 +74,8 @@ namespace WebBehaviorTree
 
             try
             {
-                RootNode = JsonTreeDeserializer.Deserialize(treeJson.text, registeredActions);
+                RootNode = JsonTreeDeserializer.Deserialize(treeJson.text, registeredActions, registeredConditions);
+                treeSeed = JsonTreeDeserializer.ReadRandomSeed(treeJson.text);
                 Debug.Log($"Loaded behavior tree: {RootNode?.Label ?? "Unknown"}");
             }
             catch (Exception e)
@@ -80,10 +97,27 @@ namespace WebBehaviorTree
 
             isRunning = true;
             RootNode.Reset();
+            var seed = randomSeed != 0 ? randomSeed : treeSeed;
+            SeedRandomComposites(RootNode, seed != 0 ? new System.Random(seed) : new System.Random());
             Blackboard.Clear();
             CurrentStatus = NodeStatus.Idle;
         }
 
+        /// <summary>
+        /// Gives all random composites the same random numbers, so a seeded run can be reproduced.
+        /// </summary>
+        private static void SeedRandomComposites(TreeNode node, System.Random random)
+        {
+            if (node is Nodes.RandomCompositeNode composite)
+            {
+                composite.Random = random;
+            }
+            foreach (var child in node.Children)
+            {
+                SeedRandomComposites(child, random);
+            }
+        }
+
         /// <summary>
         /// Stop executing the behavior tree.
         /// </summary>
@@ -0,0 +1,45 @@
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Only runs its child while a blackboard condition holds (Blackboard Condition,
+    /// Is Set and Is Not Set in the web editor). The condition is checked when the node
+    /// is entered, and with AbortMode "self" or "both" also on every tick while the child
+    /// runs; when it fails, a running child is reset and the node returns Failure.
+    /// </summary>
+    public class BlackboardConditionNode : TreeNode
+    {
+        /// <summary>The condition to check (Key, Operator and Value as in a Condition node).</summary>
+        public ConditionNode Condition { get; set; } = new ConditionNode();
+
+        /// <summary>
+        /// Observer abort mode from the web editor ("none", "self", "lower-priority" or "both").
+        /// Lower-priority aborts are not supported by this runtime and behave like "none".
+        /// </summary>
+        public string AbortMode { get; set; } = "none";
+
+        private bool AbortsSelf => AbortMode == "self" || AbortMode == "both";
+
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            if (Children.Count == 0)
+            {
+                return NodeStatus.Failure;
+            }
+
+            var child = Children[0];
+            var resuming = Status == NodeStatus.Running;
+
+            // Check on entry, and while running if observing self
+            if ((!resuming || AbortsSelf) && Condition.Tick(blackboard) != NodeStatus.Success)
+            {
+                if (child.Status == NodeStatus.Running)
+                {
+                    child.Reset();
+                }
+                return NodeStatus.Failure;
+            }
+
+            return child.Tick(blackboard);
+        }
+    }
+}
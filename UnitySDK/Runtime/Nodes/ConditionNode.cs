@@ -0,0 +1,144 @@
+using System;
+using System.Globalization;
+
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Checks a condition. Returns Success if it holds, otherwise Failure (never Running).
+    /// Builder conditions from the web editor compare a blackboard key with a value
+    /// or another key; script conditions call a function registered via
+    /// BehaviorTreeRunner.RegisterCondition().
+    /// </summary>
+    public class ConditionNode : TreeNode
+    {
+        private readonly Func<bool> condition;
+
+        /// <summary>Blackboard key to check (builder conditions).</summary>
+        public string Key { get; set; }
+
+        /// <summary>==, !=, &lt;, &lt;=, &gt;, &gt;=, "is set" or "is not set".</summary>
+        public string Operator { get; set; } = "==";
+
+        /// <summary>True to compare with the key named by Value instead of the value itself.</summary>
+        public bool CompareToKey { get; set; }
+
+        /// <summary>Value (JSON literal such as 20, true or "idle") or key to compare with.</summary>
+        public string Value { get; set; } = "";
+
+        /// <summary>
+        /// Creates a builder condition (set Key, Operator and Value).
+        /// </summary>
+        public ConditionNode()
+        {
+        }
+
+        /// <summary>
+        /// Creates a condition that calls a registered function.
+        /// </summary>
+        public ConditionNode(Func<bool> condition)
+        {
+            this.condition = condition;
+        }
+
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            return Check(blackboard) ? NodeStatus.Success : NodeStatus.Failure;
+        }
+
+        private bool Check(Blackboard blackboard)
+        {
+            if (condition != null)
+            {
+                return condition.Invoke();
+            }
+
+            if (string.IsNullOrEmpty(Key))
+            {
+                UnityEngine.Debug.LogWarning($"Condition '{Label}' has no key!");
+                return false;
+            }
+
+            var left = blackboard.Get<object>(Key);
+
+            switch (Operator)
+            {
+                case "is set":
+                    return left != null;
+                case "is not set":
+                    return left == null;
+            }
+
+            var right = CompareToKey ? blackboard.Get<object>(Value.Trim()) : ParseValue(Value);
+
+            switch (Operator)
+            {
+                case "==":
+                    return AreEqual(left, right);
+                case "!=":
+                    return !AreEqual(left, right);
+                case "<":
+                    return Compare(left, right) is int lt && lt < 0;
+                case "<=":
+                    return Compare(left, right) is int le && le <= 0;
+                case ">":
+                    return Compare(left, right) is int gt && gt > 0;
+                case ">=":
+                    return Compare(left, right) is int ge && ge >= 0;
+                default:
+                    UnityEngine.Debug.LogWarning($"Condition '{Label}' has unknown operator '{Operator}'!");
+                    return false;
+            }
+        }
+
+        /// <summary>
+        /// Parses a JSON literal (number, boolean, null or quoted string); other text is a string.
+        /// </summary>
+        private static object ParseValue(string text)
+        {
+            var trimmed = (text ?? "").Trim();
+
+            if (trimmed == "true") return true;
+            if (trimmed == "false") return false;
+            if (trimmed == "null") return null;
+            if (trimmed.Length >= 2 && trimmed.StartsWith("\"") && trimmed.EndsWith("\""))
+            {
+                return trimmed.Substring(1, trimmed.Length - 2);
+            }
+            if (double.TryParse(trimmed, NumberStyles.Float, CultureInfo.InvariantCulture, out var number))
+            {
+                return number;
+            }
+            return trimmed;
+        }
+
+        private static bool IsNumber(object value)
+        {
+            return value is int || value is long || value is float || value is double;
+        }
+
+        private static bool AreEqual(object left, object right)
+        {
+            if (IsNumber(left) && IsNumber(right))
+            {
+                return Convert.ToDouble(left) == Convert.ToDouble(right);
+            }
+            return Equals(left, right);
+        }
+
+        /// <summary>
+        /// Compares two numbers or two strings (null for other types).
+        /// </summary>
+        private static int? Compare(object left, object right)
+        {
+            if (IsNumber(left) && IsNumber(right))
+            {
+                return Convert.ToDouble(left).CompareTo(Convert.ToDouble(right));
+            }
+            if (left is string leftText && right is string rightText)
+            {
+                return string.CompareOrdinal(leftText, rightText);
+            }
+            return null;
+        }
+    }
+}
@@ -0,0 +1,20 @@
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Returns Success once its child completes, whatever the result.
+    /// Running remains Running.
+    /// </summary>
+    public class ForceSuccessNode : TreeNode
+    {
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            if (Children.Count == 0)
+            {
+                return NodeStatus.Failure;
+            }
+
+            var childStatus = Children[0].Tick(blackboard);
+            return childStatus == NodeStatus.Running ? NodeStatus.Running : NodeStatus.Success;
+        }
+    }
+}
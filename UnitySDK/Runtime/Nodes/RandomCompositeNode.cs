@@ -0,0 +1,92 @@
+using System.Collections.Generic;
+
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Base of composites that try their children in a random order, drawn anew for
+    /// every run. The run ends as soon as a child returns StopStatus; when every child
+    /// has been tried, the other status is returned. A Running child is resumed on the
+    /// next tick, in the same order.
+    /// </summary>
+    public abstract class RandomCompositeNode : TreeNode
+    {
+        /// <summary>Random numbers (shared and seeded by BehaviorTreeRunner).</summary>
+        public System.Random Random { get; set; } = new System.Random();
+
+        /// <summary>Status of a child that ends the run.</summary>
+        protected abstract NodeStatus StopStatus { get; }
+
+        private List<int> order = new List<int>();
+        private int orderIndex = 0;
+
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            var exhaustedStatus = StopStatus == NodeStatus.Success ? NodeStatus.Failure : NodeStatus.Success;
+
+            if (Children.Count == 0)
+            {
+                return exhaustedStatus;
+            }
+
+            // A new run draws a new order
+            if (Status != NodeStatus.Running || orderIndex >= order.Count)
+            {
+                order = DrawOrder();
+                orderIndex = 0;
+            }
+
+            for (int i = orderIndex; i < order.Count; i++)
+            {
+                var childStatus = Children[order[i]].Tick(blackboard);
+
+                if (childStatus == NodeStatus.Running)
+                {
+                    orderIndex = i;
+                    return NodeStatus.Running;
+                }
+
+                if (childStatus == StopStatus)
+                {
+                    ClearOrder();
+                    return StopStatus;
+                }
+            }
+
+            ClearOrder();
+            return exhaustedStatus;
+        }
+
+        /// <summary>
+        /// Draws the order the children are tried in (a shuffle by default).
+        /// </summary>
+        protected virtual List<int> DrawOrder()
+        {
+            var shuffled = new List<int>();
+            for (int i = 0; i < Children.Count; i++)
+            {
+                shuffled.Add(i);
+            }
+
+            // Fisher-Yates shuffle
+            for (int i = shuffled.Count - 1; i > 0; i--)
+            {
+                int j = Random.Next(i + 1);
+                (shuffled[i], shuffled[j]) = (shuffled[j], shuffled[i]);
+            }
+
+            return shuffled;
+        }
+
+        public override void Reset()
+        {
+            base.Reset();
+            ClearOrder();
+        }
+
+        private void ClearOrder()
+        {
+            order = new List<int>();
+            orderIndex = 0;
+        }
+    }
+}
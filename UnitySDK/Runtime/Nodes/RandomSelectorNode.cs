@@ -0,0 +1,11 @@
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Tries children in a random order until one succeeds.
+    /// Returns Success if any child succeeds, Failure if all fail.
+    /// </summary>
+    public class RandomSelectorNode : RandomCompositeNode
+    {
+        protected override NodeStatus StopStatus => NodeStatus.Success;
+    }
+}
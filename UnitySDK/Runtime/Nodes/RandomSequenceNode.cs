@@ -0,0 +1,11 @@
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Runs children in a random order until one fails.
+    /// Returns Success if all children succeed, Failure if any fails.
+    /// </summary>
+    public class RandomSequenceNode : RandomCompositeNode
+    {
+        protected override NodeStatus StopStatus => NodeStatus.Failure;
+    }
+}
@@ -0,0 +1,121 @@
+using System;
+using UnityEngine;
+
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Runs its child again when it fails, up to MaxAttempts attempts (the first run included).
+    /// Returns Success as soon as the child succeeds, Running while the child runs or the
+    /// node waits to retry, and Failure when the last attempt failed.
+    /// </summary>
+    public class RetryNode : TreeNode
+    {
+        public int MaxAttempts { get; set; } = 3;
+
+        /// <summary>Wait before the first retry (0 = retry on the next tick).</summary>
+        public float Delay { get; set; } = 0f;
+
+        /// <summary>True if Delay is in seconds, false if it is in ticks.</summary>
+        public bool DelayInSeconds { get; set; }
+
+        /// <summary>Factor the delay grows by for every further retry.</summary>
+        public float Backoff { get; set; } = 1f;
+
+        /// <summary>Blackboard key that holds the current attempt (empty = not written).</summary>
+        public string AttemptKey { get; set; } = "";
+
+        private int attempt = 0;
+        private int waitTicks = 0;
+        private float retryTime = -1f;
+
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            if (Children.Count == 0)
+            {
+                return NodeStatus.Failure;
+            }
+
+            if (Status != NodeStatus.Running || attempt == 0)
+            {
+                ClearWait();
+                SetAttempt(1, blackboard);
+            }
+
+            if (IsWaiting())
+            {
+                return NodeStatus.Running;
+            }
+
+            var child = Children[0];
+            var childStatus = child.Tick(blackboard);
+
+            if (childStatus != NodeStatus.Failure)
+            {
+                if (childStatus == NodeStatus.Success)
+                {
+                    attempt = 0;
+                }
+                return childStatus;
+            }
+
+            if (attempt >= Math.Max(1, MaxAttempts))
+            {
+                attempt = 0;
+                return NodeStatus.Failure;
+            }
+
+            // Schedule the next attempt
+            child.Reset();
+            SetAttempt(attempt + 1, blackboard);
+
+            var delay = Math.Max(0f, Delay) * Mathf.Pow(Math.Max(1f, Backoff), attempt - 2);
+            if (DelayInSeconds)
+            {
+                retryTime = Time.time + delay;
+            }
+            else
+            {
+                waitTicks = Mathf.RoundToInt(delay);
+            }
+
+            return NodeStatus.Running;
+        }
+
+        public override void Reset()
+        {
+            base.Reset();
+            attempt = 0;
+            ClearWait();
+        }
+
+        private void SetAttempt(int value, Blackboard blackboard)
+        {
+            attempt = value;
+            if (!string.IsNullOrEmpty(AttemptKey))
+            {
+                blackboard.Set(AttemptKey, attempt);
+            }
+        }
+
+        private bool IsWaiting()
+        {
+            if (waitTicks > 0)
+            {
+                waitTicks--;
+                return true;
+            }
+            if (retryTime >= 0f && Time.time < retryTime)
+            {
+                return true;
+            }
+            retryTime = -1f;
+            return false;
+        }
+
+        private void ClearWait()
+        {
+            waitTicks = 0;
+            retryTime = -1f;
+        }
+    }
+}
@@ -0,0 +1,19 @@
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Always returns Success at once. Ticks its child (if any); a child that is
+    /// still Running is reset, so the Succeeder never returns Running.
+    /// </summary>
+    public class SucceederNode : TreeNode
+    {
+        protected override NodeStatus OnTick(Blackboard blackboard)
+        {
+            if (Children.Count > 0 && Children[0].Tick(blackboard) == NodeStatus.Running)
+            {
+                Children[0].Reset();
+            }
+
+            return NodeStatus.Success;
+        }
+    }
+}
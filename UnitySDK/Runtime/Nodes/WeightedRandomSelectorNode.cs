@@ -0,0 +1,57 @@
+using System.Collections.Generic;
+
+namespace WebBehaviorTree.Nodes
+{
+    /// <summary>
+    /// Picks children at random, in proportion to their weights, until one succeeds.
+    /// When the picked child fails, the next one is picked from the remaining children
+    /// the same way. Children with weight 0 never run.
+    /// </summary>
+    public class WeightedRandomSelectorNode : RandomCompositeNode
+    {
+        /// <summary>Weight of each child (same order as Children; missing weights are 1).</summary>
+        public List<float> Weights { get; set; } = new List<float>();
+
+        protected override NodeStatus StopStatus => NodeStatus.Success;
+
+        protected override List<int> DrawOrder()
+        {
+            var remaining = new List<int>();
+            for (int i = 0; i < Children.Count; i++)
+            {
+                if (GetWeight(i) > 0f)
+                {
+                    remaining.Add(i);
+                }
+            }
+
+            var drawn = new List<int>();
+            while (remaining.Count > 0)
+            {
+                float total = 0f;
+                foreach (var index in remaining)
+                {
+                    total += GetWeight(index);
+                }
+
+                float pick = (float)Random.NextDouble() * total;
+                int k = 0;
+                while (k < remaining.Count - 1 && pick >= GetWeight(remaining[k]))
+                {
+                    pick -= GetWeight(remaining[k]);
+                    k++;
+                }
+
+                drawn.Add(remaining[k]);
+                remaining.RemoveAt(k);
+            }
+
+            return drawn;
+        }
+
+        private float GetWeight(int childIndex)
+        {
+            return childIndex < Weights.Count ? System.Math.Max(0f, Weights[childIndex]) : 1f;
+        }
+    }
+}
@@ -15,8 +15,12 @@ namespace WebBehaviorTree
         /// </summary>
         /// <param name="json">JSON string exported from web editor</param>
         /// <param name="registeredActions">Dictionary of action name to implementation</param>
+        /// <param name="registeredConditions">Dictionary of condition name to implementation (script conditions)</param>
         /// <returns>Root node of the deserialized tree</returns>
-        public static TreeNode Deserialize(string json, Dictionary<string, Func<NodeStatus>> registeredActions)
+        public static TreeNode Deserialize(
+            string json,
+            Dictionary<string, Func<NodeStatus>> registeredActions,
+            Dictionary<string, Func<bool>> registeredConditions = null)
         {
             var data = JsonUtility.FromJson<TreeData>(json);
 
@@ -27,10 +31,14 @@ namespace WebBehaviorTree
 
             // Create all nodes first
             var nodeMap = new Dictionary<string, TreeNode>();
+            var weights = new Dictionary<string, float>();
 
             foreach (var nodeData in data.tree.nodes)
             {
-                TreeNode node = CreateNode(nodeData, registeredActions);
+                // Weight of the node under a Weighted Random Selector
+                weights[nodeData.id] = nodeData.config != null ? nodeData.config.weight : 1f;
+
+                TreeNode node = CreateNode(nodeData, registeredActions, registeredConditions);
                 if (node != null)
                 {
                     node.Id = nodeData.id;
@@ -55,6 +63,10 @@ namespace WebBehaviorTree
                         if (nodeMap.TryGetValue(childId, out var child))
                         {
                             parent.Children.Add(child);
+                            if (parent is WeightedRandomSelectorNode weighted)
+                            {
+                                weighted.Weights.Add(weights[childId]);
+                            }
                         }
                         else
                         {
@@ -78,7 +90,22 @@ namespace WebBehaviorTree
             return rootNode;
         }
 
-        private static TreeNode CreateNode(NodeData nodeData, Dictionary<string, Func<NodeStatus>> registeredActions)
+        /// <summary>
+        /// Read the seed of random composites saved with a tree (0 if it has none).
+        /// </summary>
+        /// <param name="json">JSON string exported from web editor</param>
+        public static int ReadRandomSeed(string json)
+        {
+            var data = JsonUtility.FromJson<TreeData>(json);
+
+            // The editor saves unsigned 32-bit seeds
+            return data?.tree != null ? unchecked((int)(uint)data.tree.randomSeed) : 0;
+        }
+
+        private static TreeNode CreateNode(
+            NodeData nodeData,
+            Dictionary<string, Func<NodeStatus>> registeredActions,
+            Dictionary<string, Func<bool>> registeredConditions)
         {
             switch (nodeData.type)
             {
@@ -92,6 +119,15 @@ namespace WebBehaviorTree
                 case "parallel":
                     return new ParallelNode();
 
+                case "random-selector":
+                    return new RandomSelectorNode();
+
+                case "random-sequence":
+                    return new RandomSequenceNode();
+
+                case "weighted-random-selector":
+                    return new WeightedRandomSelectorNode();
+
                 // Decorators
                 case "inverter":
                     return new InverterNode();
@@ -105,6 +141,36 @@ namespace WebBehaviorTree
                     }
                     return repeater;
 
+                case "retry":
+                    var retryParameters = nodeData.parameters ?? new ParametersData();
+                    return new RetryNode
+                    {
+                        MaxAttempts = retryParameters.maxAttempts > 0 ? retryParameters.maxAttempts : 3,
+                        Delay = retryParameters.delay,
+                        DelayInSeconds = retryParameters.delayUnit == "seconds",
+                        Backoff = retryParameters.backoff > 0 ? retryParameters.backoff : 1f,
+                        AttemptKey = retryParameters.attemptKey
+                    };
+
+                case "blackboard-condition":
+                case "is-set":
+                case "is-not-set":
+                    var guardParameters = nodeData.parameters ?? new ParametersData();
+                    return new BlackboardConditionNode
+                    {
+                        Condition = CreateGuardCondition(nodeData),
+                        AbortMode = string.IsNullOrEmpty(guardParameters.abortMode) ? "none" : guardParameters.abortMode
+                    };
+
+                case "force-success":
+                    return new ForceSuccessNode();
+
+                case "force-failure":
+                    return new ForceFailureNode();
+
+                case "succeeder":
+                    return new SucceederNode();
+
                 case "start":
                     // Start node is just a pass-through decorator
                     return new SequenceNode(); // Execute its child
@@ -131,12 +197,60 @@ namespace WebBehaviorTree
                     }
                     return wait;
 
+                // Conditions
+                case "condition":
+                    return CreateCondition(nodeData, registeredConditions);
+
                 default:
                     Debug.LogWarning($"Unknown node type: {nodeData.type}");
                     return null;
             }
         }
 
+        private static TreeNode CreateCondition(NodeData nodeData, Dictionary<string, Func<bool>> registeredConditions)
+        {
+            var parameters = nodeData.parameters ?? new ParametersData();
+
+            // Script conditions run JavaScript in the editor: look up a registered condition by label
+            if (parameters.mode == "script")
+            {
+                if (registeredConditions != null && registeredConditions.TryGetValue(nodeData.label, out var condition))
+                {
+                    return new ConditionNode(condition);
+                }
+
+                Debug.LogWarning($"Condition '{nodeData.label}' not registered. Node will fail when executed.");
+                return new ConditionNode(() => false);
+            }
+
+            return new ConditionNode
+            {
+                Key = parameters.key,
+                Operator = string.IsNullOrEmpty(parameters.@operator) ? "==" : parameters.@operator,
+                CompareToKey = parameters.compareTo == "key",
+                Value = parameters.value ?? ""
+            };
+        }
+
+        private static ConditionNode CreateGuardCondition(NodeData nodeData)
+        {
+            var parameters = nodeData.parameters ?? new ParametersData();
+            var condition = new ConditionNode
+            {
+                Label = nodeData.label,
+                Key = parameters.key,
+                Operator = string.IsNullOrEmpty(parameters.@operator) ? "==" : parameters.@operator,
+                CompareToKey = parameters.compareTo == "key",
+                Value = parameters.value ?? ""
+            };
+
+            // Is Set / Is Not Set only have a key
+            if (nodeData.type == "is-set") condition.Operator = "is set";
+            if (nodeData.type == "is-not-set") condition.Operator = "is not set";
+
+            return condition;
+        }
+
         // JSON data structures matching web editor format
         [Serializable]
         private class TreeData
@@ -160,6 +274,7 @@ namespace WebBehaviorTree
         {
             public NodeData[] nodes;
             public string root;
+            public long randomSeed;
         }
 
         [Serializable]
@@ -174,6 +289,7 @@ namespace WebBehaviorTree
             public string color;
             public string code;
             public ConfigData config;
+            public ParametersData parameters;
             public string[] children;
         }
 
@@ -189,6 +305,26 @@ namespace WebBehaviorTree
         {
             public int repeatCount;
             public float duration;
+            public float weight = 1f; // Kept when the JSON has no weight
+        }
+
+        [Serializable]
+        private class ParametersData
+        {
+            // Condition
+            public string mode;
+            public string key;
+            public string @operator;
+            public string compareTo;
+            public string value;
+            public string abortMode;
+
+            // Retry
+            public int maxAttempts;
+            public float delay;
+            public string delayUnit;
+            public float backoff;
+            public string attemptKey;
         }
 
         [Serializable]
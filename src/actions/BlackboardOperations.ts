@@ -0,0 +1,109 @@
+import { Operation } from '../core/Operation.js';
+import { Blackboard } from '../core/Blackboard.js';
+import { BlackboardSchema, BlackboardKeyDefinition } from '../core/BlackboardSchema.js';
+
+/**
+ * BlackboardOperations: Operations for editing the blackboard schema
+ *
+ * These operations declare, update and remove blackboard keys and toggle
+ * strict mode. Each operation snapshots the schema so it is fully undoable.
+ */
+
+/**
+ * DefineBlackboardKeyOperation: Declares a new key or updates an existing one
+ *
+ * If `previousKey` is given and differs from the new key, the old declaration
+ * is replaced (rename). Newly declared keys are seeded with their default value.
+ */
+export class DefineBlackboardKeyOperation implements Operation {
+    public description: string;
+    private previousSchema: BlackboardKeyDefinition[] = [];
+    private seededValue: boolean = false;
+
+    constructor(
+        private blackboard: Blackboard,
+        private definition: BlackboardKeyDefinition,
+        private previousKey?: string
+    ) {
+        this.description = previousKey
+            ? `Update blackboard key "${definition.key}"`
+            : `Declare blackboard key "${definition.key}"`;
+    }
+
+    public execute(): void {
+        const schema = this.blackboard.getSchema();
+        this.previousSchema = schema.toJSON();
+
+        // Validate before mutating so a failed define leaves the schema untouched
+        const updated = schema.clone();
+        if (this.previousKey && this.previousKey !== this.definition.key) {
+            updated.remove(this.previousKey);
+        }
+        updated.define(this.definition);
+        this.blackboard.setSchema(updated);
+
+        // Seed the value so the key is usable right away
+        this.seededValue = !this.blackboard.has(this.definition.key);
+        if (this.seededValue) {
+            this.blackboard.set(this.definition.key, updated.getDefaults()[this.definition.key]);
+        }
+    }
+
+    public undo(): void {
+        if (this.seededValue) {
+            this.blackboard.delete(this.definition.key);
+        }
+        this.blackboard.setSchema(BlackboardSchema.fromJSON(this.previousSchema));
+    }
+}
+
+/**
+ * RemoveBlackboardKeyOperation: Removes a key declaration
+ *
+ * The key's current value stays on the blackboard.
+ */
+export class RemoveBlackboardKeyOperation implements Operation {
+    public description: string;
+    private previousSchema: BlackboardKeyDefinition[] = [];
+
+    constructor(
+        private blackboard: Blackboard,
+        private key: string
+    ) {
+        this.description = `Remove blackboard key "${key}"`;
+    }
+
+    public execute(): void {
+        const schema = this.blackboard.getSchema();
+        this.previousSchema = schema.toJSON();
+        schema.remove(this.key);
+    }
+
+    public undo(): void {
+        this.blackboard.setSchema(BlackboardSchema.fromJSON(this.previousSchema));
+    }
+}
+
+/**
+ * SetBlackboardStrictOperation: Enables or disables schema enforcement
+ */
+export class SetBlackboardStrictOperation implements Operation {
+    public description: string;
+    private previousStrict: boolean;
+
+    constructor(
+        private blackboard: Blackboard,
+        private strict: boolean
+    ) {
+        this.previousStrict = blackboard.strict;
+        this.description = strict ? 'Enable strict blackboard' : 'Disable strict blackboard';
+    }
+
+    public execute(): void {
+        this.blackboard.strict = this.strict;
+    }
+
+    public undo(): void {
+        this.blackboard.strict = this.previousStrict;
+    }
+}
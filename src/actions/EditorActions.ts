@@ -2,6 +2,8 @@ import { Operation } from '../core/Operation.js';
 import { EditorState } from '../state/EditorState.js';
 import { TreeNode } from '../core/TreeNode.js';
 import { Vector2 } from '../utils/Vector2.js';
+import { Blackboard } from '../core/Blackboard.js';
+import { BlackboardKeyDefinition } from '../core/BlackboardSchema.js';
 
 /**
  * EditorActions: Centralized re-exports and convenience API for all operations
@@ -15,6 +17,7 @@ import { Vector2 } from '../utils/Vector2.js';
  * - ConnectionOperations: Connect and disconnect operations
  * - TreeOperations: Tree-level operations (root, clear, import)
  * - EditorOperations: UI state and batch operations
+ * - BlackboardOperations: Blackboard schema declarations and strict mode
  *
  * IMPORTANT: All mutations to editor state should go through these operations
  * to maintain undo/redo consistency.
@@ -51,6 +54,13 @@ export {
     ImportTreeOperation
 } from './TreeOperations.js';
 
+// Blackboard operations
+export {
+    DefineBlackboardKeyOperation,
+    RemoveBlackboardKeyOperation,
+    SetBlackboardStrictOperation
+} from './BlackboardOperations.js';
+
 // Editor operations
 export {
     SetSelectionOperation,
@@ -88,6 +98,12 @@ import {
     ImportTreeOperation
 } from './TreeOperations.js';
 
+import {
+    DefineBlackboardKeyOperation,
+    RemoveBlackboardKeyOperation,
+    SetBlackboardStrictOperation
+} from './BlackboardOperations.js';
+
 import {
     SetSelectionOperation,
     ToggleGridOperation,
@@ -149,6 +165,16 @@ export const EditorActions = {
     importTree: (editorState: EditorState, jsonData: any) =>
         new ImportTreeOperation(editorState, jsonData),
 
+    // Blackboard operations
+    defineBlackboardKey: (blackboard: Blackboard, definition: BlackboardKeyDefinition, previousKey?: string) =>
+        new DefineBlackboardKeyOperation(blackboard, definition, previousKey),
+
+    removeBlackboardKey: (blackboard: Blackboard, key: string) =>
+        new RemoveBlackboardKeyOperation(blackboard, key),
+
+    setBlackboardStrict: (blackboard: Blackboard, strict: boolean) =>
+        new SetBlackboardStrictOperation(blackboard, strict),
+
     // UI state operations
     setSelection: (selectionManager: any, newSelection: Set<TreeNode>) =>
         new SetSelectionOperation(selectionManager, newSelection),
@@ -3,6 +3,7 @@ import { EditorState } from '../state/EditorState.js';
 import { TreeNode } from '../core/TreeNode.js';
 import { Vector2 } from '../utils/Vector2.js';
 import { NodeRegistry } from '../core/NodeRegistry.js';
+import { NodeExecutor } from '../core/NodeExecutor.js';
 
 /**
  * NodeOperations: Operations for adding, removing, moving, and updating nodes
@@ -359,26 +360,35 @@ export class UpdateNodeLabelOperation implements Operation {
 /**
  * UpdateNodeCodeOperation: Updates a node's JavaScript code
  *
- * Primarily used for ActionNodes and ConditionNodes
+ * Primarily used for ActionNodes and ConditionNodes. For code authored in
+ * TypeScript, pass the source along with the transpiled JavaScript; without
+ * it the node's code is plain JavaScript again.
  */
 export class UpdateNodeCodeOperation implements Operation {
     public description: string;
     private oldCode: string | undefined;
+    private oldSourceCode: string | undefined;
 
     constructor(
         private node: TreeNode,
-        private newCode: string
+        private newCode: string,
+        private newSourceCode?: string
     ) {
         this.oldCode = node.code;
+        this.oldSourceCode = node.sourceCode;
         this.description = `Update code for "${node.label}"`;
     }
 
     public execute(): void {
         this.node.code = this.newCode;
+        this.node.sourceCode = this.newSourceCode;
+        NodeExecutor.invalidate(this.node);
     }
 
     public undo(): void {
         this.node.code = this.oldCode;
+        this.node.sourceCode = this.oldSourceCode;
+        NodeExecutor.invalidate(this.node);
     }
 }
 
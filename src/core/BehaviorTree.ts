@@ -1,40 +1,150 @@
-import { TreeNode } from './TreeNode.js';
+import { TreeNode, TickTraversal, TickListener, TreeContext } from './TreeNode.js';
 import { Blackboard } from './Blackboard.js';
+import { BlackboardSchema } from './BlackboardSchema.js';
 import { NodeStatus } from './NodeStatus.js';
 import { VersionManager } from '../utils/VersionManager.js';
+import { Clock, TickScheduler, SystemClock, IntervalScheduler } from './Scheduler.js';
+import { SeededRandom } from './Random.js';
+import { TraceRecorder } from './TraceRecorder.js';
+import { TreeDebugger, BreakpointHit } from './TreeDebugger.js';
+import { TickStepper } from './TickStepper.js';
+import { NodeProfiler } from './NodeProfiler.js';
 
 /**
  * Execution state of the behavior tree
  */
 export type TreeExecutionState = 'idle' | 'running' | 'paused';
 
+/**
+ * Optional services injected into a BehaviorTree
+ */
+export interface BehaviorTreeOptions {
+    clock?: Clock;
+    scheduler?: TickScheduler;
+    // Seed of the tree's random numbers (random if not given)
+    seed?: number;
+    // Blackboard shared with other trees (e.g. a squad of agents). The tree's
+    // own blackboard becomes a scope of it: unknown keys are read from it and
+    // `@key` writes to it.
+    globalBlackboard?: Blackboard;
+}
+
 /**
  * BehaviorTree: The main orchestrator for behavior tree execution.
  *
  * Manages the root node, blackboard, and tick-based execution loop.
  */
-export class BehaviorTree {
+export class BehaviorTree implements TreeContext {
     public root: TreeNode | null = null;
     public blackboard: Blackboard;
     public state: TreeExecutionState = 'idle';
     public tickCount: number = 0;
 
+    // Time source (injectable for deterministic tests and headless hosts)
+    public clock: Clock;
+
+    // Id or name of the document this tree is loaded from (see TreeContext)
+    public documentId: string | null = null;
+
+    // Random numbers of random composites (seed it to reproduce a run; the
+    // sequence restarts from the seed when the tree is reset)
+    public random: SeededRandom;
+
     // All nodes in the editor (needed to find all Start nodes)
     private allNodes: TreeNode[] = [];
 
     // All deserialized nodes from last fromJSON call (includes disconnected nodes)
     private deserializedNodes: TreeNode[] = [];
 
+    // Records statuses and blackboard writes of every tick (optional)
+    private recorder: TraceRecorder | null = null;
+
+    // Breakpoints that pause the tree (optional)
+    private treeDebugger: TreeDebugger | null = null;
+
+    // Per-node execution statistics (optional)
+    private profiler: NodeProfiler | null = null;
+
+    // Tick being stepped through node by node (null when no tick is in progress)
+    private stepper: TickStepper | null = null;
+
     // Execution control
-    private tickInterval: number | null = null;
+    private scheduler: TickScheduler;
+    private tickHandle: unknown = null;
     private tickRate: number = 10; // ticks per second
 
     // Event callbacks
     private onTickCallbacks: Array<(status: NodeStatus) => void> = [];
     private onStateChangeCallbacks: Array<(state: TreeExecutionState) => void> = [];
+    private onBreakCallbacks: Array<(hit: BreakpointHit) => void> = [];
 
-    constructor() {
-        this.blackboard = new Blackboard();
+    constructor(options: BehaviorTreeOptions = {}) {
+        this.blackboard = options.globalBlackboard ? options.globalBlackboard.createScope() : new Blackboard();
+        this.clock = options.clock || new SystemClock();
+        this.random = new SeededRandom(options.seed);
+        this.scheduler = options.scheduler || new IntervalScheduler();
+    }
+
+    /**
+     * Replaces the scheduler that drives start()
+     * (restarts the tick loop if currently running)
+     */
+    public setScheduler(scheduler: TickScheduler): void {
+        const wasRunning = this.state === 'running';
+        if (wasRunning) {
+            this.pause();
+        }
+
+        this.scheduler = scheduler;
+
+        if (wasRunning) {
+            this.start();
+        }
+    }
+
+    /**
+     * Attaches a trace recorder (null detaches it)
+     */
+    public setRecorder(recorder: TraceRecorder | null): void {
+        if (this.recorder && this.recorder !== recorder) {
+            this.recorder.dispose();
+        }
+        this.recorder = recorder;
+    }
+
+    /**
+     * Gets the attached trace recorder
+     */
+    public getRecorder(): TraceRecorder | null {
+        return this.recorder;
+    }
+
+    /**
+     * Attaches a debugger whose breakpoints pause the tree (null detaches it)
+     */
+    public setDebugger(treeDebugger: TreeDebugger | null): void {
+        this.treeDebugger = treeDebugger;
+    }
+
+    /**
+     * Gets the attached debugger
+     */
+    public getDebugger(): TreeDebugger | null {
+        return this.treeDebugger;
+    }
+
+    /**
+     * Attaches a profiler (null detaches it)
+     */
+    public setProfiler(profiler: NodeProfiler | null): void {
+        this.profiler = profiler;
+    }
+
+    /**
+     * Gets the attached profiler
+     */
+    public getProfiler(): NodeProfiler | null {
+        return this.profiler;
     }
 
     /**
@@ -42,6 +152,8 @@ export class BehaviorTree {
      */
     public setRoot(root: TreeNode | null): void {
         this.root = root;
+        // Relinks the detached nodes too (e.g. GoTo targets whose jumps changed)
+        this.linkNodes(Array.from(new Set([...this.allNodes, ...this.getAllNodes()])));
         this.reset();
     }
 
@@ -50,6 +162,14 @@ export class BehaviorTree {
      */
     public setAllNodes(nodes: TreeNode[]): void {
         this.allNodes = nodes;
+        this.linkNodes(nodes);
+    }
+
+    /**
+     * Links nodes to this tree (e.g. for GoTo nodes to resolve their targets)
+     */
+    private linkNodes(nodes: TreeNode[]): void {
+        nodes.forEach(node => node.link(this));
     }
 
     /**
@@ -64,8 +184,17 @@ export class BehaviorTree {
 
     /**
      * Executes one tick of the behavior tree
+     * (finishes the tick in progress instead if one is being stepped through)
      */
     public async tick(): Promise<NodeStatus> {
+        const stepper = this.stepTick(stepper => stepper.finish());
+        return stepper.getResult()!;
+    }
+
+    /**
+     * The steps of one tick: yields every entry node (root or Start nodes) to tick
+     */
+    private *traverseTick(): TickTraversal {
         // Find all Start nodes (the only valid execution entry points)
         const startNodes = this.getStartNodes();
 
@@ -75,17 +204,24 @@ export class BehaviorTree {
                 return NodeStatus.IDLE;
             }
 
+            const root = this.root;
             this.tickCount++;
+            this.recorder?.beginTick(this.tickCount, this.clock.now(), this.blackboard);
+            this.treeDebugger?.beginTick(this.tickCount);
+            this.profiler?.beginTick(this.tickCount);
 
             // Execute the root node
-            const status = await this.root.tick(this.blackboard);
+            const status = yield { child: root, blackboard: this.blackboard };
+            this.recorder?.captureStatuses(root);
+            this.recorder?.endTick(status);
+            this.checkBreakpoints();
 
             // Notify listeners
             this.onTickCallbacks.forEach(callback => callback(status));
 
             // If tree completed, auto-reset for next tick
             if (status === NodeStatus.SUCCESS || status === NodeStatus.FAILURE) {
-                this.root.reset();
+                root.reset();
             }
 
             return status;
@@ -93,11 +229,17 @@ export class BehaviorTree {
 
         // Execute all Start nodes in order (left to right)
         this.tickCount++;
+        this.recorder?.beginTick(this.tickCount, this.clock.now(), this.blackboard);
+        this.treeDebugger?.beginTick(this.tickCount);
+        this.profiler?.beginTick(this.tickCount);
 
         let overallStatus: NodeStatus = NodeStatus.SUCCESS;
 
         for (const startNode of startNodes) {
-            const status = await startNode.tick(this.blackboard);
+            const status = yield { child: startNode, blackboard: this.blackboard };
+
+            // Record before completed branches are reset below
+            this.recorder?.captureStatuses(startNode);
 
             // If any Start node is still running, overall status is running
             if (status === NodeStatus.RUNNING) {
@@ -114,23 +256,82 @@ export class BehaviorTree {
             }
         }
 
+        this.recorder?.endTick(overallStatus);
+        this.checkBreakpoints();
+
         // Notify listeners
         this.onTickCallbacks.forEach(callback => callback(overallStatus));
 
         return overallStatus;
     }
 
+    /**
+     * Runs a step action on the tick in progress (a new tick is started if
+     * none is) with the debugger and profiler listening to the node ticks,
+     * and the tree's clock and random numbers used by the nodes
+     */
+    private stepTick(action: (stepper: TickStepper) => void): TickStepper {
+        const previousListener = TreeNode.tickListener;
+        const previousClock = TreeNode.clock;
+        const previousRandom = TreeNode.random;
+        TreeNode.tickListener = this.getTickListener();
+        TreeNode.clock = this.clock;
+        TreeNode.random = this.random;
+        try {
+            const stepper = this.stepper || new TickStepper(this.traverseTick());
+            this.stepper = stepper;
+            action(stepper);
+            if (stepper.isDone() && this.stepper === stepper) {
+                this.stepper = null;
+            }
+            return stepper;
+        } finally {
+            TreeNode.tickListener = previousListener;
+            TreeNode.clock = previousClock;
+            TreeNode.random = previousRandom;
+        }
+    }
+
+    /**
+     * Listener that forwards node ticks to the debugger and the profiler
+     */
+    private getTickListener(): TickListener | null {
+        const listeners: TickListener[] = [];
+        if (this.treeDebugger) listeners.push(this.treeDebugger);
+        if (this.profiler) listeners.push(this.profiler);
+
+        if (listeners.length <= 1) {
+            return listeners[0] || null;
+        }
+        return {
+            onTickEnter: (node, blackboard) => listeners.forEach(listener => listener.onTickEnter(node, blackboard)),
+            onTickExit: (node, status, blackboard) => listeners.forEach(listener => listener.onTickExit(node, status, blackboard))
+        };
+    }
+
+    /**
+     * Pauses the tree if a breakpoint fired (or a watch became true) during the tick
+     */
+    private checkBreakpoints(): void {
+        const hit = this.treeDebugger?.endTick(this.blackboard);
+        if (!hit) return;
+
+        this.pause();
+        this.onBreakCallbacks.forEach(callback => callback(hit));
+    }
+
     /**
      * Starts continuous execution at the current tick rate
      */
     public start(): void {
         if (this.state === 'running') return;
 
+        this.treeDebugger?.clearHit();
         this.state = 'running';
         this.notifyStateChange();
 
         const interval = 1000 / this.tickRate;
-        this.tickInterval = window.setInterval(() => {
+        this.tickHandle = this.scheduler.schedule(() => {
             if (this.state === 'running') {
                 this.tick();
             }
@@ -146,9 +347,9 @@ export class BehaviorTree {
         this.state = 'paused';
         this.notifyStateChange();
 
-        if (this.tickInterval !== null) {
-            clearInterval(this.tickInterval);
-            this.tickInterval = null;
+        if (this.tickHandle !== null) {
+            this.scheduler.cancel(this.tickHandle);
+            this.tickHandle = null;
         }
     }
 
@@ -157,20 +358,37 @@ export class BehaviorTree {
      */
     public stop(): void {
         this.pause();
+        this.halt();
         this.reset();
-        this.blackboard.clear();
+        this.blackboard.reset(); // Back to schema defaults
         this.state = 'idle';
         this.notifyStateChange();
     }
 
+    /**
+     * Interrupts all running nodes, giving them a chance to clean up (OnAbort)
+     */
+    public halt(): void {
+        if (this.root) {
+            this.root.halt(this.blackboard);
+        }
+        this.getStartNodes().forEach(startNode => startNode.halt(this.blackboard));
+    }
+
     /**
      * Resets the entire tree to initial state
      */
     public reset(): void {
         this.tickCount = 0;
+        this.stepper = null;
+        this.random.restart();
+        this.treeDebugger?.reset();
         if (this.root) {
             this.root.reset();
         }
+
+        // Start nodes are not necessarily part of the root hierarchy
+        this.getStartNodes().forEach(startNode => startNode.reset());
     }
 
     /**
@@ -187,6 +405,60 @@ export class BehaviorTree {
         return status;
     }
 
+    /**
+     * Steps into the next node of the tick in progress: stops before its first
+     * child (nodes without children just run). The tree is paused while stepping.
+     * When no tick is in progress, a new one starts and stops before its first node.
+     * @returns The node about to execute (null when the tick finished)
+     */
+    public stepInto(): TreeNode | null {
+        return this.stepNode(stepper => stepper.stepInto());
+    }
+
+    /**
+     * Runs the next node with its whole subtree (see stepInto)
+     * @returns The node about to execute (null when the tick finished)
+     */
+    public stepOver(): TreeNode | null {
+        return this.stepNode(stepper => stepper.stepOver());
+    }
+
+    /**
+     * Runs until the parent of the next node has finished (see stepInto)
+     * @returns The node about to execute (null when the tick finished)
+     */
+    public stepOut(): TreeNode | null {
+        return this.stepNode(stepper => stepper.stepOut());
+    }
+
+    /**
+     * Gets the node about to execute in the tick being stepped through
+     */
+    public getNextNode(): TreeNode | null {
+        return this.stepper ? this.stepper.getNextNode() : null;
+    }
+
+    /**
+     * Gets the nodes entered but not finished in the tick being stepped through
+     */
+    public getActiveNodes(): TreeNode[] {
+        return this.stepper ? this.stepper.getActiveNodes() : [];
+    }
+
+    private stepNode(action: (stepper: TickStepper) => void): TreeNode | null {
+        this.pause();
+
+        // The first step only starts the tick
+        const starting = this.stepper === null;
+        this.stepTick(starting ? () => {} : action);
+
+        if (this.state === 'idle') {
+            this.state = 'paused';
+        }
+        this.notifyStateChange();
+        return this.getNextNode();
+    }
+
     /**
      * Sets the tick rate (ticks per second)
      */
@@ -221,6 +493,13 @@ export class BehaviorTree {
         this.onStateChangeCallbacks.push(callback);
     }
 
+    /**
+     * Registers a callback for breakpoint hits (called after the tree paused)
+     */
+    public onBreak(callback: (hit: BreakpointHit) => void): void {
+        this.onBreakCallbacks.push(callback);
+    }
+
     /**
      * Gets all nodes in the tree (flattened)
      */
@@ -248,6 +527,18 @@ export class BehaviorTree {
         return allNodes.find(node => node.id === id) || null;
     }
 
+    /**
+     * Finds a node by ID, or else by label (the first node with it),
+     * including nodes that are not connected to the root
+     * @param exclude - Node skipped by the label lookup (e.g. the one asking)
+     */
+    public findNode(reference: string, exclude?: TreeNode): TreeNode | null {
+        const nodes = [...this.allNodes, ...this.deserializedNodes, ...this.getAllNodes()];
+        return nodes.find(node => node.id === reference) ||
+            nodes.find(node => node.label === reference && node !== exclude) ||
+            null;
+    }
+
     /**
      * Serializes the tree to JSON
      */
@@ -264,10 +555,13 @@ export class BehaviorTree {
             },
             tree: {
                 nodes: allNodes.map(node => node.toJSON()),
-                root: this.root ? this.root.id : null
+                root: this.root ? this.root.id : null,
+                randomSeed: this.random.getSeed()
             },
             blackboard: {
-                initialValues: this.blackboard.toJSON()
+                initialValues: this.blackboard.toJSON(),
+                schema: this.blackboard.getSchema().toJSON(),
+                strict: this.blackboard.strict
             }
         };
     }
@@ -343,13 +637,23 @@ export class BehaviorTree {
             }
         }
 
-        // Load blackboard
-        if (data.blackboard && data.blackboard.initialValues) {
-            this.blackboard.fromJSON(data.blackboard.initialValues);
+        // Replay random composites from the saved seed (trees saved without one keep theirs)
+        if (typeof data.tree.randomSeed === 'number') {
+            this.random.setSeed(data.tree.randomSeed);
         }
 
+        // Load blackboard schema, then seed defaults overridden by saved values
+        const blackboardData = data.blackboard || {};
+        this.blackboard.setSchema(BlackboardSchema.fromJSON(blackboardData.schema));
+        this.blackboard.strict = blackboardData.strict === true;
+        this.blackboard.fromJSON({
+            ...this.blackboard.getSchema().getDefaults(),
+            ...(blackboardData.initialValues || {})
+        });
+
         // Store all deserialized nodes (includes disconnected nodes)
         this.deserializedNodes = Array.from(nodeMap.values());
+        this.linkNodes(this.deserializedNodes);
     }
 
     /**
@@ -364,7 +668,10 @@ export class BehaviorTree {
      */
     public dispose(): void {
         this.stop();
+        Array.from(new Set([...this.allNodes, ...this.deserializedNodes, ...this.getAllNodes()]))
+            .forEach(node => node.unlink());
         this.onTickCallbacks = [];
         this.onStateChangeCallbacks = [];
+        this.onBreakCallbacks = [];
     }
 }
@@ -1,22 +1,160 @@
+import { BlackboardSchema } from './BlackboardSchema.js';
+
+/**
+ * Describes a single change to a blackboard key
+ */
+export interface BlackboardChange {
+    key: string;
+    oldValue: any;
+    newValue: any;    // undefined when the key was deleted
+    nodeId?: string;  // The node that wrote the value (if known)
+}
+
+/**
+ * Callback invoked when an observed blackboard key changes
+ */
+export type BlackboardChangeHandler = (change: BlackboardChange) => void;
+
+/**
+ * Options for a child scope created with Blackboard.createScope()
+ */
+export interface BlackboardScopeOptions {
+    // Port remapping: local key → key in the parent scope (read and written through)
+    ports?: Record<string, string>;
+    // If true, unmapped keys do not fall back to the parent scope
+    isolated?: boolean;
+}
+
+/**
+ * Resolved location of a key within a scope chain
+ */
+interface ScopedKey {
+    blackboard: Blackboard;
+    key: string;
+}
+
 /**
  * Blackboard: A key-value data store for sharing information between nodes.
  *
  * This implements the classic "Blackboard" pattern used in behavior trees,
  * allowing nodes to read and write shared state without tight coupling.
+ *
+ * Keys can be declared in a BlackboardSchema. In strict mode, reads of
+ * undeclared keys and writes of undeclared keys or mistyped values throw
+ * (inside node code this surfaces as a FAILURE with an error message).
+ * Keys starting with `__` are reserved for the editor and never checked.
+ *
+ * Blackboards can be chained into scopes (see createScope()):
+ * - Reads of keys missing from a scope fall back to its parent
+ * - Writes stay in the local scope, except for ported keys, which are
+ *   remapped to a key of the parent scope
+ * - Keys prefixed with `@` always address the root of the chain, e.g. a
+ *   global blackboard shared by several trees (`blackboard.set('@squadTarget', id)`)
+ *
+ * keys(), entries(), toJSON() and change notifications only cover the local scope.
+ * Scopes inherit strict mode from their parent unless it is set on the scope,
+ * and keys not declared in a scope's schema are looked up in the schemas of
+ * its enclosing scopes (not across an isolated scope).
  */
 export class Blackboard {
     private data: Map<string, any>;
     private accessLog: Map<string, Set<string>>; // Track which nodes access which keys
+    private writers: Map<string, string>; // Last node that wrote each key
+    private listeners: Map<string, Set<BlackboardChangeHandler>>; // Change observers per key
+    private schema: BlackboardSchema; // Declared keys, types and defaults
+
+    // Enforce the schema in get/set (null = inherited from the parent scope)
+    private strictMode: boolean | null = null;
+
+    // Enclosing scope (null for a root blackboard)
+    public readonly parent: Blackboard | null;
+    private ports: Record<string, string>;
+    private isolated: boolean;
 
-    constructor() {
+    constructor(parent: Blackboard | null = null, options: BlackboardScopeOptions = {}) {
         this.data = new Map();
         this.accessLog = new Map();
+        this.writers = new Map();
+        this.listeners = new Map();
+        this.schema = new BlackboardSchema();
+        this.parent = parent;
+        this.ports = { ...(options.ports || {}) };
+        this.isolated = options.isolated === true;
+    }
+
+    /**
+     * Whether get/set enforce the schema (inherited from the parent scope unless set)
+     */
+    get strict(): boolean {
+        return this.strictMode ?? this.parent?.strict ?? false;
+    }
+
+    set strict(strict: boolean) {
+        this.strictMode = strict;
+    }
+
+    /**
+     * Creates a child scope whose reads fall back to this blackboard
+     */
+    createScope(options: BlackboardScopeOptions = {}): Blackboard {
+        return new Blackboard(this, options);
+    }
+
+    /**
+     * Gets the outermost blackboard of the scope chain (this one if it has no parent)
+     */
+    getRoot(): Blackboard {
+        let root: Blackboard = this;
+        while (root.parent) {
+            root = root.parent;
+        }
+        return root;
+    }
+
+    /**
+     * Gets the port remapping of this scope (local key → parent key)
+     */
+    getPorts(): Record<string, string> {
+        return { ...this.ports };
+    }
+
+    /**
+     * Gets the schema of declared keys
+     */
+    getSchema(): BlackboardSchema {
+        return this.schema;
+    }
+
+    /**
+     * Replaces the schema of declared keys (does not change current values)
+     */
+    setSchema(schema: BlackboardSchema): void {
+        this.schema = schema;
+    }
+
+    /**
+     * Finds the schema that declares a key: this scope's, or that of an
+     * enclosing scope (not across an isolated scope)
+     */
+    private findSchema(key: string): BlackboardSchema | null {
+        if (this.schema.has(key)) {
+            return this.schema;
+        }
+        return this.parent && !this.isolated ? this.parent.findSchema(key) : null;
     }
 
     /**
      * Gets a value from the blackboard
+     * @throws Error in strict mode if the key is not declared in the schema
      */
     get<T = any>(key: string, nodeId?: string): T | undefined {
+        // Ported and root (@) keys live in another scope
+        const scoped = this.resolve(key);
+        if (scoped.blackboard !== this) {
+            return scoped.blackboard.get<T>(scoped.key, nodeId);
+        }
+        key = scoped.key;
+
         // Track access for future data flow visualization
         if (nodeId) {
             if (!this.accessLog.has(key)) {
@@ -25,13 +163,43 @@ export class Blackboard {
             this.accessLog.get(key)!.add(nodeId);
         }
 
-        return this.data.get(key) as T | undefined;
+        if (this.data.has(key)) {
+            return this.data.get(key) as T;
+        }
+
+        // Fall back to the enclosing scope
+        if (this.parent && !this.isolated && this.parent.has(key)) {
+            return this.parent.get<T>(key, nodeId);
+        }
+
+        if (this.strict && !Blackboard.isReservedKey(key) && !this.findSchema(key)) {
+            throw new Error(`Unknown blackboard key "${key}" (not declared in the blackboard schema)`);
+        }
+
+        return undefined;
     }
 
     /**
      * Sets a value in the blackboard
+     * @throws Error in strict mode if the key is not declared or the value has the wrong type
      */
     set<T = any>(key: string, value: T, nodeId?: string): void {
+        // Ported and root (@) keys are written to the scope they map to
+        const scoped = this.resolve(key);
+        if (scoped.blackboard !== this) {
+            scoped.blackboard.set(scoped.key, value, nodeId);
+            return;
+        }
+        key = scoped.key;
+
+        if (this.strict && !Blackboard.isReservedKey(key)) {
+            const error = (this.findSchema(key) || this.schema).validate(key, value);
+            if (error) {
+                throw new Error(error);
+            }
+        }
+
+        const oldValue = this.data.get(key);
         this.data.set(key, value);
 
         // Track write access
@@ -40,30 +208,132 @@ export class Blackboard {
                 this.accessLog.set(key, new Set());
             }
             this.accessLog.get(key)!.add(nodeId);
+            this.writers.set(key, nodeId);
+        } else {
+            this.writers.delete(key);
+        }
+
+        // Objects may have been mutated in place, so always report them
+        if (!Object.is(oldValue, value) || (typeof value === 'object' && value !== null)) {
+            this.notify(key, oldValue, value, nodeId);
         }
     }
 
     /**
-     * Checks if a key exists in the blackboard
+     * Checks if a key exists in the blackboard (or is visible from an enclosing scope)
      */
     has(key: string): boolean {
-        return this.data.has(key);
+        const scoped = this.resolve(key);
+        if (scoped.blackboard !== this) {
+            return scoped.blackboard.has(scoped.key);
+        }
+
+        if (this.data.has(scoped.key)) {
+            return true;
+        }
+        return this.parent !== null && !this.isolated && this.parent.has(scoped.key);
     }
 
     /**
-     * Deletes a key from the blackboard
+     * Deletes a key from the blackboard (ported and root keys are deleted where they live)
      */
     delete(key: string): boolean {
+        const scoped = this.resolve(key);
+        if (scoped.blackboard !== this) {
+            return scoped.blackboard.delete(scoped.key);
+        }
+        key = scoped.key;
+
+        const oldValue = this.data.get(key);
         this.accessLog.delete(key);
-        return this.data.delete(key);
+        this.writers.delete(key);
+        const deleted = this.data.delete(key);
+
+        if (deleted) {
+            this.notify(key, oldValue, undefined);
+        }
+
+        return deleted;
     }
 
     /**
      * Clears all data from the blackboard
+     * (change observers stay registered and are notified for each removed key)
      */
     clear(): void {
+        const removed = this.entries();
         this.data.clear();
         this.accessLog.clear();
+        this.writers.clear();
+
+        removed.forEach(([key, oldValue]) => this.notify(key, oldValue, undefined));
+    }
+
+    /**
+     * Clears all data and seeds every declared key with its schema default
+     */
+    reset(): void {
+        this.fromJSON(this.schema.getDefaults());
+    }
+
+    /**
+     * Registers a handler that is called whenever the given key changes.
+     *
+     * Patterns ending in `*` are wildcards: `'*'` observes every key and
+     * `'enemy.*'` observes every key starting with `enemy.`.
+     *
+     * @returns A function that removes the handler
+     */
+    onChange(key: string, handler: BlackboardChangeHandler): () => void {
+        if (!this.listeners.has(key)) {
+            this.listeners.set(key, new Set());
+        }
+        this.listeners.get(key)!.add(handler);
+
+        return () => {
+            const handlers = this.listeners.get(key);
+            if (handlers) {
+                handlers.delete(handler);
+                if (handlers.size === 0) {
+                    this.listeners.delete(key);
+                }
+            }
+        };
+    }
+
+    /**
+     * Notifies observers of a key change
+     */
+    private notify(key: string, oldValue: any, newValue: any, nodeId?: string): void {
+        if (this.listeners.size === 0) return;
+
+        // Collect first so handlers can unsubscribe while being notified
+        const handlers: BlackboardChangeHandler[] = [];
+        this.listeners.forEach((patternHandlers, pattern) => {
+            if (Blackboard.matches(pattern, key)) {
+                handlers.push(...patternHandlers);
+            }
+        });
+
+        const change: BlackboardChange = { key, oldValue, newValue, nodeId };
+
+        handlers.forEach(handler => {
+            try {
+                handler(change);
+            } catch (error) {
+                console.error(`Blackboard change handler for "${key}" failed:`, error);
+            }
+        });
+    }
+
+    /**
+     * Checks if a key matches a subscription pattern (exact key or `prefix*`)
+     */
+    private static matches(pattern: string, key: string): boolean {
+        if (pattern.endsWith('*')) {
+            return key.startsWith(pattern.slice(0, -1));
+        }
+        return pattern === key;
     }
 
     /**
@@ -96,6 +366,25 @@ export class Blackboard {
         return nodeIds ? Array.from(nodeIds) : [];
     }
 
+    /**
+     * Gets the node that last wrote a key (null if unknown)
+     * Keys inherited from an enclosing scope report the writer in that scope.
+     */
+    getLastWriter(key: string): string | null {
+        const scoped = this.resolve(key);
+        if (scoped.blackboard !== this) {
+            return scoped.blackboard.getLastWriter(scoped.key);
+        }
+
+        if (this.data.has(scoped.key)) {
+            return this.writers.get(scoped.key) || null;
+        }
+        if (this.parent && !this.isolated) {
+            return this.parent.getLastWriter(scoped.key);
+        }
+        return null;
+    }
+
     /**
      * Serializes the blackboard to JSON
      */
@@ -114,15 +403,58 @@ export class Blackboard {
         this.clear();
         Object.entries(data).forEach(([key, value]) => {
             this.data.set(key, value);
+            this.notify(key, undefined, value);
         });
     }
 
     /**
-     * Creates a clone of this blackboard
+     * Creates a clone of this blackboard (including its schema and scope settings)
      */
     clone(): Blackboard {
-        const cloned = new Blackboard();
+        const cloned = new Blackboard(this.parent, { ports: this.ports, isolated: this.isolated });
         cloned.fromJSON(this.toJSON());
+        cloned.setSchema(this.schema.clone());
+        cloned.strictMode = this.strictMode;
         return cloned;
     }
+
+    /**
+     * Parses a port remapping written as `local=parent` pairs, e.g.
+     * `target=enemy, result=@squadTarget` (a bare `key` maps to itself)
+     */
+    static parsePorts(text: string): Record<string, string> {
+        const ports: Record<string, string> = {};
+
+        (text || '').split(',').forEach(entry => {
+            const [local, remote] = entry.split('=').map(part => part.trim());
+            if (local) {
+                ports[local] = remote || local;
+            }
+        });
+
+        return ports;
+    }
+
+    /**
+     * Finds the scope a key refers to, following `@` prefixes and port remapping
+     */
+    private resolve(key: string): ScopedKey {
+        if (key.startsWith('@')) {
+            const root = this.getRoot();
+            return root === this ? { blackboard: this, key: key.slice(1) } : root.resolve(key);
+        }
+
+        if (this.parent && this.ports[key] !== undefined) {
+            return this.parent.resolve(this.ports[key]);
+        }
+
+        return { blackboard: this, key };
+    }
+
+    /**
+     * Checks if a key is reserved for editor bookkeeping (e.g. `__error_<nodeId>`)
+     */
+    private static isReservedKey(key: string): boolean {
+        return key.startsWith('__');
+    }
 }
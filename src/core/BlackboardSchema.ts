@@ -0,0 +1,219 @@
+/**
+ * Value types a blackboard key can be declared with
+ * - vector: { x: number, y: number, z?: number }
+ * - entity-ref: ID string of a game entity (or null when unset)
+ */
+export type BlackboardValueType = 'number' | 'string' | 'boolean' | 'vector' | 'object' | 'entity-ref';
+
+/**
+ * Declaration of a single blackboard key
+ */
+export interface BlackboardKeyDefinition {
+    key: string;
+    type: BlackboardValueType;
+    defaultValue: any;
+    description?: string;
+}
+
+/**
+ * BlackboardSchema: Tree-level declaration of the keys a blackboard holds.
+ *
+ * The schema is saved with the tree, seeds the blackboard with default values
+ * on reset, and is enforced by Blackboard.set/get when the blackboard is in
+ * strict mode (see Blackboard.strict).
+ */
+export class BlackboardSchema {
+    public static readonly TYPES: BlackboardValueType[] = ['number', 'string', 'boolean', 'vector', 'object', 'entity-ref'];
+
+    private definitions: Map<string, BlackboardKeyDefinition> = new Map();
+
+    /**
+     * Declares a key (replacing any previous declaration with the same name)
+     * @throws Error if the key is empty, the type is unknown or the default does not match the type
+     */
+    public define(definition: BlackboardKeyDefinition): void {
+        const key = definition.key ? definition.key.trim() : '';
+        if (key === '') {
+            throw new Error('Blackboard key name cannot be empty');
+        }
+
+        if (!BlackboardSchema.TYPES.includes(definition.type)) {
+            throw new Error(`Unknown blackboard type "${definition.type}" for key "${key}"`);
+        }
+
+        if (!BlackboardSchema.matchesType(definition.type, definition.defaultValue)) {
+            throw new Error(
+                `Default value for blackboard key "${key}" must be of type ${definition.type}, ` +
+                `got ${BlackboardSchema.describeValue(definition.defaultValue)}`
+            );
+        }
+
+        this.definitions.set(key, { ...definition, key });
+    }
+
+    /**
+     * Removes a key declaration
+     */
+    public remove(key: string): boolean {
+        return this.definitions.delete(key);
+    }
+
+    /**
+     * Gets the declaration of a key
+     */
+    public get(key: string): BlackboardKeyDefinition | undefined {
+        return this.definitions.get(key);
+    }
+
+    /**
+     * Checks if a key is declared
+     */
+    public has(key: string): boolean {
+        return this.definitions.has(key);
+    }
+
+    /**
+     * Gets all key declarations (in declaration order)
+     */
+    public getDefinitions(): BlackboardKeyDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /**
+     * Returns the number of declared keys
+     */
+    public size(): number {
+        return this.definitions.size;
+    }
+
+    /**
+     * Validates a write against the schema
+     * @returns null if valid, or an error message if invalid
+     */
+    public validate(key: string, value: any): string | null {
+        const definition = this.definitions.get(key);
+        if (!definition) {
+            return `Unknown blackboard key "${key}" (not declared in the blackboard schema)`;
+        }
+
+        if (!BlackboardSchema.matchesType(definition.type, value)) {
+            return `Blackboard key "${key}" expects ${definition.type}, got ${BlackboardSchema.describeValue(value)}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the default value of every declared key.
+     * Object defaults are copied so the schema cannot be mutated through the blackboard.
+     */
+    public getDefaults(): Record<string, any> {
+        const defaults: Record<string, any> = {};
+        this.definitions.forEach(definition => {
+            defaults[definition.key] = BlackboardSchema.copyValue(definition.defaultValue);
+        });
+        return defaults;
+    }
+
+    /**
+     * Checks if a value is valid for a type
+     */
+    public static matchesType(type: BlackboardValueType, value: any): boolean {
+        switch (type) {
+            case 'number':
+                return typeof value === 'number' && !isNaN(value);
+            case 'string':
+                return typeof value === 'string';
+            case 'boolean':
+                return typeof value === 'boolean';
+            case 'vector':
+                return (
+                    value !== null &&
+                    typeof value === 'object' &&
+                    typeof value.x === 'number' &&
+                    typeof value.y === 'number' &&
+                    (value.z === undefined || typeof value.z === 'number')
+                );
+            case 'object':
+                return value === null || typeof value === 'object';
+            case 'entity-ref':
+                return value === null || typeof value === 'string';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Returns a sensible default value for a type
+     */
+    public static getDefaultValue(type: BlackboardValueType): any {
+        switch (type) {
+            case 'number':
+                return 0;
+            case 'string':
+                return '';
+            case 'boolean':
+                return false;
+            case 'vector':
+                return { x: 0, y: 0 };
+            case 'object':
+                return {};
+            case 'entity-ref':
+                return null;
+        }
+    }
+
+    /**
+     * Serializes the schema to JSON
+     */
+    public toJSON(): BlackboardKeyDefinition[] {
+        return this.getDefinitions().map(definition => ({
+            ...definition,
+            defaultValue: BlackboardSchema.copyValue(definition.defaultValue)
+        }));
+    }
+
+    /**
+     * Creates a schema from JSON (invalid declarations are skipped with a warning)
+     */
+    public static fromJSON(data: any): BlackboardSchema {
+        const schema = new BlackboardSchema();
+
+        if (!Array.isArray(data)) {
+            return schema;
+        }
+
+        data.forEach(definition => {
+            try {
+                schema.define(definition);
+            } catch (error) {
+                console.warn('Skipping invalid blackboard schema entry:', definition, error);
+            }
+        });
+
+        return schema;
+    }
+
+    /**
+     * Creates an independent copy of this schema
+     */
+    public clone(): BlackboardSchema {
+        return BlackboardSchema.fromJSON(this.toJSON());
+    }
+
+    /**
+     * Describes a value's type for error messages
+     */
+    private static describeValue(value: any): string {
+        if (value === null) return 'null';
+        if (Array.isArray(value)) return 'array';
+        return typeof value;
+    }
+
+    /**
+     * Copies object values (primitives are returned as-is)
+     */
+    private static copyValue(value: any): any {
+        return value !== null && typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value;
+    }
+}
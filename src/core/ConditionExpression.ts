@@ -0,0 +1,126 @@
+import { Blackboard } from './Blackboard.js';
+
+/**
+ * Operators of a blackboard condition
+ * - ==, !=: Equality (objects and vectors are compared by value)
+ * - <, <=, >, >=: Order of two numbers or two strings (false for other types)
+ * - is set, is not set: Whether the key holds a value other than undefined/null
+ */
+export type ConditionOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'is set' | 'is not set';
+
+/**
+ * What the key is compared to: a literal value or another blackboard key
+ */
+export type ConditionOperand = 'value' | 'key';
+
+/**
+ * A declarative condition on a blackboard key, e.g. `health < 20`
+ */
+export interface BlackboardCondition {
+    key: string;
+    operator: ConditionOperator;
+    compareTo: ConditionOperand;
+    // Literal (JSON, e.g. `20`, `true`, `"idle"`; other text is a string) or key name
+    value: string;
+}
+
+/**
+ * ConditionExpression: Evaluates declarative blackboard conditions
+ *
+ * Used by Condition nodes in builder mode. Values are parsed as JSON when
+ * possible, so `20` is a number and `idle` or `"idle"` a string.
+ */
+export class ConditionExpression {
+    public static readonly OPERATORS: ConditionOperator[] = ['==', '!=', '<', '<=', '>', '>=', 'is set', 'is not set'];
+    public static readonly OPERANDS: ConditionOperand[] = ['value', 'key'];
+
+    /**
+     * Evaluates a condition against a blackboard
+     * @param condition - The condition
+     * @param blackboard - The blackboard to read from
+     * @param nodeId - Node reading the keys (for dependency tracking)
+     * @throws Error if the key is empty or the operator is unknown
+     */
+    public static evaluate(condition: BlackboardCondition, blackboard: Blackboard, nodeId?: string): boolean {
+        const key = condition.key ? condition.key.trim() : '';
+        if (key === '') {
+            throw new Error('No blackboard key selected');
+        }
+
+        const left = blackboard.get(key, nodeId);
+
+        switch (condition.operator) {
+            case 'is set':
+                return left !== undefined && left !== null;
+            case 'is not set':
+                return left === undefined || left === null;
+        }
+
+        const right = condition.compareTo === 'key'
+            ? blackboard.get(condition.value.trim(), nodeId)
+            : this.parseValue(condition.value);
+
+        switch (condition.operator) {
+            case '==':
+                return this.equals(left, right);
+            case '!=':
+                return !this.equals(left, right);
+            case '<':
+            case '<=':
+            case '>':
+            case '>=':
+                return this.compare(left, right, condition.operator);
+            default:
+                throw new Error(`Unknown condition operator "${condition.operator}"`);
+        }
+    }
+
+    /**
+     * Describes a condition as text, e.g. `health < 20` or `ammo >= maxAmmo`
+     */
+    public static describe(condition: BlackboardCondition): string {
+        const key = condition.key.trim() || '?';
+        if (condition.operator === 'is set' || condition.operator === 'is not set') {
+            return `${key} ${condition.operator}`;
+        }
+
+        const value = condition.compareTo === 'key'
+            ? condition.value.trim() || '?'
+            : JSON.stringify(this.parseValue(condition.value));
+        return `${key} ${condition.operator} ${value}`;
+    }
+
+    /**
+     * Parses a literal: JSON if possible, otherwise the text itself
+     */
+    public static parseValue(text: string): any {
+        const trimmed = (text || '').trim();
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return trimmed;
+        }
+    }
+
+    private static equals(left: any, right: any): boolean {
+        if (left !== null && right !== null && typeof left === 'object' && typeof right === 'object') {
+            return JSON.stringify(left) === JSON.stringify(right);
+        }
+        return left === right;
+    }
+
+    private static compare(left: any, right: any, operator: '<' | '<=' | '>' | '>='): boolean {
+        const comparable = (typeof left === 'number' && typeof right === 'number') ||
+            (typeof left === 'string' && typeof right === 'string');
+        if (!comparable) {
+            return false;
+        }
+
+        switch (operator) {
+            case '<': return left < right;
+            case '<=': return left <= right;
+            case '>': return left > right;
+            case '>=': return left >= right;
+        }
+    }
+}
@@ -2,14 +2,33 @@ import { NodeRegistry } from './NodeRegistry.js';
 import { SequenceNode } from '../nodes/composites/SequenceNode.js';
 import { SelectorNode } from '../nodes/composites/SelectorNode.js';
 import { ParallelNode } from '../nodes/composites/ParallelNode.js';
+import { ReactiveSequenceNode } from '../nodes/composites/ReactiveSequenceNode.js';
+import { ReactiveSelectorNode } from '../nodes/composites/ReactiveSelectorNode.js';
+import { RandomSelectorNode } from '../nodes/composites/RandomSelectorNode.js';
+import { RandomSequenceNode } from '../nodes/composites/RandomSequenceNode.js';
+import { WeightedRandomSelectorNode } from '../nodes/composites/WeightedRandomSelectorNode.js';
 import { InverterNode } from '../nodes/decorators/InverterNode.js';
 import { RepeaterNode } from '../nodes/decorators/RepeaterNode.js';
 import { UntilFailNode } from '../nodes/decorators/UntilFailNode.js';
 import { UntilSuccessNode } from '../nodes/decorators/UntilSuccessNode.js';
+import { ConditionalNode } from '../nodes/decorators/ConditionalNode.js';
+import { ScopeNode } from '../nodes/decorators/ScopeNode.js';
+import { TimeoutNode } from '../nodes/decorators/TimeoutNode.js';
+import { TimeLimitNode } from '../nodes/decorators/TimeLimitNode.js';
+import { CooldownNode } from '../nodes/decorators/CooldownNode.js';
+import { DelayNode } from '../nodes/decorators/DelayNode.js';
+import { RetryNode } from '../nodes/decorators/RetryNode.js';
+import { BlackboardConditionNode } from '../nodes/decorators/BlackboardConditionNode.js';
+import { IsSetNode } from '../nodes/decorators/IsSetNode.js';
+import { ForceSuccessNode } from '../nodes/decorators/ForceSuccessNode.js';
+import { ForceFailureNode } from '../nodes/decorators/ForceFailureNode.js';
+import { SucceederNode } from '../nodes/decorators/SucceederNode.js';
 import { StartNode } from '../nodes/decorators/StartNode.js';
 import { ActionNode } from '../nodes/leaves/ActionNode.js';
 import { WaitNode } from '../nodes/leaves/WaitNode.js';
 import { GoToNode } from '../nodes/leaves/GoToNode.js';
+import { SubTreeNode } from '../nodes/leaves/SubTreeNode.js';
+import { ConditionNode } from '../nodes/leaves/ConditionNode.js';
 
 /**
  * Registers all default node types with the NodeRegistry.
@@ -58,6 +77,56 @@ export function registerDefaultNodes(): void {
         tags: ['composite', 'control', 'parallel', 'concurrent']
     });
 
+    NodeRegistry.register({
+        type: 'reactive-sequence',
+        category: 'composite',
+        label: 'Reactive Sequence',
+        description: 'Sequence that re-checks earlier children every tick and aborts the running child if one fails',
+        icon: 'fa-stream',
+        factory: () => new ReactiveSequenceNode(),
+        tags: ['composite', 'control', 'sequence', 'reactive', 'guard', 'abort']
+    });
+
+    NodeRegistry.register({
+        type: 'reactive-selector',
+        category: 'composite',
+        label: 'Reactive Selector',
+        description: 'Selector that re-checks higher-priority children every tick and preempts lower-priority branches',
+        icon: 'fa-code-branch',
+        factory: () => new ReactiveSelectorNode(),
+        tags: ['composite', 'control', 'selector', 'reactive', 'priority', 'abort']
+    });
+
+    NodeRegistry.register({
+        type: 'random-selector',
+        category: 'composite',
+        label: 'Random Selector',
+        description: 'Tries children in a random order until one succeeds',
+        icon: 'fa-dice',
+        factory: () => new RandomSelectorNode(),
+        tags: ['composite', 'control', 'selector', 'random', 'shuffle', 'or']
+    });
+
+    NodeRegistry.register({
+        type: 'random-sequence',
+        category: 'composite',
+        label: 'Random Sequence',
+        description: 'Runs children in a random order until one fails',
+        icon: 'fa-shuffle',
+        factory: () => new RandomSequenceNode(),
+        tags: ['composite', 'control', 'sequence', 'random', 'shuffle', 'and']
+    });
+
+    NodeRegistry.register({
+        type: 'weighted-random-selector',
+        category: 'composite',
+        label: 'Weighted Random Selector',
+        description: 'Picks children at random in proportion to their weights until one succeeds',
+        icon: 'fa-scale-balanced',
+        factory: () => new WeightedRandomSelectorNode(),
+        tags: ['composite', 'control', 'selector', 'random', 'weight', 'probability', 'chance']
+    });
+
     // Decorator Nodes
     NodeRegistry.register({
         type: 'inverter',
@@ -99,6 +168,136 @@ export function registerDefaultNodes(): void {
         tags: ['decorator', 'until', 'success', 'loop']
     });
 
+    NodeRegistry.register({
+        type: 'conditional',
+        category: 'decorator',
+        label: 'Conditional',
+        description: 'Runs its child while a condition holds, with optional observer aborts',
+        icon: 'fa-eye',
+        factory: () => new ConditionalNode(),
+        tags: ['decorator', 'condition', 'guard', 'observer', 'abort', 'if']
+    });
+
+    NodeRegistry.register({
+        type: 'scope',
+        category: 'decorator',
+        label: 'Blackboard Scope',
+        description: 'Runs its child with a local blackboard scope and key remapping',
+        icon: 'fa-layer-group',
+        factory: () => new ScopeNode(),
+        tags: ['decorator', 'blackboard', 'scope', 'local', 'ports', 'remap']
+    });
+
+    NodeRegistry.register({
+        type: 'timeout',
+        category: 'decorator',
+        label: 'Timeout',
+        description: 'Fails its child if it runs longer than a number of seconds',
+        icon: 'fa-hourglass-end',
+        factory: () => new TimeoutNode(),
+        tags: ['decorator', 'timeout', 'time', 'seconds', 'abort', 'fail']
+    });
+
+    NodeRegistry.register({
+        type: 'time-limit',
+        category: 'decorator',
+        label: 'Time Limit',
+        description: 'Runs its child for at most a number of seconds, then succeeds',
+        icon: 'fa-stopwatch',
+        factory: () => new TimeLimitNode(),
+        tags: ['decorator', 'time', 'limit', 'seconds', 'duration']
+    });
+
+    NodeRegistry.register({
+        type: 'cooldown',
+        category: 'decorator',
+        label: 'Cooldown',
+        description: 'Blocks its child for a number of seconds after it completed',
+        icon: 'fa-snowflake',
+        factory: () => new CooldownNode(),
+        tags: ['decorator', 'cooldown', 'time', 'seconds', 'throttle', 'rate']
+    });
+
+    NodeRegistry.register({
+        type: 'delay',
+        category: 'decorator',
+        label: 'Delay',
+        description: 'Waits a number of seconds before starting its child',
+        icon: 'fa-hourglass-start',
+        factory: () => new DelayNode(),
+        tags: ['decorator', 'delay', 'time', 'seconds', 'wait']
+    });
+
+    NodeRegistry.register({
+        type: 'retry',
+        category: 'decorator',
+        label: 'Retry',
+        description: 'Runs its child again when it fails, up to a number of attempts',
+        icon: 'fa-sync',
+        factory: () => new RetryNode(),
+        tags: ['decorator', 'retry', 'attempts', 'backoff', 'again', 'repeat']
+    });
+
+    NodeRegistry.register({
+        type: 'blackboard-condition',
+        category: 'decorator',
+        label: 'Blackboard Condition',
+        description: 'Only runs its child while a blackboard key compares to a value or another key',
+        icon: 'fa-clipboard-check',
+        factory: () => new BlackboardConditionNode(),
+        tags: ['decorator', 'blackboard', 'condition', 'guard', 'compare', 'if']
+    });
+
+    NodeRegistry.register({
+        type: 'is-set',
+        category: 'decorator',
+        label: 'Is Set',
+        description: 'Only runs its child while a blackboard key is set',
+        icon: 'fa-check-square',
+        factory: () => new IsSetNode(true),
+        tags: ['decorator', 'blackboard', 'guard', 'key', 'exists', 'set']
+    });
+
+    NodeRegistry.register({
+        type: 'is-not-set',
+        category: 'decorator',
+        label: 'Is Not Set',
+        description: 'Only runs its child while a blackboard key is not set',
+        icon: 'fa-square',
+        factory: () => new IsSetNode(false),
+        tags: ['decorator', 'blackboard', 'guard', 'key', 'missing', 'unset']
+    });
+
+    NodeRegistry.register({
+        type: 'force-success',
+        category: 'decorator',
+        label: 'Force Success',
+        description: 'Succeeds once its child completes, whatever the result',
+        icon: 'fa-check',
+        factory: () => new ForceSuccessNode(),
+        tags: ['decorator', 'success', 'force', 'ignore', 'always']
+    });
+
+    NodeRegistry.register({
+        type: 'force-failure',
+        category: 'decorator',
+        label: 'Force Failure',
+        description: 'Fails once its child completes, whatever the result',
+        icon: 'fa-times',
+        factory: () => new ForceFailureNode(),
+        tags: ['decorator', 'failure', 'force', 'fail', 'always']
+    });
+
+    NodeRegistry.register({
+        type: 'succeeder',
+        category: 'decorator',
+        label: 'Succeeder',
+        description: 'Always succeeds at once, ticking its child if it has one',
+        icon: 'fa-check-double',
+        factory: () => new SucceederNode(),
+        tags: ['decorator', 'success', 'succeeder', 'always', 'placeholder']
+    });
+
     // Leaf Nodes (Actions)
     NodeRegistry.register({
         type: 'action',
@@ -124,9 +323,30 @@ export function registerDefaultNodes(): void {
         type: 'goto',
         category: 'leaf',
         label: 'GoTo',
-        description: 'Executes another action node by name',
+        description: 'Runs another node of the tree by id or label',
         icon: 'fa-arrow-right',
         factory: () => new GoToNode(),
         tags: ['leaf', 'action', 'goto', 'jump', 'call', 'delegate']
     });
+
+    NodeRegistry.register({
+        type: 'subtree',
+        category: 'leaf',
+        label: 'SubTree',
+        description: 'Runs another saved tree with its own blackboard scope',
+        icon: 'fa-project-diagram',
+        factory: () => new SubTreeNode(),
+        tags: ['leaf', 'subtree', 'reuse', 'reference', 'include', 'tree']
+    });
+
+    // Condition Nodes
+    NodeRegistry.register({
+        type: 'condition',
+        category: 'condition',
+        label: 'Condition',
+        description: 'Checks a blackboard condition (never RUNNING)',
+        icon: 'fa-question',
+        factory: () => new ConditionNode(),
+        tags: ['condition', 'check', 'compare', 'blackboard', 'if', 'guard']
+    });
 }
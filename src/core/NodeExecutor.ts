@@ -1,11 +1,56 @@
 import { NodeStatus } from './NodeStatus.js';
 import { Blackboard } from './Blackboard.js';
+import { TreeNode } from './TreeNode.js';
+import { Sandbox } from './Sandbox.js';
+import { ScriptHoister } from './ScriptHoister.js';
+
+/**
+ * Lifecycle hooks exported by a structured script
+ */
+interface LifecycleHooks {
+    onStart?: Function;
+    onUpdate?: Function;
+    onEnd?: Function;
+    onAbort?: Function;
+}
+
+/**
+ * Compiled code of one node. Created once per node and code, so the script's
+ * top-level functions (see ScriptHoister) and `state` persist between runs.
+ */
+interface NodeInstance {
+    code: string;
+    run: Function;
+    state: Record<string, any>;
+    // The blackboard last passed in, and its proxy bound to the node
+    blackboard: Blackboard | null;
+    boundBlackboard: Blackboard | null;
+}
 
 /**
  * NodeExecutor: Safely executes user-written JavaScript code within nodes.
  *
  * This class wraps user code in a try-catch block and provides a controlled
  * execution environment with access to the blackboard and NodeStatus enum.
+ * Code is compiled and run by a Sandbox: in an isolated realm, without access
+ * to globals outside a whitelist, and within a time budget per run.
+ *
+ * Code is compiled once and cached by its source. Each node object gets its
+ * own instance of the compiled code (also nodes that share an ID, e.g. in two
+ * trees loaded from the same file), which keeps the script's top-level functions
+ * (OnStart, OnUpdate, OnEnd, ...) and the `state` object between runs until the
+ * node's code changes or invalidate() is called.
+ *
+ * Structured scripts export lifecycle hooks and leave calling them to the
+ * executor (see runLifecycle):
+ *
+ *   export function onStart() { this.state.count = 0; }
+ *   export function onUpdate(tick) { return NodeStatus.SUCCESS; }
+ *   export function onEnd(status) { }
+ *   export function onAbort() { }
+ *
+ * Hooks are called with `this.state`, the node's `state` object. Scripts
+ * without exports (legacy scripts) run their body on every tick as before.
  */
 export class NodeExecutor {
     // Global callback for console.log interception
@@ -14,36 +59,274 @@ export class NodeExecutor {
     // Global callback for execution errors
     public static onError?: (message: string, nodeId?: string) => void;
 
+    // Time budget of one run of node code in ms (0 = unlimited); code over
+    // budget is stopped and the node fails
+    public static timeBudget: number = 100;
+
+    // Realm the code runs in (created on first use)
+    private static sandbox: Sandbox | null = null;
+
+    // Most compiled scripts kept in the cache
+    public static cacheSize: number = 500;
+
+    // Compiled code by source (or the SyntaxError it failed with)
+    private static compiled = new Map<string, Function | SyntaxError>();
+
+    // Instances of compiled code by the node running it
+    private static instances = new WeakMap<TreeNode, NodeInstance>();
+
+    // Names of the variables available to user code that are fixed per node instance
+    // __lifecycle calls the hooks of structured scripts (see runLifecycle)
+    private static readonly INSTANCE_PARAMETERS = ['NodeStatus', 'nodeId', 'console', 'state', '__lifecycle'];
+
+    // Names of the variables passed on every run (in argument order)
+    // __hook selects a lifecycle hook to invoke instead of running the script body
+    private static readonly RUN_PARAMETERS = ['blackboard', 'tick', 'params', 'signal', '__hook'];
+
+    // Dispatches lifecycle hooks of legacy scripts. Function declarations are hoisted,
+    // so the hooks defined anywhere in the script are callable before the body runs.
+    private static readonly HOOK_PRELUDE = `
+        if (__hook === 'abort') {
+            if (typeof OnAbort === 'function') return OnAbort();
+            if (typeof OnEnd === 'function') return OnEnd(NodeStatus.IDLE);
+            return undefined;
+        }
+    `;
+
+    // Hands the hooks of structured scripts to runLifecycle (after the body ran,
+    // so the constants the hooks use are initialized)
+    private static readonly LIFECYCLE_EPILOGUE = `
+        return __lifecycle(__hook, tick, {
+            onStart: typeof onStart === 'function' ? onStart : undefined,
+            onUpdate: typeof onUpdate === 'function' ? onUpdate : undefined,
+            onEnd: typeof onEnd === 'function' ? onEnd : undefined,
+            onAbort: typeof onAbort === 'function' ? onAbort : undefined
+        });
+    `;
+
     /**
      * Executes user code and returns a NodeStatus.
      *
+     * Code may be asynchronous: if it uses top-level `await` or returns a Promise,
+     * a Promise is returned that resolves to the final NodeStatus (FAILURE on
+     * rejection). Long-running async work should observe `signal`, which is
+     * aborted when the node is cancelled.
+     *
      * @param code - The JavaScript code to execute
      * @param blackboard - The blackboard instance for data access
      * @param nodeId - Optional node ID for tracking blackboard access
      * @param tick - Current tick count since node started
      * @param params - Node parameters accessible in code
-     * @returns The resulting NodeStatus, or FAILURE if execution fails
+     * @param signal - Optional abort signal exposed to code for cancellation
+     * @param node - Node running the code, which keeps its instance between runs
+     * @returns The resulting NodeStatus (or a Promise of it), FAILURE if execution fails
      */
     public static execute(
         code: string,
         blackboard: Blackboard,
         nodeId?: string,
         tick?: number,
-        params?: Record<string, any>
-    ): NodeStatus {
+        params?: Record<string, any>,
+        signal?: AbortSignal,
+        node?: TreeNode
+    ): NodeStatus | Promise<NodeStatus> {
         if (!code || code.trim() === '') {
             // Empty code defaults to success
             return NodeStatus.SUCCESS;
         }
 
-        // Wrap user code in strict mode
-        const wrappedCode = `
-            'use strict';
-            ${code}
-        `;
+        try {
+            const result = this.invoke(code, null, blackboard, nodeId, tick, params, signal, node);
+
+            // Asynchronous code: resolve to a validated status
+            if (this.isPromiseLike(result)) {
+                return Promise.resolve(result).then(
+                    value => this.validateResult(value),
+                    error => {
+                        // Cancellation is not an error
+                        if (signal && signal.aborted) {
+                            return NodeStatus.FAILURE;
+                        }
+                        return this.handleError(error, code, blackboard, nodeId);
+                    }
+                );
+            }
+
+            return this.validateResult(result);
+
+        } catch (error) {
+            return this.handleError(error, code, blackboard, nodeId);
+        }
+    }
+
+    /**
+     * Invokes the OnAbort() hook of user code when its node is interrupted
+     * while RUNNING. Scripts without OnAbort() fall back to OnEnd(NodeStatus.IDLE);
+     * scripts with neither are left alone.
+     *
+     * @param code - The JavaScript code of the interrupted node
+     * @param blackboard - The blackboard instance for data access
+     * @param nodeId - Optional node ID for tracking blackboard access
+     * @param tick - Tick count the node had reached when interrupted
+     * @param params - Node parameters accessible in code
+     * @param node - Node running the code, which keeps its instance between runs
+     */
+    public static abort(
+        code: string,
+        blackboard: Blackboard,
+        nodeId?: string,
+        tick?: number,
+        params?: Record<string, any>,
+        node?: TreeNode
+    ): void {
+        if (!code || code.trim() === '') {
+            return;
+        }
+
+        try {
+            const result = this.invoke(code, 'abort', blackboard, nodeId, tick, params, undefined, node);
+
+            // Async hooks are not awaited, but their errors are still reported
+            if (this.isPromiseLike(result)) {
+                Promise.resolve(result).catch(error => this.handleError(error, code, blackboard, nodeId));
+            }
+        } catch (error) {
+            this.handleError(error, code, blackboard, nodeId);
+        }
+    }
+
+    /**
+     * Evaluates a single expression (e.g. a decorator condition) with the same
+     * variables available to node code.
+     *
+     * @param expression - JavaScript expression, e.g. `blackboard.get('health') < 20`
+     * @param blackboard - The blackboard instance for data access
+     * @param nodeId - Optional node ID for tracking blackboard access
+     * @param params - Node parameters accessible in the expression
+     * @param node - Node evaluating the expression, which keeps its instance between runs
+     * @returns The value of the expression, or undefined if evaluation fails
+     */
+    public static evaluate(
+        expression: string,
+        blackboard: Blackboard,
+        nodeId?: string,
+        params?: Record<string, any>,
+        node?: TreeNode
+    ): any {
+        if (!expression || expression.trim() === '') {
+            return undefined;
+        }
+
+        const code = `return (${expression});`;
+
+        try {
+            return this.invoke(code, null, blackboard, nodeId, 0, params, undefined, node);
+        } catch (error) {
+            this.handleError(error, code, blackboard, nodeId);
+            return undefined;
+        }
+    }
 
-        // Create a custom console that intercepts log calls
-        const customConsole = {
+    /**
+     * Discards the compiled code of a node (its functions and `state` start over
+     * on the next run). Without a node, the whole cache is cleared.
+     *
+     * @param node - The node whose code changed
+     */
+    public static invalidate(node?: TreeNode): void {
+        if (node === undefined) {
+            this.instances = new WeakMap();
+            this.compiled.clear();
+            return;
+        }
+        this.instances.delete(node);
+    }
+
+    /**
+     * Calls user code with the standard set of variables
+     */
+    private static invoke(
+        code: string,
+        hook: string | null,
+        blackboard: Blackboard,
+        nodeId?: string,
+        tick?: number,
+        params?: Record<string, any>,
+        signal?: AbortSignal,
+        node?: TreeNode
+    ): any {
+        const instance = this.getInstance(code, nodeId, node);
+
+        if (instance.blackboard !== blackboard) {
+            instance.blackboard = blackboard;
+            instance.boundBlackboard = this.bindBlackboard(blackboard, nodeId);
+        }
+
+        // Execute the function within the time budget
+        return this.getSandbox().run(() => instance.run(
+            instance.boundBlackboard,
+            tick !== undefined ? tick : 0,
+            params || {},
+            signal || new AbortController().signal,
+            hook
+        ), this.timeBudget);
+    }
+
+    /**
+     * Gets the instance of the code for a node, creating it if the node is new
+     * or its code changed (code run without a node gets a fresh instance)
+     */
+    private static getInstance(code: string, nodeId?: string, node?: TreeNode): NodeInstance {
+        const existing = node !== undefined ? this.instances.get(node) : undefined;
+        if (existing && existing.code === code) {
+            return existing;
+        }
+
+        const factory = this.compile(code);
+        const state: Record<string, any> = {};
+        const context = { state };
+        const lifecycle = (hook: string | null, tick: number, hooks: LifecycleHooks) => this.runLifecycle(context, hook, tick, hooks);
+        const instance: NodeInstance = {
+            code,
+            run: factory(NodeStatus, nodeId, this.createConsole(nodeId), state, lifecycle),
+            state,
+            blackboard: null,
+            boundBlackboard: null
+        };
+
+        if (node !== undefined) {
+            this.instances.set(node, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Attributes reads and writes of user code to its node, so they show up in
+     * Blackboard.getDependencies() and getLastWriter() (code may still pass its own id)
+     */
+    private static bindBlackboard(blackboard: Blackboard, nodeId?: string): Blackboard {
+        if (!nodeId) {
+            return blackboard;
+        }
+
+        return new Proxy(blackboard, {
+            get(target, property, receiver) {
+                if (property === 'get') {
+                    return (key: string, id?: string) => target.get(key, id ?? nodeId);
+                }
+                if (property === 'set') {
+                    return (key: string, value: any, id?: string) => target.set(key, value, id ?? nodeId);
+                }
+                return Reflect.get(target, property, receiver);
+            }
+        });
+    }
+
+    /**
+     * Creates a custom console that intercepts log calls
+     */
+    private static createConsole(nodeId?: string): Record<string, (...args: any[]) => void> {
+        return {
             log: (...args: any[]) => {
                 const message = args.map(arg => String(arg)).join(' ');
                 if (NodeExecutor.onConsoleLog) {
@@ -55,60 +338,173 @@ export class NodeExecutor {
             error: console.error.bind(console),
             warn: console.warn.bind(console)
         };
+    }
 
-        try {
-            // Create the function with controlled scope
-            const executeFunction = new Function(
-                'blackboard',
-                'NodeStatus',
-                'nodeId',
-                'console',
-                'tick',
-                'params',
-                wrappedCode
-            );
-
-            // Execute the function
-            const result = executeFunction(
-                blackboard,
-                NodeStatus,
-                nodeId,
-                customConsole,
-                tick !== undefined ? tick : 0,
-                params || {}
-            );
-
-            // Validate the result is a valid NodeStatus
-            if (!this.isValidNodeStatus(result)) {
-                console.error(`Invalid return value from node code. Expected NodeStatus, got:`, result);
-                return NodeStatus.FAILURE;
+    /**
+     * Gets the sandbox code runs in
+     */
+    private static getSandbox(): Sandbox {
+        if (!this.sandbox) {
+            this.sandbox = new Sandbox();
+        }
+        return this.sandbox;
+    }
+
+    /**
+     * Drives the hooks of a structured script: onStart() on the first tick,
+     * onUpdate(tick) on every tick, and onEnd(status) once it returns anything
+     * but RUNNING. When aborted, onAbort() is called (or onEnd(IDLE) without it).
+     * Hooks may be async; the lifecycle then continues when they settle.
+     *
+     * @param context - `this` of the hooks ({ state })
+     * @param hook - 'abort' when the node is interrupted, null on a tick
+     * @param tick - Ticks since the node started
+     * @param hooks - The hooks the script exports
+     * @returns The status returned by onUpdate (SUCCESS without onUpdate), or a Promise of it
+     */
+    private static runLifecycle(context: object, hook: string | null, tick: number, hooks: LifecycleHooks): any {
+        if (hook === 'abort') {
+            if (hooks.onAbort) return hooks.onAbort.call(context);
+            if (hooks.onEnd) return hooks.onEnd.call(context, NodeStatus.IDLE);
+            return undefined;
+        }
+
+        const update = () => (hooks.onUpdate ? hooks.onUpdate.call(context, tick) : NodeStatus.SUCCESS);
+        const end = (status: any) => {
+            if (status === NodeStatus.RUNNING || !hooks.onEnd) {
+                return status;
             }
+            const ended = hooks.onEnd.call(context, status);
+            return this.isPromiseLike(ended) ? Promise.resolve(ended).then(() => status) : status;
+        };
 
-            return result;
+        const started = tick === 0 && hooks.onStart ? hooks.onStart.call(context) : undefined;
+        if (this.isPromiseLike(started)) {
+            return Promise.resolve(started).then(update).then(end);
+        }
 
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
+        const result = update();
+        return this.isPromiseLike(result) ? Promise.resolve(result).then(end) : end(result);
+    }
 
-            // Enhanced error feedback
-            if (NodeExecutor.onError) {
-                NodeExecutor.onError(errorMessage, nodeId);
-            }
+    /**
+     * Compiles user code (or takes it from the cache) into a factory that
+     * creates a node instance: factory(NodeStatus, nodeId, console, state,
+     * lifecycle) returns the function to call on every run
+     */
+    private static compile(code: string): Function {
+        const cached = this.compiled.get(code);
+        if (cached instanceof SyntaxError) {
+            throw cached;
+        }
+        if (cached) {
+            return cached;
+        }
 
-            // Store error in blackboard for inspection
-            if (nodeId) {
-                blackboard.set(`__error_${nodeId}`, {
-                    message: errorMessage,
-                    timestamp: Date.now(),
-                    code: code.substring(0, 100)
-                });
+        let result: Function | SyntaxError;
+        try {
+            result = this.compileFactory(code);
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) {
+                throw error;
             }
+            result = error;
+        }
 
-            // Log the error for debugging
-            console.error('Node execution error:', error);
+        // Drop the oldest entry once the cache is full
+        if (this.compiled.size >= this.cacheSize) {
+            this.compiled.delete(this.compiled.keys().next().value!);
+        }
+        this.compiled.set(code, result);
+
+        if (result instanceof SyntaxError) {
+            throw result;
+        }
+        return result;
+    }
 
-            // Return FAILURE on any exception
+    /**
+     * Compiles the factory of user code (strict mode). The script's top-level
+     * functions are declared in the factory, so they are created once per
+     * instance; the rest runs in a function that is async if the code uses
+     * top-level await.
+     */
+    private static compileFactory(code: string): Function {
+        const { code: script, exports } = ScriptHoister.stripExports(code);
+        const structured = exports.length > 0;
+        const hoisted = ScriptHoister.hoist(script);
+        const run = this.RUN_PARAMETERS.join(', ');
+        const factory = (async: boolean) => `
+            let ${run};
+            const __bind = (...values) => { [${run}] = values; };
+            ${hoisted ? hoisted.declarations : ''}
+            return ${async ? 'async ' : ''}function (${run}) {
+                __bind(${run});
+                ${structured ? '' : this.HOOK_PRELUDE}
+                ${hoisted ? hoisted.body : script}
+                ${structured ? this.LIFECYCLE_EPILOGUE : ''}
+            };
+        `;
+
+        try {
+            return this.getSandbox().compile(this.INSTANCE_PARAMETERS, factory(false));
+        } catch (error) {
+            if (error instanceof SyntaxError && /\bawait\b/.test(code)) {
+                try {
+                    return this.getSandbox().compile(this.INSTANCE_PARAMETERS, factory(true));
+                } catch {
+                    // Report the original syntax error below
+                }
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Validates a value returned by user code, mapping invalid values to FAILURE
+     */
+    private static validateResult(result: any): NodeStatus {
+        if (!this.isValidNodeStatus(result)) {
+            console.error(`Invalid return value from node code. Expected NodeStatus, got:`, result);
             return NodeStatus.FAILURE;
         }
+        return result;
+    }
+
+    /**
+     * Reports an execution error and returns FAILURE
+     */
+    private static handleError(error: unknown, code: string, blackboard: Blackboard, nodeId?: string): NodeStatus {
+        // Errors thrown inside the sandbox are not instances of this realm's Error
+        const errorMessage = error && typeof (error as Error).message === 'string' ? (error as Error).message : String(error);
+
+        // Enhanced error feedback
+        if (NodeExecutor.onError) {
+            NodeExecutor.onError(errorMessage, nodeId);
+        }
+
+        // Store error in blackboard for inspection
+        if (nodeId) {
+            blackboard.set(`__error_${nodeId}`, {
+                message: errorMessage,
+                timestamp: Date.now(),
+                code: code.substring(0, 100),
+                budgetExceeded: Sandbox.isBudgetError(error)
+            });
+        }
+
+        // Log the error for debugging
+        console.error('Node execution error:', error);
+
+        // Return FAILURE on any exception
+        return NodeStatus.FAILURE;
+    }
+
+    /**
+     * Checks if a value is a Promise (or any thenable)
+     */
+    public static isPromiseLike(value: any): value is PromiseLike<any> {
+        return value !== null && typeof value === 'object' && typeof value.then === 'function';
     }
 
     /**
@@ -133,8 +529,8 @@ export class NodeExecutor {
         }
 
         try {
-            // Attempt to create the function to check syntax
-            new Function('blackboard', 'NodeStatus', 'nodeId', code);
+            // Attempt to compile the function to check syntax
+            this.compile(code);
             return null; // Valid
         } catch (error) {
             if (error instanceof Error) {
@@ -148,14 +544,14 @@ export class NodeExecutor {
      * Returns a default code template for new action nodes
      */
     public static getDefaultCode(): string {
-        return `// OnStart - called once when node starts
-function OnStart() {
-    // Initialize any state here
+        return `// onStart - called once when the node starts
+export function onStart() {
+    // Initialize per-node state (this.state keeps its values between ticks)
     // Access params: params.yourParameter
 }
 
-// OnUpdate - called every tick, receives tick count
-function OnUpdate(tick) {
+// onUpdate - called every tick, receives the tick count
+export function onUpdate(tick) {
     // Main execution logic
     // Access blackboard: blackboard.get('key') / blackboard.set('key', value)
     // Access params: params.yourParameter
@@ -164,23 +560,15 @@ function OnUpdate(tick) {
     return NodeStatus.SUCCESS;
 }
 
-// OnEnd - called when node completes
-function OnEnd(status) {
+// onEnd - called when the node completes
+export function onEnd(status) {
     // Cleanup code
 }
 
-// Execute lifecycle
-if (tick === 0) {
-    OnStart();
-}
-
-const result = OnUpdate(tick);
-
-if (result !== NodeStatus.RUNNING) {
-    OnEnd(result);
-}
-
-return result;`;
+// onAbort - called instead of onEnd when the node is interrupted while RUNNING
+export function onAbort() {
+    // Release resources (animations, locks, ...)
+}`;
     }
 
     /**
@@ -209,6 +597,15 @@ if (elapsed < 2000) {
 }
 
 blackboard.set('startTime', null);
+return NodeStatus.SUCCESS;`,
+
+            'Async Action': `// Node reports RUNNING until the awaited work settles
+const response = await fetch('data/mock.json', { signal });
+if (!response.ok) {
+    return NodeStatus.FAILURE;
+}
+
+blackboard.set('data', await response.json());
 return NodeStatus.SUCCESS;`,
 
             'Random Outcome': `const random = Math.random();
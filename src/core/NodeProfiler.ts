@@ -0,0 +1,192 @@
+import { TreeNode, TickListener } from './TreeNode.js';
+import { NodeStatus } from './NodeStatus.js';
+import { Clock } from './Scheduler.js';
+
+/**
+ * Execution statistics of one node over a run
+ */
+export interface NodeProfile {
+    nodeId: string;
+    count: number;          // Number of times the node was ticked
+    totalTime: number;      // Wall time of all its ticks, children included (ms)
+    selfTime: number;       // Wall time of all its ticks, children excluded (ms)
+    maxTime: number;        // Longest single tick, children included (ms)
+    success: number;        // Number of ticks per returned status
+    failure: number;
+    running: number;
+}
+
+/**
+ * Columns profiles can be sorted by
+ */
+export type ProfileSortKey = 'count' | 'totalTime' | 'selfTime' | 'maxTime' | 'averageTime' | 'successRate';
+
+/**
+ * A node tick that has not returned yet
+ */
+interface ProfileFrame {
+    nodeId: string;
+    start: number;
+    childTime: number;
+}
+
+/**
+ * NodeProfiler: Per-node execution counts, wall times and status distribution
+ *
+ * Attach it with `tree.setProfiler(profiler)`. Every node tick is reported to it
+ * (see TreeNode.executeTick), so the time of a node includes the user code it
+ * runs through NodeExecutor. Self time excludes the node's children, which makes
+ * it the number to look at when hunting for expensive actions.
+ *
+ * A run is the ticks since the tree was last reset: when the tick counter
+ * starts over, the statistics are cleared. Time spent paused while stepping
+ * through a tick counts toward the nodes that were entered.
+ *
+ * Use case: "Which action eats the frame budget before we ship to Unity?"
+ */
+export class NodeProfiler implements TickListener {
+    private profiles: Map<string, NodeProfile> = new Map();
+    private stack: ProfileFrame[] = [];
+    private clock: Clock;
+    private ticks: number = 0;
+    private lastTick: number = 0;
+
+    public enabled: boolean = true;
+
+    /**
+     * @param clock - Source of wall time in ms (defaults to performance.now())
+     */
+    constructor(clock: Clock = { now: () => performance.now() }) {
+        this.clock = clock;
+    }
+
+    // ===========================
+    // RECORDING (CALLED BY BehaviorTree)
+    // ===========================
+
+    /**
+     * Starts profiling a tick
+     */
+    public beginTick(tick: number): void {
+        if (!this.enabled) return;
+
+        // A restarted tree begins a new run
+        if (tick <= this.lastTick) {
+            this.clear();
+        }
+        this.lastTick = tick;
+        this.ticks++;
+        this.stack = [];
+    }
+
+    public onTickEnter(node: TreeNode): void {
+        if (!this.enabled) return;
+
+        this.stack.push({ nodeId: node.id, start: this.clock.now(), childTime: 0 });
+    }
+
+    public onTickExit(node: TreeNode, status: NodeStatus): void {
+        const frame = this.stack[this.stack.length - 1];
+        if (!this.enabled || !frame || frame.nodeId !== node.id) return;
+        this.stack.pop();
+
+        const elapsed = this.clock.now() - frame.start;
+        const parent = this.stack[this.stack.length - 1];
+        if (parent) {
+            parent.childTime += elapsed;
+        }
+
+        const profile = this.getOrCreate(node.id);
+        profile.count++;
+        profile.totalTime += elapsed;
+        profile.selfTime += Math.max(0, elapsed - frame.childTime);
+        profile.maxTime = Math.max(profile.maxTime, elapsed);
+        if (status === NodeStatus.SUCCESS) profile.success++;
+        else if (status === NodeStatus.FAILURE) profile.failure++;
+        else if (status === NodeStatus.RUNNING) profile.running++;
+    }
+
+    // ===========================
+    // QUERIES (READ-ONLY)
+    // ===========================
+
+    /**
+     * Gets the statistics of a node (null if it was not ticked)
+     */
+    public getProfile(nodeId: string): NodeProfile | null {
+        const profile = this.profiles.get(nodeId);
+        return profile ? { ...profile } : null;
+    }
+
+    /**
+     * Gets the statistics of every ticked node
+     * @param sortBy - Column to sort by (unsorted if omitted)
+     * @param descending - Largest first (default true)
+     */
+    public getProfiles(sortBy?: ProfileSortKey, descending: boolean = true): NodeProfile[] {
+        const profiles = Array.from(this.profiles.values()).map(profile => ({ ...profile }));
+        if (sortBy) {
+            const direction = descending ? -1 : 1;
+            profiles.sort((a, b) => direction * (NodeProfiler.getValue(a, sortBy) - NodeProfiler.getValue(b, sortBy)));
+        }
+        return profiles;
+    }
+
+    /**
+     * Number of ticks profiled in this run
+     */
+    public getTickCount(): number {
+        return this.ticks;
+    }
+
+    /**
+     * Self time of a node relative to the most expensive node (0-1, for heatmaps)
+     */
+    public getHeat(nodeId: string): number {
+        const profile = this.profiles.get(nodeId);
+        if (!profile) return 0;
+
+        let max = 0;
+        this.profiles.forEach(other => {
+            max = Math.max(max, other.selfTime);
+        });
+        return max > 0 ? profile.selfTime / max : 0;
+    }
+
+    /**
+     * Gets the value of a sort column for a profile
+     */
+    public static getValue(profile: NodeProfile, key: ProfileSortKey): number {
+        switch (key) {
+            case 'averageTime':
+                return profile.count > 0 ? profile.totalTime / profile.count : 0;
+            case 'successRate':
+                return profile.count > 0 ? profile.success / profile.count : 0;
+            default:
+                return profile[key];
+        }
+    }
+
+    // ===========================
+    // MANAGEMENT
+    // ===========================
+
+    /**
+     * Removes all statistics
+     */
+    public clear(): void {
+        this.profiles.clear();
+        this.stack = [];
+        this.ticks = 0;
+        this.lastTick = 0;
+    }
+
+    private getOrCreate(nodeId: string): NodeProfile {
+        let profile = this.profiles.get(nodeId);
+        if (!profile) {
+            profile = { nodeId, count: 0, totalTime: 0, selfTime: 0, maxTime: 0, success: 0, failure: 0, running: 0 };
+            this.profiles.set(nodeId, profile);
+        }
+        return profile;
+    }
+}
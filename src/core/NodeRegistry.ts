@@ -1,11 +1,11 @@
-import { TreeNode } from './TreeNode.js';
+import { TreeNode, NodeCategory } from './TreeNode.js';
 
 /**
  * Node registration entry
  */
 export interface NodeRegistration {
     type: string;
-    category: 'composite' | 'decorator' | 'leaf';
+    category: NodeCategory;
     label: string;
     description: string;
     icon: string;
@@ -61,7 +61,7 @@ export class NodeRegistry {
     /**
      * Gets registrations by category
      */
-    public static getByCategory(category: 'composite' | 'decorator' | 'leaf'): NodeRegistration[] {
+    public static getByCategory(category: NodeCategory): NodeRegistration[] {
         return Array.from(this.registrations.values())
             .filter(reg => reg.category === category);
     }
@@ -0,0 +1,150 @@
+import { NodeParameters, ParameterDefinition } from './NodeParameter.js';
+import { BlackboardSchema, BlackboardValueType } from './BlackboardSchema.js';
+
+/**
+ * NodeTypings: Generates the ambient TypeScript declarations of node code
+ *
+ * Declares the variables NodeExecutor passes to code (blackboard, NodeStatus,
+ * params, tick, nodeId, state, signal, console) and the host functions the
+ * Sandbox exposes. `params` is typed from the node's parameter definitions, and
+ * `blackboard.get/set` from the keys declared in the blackboard schema. Used by
+ * the code editor for completions and type checking.
+ */
+export class NodeTypings {
+    // Declarations that are the same for every node
+    private static readonly COMMON = `type NodeStatus = 'success' | 'failure' | 'running' | 'idle';
+
+/** Status returned by node code */
+declare const NodeStatus: {
+    readonly SUCCESS: 'success';
+    readonly FAILURE: 'failure';
+    readonly RUNNING: 'running';
+    readonly IDLE: 'idle';
+};
+
+/** Ticks since the node started (0 on the first tick) */
+declare const tick: number;
+
+/** ID of the node running the code */
+declare const nodeId: string;
+
+/** Values kept between runs until the node's code changes */
+declare const state: Record<string, any>;
+
+/** \`this\` of the exported lifecycle hooks: export function onUpdate(this: NodeContext, tick: number) */
+interface NodeContext {
+    /** The node's state object */
+    state: Record<string, any>;
+}
+
+/** Aborted when the node is cancelled (observe it in async code) */
+declare const signal: {
+    readonly aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+};
+
+declare const console: {
+    log(...args: any[]): void;
+    warn(...args: any[]): void;
+    error(...args: any[]): void;
+};
+
+declare function setTimeout(handler: (...args: any[]) => void, timeout?: number, ...args: any[]): number;
+declare function clearTimeout(id: number | undefined): void;
+declare function setInterval(handler: (...args: any[]) => void, timeout?: number, ...args: any[]): number;
+declare function clearInterval(id: number | undefined): void;
+declare function fetch(input: string, init?: Record<string, any>): Promise<any>;`;
+
+    /**
+     * Generates the declarations for the code of a node
+     * @param parameters - The node's parameters (typed as `params`)
+     * @param schema - Declared blackboard keys (typed in `blackboard.get/set`)
+     */
+    public static generate(parameters: NodeParameters, schema?: BlackboardSchema): string {
+        const keys = schema ? schema.getDefinitions() : [];
+        const keyLines = keys.map(definition => {
+            const doc = definition.description ? `    /** ${this.escapeComment(definition.description)} */\n` : '';
+            return `${doc}    ${JSON.stringify(definition.key)}: ${this.getValueType(definition.type)};`;
+        });
+
+        const paramLines = Array.from(parameters.getDefinitions()).map(([name, definition]) => {
+            const description = definition.description || definition.label;
+            const doc = description ? `    /** ${this.escapeComment(description)} */\n` : '';
+            return `${doc}    readonly ${JSON.stringify(name)}: ${this.getParameterType(definition)};`;
+        });
+
+        return `${this.COMMON}
+
+/** Keys declared in the blackboard schema */
+interface BlackboardKeys {
+${keyLines.join('\n')}
+}
+
+/** Keys that are not declared (declared keys only accept values of their type) */
+type UndeclaredKey<K extends string> = K extends keyof BlackboardKeys ? never : K;
+
+/** Shared data of the tree */
+declare const blackboard: {
+    get<K extends keyof BlackboardKeys>(key: K): BlackboardKeys[K];
+    get<T = any, K extends string = string>(key: UndeclaredKey<K>): T | undefined;
+    set<K extends keyof BlackboardKeys>(key: K, value: BlackboardKeys[K]): void;
+    set<K extends string>(key: UndeclaredKey<K>, value: any): void;
+    has(key: string): boolean;
+    delete(key: string): boolean;
+    keys(): string[];
+};
+
+/** Parameters of the node (edited in the inspector) */
+declare const params: {
+${paramLines.join('\n')}
+};
+`;
+    }
+
+    /**
+     * TypeScript type of a blackboard value type
+     */
+    private static getValueType(type: BlackboardValueType): string {
+        switch (type) {
+            case 'number':
+                return 'number';
+            case 'string':
+                return 'string';
+            case 'boolean':
+                return 'boolean';
+            case 'vector':
+                return '{ x: number; y: number; z?: number }';
+            case 'object':
+                return 'Record<string, any> | null';
+            case 'entity-ref':
+                return 'string | null';
+            default:
+                return 'any';
+        }
+    }
+
+    /**
+     * TypeScript type of a parameter
+     */
+    private static getParameterType(definition: ParameterDefinition): string {
+        switch (definition.type) {
+            case 'number':
+                return 'number';
+            case 'string':
+                return 'string';
+            case 'boolean':
+                return 'boolean';
+            case 'select':
+                return definition.options && definition.options.length > 0
+                    ? definition.options.map(option => JSON.stringify(option)).join(' | ')
+                    : 'string';
+            default:
+                return 'any';
+        }
+    }
+
+    private static escapeComment(text: string): string {
+        return text.replace(/\*\//g, '*\\/');
+    }
+}
@@ -31,6 +31,14 @@ export class OperationHistory {
     private redoStack: Operation[] = [];
     private maxStackSize: number = 100;
 
+    // Last operation on the undo stack when the document was saved (null = empty stack)
+    private savedOperation: Operation | null = null;
+
+    /**
+     * Called after the history changes (execute, undo, redo, clear, save point)
+     */
+    public onChange?: () => void;
+
     /**
      * Executes an operation and adds it to the undo stack
      */
@@ -43,6 +51,8 @@ export class OperationHistory {
         if (this.undoStack.length > this.maxStackSize) {
             this.undoStack.shift();
         }
+
+        this.notifyChange();
     }
 
     /**
@@ -57,6 +67,8 @@ export class OperationHistory {
         if (this.undoStack.length > this.maxStackSize) {
             this.undoStack.shift();
         }
+
+        this.notifyChange();
     }
 
     /**
@@ -70,6 +82,7 @@ export class OperationHistory {
         const operation = this.undoStack.pop()!;
         operation.undo();
         this.redoStack.push(operation);
+        this.notifyChange();
         return true;
     }
 
@@ -88,6 +101,7 @@ export class OperationHistory {
             operation.execute();
         }
         this.undoStack.push(operation);
+        this.notifyChange();
         return true;
     }
 
@@ -127,6 +141,22 @@ export class OperationHistory {
     public clear(): void {
         this.undoStack = [];
         this.redoStack = [];
+        this.notifyChange();
+    }
+
+    /**
+     * Marks the current state as saved (see isDirty)
+     */
+    public markSaved(): void {
+        this.savedOperation = this.getLastOperation();
+        this.notifyChange();
+    }
+
+    /**
+     * Checks if operations were executed, undone or redone since the last save point
+     */
+    public isDirty(): boolean {
+        return this.getLastOperation() !== this.savedOperation;
     }
 
     /**
@@ -142,4 +172,17 @@ export class OperationHistory {
     public getRedoStackSize(): number {
         return this.redoStack.length;
     }
+
+    /**
+     * Gets the operation at the top of the undo stack
+     */
+    private getLastOperation(): Operation | null {
+        return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1] : null;
+    }
+
+    private notifyChange(): void {
+        if (this.onChange) {
+            this.onChange();
+        }
+    }
 }
@@ -0,0 +1,69 @@
+/**
+ * RandomSource: Source of random numbers in [0, 1).
+ *
+ * Nodes read it through TreeNode.nextRandom() so that random behavior can be
+ * reproduced by seeding the tree (see BehaviorTree.random).
+ */
+export interface RandomSource {
+    next(): number;
+}
+
+/**
+ * SeededRandom: A small, fast pseudo-random generator (mulberry32).
+ *
+ * The same seed always produces the same sequence, so a tree run with random
+ * composites can be replayed exactly by restarting it with the same seed.
+ */
+export class SeededRandom implements RandomSource {
+    private seed: number;
+    private state: number;
+
+    constructor(seed: number = SeededRandom.randomSeed()) {
+        this.seed = SeededRandom.normalize(seed);
+        this.state = this.seed;
+    }
+
+    /**
+     * Gets the next number in [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Sets the seed and restarts the sequence from it
+     */
+    public setSeed(seed: number): void {
+        this.seed = SeededRandom.normalize(seed);
+        this.state = this.seed;
+    }
+
+    /**
+     * Restarts the sequence from the current seed
+     */
+    public restart(): void {
+        this.state = this.seed;
+    }
+
+    /**
+     * Picks a seed from Math.random() (for trees that were not given one)
+     */
+    public static randomSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+
+    /**
+     * Turns any number into an unsigned 32-bit seed
+     */
+    private static normalize(seed: number): number {
+        return Number.isFinite(seed) ? Math.floor(Math.abs(seed)) >>> 0 : 0;
+    }
+}
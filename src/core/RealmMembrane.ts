@@ -0,0 +1,294 @@
+// Prototypes of the host's function kinds (plain, async, generator, async generator)
+const HOST_FUNCTION_PROTOTYPES: any[] = [
+    function () {}, async function () {}, function* () {}, async function* () {}
+].map(fn => Object.getPrototypeOf(fn));
+
+// Proxy traps, all of which convert the values passing through them
+const TRAP_NAMES = [
+    'get', 'set', 'has', 'deleteProperty', 'ownKeys', 'getOwnPropertyDescriptor', 'defineProperty',
+    'getPrototypeOf', 'setPrototypeOf', 'isExtensible', 'preventExtensions', 'apply', 'construct'
+];
+
+/**
+ * RealmMembrane: Keeps the objects of the sandbox realm and the host (editor)
+ * realm apart
+ *
+ * Objects of one realm reach the other only wrapped in proxies whose traps
+ * convert every value passing through them: arguments, `this`, return values,
+ * properties, prototypes and thrown errors. Code in the realm therefore never
+ * holds a host object, so it cannot reach the host's Function constructor or
+ * global object through one (e.g. `blackboard.get.constructor`), and host
+ * code never calls realm functions with host objects.
+ *
+ * Built-ins both realms have (Object, Array, Error, ...) are mapped to their
+ * counterparts instead of being wrapped, and the host's Function constructors
+ * to the realm's disabled ones. Errors thrown in host code while running realm
+ * code (e.g. a stack overflow inside a trap) are caught by realm functions and
+ * replaced with realm errors.
+ */
+export class RealmMembrane {
+    private realm: any;
+
+    // Built-ins of one realm by their counterparts in the other
+    private realmIntrinsics = new Map<object, object>();
+    private hostIntrinsics = new Map<object, object>();
+
+    // Proxies by the object they wrap, and wrapped objects by their proxy
+    private realmProxies = new WeakMap<object, object>();
+    private hostProxies = new WeakMap<object, object>();
+    private realmProxyTargets = new WeakMap<object, object>();
+    private hostProxyTargets = new WeakMap<object, object>();
+
+    // Wraps proxy traps in realm functions that only let realm errors through
+    private guardTraps: (traps: Record<string, Function>, names: string[]) => ProxyHandler<any>;
+
+    /**
+     * @param realm - Global object of the realm (its Function constructors already disabled)
+     * @param globals - Names of the built-ins to map to their counterparts
+     */
+    constructor(realm: any, globals: string[]) {
+        this.realm = realm;
+
+        globals.forEach(name => {
+            const host = (globalThis as any)[name];
+            const counterpart = realm[name];
+            this.mapIntrinsic(host, counterpart);
+            if (typeof host === 'function' && typeof counterpart === 'function') {
+                this.mapIntrinsic(host.prototype, counterpart.prototype);
+            }
+        });
+
+        // The host's Function constructors become the realm's disabled ones (one way only)
+        const realmFunctionPrototypes = new realm.Function(`return [
+            function () {}, async function () {}, function* () {}, async function* () {}
+        ].map(fn => Object.getPrototypeOf(fn));`)();
+        HOST_FUNCTION_PROTOTYPES.forEach((prototype, index) => {
+            this.mapIntrinsic(prototype, realmFunctionPrototypes[index]);
+            this.realmIntrinsics.set(prototype.constructor, realmFunctionPrototypes[index].constructor);
+        });
+
+        this.guardTraps = new realm.Function('traps', 'names', `'use strict';
+            const isRealmObject = value => {
+                let object = value;
+                for (let prototype = Object.getPrototypeOf(object); prototype !== null; prototype = Object.getPrototypeOf(prototype)) {
+                    object = prototype;
+                }
+                return object === Object.prototype;
+            };
+            const handler = {};
+            names.forEach(name => {
+                const trap = traps[name];
+                handler[name] = function (...args) {
+                    try {
+                        return trap(...args);
+                    } catch (error) {
+                        if ((typeof error === 'object' && error !== null) || typeof error === 'function') {
+                            if (!isRealmObject(error)) {
+                                throw new RangeError('Maximum call stack size exceeded');
+                            }
+                        }
+                        throw error;
+                    }
+                };
+            });
+            return handler;`);
+    }
+
+    /**
+     * Converts a value for use in the realm
+     */
+    public toRealm(value: any): any {
+        if (!RealmMembrane.isObject(value) || this.realmProxyTargets.has(value)) {
+            return value;
+        }
+
+        const unwrapped = this.hostProxyTargets.get(value) || this.realmIntrinsics.get(value);
+        if (unwrapped) {
+            return unwrapped;
+        }
+        if (this.originOf(value) === 'realm') {
+            return value;
+        }
+
+        let proxy = this.realmProxies.get(value);
+        if (!proxy) {
+            proxy = this.createProxy(value, true);
+            this.realmProxies.set(value, proxy);
+            this.realmProxyTargets.set(proxy, value);
+        }
+        return proxy;
+    }
+
+    /**
+     * Converts a value of the realm for use in the host
+     */
+    public toHost(value: any): any {
+        if (!RealmMembrane.isObject(value) || this.hostProxyTargets.has(value)) {
+            return value;
+        }
+
+        const unwrapped = this.realmProxyTargets.get(value) || this.hostIntrinsics.get(value);
+        if (unwrapped) {
+            return unwrapped;
+        }
+        if (this.originOf(value) === 'host') {
+            return value;
+        }
+
+        let proxy = this.hostProxies.get(value);
+        if (!proxy) {
+            proxy = this.createProxy(value, false);
+            this.hostProxies.set(value, proxy);
+            this.hostProxyTargets.set(proxy, value);
+        }
+        return proxy;
+    }
+
+    /**
+     * Creates a proxy handler for the realm from host traps (errors the traps
+     * throw that are not realm objects are replaced with realm errors)
+     */
+    public guardHandler(traps: ProxyHandler<any>): ProxyHandler<any> {
+        return this.guardTraps(traps as Record<string, Function>, Object.keys(traps));
+    }
+
+    /**
+     * Wraps an object of one realm for use in the other
+     * @param value - The object to wrap
+     * @param inRealm - Wrap a host object for the realm (false: a realm object for the host)
+     */
+    private createProxy(value: any, inRealm: boolean): object {
+        // Values passed to the wrapped object (inward) and returned by it (outward)
+        const inward = (item: any) => (inRealm ? this.toHost(item) : this.toRealm(item));
+        const outward = (item: any) => (inRealm ? this.toRealm(item) : this.toHost(item));
+        const convert = (descriptor: PropertyDescriptor, to: (item: any) => any): PropertyDescriptor => {
+            const converted: PropertyDescriptor = { ...descriptor };
+            (['value', 'get', 'set'] as const).forEach(field => {
+                if (field in descriptor) converted[field] = to(descriptor[field]);
+            });
+            return converted;
+        };
+
+        // The proxy's target only mirrors what the Proxy invariants require
+        // (non-configurable properties, non-extensibility)
+        const shadow = this.createShadow(value, inRealm);
+        const mirror = (key: PropertyKey): PropertyDescriptor | undefined => {
+            const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+            const converted = descriptor && convert(descriptor, outward);
+            if (converted && !converted.configurable) {
+                Reflect.defineProperty(shadow, key, converted);
+            }
+            return converted;
+        };
+
+        const traps: ProxyHandler<any> = {
+            get: (_shadow, key) => outward(Reflect.get(value, key)),
+            set: (_shadow, key, item) => Reflect.set(value, key, inward(item)),
+            has: (_shadow, key) => Reflect.has(value, key),
+            deleteProperty: (_shadow, key) => Reflect.deleteProperty(value, key),
+            ownKeys: () => Reflect.ownKeys(value),
+            getOwnPropertyDescriptor: (_shadow, key) => mirror(key),
+            defineProperty: (_shadow, key, descriptor) => {
+                const defined = Reflect.defineProperty(value, key, convert(descriptor, inward));
+                mirror(key);
+                return defined;
+            },
+            getPrototypeOf: () => (Reflect.isExtensible(shadow) ? outward(Reflect.getPrototypeOf(value)) : Reflect.getPrototypeOf(shadow)),
+            setPrototypeOf: (_shadow, prototype) => Reflect.setPrototypeOf(value, inward(prototype)),
+            isExtensible: () => Reflect.isExtensible(shadow),
+            preventExtensions: () => {
+                if (!Reflect.preventExtensions(value)) {
+                    return false;
+                }
+                // A non-extensible target has to match the wrapped object exactly
+                const keys = Reflect.ownKeys(value);
+                Reflect.ownKeys(shadow).forEach(key => {
+                    if (!keys.includes(key)) Reflect.deleteProperty(shadow, key);
+                });
+                keys.forEach(key => {
+                    const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+                    if (descriptor) Reflect.defineProperty(shadow, key, convert(descriptor, outward));
+                });
+                Reflect.setPrototypeOf(shadow, outward(Reflect.getPrototypeOf(value)));
+                return Reflect.preventExtensions(shadow);
+            },
+            apply: (_shadow, thisArg, args) => outward(Reflect.apply(value, inward(thisArg), Array.from(args, inward))),
+            construct: (_shadow, args) => outward(Reflect.construct(value, Array.from(args, inward)))
+        };
+
+        // Errors thrown by the wrapped object are converted like any other value
+        TRAP_NAMES.forEach(name => {
+            const trap = (traps as any)[name];
+            (traps as any)[name] = (...args: any[]) => {
+                try {
+                    return trap(...args);
+                } catch (error) {
+                    throw outward(error);
+                }
+            };
+        });
+
+        if (inRealm) {
+            return new this.realm.Proxy(shadow, this.guardHandler(traps));
+        }
+        return new Proxy(shadow, traps);
+    }
+
+    /**
+     * Creates the target of a proxy: callable (and constructible) like the
+     * wrapped object, an array if it is one, and for realm errors a host error
+     * with the same message, so the host's console shows something useful
+     */
+    private createShadow(value: any, inRealm: boolean): object {
+        if (typeof value === 'function') {
+            return Object.prototype.hasOwnProperty.call(value, 'prototype') ? function () {} : () => {};
+        }
+        if (Array.isArray(value)) {
+            return [];
+        }
+        if (!inRealm && value instanceof this.realm.Error) {
+            try {
+                const error = new Error(String(value.message));
+                error.name = String(value.name);
+                error.stack = String(value.stack);
+                return error;
+            } catch {
+                // Fall back to a plain object
+            }
+        }
+        return {};
+    }
+
+    /**
+     * Maps a built-in of the host and its counterpart in the realm onto each other
+     */
+    private mapIntrinsic(host: any, counterpart: any): void {
+        if (RealmMembrane.isObject(host) && RealmMembrane.isObject(counterpart) && host !== counterpart) {
+            this.realmIntrinsics.set(host, counterpart);
+            this.hostIntrinsics.set(counterpart, host);
+        }
+    }
+
+    /**
+     * Finds the realm an object belongs to by the end of its prototype chain
+     * (null if the chain does not end in either realm's Object.prototype)
+     */
+    private originOf(value: object): 'realm' | 'host' | null {
+        let object = value;
+        try {
+            for (let prototype = Reflect.getPrototypeOf(object); prototype !== null; prototype = Reflect.getPrototypeOf(prototype)) {
+                object = prototype;
+            }
+        } catch {
+            return null;
+        }
+
+        if (object === this.realm.Object.prototype) return 'realm';
+        if (object === Object.prototype) return 'host';
+        return null;
+    }
+
+    private static isObject(value: any): value is object {
+        return (typeof value === 'object' && value !== null) || typeof value === 'function';
+    }
+}
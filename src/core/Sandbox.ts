@@ -0,0 +1,334 @@
+import { ScriptGuard } from './ScriptGuard.js';
+import { RealmMembrane } from './RealmMembrane.js';
+
+/**
+ * Globals user code may use (taken from the sandbox realm, so changes to
+ * them cannot leak into the editor)
+ */
+const REALM_GLOBALS = [
+    'Object', 'Array', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt',
+    'Math', 'JSON', 'Date', 'RegExp', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise', 'Reflect',
+    'Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError', 'URIError', 'EvalError',
+    'ArrayBuffer', 'DataView', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array',
+    'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array',
+    'isNaN', 'isFinite', 'parseInt', 'parseFloat',
+    'encodeURI', 'encodeURIComponent', 'decodeURI', 'decodeURIComponent'
+];
+
+/**
+ * Host functions user code may use (timers and fetch, for async node code)
+ */
+const HOST_GLOBALS = ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'fetch'];
+
+/**
+ * Globals that are always hidden, even if the realm does not define them
+ */
+const HIDDEN_GLOBALS = [
+    'window', 'self', 'global', 'globalThis', 'process', 'require', 'module', 'exports', 'Buffer',
+    'eval', 'Function', 'document', 'parent', 'top', 'frames', 'opener', 'frameElement', 'location',
+    'navigator', 'localStorage', 'sessionStorage', 'indexedDB', 'XMLHttpRequest', 'WebSocket',
+    'Worker', 'SharedWorker', 'importScripts', 'postMessage', 'WebAssembly'
+];
+
+// Names that cannot be declared as parameters
+const RESERVED_NAMES = new Set([
+    'arguments', 'undefined', 'NaN', 'Infinity', 'await', 'yield', 'let', 'static', 'enum',
+    'implements', 'package', 'protected', 'interface', 'private', 'public'
+]);
+
+// Name of the budget check inserted by ScriptGuard
+const GUARD_NAME = '__guard';
+
+// Guard calls between two clock reads
+const GUARD_CHECK_INTERVAL = 1024;
+
+/**
+ * Sandbox: Compiles and runs user code in an isolated realm with a time budget
+ *
+ * The realm is a separate set of JavaScript globals: a `vm` context in Node.js,
+ * a hidden iframe in the browser (or, where neither exists, the current realm).
+ * Its built-ins are frozen and its Function constructors disabled, so scripts
+ * can neither patch prototypes nor compile code that escapes the sandbox.
+ * Every global outside the whitelist (REALM_GLOBALS, HOST_GLOBALS and the
+ * variables NodeExecutor passes) is hidden from the code. Everything passed
+ * between the editor and the realm goes through a RealmMembrane, so scripts
+ * cannot reach the editor's Function constructor or globals through the
+ * objects they are given.
+ *
+ * The time budget is enforced by ScriptGuard checks in loops and function
+ * bodies. Once a run is over budget, every further check throws, so code
+ * cannot swallow the error and keep going. Only the synchronous part of a
+ * script is budgeted; work after an `await` is not.
+ *
+ * Objects handed to scripts (the blackboard and its values, the abort signal)
+ * still belong to the editor, and scripts can change them.
+ */
+export class Sandbox {
+    // Largest array `new Array(length)` may create
+    public static MAX_ARRAY_LENGTH = 10_000_000;
+
+    private realm: any;
+    private compiler: (source: string) => any;
+    private isolated: boolean;
+    private membrane: RealmMembrane | null = null;
+
+    // Run in progress (deadline is null between runs)
+    private budget: number = 0;
+    private deadline: number | null = null;
+    private exceeded: boolean = false;
+    private guardCalls: number = 0;
+
+    constructor() {
+        const realm = Sandbox.createRealm();
+        this.isolated = realm !== null;
+        this.realm = realm || globalThis;
+
+        if (this.isolated) {
+            this.harden();
+            this.membrane = new RealmMembrane(this.realm, REALM_GLOBALS);
+        }
+
+        const guard = () => this.checkBudget();
+        const values = new Map<string, any>();
+        REALM_GLOBALS.forEach(name => values.set(name, this.realm[name]));
+        HOST_GLOBALS.forEach(name => {
+            // Looked up on every call, so the current host function is used
+            const forward = (...args: any[]) => (globalThis as any)[name](...args);
+            values.set(name, typeof (globalThis as any)[name] === 'function' ? forward : undefined);
+        });
+        values.set('Array', this.createArray());
+        values.set(GUARD_NAME, guard);
+
+        // Everything else the realm or host defines is hidden behind an undefined parameter
+        const hidden = new Set([...HIDDEN_GLOBALS, ...Sandbox.getGlobalNames(this.realm), ...Sandbox.getGlobalNames(globalThis)]);
+        hidden.forEach(name => {
+            if (!values.has(name) && name !== 'eval' && /^[A-Za-z_$][\w$]*$/.test(name) && !RESERVED_NAMES.has(name)) {
+                values.set(name, undefined);
+            }
+        });
+
+        // Code is compiled with a direct eval inside a function whose parameters
+        // shadow the globals, so compiled code sees the parameters instead
+        const names = Array.from(values.keys());
+        const createCompiler = new this.realm.Function(...names, 'return function (__source) { return eval(__source); };');
+        this.compiler = createCompiler(...names.map(name => this.toRealm(values.get(name))));
+    }
+
+    /**
+     * Checks if code runs in a separate realm (false: current realm, built-ins not protected)
+     */
+    public isIsolated(): boolean {
+        return this.isolated;
+    }
+
+    /**
+     * Compiles a function body into a function of the given parameters
+     * @param parameters - Parameter names
+     * @param body - Function body (strict mode)
+     * @param async - Compile as an async function
+     * @throws SyntaxError if the code is invalid
+     */
+    public compile(parameters: string[], body: string, async: boolean = false): Function {
+        const guarded = ScriptGuard.instrument(body, GUARD_NAME);
+        const source = `(function (eval, Function) {
+            return ${async ? 'async ' : ''}function (${parameters.join(', ')}) {
+                'use strict';
+                ${guarded}
+            };
+        })()`;
+
+        try {
+            return this.toHost(this.compiler(source));
+        } catch (error) {
+            // Errors of the realm are not instances of the editor's classes
+            if (Sandbox.isSyntaxError(error)) {
+                throw new SyntaxError((error as Error).message);
+            }
+            throw this.toHost(error);
+        }
+    }
+
+    /**
+     * Runs a function with a time budget
+     * @param fn - Calls the compiled code
+     * @param budget - Time budget in milliseconds (0 or Infinity = unlimited)
+     * @throws Error if the budget is exceeded (even if the code caught it)
+     */
+    public run<T>(fn: () => T, budget: number): T {
+        const previous = { budget: this.budget, deadline: this.deadline, exceeded: this.exceeded, guardCalls: this.guardCalls };
+        this.budget = budget;
+        this.deadline = budget > 0 && budget !== Infinity ? this.now() + budget : null;
+        this.exceeded = false;
+        this.guardCalls = 0;
+
+        try {
+            const result = fn();
+            if (this.exceeded) {
+                throw this.budgetError();
+            }
+            return result;
+        } finally {
+            this.budget = previous.budget;
+            this.deadline = previous.deadline;
+            this.exceeded = previous.exceeded;
+            this.guardCalls = previous.guardCalls;
+        }
+    }
+
+    /**
+     * Checks if an error was caused by an exceeded time budget
+     */
+    public static isBudgetError(error: unknown): boolean {
+        return !!error && (error as any).name === 'BudgetExceededError';
+    }
+
+    /**
+     * Called by ScriptGuard checks in the running code
+     */
+    private checkBudget(): void {
+        if (this.deadline === null) return;
+
+        if (this.exceeded || (++this.guardCalls % GUARD_CHECK_INTERVAL === 0 && this.now() > this.deadline)) {
+            this.exceeded = true;
+            throw this.budgetError();
+        }
+    }
+
+    /**
+     * Creates the error thrown when the budget is exceeded (an error of the
+     * realm, so code that catches it cannot reach the editor through it)
+     */
+    private budgetError(): Error {
+        const error = new this.realm.Error(`Script exceeded its time budget of ${this.budget} ms`);
+        // The realm's Error.prototype is frozen, so `name` has to be defined, not assigned
+        Object.defineProperty(error, 'name', { value: 'BudgetExceededError', writable: true, configurable: true });
+        return error;
+    }
+
+    /**
+     * Array constructor that refuses to preallocate huge arrays
+     */
+    private createArray(): any {
+        const RealmArray = this.realm.Array;
+        const RealmRangeError = this.realm.RangeError;
+        const check = (args: any[]) => {
+            if (args.length === 1 && typeof args[0] === 'number' && args[0] > Sandbox.MAX_ARRAY_LENGTH) {
+                throw new RealmRangeError(`Array length ${args[0]} exceeds the sandbox limit of ${Sandbox.MAX_ARRAY_LENGTH}`);
+            }
+        };
+
+        const handler: ProxyHandler<any> = {
+            construct: (target: any, args: any[]) => {
+                check(args);
+                return new target(...args);
+            },
+            apply: (target: any, _thisArg: any, args: any[]) => {
+                check(args);
+                return target(...args);
+            }
+        };
+        return new this.realm.Proxy(RealmArray, this.membrane ? this.membrane.guardHandler(handler) : handler);
+    }
+
+    /**
+     * Converts a value of the editor for use in the realm
+     */
+    private toRealm(value: any): any {
+        return this.membrane ? this.membrane.toRealm(value) : value;
+    }
+
+    /**
+     * Converts a value of the realm for use in the editor
+     */
+    private toHost(value: any): any {
+        return this.membrane ? this.membrane.toHost(value) : value;
+    }
+
+    /**
+     * Freezes the built-ins of the realm and disables its Function constructors
+     */
+    private harden(): void {
+        const realm = this.realm;
+        const blocked = new realm.Function(`return function Function() {
+            throw new TypeError('Code generation is not allowed in node code');
+        };`)();
+
+        const functionPrototypes = new realm.Function(`return [
+            function () {}, async function () {}, function* () {}, async function* () {}
+        ].map(fn => Object.getPrototypeOf(fn));`)();
+        functionPrototypes.forEach((prototype: any) => {
+            Object.defineProperty(prototype, 'constructor', { value: blocked, writable: false, configurable: false });
+        });
+
+        const intrinsics = new realm.Function(`return [
+            Object.getPrototypeOf([][Symbol.iterator]()),
+            Object.getPrototypeOf(Object.getPrototypeOf([][Symbol.iterator]())),
+            Object.getPrototypeOf(new Map()[Symbol.iterator]()),
+            Object.getPrototypeOf(new Set()[Symbol.iterator]()),
+            Object.getPrototypeOf(''[Symbol.iterator]()),
+            Object.getPrototypeOf(Int8Array),
+            Object.getPrototypeOf(Int8Array.prototype)
+        ];`)();
+
+        [...functionPrototypes, ...intrinsics, blocked].forEach(value => Object.freeze(value));
+        REALM_GLOBALS.forEach(name => {
+            const value = realm[name];
+            if (value && (typeof value === 'object' || typeof value === 'function')) {
+                Object.freeze(value);
+                if (value.prototype) {
+                    Object.freeze(value.prototype);
+                }
+            }
+        });
+    }
+
+    /**
+     * Creates a separate realm and returns its global object (null if unavailable)
+     */
+    private static createRealm(): any {
+        // Node.js: a new vm context
+        const process = (globalThis as any).process;
+        const vm = process && typeof process.getBuiltinModule === 'function' ? process.getBuiltinModule('node:vm') : null;
+        if (vm) {
+            return vm.runInContext('globalThis', vm.createContext({}));
+        }
+
+        // Browser: a hidden iframe
+        if (typeof document !== 'undefined' && document.body) {
+            const iframe = document.createElement('iframe');
+            iframe.style.display = 'none';
+            iframe.setAttribute('aria-hidden', 'true');
+            document.body.appendChild(iframe);
+            return iframe.contentWindow;
+        }
+
+        return null;
+    }
+
+    /**
+     * Lists the global variable names of a realm (including inherited ones, e.g. of Window)
+     */
+    private static getGlobalNames(global: any): string[] {
+        const names: string[] = [];
+        for (let object = global; object && object !== Object.prototype; object = Object.getPrototypeOf(object)) {
+            if (Object.getPrototypeOf(object) === null) break; // The realm's own Object.prototype
+            names.push(...Object.getOwnPropertyNames(object));
+        }
+        return names;
+    }
+
+    private static isSyntaxError(error: unknown): boolean {
+        return !!error && (error as any).name === 'SyntaxError';
+    }
+
+    /**
+     * Current time in milliseconds (the realm's clock, which neither scripts nor
+     * the editor's test fakes can replace)
+     */
+    private now(): number {
+        if (this.isolated) {
+            return this.realm.Date.now();
+        }
+        return typeof performance !== 'undefined' ? performance.now() : Date.now();
+    }
+}
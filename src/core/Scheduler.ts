@@ -0,0 +1,114 @@
+/**
+ * Clock: Source of the current time in milliseconds.
+ *
+ * Injected into BehaviorTree so execution does not depend on browser globals
+ * and can be made deterministic in tests and server-side simulations.
+ */
+export interface Clock {
+    now(): number;
+}
+
+/**
+ * TickScheduler: Schedules the repeating callback that drives BehaviorTree.start().
+ */
+export interface TickScheduler {
+    /**
+     * Schedules a callback to run every intervalMs milliseconds
+     * @returns A handle that can be passed to cancel()
+     */
+    schedule(callback: () => void, intervalMs: number): unknown;
+
+    /**
+     * Cancels a callback previously returned by schedule()
+     */
+    cancel(handle: unknown): void;
+}
+
+/**
+ * SystemClock: Wall-clock time via Date.now()
+ */
+export class SystemClock implements Clock {
+    public now(): number {
+        return Date.now();
+    }
+}
+
+/**
+ * IntervalScheduler: Uses the global setInterval/clearInterval.
+ * Works in browsers, web workers and Node.js alike.
+ */
+export class IntervalScheduler implements TickScheduler {
+    public schedule(callback: () => void, intervalMs: number): unknown {
+        return globalThis.setInterval(callback, intervalMs);
+    }
+
+    public cancel(handle: unknown): void {
+        globalThis.clearInterval(handle as ReturnType<typeof setInterval>);
+    }
+}
+
+/**
+ * ManualScheduler: A clock and scheduler whose time only moves when advance() is called.
+ *
+ * Useful for deterministic tests and for hosts that drive the tree from their
+ * own game loop (e.g. a fixed-step server simulation).
+ */
+export class ManualScheduler implements Clock, TickScheduler {
+    private time: number;
+    private nextHandle: number = 1;
+    private timers: Map<number, { callback: () => void; intervalMs: number; nextTime: number }> = new Map();
+
+    constructor(startTime: number = 0) {
+        this.time = startTime;
+    }
+
+    public now(): number {
+        return this.time;
+    }
+
+    public schedule(callback: () => void, intervalMs: number): unknown {
+        const handle = this.nextHandle++;
+        const interval = Math.max(1, intervalMs);
+        this.timers.set(handle, { callback, intervalMs: interval, nextTime: this.time + interval });
+        return handle;
+    }
+
+    public cancel(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    /**
+     * Moves time forward, firing every scheduled callback that comes due (in time order)
+     */
+    public advance(ms: number): void {
+        const target = this.time + Math.max(0, ms);
+
+        while (true) {
+            // Find the earliest due timer
+            let dueHandle: number | null = null;
+            let dueTime = Infinity;
+            this.timers.forEach((timer, handle) => {
+                if (timer.nextTime <= target && timer.nextTime < dueTime) {
+                    dueTime = timer.nextTime;
+                    dueHandle = handle;
+                }
+            });
+
+            if (dueHandle === null) break;
+
+            const timer = this.timers.get(dueHandle)!;
+            this.time = timer.nextTime;
+            timer.nextTime += timer.intervalMs;
+            timer.callback();
+        }
+
+        this.time = target;
+    }
+
+    /**
+     * Gets the number of active scheduled callbacks
+     */
+    public getPendingCount(): number {
+        return this.timers.size;
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * A significant token of the script (comments and whitespace are skipped)
+ */
+export interface Token {
+    type: 'identifier' | 'punctuator' | 'literal';
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * ScriptGuard: Inserts time budget checks into user code
+ *
+ * Node code runs synchronously, so a runaway loop can only be stopped from the
+ * inside. The guard function is called on every loop iteration and on entry of
+ * every function body (which also covers runaway recursion):
+ *
+ *   while (cond) { ... }        → while (__guard(), (cond)) { ... }
+ *   for (init; test; update)    → for (init; (__guard(), (test)); update)
+ *   for (init; ; update)        → for (init;(__guard(), true); update)
+ *   for (const x of items) {    → for (const x of items) {__guard();
+ *   function f(a) {             → function f(a) {__guard();
+ *   (a) => {                    → (a) => {__guard();
+ *
+ * The scanner only knows as much JavaScript as it needs for this: strings,
+ * template literals, comments and regular expressions are skipped, and
+ * everything else is a token. Dynamic import() is rejected, since it would load
+ * code outside the sandbox.
+ */
+export class ScriptGuard {
+    // Keywords after which `/` starts a regular expression instead of a division
+    private static readonly REGEX_KEYWORDS = new Set([
+        'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+        'throw', 'case', 'do', 'else', 'yield', 'await'
+    ]);
+
+    // Keywords whose `(...) {` block is not a function body
+    private static readonly BLOCK_KEYWORDS = new Set(['if', 'switch', 'catch', 'with', 'for', 'while', 'extends']);
+
+    /**
+     * Inserts calls to a guard function into loops and function bodies
+     * @param code - The user code
+     * @param guard - Name of the guard function visible to the code
+     * @throws SyntaxError if the code uses dynamic import()
+     */
+    public static instrument(code: string, guard: string): string {
+        const tokens = this.tokenize(code);
+        const insertions: Array<{ at: number; text: string }> = [];
+        const insert = (at: number, text: string) => insertions.push({ at, text });
+
+        // Matching parentheses: index of ")" → index of "(" and back
+        const openers = new Map<number, number>();
+        const closers = new Map<number, number>();
+        const stack: number[] = [];
+        tokens.forEach((token, i) => {
+            if (token.value === '(') {
+                stack.push(i);
+            } else if (token.value === ')' && stack.length > 0) {
+                const open = stack.pop()!;
+                openers.set(i, open);
+                closers.set(open, i);
+            }
+        });
+
+        let pendingClass = false;
+
+        tokens.forEach((token, i) => {
+            const previous = tokens[i - 1];
+            const next = tokens[i + 1];
+
+            if (token.type === 'identifier' && (!previous || previous.value !== '.')) {
+                if (token.value === 'import' && next && next.value === '(') {
+                    throw new SyntaxError('Dynamic import() is not allowed in node code');
+                }
+                if (token.value === 'class') {
+                    pendingClass = true;
+                }
+
+                // Loop headers
+                if (token.value === 'while' && next && next.value === '(' && closers.has(i + 1)) {
+                    insert(next.end, `${guard}(), (`);
+                    insert(tokens[closers.get(i + 1)!].start, ')');
+                } else if (token.value === 'for') {
+                    const open = next && next.value === 'await' ? i + 2 : i + 1;
+                    if (tokens[open] && tokens[open].value === '(' && closers.has(open)) {
+                        this.guardFor(tokens, open, closers.get(open)!, guard, insert);
+                    }
+                }
+            }
+
+            if (token.value !== '{') return;
+
+            // Class bodies cannot hold statements
+            if (pendingClass) {
+                pendingClass = false;
+                return;
+            }
+
+            if (!previous) return;
+            if (previous.value === '=>' || (previous.type === 'identifier' && previous.value === 'do')) {
+                insert(token.end, `${guard}();`);
+            } else if (previous.value === ')' && openers.has(i - 1)) {
+                const beforeParen = tokens[openers.get(i - 1)! - 1];
+                const isBlock = beforeParen && beforeParen.type === 'identifier' && this.BLOCK_KEYWORDS.has(beforeParen.value);
+                if (!isBlock) {
+                    insert(token.end, `${guard}();`);
+                }
+            }
+        });
+
+        // Apply from the end so earlier positions stay valid
+        insertions.sort((a, b) => b.at - a.at);
+        let result = code;
+        insertions.forEach(({ at, text }) => {
+            result = result.slice(0, at) + text + result.slice(at);
+        });
+        return result;
+    }
+
+    /**
+     * Guards a for loop: the test of a classic loop, or the body of a for-in/of loop
+     */
+    private static guardFor(
+        tokens: Token[],
+        open: number,
+        close: number,
+        guard: string,
+        insert: (at: number, text: string) => void
+    ): void {
+        // Semicolons of the header (not inside nested brackets)
+        const semicolons: number[] = [];
+        let depth = 0;
+        for (let i = open + 1; i < close; i++) {
+            const value = tokens[i].value;
+            if (value === '(' || value === '[' || value === '{') depth++;
+            else if (value === ')' || value === ']' || value === '}') depth--;
+            else if (value === ';' && depth === 0) semicolons.push(i);
+        }
+
+        if (semicolons.length === 2) {
+            const [first, second] = semicolons;
+            if (second === first + 1) {
+                // An empty test means "always true", which the guard must keep
+                insert(tokens[first].end, `(${guard}(), true)`);
+            } else {
+                insert(tokens[first].end, `(${guard}(), (`);
+                insert(tokens[second].start, '))');
+            }
+            return;
+        }
+
+        const body = tokens[close + 1];
+        if (body && body.value === '{') {
+            insert(body.end, `${guard}();`);
+        }
+    }
+
+    /**
+     * Splits code into tokens, skipping whitespace and comments
+     */
+    public static tokenize(code: string): Token[] {
+        const tokens: Token[] = [];
+        // Open braces: true if the brace is the `${` of a template literal
+        const braces: boolean[] = [];
+        let i = 0;
+
+        const push = (type: Token['type'], start: number, end: number) => {
+            tokens.push({ type, value: code.slice(start, end), start, end });
+        };
+
+        // Scans template characters up to the closing backtick or the next `${`
+        const scanTemplate = (start: number): void => {
+            let j = start;
+            while (j < code.length) {
+                if (code[j] === '\\') {
+                    j += 2;
+                } else if (code[j] === '`') {
+                    push('literal', start, j + 1);
+                    i = j + 1;
+                    return;
+                } else if (code[j] === '$' && code[j + 1] === '{') {
+                    push('literal', start, j + 2);
+                    braces.push(true);
+                    i = j + 2;
+                    return;
+                } else {
+                    j++;
+                }
+            }
+            push('literal', start, code.length);
+            i = code.length;
+        };
+
+        while (i < code.length) {
+            const char = code[i];
+
+            // Whitespace
+            if (/\s/.test(char)) {
+                i++;
+                continue;
+            }
+
+            // Comments
+            if (char === '/' && code[i + 1] === '/') {
+                const end = code.indexOf('\n', i);
+                i = end === -1 ? code.length : end;
+                continue;
+            }
+            if (char === '/' && code[i + 1] === '*') {
+                const end = code.indexOf('*/', i + 2);
+                i = end === -1 ? code.length : end + 2;
+                continue;
+            }
+
+            // Strings
+            if (char === '"' || char === "'") {
+                let j = i + 1;
+                while (j < code.length && code[j] !== char && code[j] !== '\n') {
+                    j += code[j] === '\\' ? 2 : 1;
+                }
+                push('literal', i, Math.min(j + 1, code.length));
+                i = j + 1;
+                continue;
+            }
+
+            // Template literals (and their `${...}` expressions)
+            if (char === '`') {
+                scanTemplate(i + 1);
+                continue;
+            }
+            if (char === '}' && braces.length > 0 && braces[braces.length - 1]) {
+                braces.pop();
+                scanTemplate(i + 1);
+                continue;
+            }
+
+            // Regular expressions
+            if (char === '/' && this.startsRegex(tokens[tokens.length - 1])) {
+                let j = i + 1;
+                let inClass = false;
+                while (j < code.length && code[j] !== '\n') {
+                    if (code[j] === '\\') {
+                        j += 2;
+                        continue;
+                    }
+                    if (code[j] === '[') inClass = true;
+                    else if (code[j] === ']') inClass = false;
+                    else if (code[j] === '/' && !inClass) break;
+                    j++;
+                }
+                j++;
+                while (j < code.length && /[a-z]/i.test(code[j])) j++;
+                push('literal', i, j);
+                i = j;
+                continue;
+            }
+
+            // Identifiers and keywords
+            const identifier = /^[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff]*/.exec(code.slice(i, i + 256));
+            if (identifier) {
+                push('identifier', i, i + identifier[0].length);
+                i += identifier[0].length;
+                continue;
+            }
+
+            // Numbers
+            const number = /^\.?\d[\w.]*/.exec(code.slice(i, i + 64));
+            if (number) {
+                push('literal', i, i + number[0].length);
+                i += number[0].length;
+                continue;
+            }
+
+            // Punctuators (only the ones the guard cares about need to be exact)
+            if (char === '=' && code[i + 1] === '>') {
+                push('punctuator', i, i + 2);
+                i += 2;
+                continue;
+            }
+            if (char === '{') braces.push(false);
+            else if (char === '}') braces.pop();
+            push('punctuator', i, i + 1);
+            i++;
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Checks if a `/` after this token starts a regular expression
+     */
+    private static startsRegex(previous: Token | undefined): boolean {
+        if (!previous) return true;
+        if (previous.type === 'literal') return false;
+        if (previous.type === 'identifier') return this.REGEX_KEYWORDS.has(previous.value);
+        return previous.value !== ')' && previous.value !== ']';
+    }
+}
@@ -0,0 +1,220 @@
+import { ScriptGuard, Token } from './ScriptGuard.js';
+
+/**
+ * A script split into its top-level function declarations and the rest
+ */
+export interface HoistedScript {
+    // Source of the top-level function declarations
+    declarations: string;
+    // The remaining statements (declarations blanked out, so line numbers stay the same)
+    body: string;
+}
+
+/**
+ * A script with the `export` keywords of its functions removed
+ */
+export interface ExportedScript {
+    // Code without the keywords (blanked out, so positions stay the same)
+    code: string;
+    // Names of the exported functions
+    exports: string[];
+}
+
+/**
+ * A top-level function declaration (token indices)
+ */
+interface FunctionDeclaration {
+    name: string;
+    first: number;
+    last: number;
+}
+
+/**
+ * ScriptHoister: Moves the top-level function declarations of node code out of
+ * the code that runs every tick
+ *
+ * NodeExecutor declares them once per node, so OnStart/OnUpdate/OnEnd and their
+ * helpers keep their closures between ticks instead of being re-created on
+ * every run. That is only safe if the functions do not use variables declared
+ * by the rest of the script (those are still created on every run); for such
+ * scripts hoist() returns null and the script runs as written.
+ *
+ * stripExports() finds the functions a script exports (the lifecycle hooks of
+ * structured scripts, see NodeExecutor) and removes the keyword, since node
+ * code runs as a function body rather than a module.
+ */
+export class ScriptHoister {
+    // Keywords after which `function` starts an expression, not a declaration
+    private static readonly EXPRESSION_KEYWORDS = new Set([
+        'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+        'throw', 'case', 'default', 'extends', 'yield', 'await'
+    ]);
+
+    /**
+     * Splits code into its top-level function declarations and the rest
+     * @param code - The user code
+     * @returns The split script, or null if there is nothing to hoist or hoisting would change its meaning
+     */
+    public static hoist(code: string): HoistedScript | null {
+        const tokens = ScriptGuard.tokenize(code);
+        const functions: FunctionDeclaration[] = [];
+        const declared = new Set<string>();
+
+        // Depth of the open brackets, and of the var/let/const statement being read
+        let depth = 0;
+        let declarationDepth: number | null = null;
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            const previous = tokens[i - 1];
+            const next = tokens[i + 1];
+
+            if (depth === 0 && this.isDeclarationStart(tokens, i)) {
+                const declaration = this.readFunction(tokens, i);
+                if (declaration) {
+                    functions.push(declaration);
+                    i = declaration.last;
+                    continue;
+                }
+            }
+
+            const isKeyword = token.type === 'identifier' && (!previous || previous.value !== '.');
+
+            // Variables of the script (var is function scoped, so it counts at any depth)
+            if (isKeyword && (token.value === 'var' || (depth === 0 && (token.value === 'let' || token.value === 'const')))) {
+                if (!next || next.type !== 'identifier') return null; // Destructuring
+                declared.add(next.value);
+                declarationDepth = depth;
+            } else if (isKeyword && depth === 0 && token.value === 'class' && next && next.type === 'identifier') {
+                declared.add(next.value);
+            } else if (declarationDepth === depth && token.value === ',') {
+                if (!next || next.type !== 'identifier') return null;
+                declared.add(next.value);
+            } else if (declarationDepth === depth && token.value === ';') {
+                declarationDepth = null;
+            }
+
+            if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+            else if (token.value === ')' || token.value === ']' || token.value === '}') depth--;
+        }
+
+        if (functions.length === 0) {
+            return null;
+        }
+
+        // Functions that use the script's variables have to stay in the body
+        for (const declaration of functions) {
+            for (let i = declaration.first; i <= declaration.last; i++) {
+                const token = tokens[i];
+                const previous = tokens[i - 1];
+                if (token.type === 'identifier' && declared.has(token.value) && (!previous || previous.value !== '.')) {
+                    return null;
+                }
+            }
+        }
+
+        let body = code;
+        const declarations: string[] = [];
+        functions.forEach(declaration => {
+            const start = tokens[declaration.first].start;
+            const end = tokens[declaration.last].end;
+            declarations.push(code.slice(start, end));
+            body = body.slice(0, start) + code.slice(start, end).replace(/[^\n]/g, ' ') + body.slice(end);
+        });
+
+        return {
+            declarations: declarations.join('\n'),
+            body
+        };
+    }
+
+    /**
+     * Removes `export` from top-level function declarations
+     * @param code - The user code
+     * @returns The code without the keywords, and the names of the exported functions
+     */
+    public static stripExports(code: string): ExportedScript {
+        const tokens = ScriptGuard.tokenize(code);
+        const exports: string[] = [];
+        let result = code;
+        let depth = 0;
+
+        tokens.forEach((token, i) => {
+            const previous = tokens[i - 1];
+            const isExport = depth === 0 && token.type === 'identifier' && token.value === 'export' &&
+                (!previous || previous.value === ';' || previous.value === '}');
+
+            if (isExport && this.isDeclarationStart(tokens, i + 1)) {
+                const declaration = this.readFunction(tokens, i + 1);
+                if (declaration) {
+                    exports.push(declaration.name);
+                    result = result.slice(0, token.start) + ' '.repeat(token.end - token.start) + result.slice(token.end);
+                }
+            }
+
+            if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+            else if (token.value === ')' || token.value === ']' || token.value === '}') depth--;
+        });
+
+        return { code: result, exports };
+    }
+
+    /**
+     * Checks if a `function` (or `async function`) at this token starts a statement
+     */
+    private static isDeclarationStart(tokens: Token[], i: number): boolean {
+        const token = tokens[i];
+        if (!token) return false;
+        const isFunction = token.value === 'function' ||
+            (token.value === 'async' && tokens[i + 1] !== undefined && tokens[i + 1].value === 'function');
+        if (token.type !== 'identifier' || !isFunction) {
+            return false;
+        }
+
+        const previous = tokens[i - 1];
+        if (!previous || previous.type === 'literal') {
+            return true;
+        }
+        if (previous.type === 'identifier') {
+            return previous.value !== '.' && !this.EXPRESSION_KEYWORDS.has(previous.value);
+        }
+        return previous.value === ';' || previous.value === '}' || previous.value === ')' || previous.value === ']';
+    }
+
+    /**
+     * Reads `[async] function [*] name (...) {...}` starting at token i
+     */
+    private static readFunction(tokens: Token[], i: number): FunctionDeclaration | null {
+        let index = tokens[i].value === 'async' ? i + 2 : i + 1;
+        if (tokens[index] && tokens[index].value === '*') index++;
+
+        const name = tokens[index];
+        if (!name || name.type !== 'identifier' || !tokens[index + 1] || tokens[index + 1].value !== '(') {
+            return null;
+        }
+
+        const close = this.findClosing(tokens, index + 1);
+        if (close === -1 || !tokens[close + 1] || tokens[close + 1].value !== '{') {
+            return null;
+        }
+
+        const last = this.findClosing(tokens, close + 1);
+        return last === -1 ? null : { name: name.value, first: i, last };
+    }
+
+    /**
+     * Finds the index of the bracket closing the one at index open (-1 if unbalanced)
+     */
+    private static findClosing(tokens: Token[], open: number): number {
+        let depth = 0;
+        for (let i = open; i < tokens.length; i++) {
+            const value = tokens[i].value;
+            if (value === '(' || value === '[' || value === '{') depth++;
+            else if (value === ')' || value === ']' || value === '}') {
+                depth--;
+                if (depth === 0) return i;
+            }
+        }
+        return -1;
+    }
+}
@@ -0,0 +1,134 @@
+import { TreeNode, NodeCategory } from './TreeNode.js';
+import { NodeStatus } from './NodeStatus.js';
+import { Blackboard } from './Blackboard.js';
+import { NodeExecutor } from './NodeExecutor.js';
+
+/**
+ * Bookkeeping for an asynchronous execution that has not been observed yet
+ */
+interface PendingExecution {
+    controller: AbortController;
+    settled: boolean;
+    result?: NodeStatus;
+}
+
+/**
+ * ScriptNode: Base class for leaf nodes that execute user code via NodeExecutor.
+ *
+ * Handles the shared execution bookkeeping:
+ * - Tracks ticks since the node started (exposed to code as `tick`)
+ * - Supports asynchronous code: while a returned Promise is pending the node
+ *   reports RUNNING, and the settled status is reported on the next tick
+ * - Cancels pending work (aborting `signal`) when the node is reset
+ * - Invokes the script's OnAbort() hook when halted while RUNNING
+ */
+export abstract class ScriptNode extends TreeNode {
+    // Track ticks since this node started
+    protected ticksSinceStart: number = 0;
+
+    // Async execution currently in flight (null when idle or synchronous)
+    private pending: PendingExecution | null = null;
+
+    constructor(type: string, label: string, category: NodeCategory, icon: string, color: string) {
+        super(type, label, category, icon, color);
+    }
+
+    public tick(blackboard: Blackboard): NodeStatus {
+        // Waiting on asynchronous code from a previous tick
+        if (this.pending) {
+            if (!this.pending.settled) {
+                return this.complete(NodeStatus.RUNNING);
+            }
+
+            const result = this.pending.result!;
+            this.pending = null;
+            return this.complete(result);
+        }
+
+        if (!this.code) {
+            // No code means success
+            return this.complete(NodeStatus.SUCCESS);
+        }
+
+        // Execute the user's code with tick count and parameters
+        const controller = new AbortController();
+        const result = NodeExecutor.execute(
+            this.code,
+            blackboard,
+            this.id,
+            this.ticksSinceStart,
+            this.parameters.getValues(),
+            controller.signal,
+            this
+        );
+
+        if (result instanceof Promise) {
+            const pending: PendingExecution = { controller, settled: false };
+            this.pending = pending;
+
+            result.then(status => {
+                // Ignore results from executions that were cancelled meanwhile
+                if (this.pending === pending) {
+                    pending.settled = true;
+                    pending.result = status;
+                }
+            });
+
+            return this.complete(NodeStatus.RUNNING);
+        }
+
+        return this.complete(result);
+    }
+
+    /**
+     * Checks if asynchronous code is still in flight
+     */
+    public isPending(): boolean {
+        return this.pending !== null && !this.pending.settled;
+    }
+
+    /**
+     * Cancels any pending asynchronous execution
+     */
+    public cancelPending(): void {
+        if (this.pending) {
+            this.pending.controller.abort();
+            this.pending = null;
+        }
+    }
+
+    protected onAbort(blackboard: Blackboard): void {
+        if (this.code) {
+            NodeExecutor.abort(
+                this.code,
+                blackboard,
+                this.id,
+                this.ticksSinceStart,
+                this.parameters.getValues(),
+                this
+            );
+        }
+    }
+
+    public reset(): void {
+        this.cancelPending();
+        super.reset();
+        this.ticksSinceStart = 0;
+    }
+
+    /**
+     * Records the status for this tick and updates the tick counter
+     */
+    private complete(status: NodeStatus): NodeStatus {
+        this.status = status;
+
+        // Increment tick count if still running, reset it when complete
+        if (status === NodeStatus.RUNNING) {
+            this.ticksSinceStart++;
+        } else {
+            this.ticksSinceStart = 0;
+        }
+
+        return this.status;
+    }
+}
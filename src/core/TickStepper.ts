@@ -0,0 +1,146 @@
+import { TreeNode, ChildTick } from './TreeNode.js';
+import { Blackboard } from './Blackboard.js';
+import { NodeStatus } from './NodeStatus.js';
+
+/**
+ * A node that was entered and has not finished yet
+ */
+interface StepFrame {
+    node: TreeNode | null;  // null for the tree itself (its traversal yields the entry nodes)
+    blackboard: Blackboard | null;
+    traversal: Generator<ChildTick, NodeStatus, NodeStatus>;
+}
+
+/**
+ * TickStepper: Runs one tick node by node
+ *
+ * Drives the traversals of nodes with children (TreeNode.traverse) by hand, so
+ * a tick can stop before any node executes. Leaves and nodes without a
+ * traversal (e.g. SubTree) run in one step. The active tick listener
+ * (TreeNode.tickListener) is notified exactly as in a normal tick.
+ *
+ * - stepInto(): enter the next node and stop before its first child
+ * - stepOver(): run the next node with its whole subtree
+ * - stepOut(): run until the node the next node belongs to has finished
+ */
+export class TickStepper {
+    private frames: StepFrame[];
+    private next: ChildTick | null = null;
+    private result: NodeStatus | null = null;
+
+    /**
+     * @param traversal - Traversal of the whole tick (yields the entry nodes)
+     */
+    constructor(traversal: Generator<ChildTick, NodeStatus, NodeStatus>) {
+        this.frames = [{ node: null, blackboard: null, traversal }];
+        this.advance(traversal.next());
+    }
+
+    /**
+     * Gets the node about to execute (null once the tick finished)
+     */
+    public getNextNode(): TreeNode | null {
+        return this.next ? this.next.child : null;
+    }
+
+    /**
+     * Gets the nodes that were entered and have not finished (outermost first)
+     */
+    public getActiveNodes(): TreeNode[] {
+        return this.frames.filter(frame => frame.node !== null).map(frame => frame.node!);
+    }
+
+    /**
+     * Checks if the tick has finished
+     */
+    public isDone(): boolean {
+        return this.next === null;
+    }
+
+    /**
+     * Gets the result of the tick (null until it finished)
+     */
+    public getResult(): NodeStatus | null {
+        return this.result;
+    }
+
+    /**
+     * Enters the next node: stops before its first child, or runs it if it has no traversal
+     */
+    public stepInto(): void {
+        if (!this.next) return;
+
+        const { child, blackboard } = this.next;
+        this.next = null;
+
+        const traversal = child.traverse(blackboard);
+        if (!traversal) {
+            this.finishChild(child.executeTick(blackboard));
+            return;
+        }
+
+        TreeNode.tickListener?.onTickEnter(child, blackboard);
+        this.frames.push({ node: child, blackboard, traversal });
+        this.advance(traversal.next());
+    }
+
+    /**
+     * Runs the next node with its whole subtree
+     */
+    public stepOver(): void {
+        if (!this.next) return;
+
+        const { child, blackboard } = this.next;
+        this.next = null;
+        this.finishChild(child.executeTick(blackboard));
+    }
+
+    /**
+     * Runs until the node the next node belongs to has finished
+     */
+    public stepOut(): void {
+        const depth = this.frames.length;
+        while (this.next && this.frames.length >= depth) {
+            this.stepOver();
+        }
+    }
+
+    /**
+     * Runs the rest of the tick
+     * @returns The result of the tick
+     */
+    public finish(): NodeStatus {
+        while (this.next) {
+            this.stepOver();
+        }
+        return this.result!;
+    }
+
+    /**
+     * Passes the status of the child that just finished to the node that ticked it
+     */
+    private finishChild(status: NodeStatus): void {
+        const frame = this.frames[this.frames.length - 1];
+        this.advance(frame.traversal.next(status));
+    }
+
+    /**
+     * Stops at the next child to tick, finishing every traversal that completed on the way
+     */
+    private advance(step: IteratorResult<ChildTick, NodeStatus>): void {
+        while (step.done) {
+            const frame = this.frames.pop()!;
+            if (frame.node) {
+                TreeNode.tickListener?.onTickExit(frame.node, step.value, frame.blackboard!);
+            }
+
+            if (this.frames.length === 0) {
+                this.result = step.value;
+                return;
+            }
+            step = this.frames[this.frames.length - 1].traversal.next(step.value);
+        }
+
+        this.next = step.value;
+    }
+}
@@ -0,0 +1,266 @@
+import { TreeNode } from './TreeNode.js';
+import { Blackboard, BlackboardChange } from './Blackboard.js';
+import { NodeStatus } from './NodeStatus.js';
+
+/**
+ * A node whose status changed during a tick
+ */
+export interface StatusTransition {
+    nodeId: string;
+    from: NodeStatus;
+    to: NodeStatus;
+}
+
+/**
+ * Everything that happened during one recorded tick
+ */
+export interface TraceFrame {
+    tick: number;                           // BehaviorTree.tickCount of the tick
+    time: number;                           // Clock time when the tick started (ms)
+    status: NodeStatus;                     // Overall result of the tick
+    statuses: Record<string, NodeStatus>;   // Status of every ticked node (missing = IDLE)
+    transitions: StatusTransition[];        // Status changes relative to the previous frame
+    changes: BlackboardChange[];            // Blackboard writes, in order
+}
+
+/**
+ * TraceRecorder: Records node status transitions and blackboard diffs per tick
+ *
+ * Attach it to a tree with `tree.setRecorder(recorder)`; BehaviorTree.tick()
+ * then reports every tick to it. Statuses are captured right after each entry
+ * node (root or Start node) finishes, before completed branches are reset, so a
+ * frame shows the statuses the tick actually produced.
+ *
+ * Only the most recent `maxFrames` ticks are kept. Restarting the tree (tick
+ * counter back to 1) begins a new trace.
+ *
+ * Use case: "Scrub back to tick 42 and see why the guard stopped chasing"
+ */
+export class TraceRecorder {
+    private frames: TraceFrame[] = [];
+    private current: TraceFrame | null = null;
+
+    // Blackboard values before the oldest kept frame (for getBlackboardAt)
+    private baseValues: Record<string, any> = {};
+
+    private blackboard: Blackboard | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    public maxFrames: number;
+    public enabled: boolean = true;
+
+    /**
+     * Called after each recorded tick
+     */
+    public onFrame?: (frame: TraceFrame) => void;
+
+    constructor(maxFrames: number = 1000) {
+        this.maxFrames = maxFrames;
+    }
+
+    // ===========================
+    // RECORDING (CALLED BY BehaviorTree)
+    // ===========================
+
+    /**
+     * Starts recording a tick
+     */
+    public beginTick(tick: number, time: number, blackboard: Blackboard): void {
+        if (!this.enabled) return;
+
+        // A restarted tree begins a new trace
+        const last = this.frames[this.frames.length - 1];
+        if (last && tick <= last.tick) {
+            this.clear();
+        }
+
+        this.observe(blackboard);
+        if (this.frames.length === 0) {
+            this.baseValues = TraceRecorder.copy(blackboard.toJSON());
+        }
+
+        this.current = {
+            tick,
+            time,
+            status: NodeStatus.IDLE,
+            statuses: {},
+            transitions: [],
+            changes: []
+        };
+    }
+
+    /**
+     * Captures the statuses of an entry node and its descendants
+     */
+    public captureStatuses(entry: TreeNode): void {
+        if (!this.current) return;
+
+        [entry, ...entry.getAllDescendants()].forEach(node => {
+            if (node.status !== NodeStatus.IDLE) {
+                this.current!.statuses[node.id] = node.status;
+            }
+        });
+    }
+
+    /**
+     * Finishes the tick started with beginTick()
+     */
+    public endTick(status: NodeStatus): TraceFrame | null {
+        const frame = this.current;
+        if (!frame) return null;
+        this.current = null;
+
+        frame.status = status;
+        frame.transitions = TraceRecorder.diffStatuses(this.getLastFrame()?.statuses || {}, frame.statuses);
+
+        this.frames.push(frame);
+        while (this.frames.length > this.maxFrames) {
+            this.applyChanges(this.baseValues, this.frames.shift()!.changes);
+        }
+
+        if (this.onFrame) {
+            this.onFrame(frame);
+        }
+        return frame;
+    }
+
+    // ===========================
+    // QUERIES (READ-ONLY)
+    // ===========================
+
+    /**
+     * Gets all recorded frames (oldest first)
+     */
+    public getFrames(): TraceFrame[] {
+        return [...this.frames];
+    }
+
+    /**
+     * Gets a frame by index (0 = oldest kept frame)
+     */
+    public getFrame(index: number): TraceFrame | null {
+        return this.frames[index] || null;
+    }
+
+    /**
+     * Gets the most recent frame
+     */
+    public getLastFrame(): TraceFrame | null {
+        return this.frames[this.frames.length - 1] || null;
+    }
+
+    /**
+     * Finds the frame of a tick number
+     */
+    public findFrame(tick: number): TraceFrame | null {
+        return this.frames.find(frame => frame.tick === tick) || null;
+    }
+
+    /**
+     * Number of recorded frames
+     */
+    public size(): number {
+        return this.frames.length;
+    }
+
+    /**
+     * Reconstructs the blackboard contents at the end of a frame
+     */
+    public getBlackboardAt(index: number): Record<string, any> {
+        const values = TraceRecorder.copy(this.baseValues);
+        this.frames.slice(0, index + 1).forEach(frame => this.applyChanges(values, frame.changes));
+        return values;
+    }
+
+    // ===========================
+    // MANAGEMENT
+    // ===========================
+
+    /**
+     * Removes all frames
+     */
+    public clear(): void {
+        this.frames = [];
+        this.current = null;
+        this.baseValues = {};
+    }
+
+    /**
+     * Stops listening to the blackboard
+     */
+    public dispose(): void {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        this.blackboard = null;
+    }
+
+    // ===========================
+    // HELPERS
+    // ===========================
+
+    /**
+     * Subscribes to blackboard writes (re-subscribes if the tree's blackboard changed)
+     */
+    private observe(blackboard: Blackboard): void {
+        if (this.blackboard === blackboard) return;
+
+        this.dispose();
+        this.blackboard = blackboard;
+        this.unsubscribe = blackboard.onChange('*', change => {
+            if (this.current) {
+                this.current.changes.push({
+                    ...change,
+                    oldValue: TraceRecorder.copy(change.oldValue),
+                    newValue: TraceRecorder.copy(change.newValue)
+                });
+            }
+        });
+    }
+
+    private applyChanges(values: Record<string, any>, changes: BlackboardChange[]): void {
+        changes.forEach(change => {
+            if (change.newValue === undefined) {
+                delete values[change.key];
+            } else {
+                values[change.key] = TraceRecorder.copy(change.newValue);
+            }
+        });
+    }
+
+    /**
+     * Lists nodes whose status differs between two frames
+     */
+    private static diffStatuses(
+        previous: Record<string, NodeStatus>,
+        next: Record<string, NodeStatus>
+    ): StatusTransition[] {
+        const ids = new Set([...Object.keys(previous), ...Object.keys(next)]);
+        const transitions: StatusTransition[] = [];
+
+        ids.forEach(nodeId => {
+            const from = previous[nodeId] || NodeStatus.IDLE;
+            const to = next[nodeId] || NodeStatus.IDLE;
+            if (from !== to) {
+                transitions.push({ nodeId, from, to });
+            }
+        });
+        return transitions;
+    }
+
+    /**
+     * Copies a value so later mutations don't rewrite history
+     * (values that cannot be serialized are kept by reference)
+     */
+    private static copy<T>(value: T): T {
+        if (value === undefined || value === null || typeof value !== 'object') {
+            return value;
+        }
+        try {
+            return JSON.parse(JSON.stringify(value));
+        } catch {
+            return value;
+        }
+    }
+}
@@ -0,0 +1,352 @@
+import { TreeNode, TickListener } from './TreeNode.js';
+import { Blackboard } from './Blackboard.js';
+import { NodeStatus } from './NodeStatus.js';
+import { NodeExecutor } from './NodeExecutor.js';
+
+/**
+ * When a breakpoint fires: when its node is entered, or when it returns a status
+ */
+export type BreakpointTrigger = 'enter' | NodeStatus.SUCCESS | NodeStatus.FAILURE | NodeStatus.RUNNING;
+
+/**
+ * A breakpoint on one node
+ */
+export interface Breakpoint {
+    nodeId: string;
+    trigger: BreakpointTrigger;
+    enabled: boolean;
+}
+
+/**
+ * A watch expression, e.g. `blackboard.get('health') < 20`
+ */
+export interface Watch {
+    id: string;
+    expression: string;
+    enabled: boolean;
+    value: any;         // Result of the last evaluation (undefined before the first tick)
+}
+
+/**
+ * A blackboard key read by a watch expression, with who touched it
+ */
+export interface WatchedKey {
+    key: string;
+    value: any;
+    lastWriter: string | null;  // Node that last wrote the key (null if unknown)
+    dependencies: string[];     // Nodes that read or wrote the key (Blackboard.getDependencies)
+}
+
+/**
+ * A breakpoint that fired
+ */
+export interface BreakpointHit {
+    nodeId: string | null;              // Node of the breakpoint; for watches, the last writer of a watched key
+    trigger: BreakpointTrigger | 'watch';
+    tick: number;                       // BehaviorTree.tickCount of the tick
+    status: NodeStatus | null;          // Status the node returned (null when hit on enter or by a watch)
+    blackboard: Record<string, any>;    // Blackboard contents at the moment it fired
+    watch?: Watch;                      // The watch that became true
+    keys?: WatchedKey[];                // Keys the watch reads
+}
+
+/**
+ * TreeDebugger: Per-node breakpoints that pause a BehaviorTree
+ *
+ * Attach it with `tree.setDebugger(treeDebugger)`. While the tree ticks, every
+ * node tick is reported to it (see TreeNode.executeTick). Node ticks are
+ * synchronous, so a breakpoint cannot stop a tick halfway: the tick it fired in
+ * finishes, then the tree pauses. The hit keeps a copy of the blackboard as it
+ * was when the breakpoint fired, so it can still be inspected.
+ *
+ * Watch expressions are evaluated after each tick (through NodeExecutor, with
+ * the same variables as node code). A watch pauses the tree when it becomes
+ * truthy, and reports which node last wrote each key it reads.
+ *
+ * Use case: "Pause when ChaseTarget starts, and look at the blackboard"
+ * Use case: "Pause when health drops below 20, and show who wrote it"
+ */
+export class TreeDebugger implements TickListener {
+    // Triggers offered by the editor, with their display names
+    public static readonly TRIGGERS: ReadonlyArray<{ trigger: BreakpointTrigger; label: string }> = [
+        { trigger: 'enter', label: 'On enter' },
+        { trigger: NodeStatus.SUCCESS, label: 'On success' },
+        { trigger: NodeStatus.FAILURE, label: 'On failure' },
+        { trigger: NodeStatus.RUNNING, label: 'On running' }
+    ];
+
+    private breakpoints: Map<string, Breakpoint> = new Map();
+    private watches: Watch[] = [];
+    private nextWatchId: number = 1;
+
+    // First hit of the tick in progress
+    private pendingHit: BreakpointHit | null = null;
+    // Hit the tree is paused at
+    private lastHit: BreakpointHit | null = null;
+    private currentTick: number = 0;
+
+    // ===========================
+    // BREAKPOINTS
+    // ===========================
+
+    /**
+     * Adds a breakpoint to a node (replaces its existing one)
+     */
+    public setBreakpoint(nodeId: string, trigger: BreakpointTrigger = 'enter'): Breakpoint {
+        const breakpoint: Breakpoint = { nodeId, trigger, enabled: true };
+        this.breakpoints.set(nodeId, breakpoint);
+        return breakpoint;
+    }
+
+    /**
+     * Removes the breakpoint of a node
+     */
+    public removeBreakpoint(nodeId: string): boolean {
+        return this.breakpoints.delete(nodeId);
+    }
+
+    /**
+     * Adds a breakpoint on enter, or removes the node's breakpoint
+     * @returns true if the node has a breakpoint afterwards
+     */
+    public toggleBreakpoint(nodeId: string): boolean {
+        if (this.removeBreakpoint(nodeId)) {
+            return false;
+        }
+        this.setBreakpoint(nodeId);
+        return true;
+    }
+
+    /**
+     * Enables or disables a breakpoint without removing it
+     */
+    public setBreakpointEnabled(nodeId: string, enabled: boolean): void {
+        const breakpoint = this.breakpoints.get(nodeId);
+        if (breakpoint) {
+            breakpoint.enabled = enabled;
+        }
+    }
+
+    /**
+     * Gets the breakpoint of a node
+     */
+    public getBreakpoint(nodeId: string): Breakpoint | null {
+        return this.breakpoints.get(nodeId) || null;
+    }
+
+    /**
+     * Checks if a node has a breakpoint
+     */
+    public hasBreakpoint(nodeId: string): boolean {
+        return this.breakpoints.has(nodeId);
+    }
+
+    /**
+     * Gets all breakpoints
+     */
+    public getBreakpoints(): Breakpoint[] {
+        return Array.from(this.breakpoints.values());
+    }
+
+    /**
+     * Removes all breakpoints
+     */
+    public clearBreakpoints(): void {
+        this.breakpoints.clear();
+    }
+
+    // ===========================
+    // WATCHES
+    // ===========================
+
+    /**
+     * Adds a watch expression
+     * @throws Error if the expression has a syntax error
+     */
+    public addWatch(expression: string): Watch {
+        const trimmed = expression.trim();
+        const error = trimmed ? NodeExecutor.validateSyntax(`return (${trimmed});`) : 'Expression is empty';
+        if (error) {
+            throw new Error(`Invalid watch expression: ${error}`);
+        }
+
+        const watch: Watch = { id: `watch-${this.nextWatchId++}`, expression: trimmed, enabled: true, value: undefined };
+        this.watches.push(watch);
+        return watch;
+    }
+
+    /**
+     * Removes a watch expression
+     */
+    public removeWatch(id: string): boolean {
+        const index = this.watches.findIndex(watch => watch.id === id);
+        if (index === -1) return false;
+
+        this.watches.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Enables or disables a watch without removing it
+     */
+    public setWatchEnabled(id: string, enabled: boolean): void {
+        const watch = this.watches.find(watch => watch.id === id);
+        if (watch) {
+            watch.enabled = enabled;
+        }
+    }
+
+    /**
+     * Gets all watch expressions
+     */
+    public getWatches(): Watch[] {
+        return [...this.watches];
+    }
+
+    /**
+     * Finds the blackboard keys an expression reads with `get('key')`
+     */
+    public static getWatchedKeys(expression: string): string[] {
+        const keys = new Set<string>();
+        const pattern = /\bget\(\s*(['"`])(.*?)\1/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(expression)) !== null) {
+            keys.add(match[2]);
+        }
+        return Array.from(keys);
+    }
+
+    // ===========================
+    // HITS
+    // ===========================
+
+    /**
+     * Gets the hit the tree is paused at (null if none)
+     */
+    public getLastHit(): BreakpointHit | null {
+        return this.lastHit;
+    }
+
+    /**
+     * Forgets the last hit (e.g. when the tree resumes)
+     */
+    public clearHit(): void {
+        this.lastHit = null;
+        this.pendingHit = null;
+    }
+
+    /**
+     * Forgets the last hit and the watch results (when the tree is reset)
+     */
+    public reset(): void {
+        this.clearHit();
+        this.watches.forEach(watch => {
+            watch.value = undefined;
+        });
+    }
+
+    // ===========================
+    // TICK HOOKS (CALLED BY BehaviorTree)
+    // ===========================
+
+    /**
+     * Starts watching a tick
+     */
+    public beginTick(tick: number): void {
+        this.currentTick = tick;
+        this.clearHit();
+    }
+
+    public onTickEnter(node: TreeNode, blackboard: Blackboard): void {
+        this.check(node, 'enter', null, blackboard);
+    }
+
+    public onTickExit(node: TreeNode, status: NodeStatus, blackboard: Blackboard): void {
+        this.check(node, status, status, blackboard);
+    }
+
+    /**
+     * Finishes the tick started with beginTick() and evaluates the watches
+     * @returns The first breakpoint that fired during the tick, or the first
+     *          watch that became true (null if none)
+     */
+    public endTick(blackboard: Blackboard): BreakpointHit | null {
+        const watchHit = this.evaluateWatches(blackboard);
+
+        this.lastHit = this.pendingHit || watchHit;
+        this.pendingHit = null;
+        return this.lastHit;
+    }
+
+    // ===========================
+    // HELPERS
+    // ===========================
+
+    private check(
+        node: TreeNode,
+        trigger: BreakpointTrigger | NodeStatus,
+        status: NodeStatus | null,
+        blackboard: Blackboard
+    ): void {
+        if (this.pendingHit) return; // Only the first hit of a tick matters
+
+        const breakpoint = this.breakpoints.get(node.id);
+        if (!breakpoint || !breakpoint.enabled || breakpoint.trigger !== trigger) return;
+
+        this.pendingHit = {
+            nodeId: node.id,
+            trigger: breakpoint.trigger,
+            tick: this.currentTick,
+            status,
+            blackboard: TreeDebugger.snapshot(blackboard)
+        };
+    }
+
+    /**
+     * Evaluates every enabled watch; a watch fires when its value turns truthy
+     * (so resuming does not stop again while the condition still holds)
+     */
+    private evaluateWatches(blackboard: Blackboard): BreakpointHit | null {
+        let hit: BreakpointHit | null = null;
+
+        for (const watch of this.watches) {
+            if (!watch.enabled) continue;
+
+            const wasTrue = Boolean(watch.value);
+            watch.value = NodeExecutor.evaluate(watch.expression, blackboard);
+
+            if (hit || wasTrue || !watch.value) continue;
+
+            const keys: WatchedKey[] = TreeDebugger.getWatchedKeys(watch.expression).map(key => ({
+                key,
+                value: blackboard.get(key),
+                lastWriter: blackboard.getLastWriter(key),
+                dependencies: blackboard.getDependencies(key)
+            }));
+
+            hit = {
+                nodeId: keys.find(key => key.lastWriter)?.lastWriter || null,
+                trigger: 'watch',
+                tick: this.currentTick,
+                status: null,
+                blackboard: TreeDebugger.snapshot(blackboard),
+                watch: { ...watch },
+                keys
+            };
+        }
+
+        return hit;
+    }
+
+    /**
+     * Copies the blackboard contents so later writes don't change the hit
+     */
+    private static snapshot(blackboard: Blackboard): Record<string, any> {
+        const values = blackboard.toJSON();
+        try {
+            return JSON.parse(JSON.stringify(values));
+        } catch {
+            return { ...values };
+        }
+    }
+}
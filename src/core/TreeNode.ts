@@ -2,17 +2,58 @@ import { NodeStatus } from './NodeStatus.js';
 import { Blackboard } from './Blackboard.js';
 import { Vector2 } from '../utils/Vector2.js';
 import { NodeParameters } from './NodeParameter.js';
+import { Clock, SystemClock } from './Scheduler.js';
+import { RandomSource, SeededRandom } from './Random.js';
 
 /**
  * Node category types for visual organization
+ * (conditions are leaves that only check state: they never return RUNNING)
  */
-export type NodeCategory = 'composite' | 'decorator' | 'leaf';
+export type NodeCategory = 'composite' | 'decorator' | 'leaf' | 'condition';
+
+/**
+ * A child that a node wants to tick, with the blackboard to tick it with
+ */
+export interface ChildTick {
+    child: TreeNode;
+    blackboard: Blackboard;
+}
+
+/**
+ * Resumable tick of a node with children (see TreeNode.traverse):
+ * yields the children to tick and receives their statuses back
+ */
+export type TickTraversal = Generator<ChildTick, NodeStatus, NodeStatus>;
+
+/**
+ * Receives a callback around every node tick (see TreeNode.executeTick)
+ */
+export interface TickListener {
+    onTickEnter(node: TreeNode, blackboard: Blackboard): void;
+    onTickExit(node: TreeNode, status: NodeStatus, blackboard: Blackboard): void;
+}
+
+/**
+ * The tree a node belongs to, as seen by its nodes (see TreeNode.link)
+ */
+export interface TreeContext {
+    // Id or name of the tree's document (null if it has none), used by
+    // SubTree nodes to detect references back to the tree they are in
+    readonly documentId: string | null;
+
+    /**
+     * Finds a node of the tree by id, or else by label
+     * @param exclude - Node skipped by the label lookup (e.g. the one asking)
+     */
+    findNode(reference: string, exclude?: TreeNode): TreeNode | null;
+}
 
 /**
  * Abstract base class for all behavior tree nodes.
  *
  * This class defines the interface and shared functionality for all node types.
- * Subclasses must implement the tick() method which contains the node's execution logic.
+ * Subclasses implement tick() (leaves) or traverse() (nodes that tick children),
+ * which contains the node's execution logic.
  */
 export abstract class TreeNode {
     // Unique identifier
@@ -47,6 +88,10 @@ export abstract class TreeNode {
     // Custom user code (primarily for ActionNodes)
     public code?: string;
 
+    // TypeScript source of the code, if authored in TypeScript (code then
+    // holds the transpiled JavaScript that is executed)
+    public sourceCode?: string;
+
     // Additional configuration data
     public config: Record<string, any> = {};
 
@@ -72,6 +117,17 @@ export abstract class TreeNode {
     public inputPortType: 'single' | 'multi' = 'single';
     public outputPortType: 'single' | 'multi' = 'multi';
 
+    // Listener of the tree that is currently ticking (set by BehaviorTree for the duration of a tick)
+    public static tickListener: TickListener | null = null;
+
+    // Clock of the tree that is currently ticking (set by BehaviorTree for the
+    // duration of a tick; time-based nodes read it through now())
+    public static clock: Clock = new SystemClock();
+
+    // Random numbers of the tree that is currently ticking (set by BehaviorTree
+    // for the duration of a tick; random nodes read it through nextRandom())
+    public static random: RandomSource = new SeededRandom();
+
     constructor(type: string, label: string, category: NodeCategory, icon: string, color: string) {
         this.id = this.generateId();
         this.type = type;
@@ -83,11 +139,64 @@ export abstract class TreeNode {
     }
 
     /**
-     * Main execution method. Subclasses must implement this.
+     * Main execution method. Leaves implement this; nodes with children
+     * implement traverse() instead, which this runs to completion.
      * @param blackboard - The shared data store
      * @returns The execution status
      */
-    public abstract tick(blackboard: Blackboard): NodeStatus;
+    public tick(blackboard: Blackboard): NodeStatus {
+        const traversal = this.traverse(blackboard);
+        if (!traversal) {
+            throw new Error(`Node type "${this.type}" implements neither tick() nor traverse()`);
+        }
+
+        let step = traversal.next();
+        while (!step.done) {
+            const { child, blackboard: childBlackboard } = step.value;
+            step = traversal.next(child.executeTick(childBlackboard));
+        }
+        return step.value;
+    }
+
+    /**
+     * Resumable form of tick() for nodes with children: instead of ticking a
+     * child directly, `yield { child, blackboard }` and receive its status.
+     * This lets a debugger pause between child ticks (see TickStepper).
+     * @returns null for nodes that tick in one go (leaves)
+     */
+    public traverse(_blackboard: Blackboard): TickTraversal | null {
+        return null;
+    }
+
+    /**
+     * Current time in milliseconds, from the clock of the ticking tree
+     */
+    protected now(): number {
+        return TreeNode.clock.now();
+    }
+
+    /**
+     * Random number in [0, 1), from the random source of the ticking tree
+     */
+    protected nextRandom(): number {
+        return TreeNode.random.next();
+    }
+
+    /**
+     * Ticks this node and reports it to the active tick listener (breakpoints).
+     * Parents call this instead of tick() on their children.
+     */
+    public executeTick(blackboard: Blackboard): NodeStatus {
+        const listener = TreeNode.tickListener;
+        if (!listener) {
+            return this.tick(blackboard);
+        }
+
+        listener.onTickEnter(this, blackboard);
+        const status = this.tick(blackboard);
+        listener.onTickExit(this, status, blackboard);
+        return status;
+    }
 
     /**
      * Resets the node to its initial state.
@@ -98,6 +207,72 @@ export abstract class TreeNode {
         this.children.forEach(child => child.reset());
     }
 
+    /**
+     * Interrupts this node and its running descendants.
+     *
+     * Running descendants are halted first (deepest first), then onAbort() is
+     * called if this node itself was RUNNING, and finally the node is reset.
+     * Call this instead of reset() when abandoning a branch that may be RUNNING.
+     */
+    public halt(blackboard: Blackboard): void {
+        const wasRunning = this.status === NodeStatus.RUNNING;
+
+        this.children.forEach(child => child.halt(blackboard));
+
+        if (wasRunning) {
+            this.onAbort(blackboard);
+        }
+
+        this.reset();
+    }
+
+    /**
+     * Called by BehaviorTree when this node is added to a tree (or the tree's
+     * nodes change). Override in nodes that refer to other nodes of the tree.
+     */
+    public link(_tree: TreeContext): void {
+        // No-op by default
+    }
+
+    /**
+     * Called when this node is removed from its tree or the tree is disposed.
+     * Override in nodes that hold on to something outside the tree
+     * (e.g. blackboard subscriptions).
+     */
+    public unlink(): void {
+        // No-op by default
+    }
+
+    /**
+     * Called by halt() when this node is interrupted while RUNNING.
+     * Override this in subclasses that hold resources across ticks.
+     */
+    protected onAbort(_blackboard: Blackboard): void {
+        // No-op by default
+    }
+
+    /**
+     * Asked by a parent Selector before it resumes a lower-priority running branch.
+     * Return true to interrupt that branch and run this one instead
+     * (observer aborts; see ConditionalNode).
+     */
+    public shouldAbortLowerPriority(_blackboard: Blackboard): boolean {
+        return false;
+    }
+
+    /**
+     * Halts every child that is still RUNNING
+     * @param fromIndex - Only halt children at or after this index
+     */
+    protected haltRunningChildren(blackboard: Blackboard, fromIndex: number = 0): void {
+        for (let i = fromIndex; i < this.children.length; i++) {
+            const child = this.children[i];
+            if (child.status === NodeStatus.RUNNING) {
+                child.halt(blackboard);
+            }
+        }
+    }
+
     /**
      * Checks if this node can accept more children
      * @returns true if more children can be added, false otherwise
@@ -204,6 +379,7 @@ export abstract class TreeNode {
             icon: this.icon,
             color: this.color,
             code: this.code,
+            sourceCode: this.sourceCode,
             config: this.config,
             parameters: this.parameters.toJSON(),
             children: this.children.map(child => child.id),
@@ -258,6 +434,7 @@ export abstract class TreeNode {
         // Update code if provided
         if (data.code !== undefined) {
             this.code = data.code;
+            this.sourceCode = typeof data.sourceCode === 'string' ? data.sourceCode : undefined;
         }
 
         // Update config if provided
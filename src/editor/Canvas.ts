@@ -188,6 +188,13 @@ export class Canvas {
             this.nodeRenderer
         );
 
+        // Render GoTo jump links
+        this.connectionRenderer.renderJumpLinks(
+            ctx,
+            this.editorState.nodes,
+            this.nodeRenderer
+        );
+
         // Render temporary connection (while dragging)
         if (this.editorState.tempConnection) {
             const temp = this.editorState.tempConnection;
@@ -1,8 +1,11 @@
 import { TreeNode } from '../core/TreeNode.js';
+import { NodeStatus } from '../core/NodeStatus.js';
 import { Vector2 } from '../utils/Vector2.js';
 import { NodeRenderer } from './NodeRenderer.js';
 import { Theme } from '../utils/Theme.js';
-import { ConnectionConstants, ConnectionShadowConstants } from '../utils/RendererConstants.js';
+import { ConnectionConstants, ConnectionShadowConstants, JumpLinkConstants, WeightLabelConstants } from '../utils/RendererConstants.js';
+import { GoToNode } from '../nodes/leaves/GoToNode.js';
+import { WeightedRandomSelectorNode } from '../nodes/composites/WeightedRandomSelectorNode.js';
 
 /**
  * ConnectionRenderer: Draws bezier curves between parent and child nodes.
@@ -43,6 +46,53 @@ export class ConnectionRenderer {
         });
     }
 
+    /**
+     * Renders the dashed links from GoTo nodes to the nodes they run
+     */
+    public renderJumpLinks(ctx: CanvasRenderingContext2D, nodes: TreeNode[], nodeRenderer: NodeRenderer): void {
+        nodes.forEach(node => {
+            if (!(node instanceof GoToNode)) return;
+
+            const target = node.getTarget();
+            if (!target || target === node) return;
+
+            const from = nodeRenderer.getOutputPortPositions(node, node.position, 1)[0];
+            const to = nodeRenderer.getInputPortPosition(target, target.position);
+            this.drawJumpLink(ctx, from, to, node.status === NodeStatus.RUNNING);
+        });
+    }
+
+    /**
+     * Draws a dashed bezier with an arrow head at the target
+     */
+    private drawJumpLink(ctx: CanvasRenderingContext2D, from: Vector2, to: Vector2, isActive: boolean): void {
+        const controlPointOffset = Math.max(Math.abs(to.y - from.y), Math.abs(to.x - from.x)) * ConnectionConstants.CONTROL_POINT_OFFSET;
+        const size = JumpLinkConstants.ARROW_SIZE;
+
+        ctx.save();
+        ctx.globalAlpha = JumpLinkConstants.OPACITY;
+        ctx.strokeStyle = isActive ? Theme.ui.activeConnection : Theme.ui.jumpLink;
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.lineWidth = JumpLinkConstants.LINE_WIDTH;
+        ctx.setLineDash([...JumpLinkConstants.DASH]);
+        ctx.lineDashOffset = isActive ? -this.animationOffset : 0;
+
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.bezierCurveTo(from.x, from.y + controlPointOffset, to.x, to.y - controlPointOffset, to.x, to.y);
+        ctx.stroke();
+
+        // The curve always enters the port from above
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - size / 2, to.y - size);
+        ctx.lineTo(to.x + size / 2, to.y - size);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+    }
+
     /**
      * Renders connections for a single node to its children
      */
@@ -78,18 +128,51 @@ export class ConnectionRenderer {
             }
 
             // Check if this connection is actively executing
-            const isActive = this.isConnectionActive(node, index);
+            const isActive = this.isConnectionActive(node, index, nodeRenderer);
 
             this.drawConnection(ctx, fromPos, toPos, false, isFlashing, flashIntensity, isActive);
+
+            if (node instanceof WeightedRandomSelectorNode) {
+                const chance = Math.round(node.getChance(child) * 100);
+                this.drawWeightLabel(ctx, fromPos, toPos, `${WeightedRandomSelectorNode.getWeight(child)} · ${chance}%`);
+            }
         });
     }
 
+    /**
+     * Draws a child's weight in the middle of its connection
+     */
+    private drawWeightLabel(ctx: CanvasRenderingContext2D, from: Vector2, to: Vector2, text: string): void {
+        // Midpoint of the bezier drawn by drawConnection (its control points share the ends' x)
+        const x = (from.x + to.x) / 2;
+        const y = (from.y + to.y) / 2;
+        const height = WeightLabelConstants.HEIGHT;
+
+        ctx.save();
+        ctx.font = `${WeightLabelConstants.FONT_SIZE}px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
+        const width = ctx.measureText(text).width + WeightLabelConstants.PADDING * 2;
+
+        ctx.fillStyle = Theme.ui.weightLabel;
+        ctx.strokeStyle = this.lineColor;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.rect(x - width / 2, y - height / 2, width, height);
+        ctx.fill();
+        ctx.stroke();
+
+        ctx.fillStyle = Theme.ui.weightText;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, x, y);
+        ctx.restore();
+    }
+
     /**
      * Determines if a connection is currently active (execution is flowing through it)
      */
-    private isConnectionActive(parent: TreeNode, childIndex: number): boolean {
+    private isConnectionActive(parent: TreeNode, childIndex: number, nodeRenderer: NodeRenderer): boolean {
         // Parent must be running
-        if (parent.status !== 'running') {
+        if (nodeRenderer.getStatus(parent) !== 'running') {
             return false;
         }
 
@@ -98,6 +181,11 @@ export class ConnectionRenderer {
             return false;
         }
 
+        // Replayed ticks don't record child indices: follow running children
+        if (nodeRenderer.replayStatuses) {
+            return nodeRenderer.getStatus(child) === 'running';
+        }
+
         // For parallel nodes: all children execute simultaneously
         // Show connection as active if child is currently running
         if (parent.type === 'parallel') {
@@ -36,6 +36,7 @@ export class InteractionManager {
     // Callbacks
     public onNodeDoubleClick?: (node: TreeNode) => void;
     public onContextMenu?: (worldPos: Vector2) => void;
+    public onNodeContextMenu?: (node: TreeNode, worldPos: Vector2) => void;
     public onSave?: () => void;
 
     constructor(canvas: Canvas, editorState: EditorState, canvasElement: HTMLCanvasElement) {
@@ -423,9 +424,11 @@ export class InteractionManager {
         // Check for node click
         const clickedNode = this.editorState.findNodeAtPosition(worldPos, this.canvas.nodeRenderer);
 
-        // Show context menu if clicked on empty space
+        // Show context menu if clicked on empty space, node menu if clicked on a node
         if (!clickedNode && this.onContextMenu) {
             this.onContextMenu(worldPos);
+        } else if (clickedNode && this.onNodeContextMenu) {
+            this.onNodeContextMenu(clickedNode, worldPos);
         }
     };
 
@@ -9,8 +9,18 @@ import {
     StrokeConstants,
     ProgressBarConstants,
     PulseAnimationConstants,
-    HoverConstants
+    HoverConstants,
+    SubTreeConstants,
+    BreakpointConstants,
+    StepConstants,
+    HeatmapConstants,
+    ConditionShapeConstants
 } from '../utils/RendererConstants.js';
+import { SubTreeNode } from '../nodes/leaves/SubTreeNode.js';
+import { GoToNode } from '../nodes/leaves/GoToNode.js';
+import { TreeDebugger } from '../core/TreeDebugger.js';
+import { BehaviorTree } from '../core/BehaviorTree.js';
+import { NodeProfiler } from '../core/NodeProfiler.js';
 
 /**
  * NodeRenderer: Renders individual nodes on the canvas.
@@ -61,6 +71,18 @@ export class NodeRenderer {
         return new Vector2(this.getNodeWidth(node) / 2, 0);
     }
 
+    // Statuses of a recorded tick to show instead of the live ones (null = live)
+    public replayStatuses: Record<string, NodeStatus> | null = null;
+
+    // Debugger of the open tree (draws breakpoint markers and the paused-at node)
+    public treeDebugger: TreeDebugger | null = null;
+
+    // Tree of the open document (draws the next node while stepping through a tick)
+    public behaviorTree: BehaviorTree | null = null;
+
+    // Profiler drawn as a heatmap over the nodes (null = heatmap off)
+    public heatmap: NodeProfiler | null = null;
+
     // Colors (use Theme constants)
     private static readonly STATUS_COLORS = {
         [NodeStatus.SUCCESS]: Theme.status.success,
@@ -88,14 +110,40 @@ export class NodeRenderer {
             this.drawShadow(ctx, pos, isSelected);
         }
 
-        // Draw node body
-        this.drawNodeBody(ctx, node, pos, node.color, isSelected, isHovered);
+        // SubTree nodes look like a stack of cards
+        if (node instanceof SubTreeNode) {
+            this.drawSubTreeStack(ctx, node, pos);
+        }
+
+        // Highlight the node the tree is paused at
+        if (this.treeDebugger?.getLastHit()?.nodeId === node.id) {
+            this.drawBreakpointHit(ctx, node, pos);
+        }
+
+        // Highlight the node the stepped tick executes next
+        if (this.behaviorTree && this.behaviorTree.getNextNode() === node) {
+            this.drawNextNode(ctx, node, pos);
+        }
+
+        // Draw node body (GoTo nodes with a broken target are outlined as failed)
+        const color = node instanceof GoToNode && !node.validate() ? Theme.status.failure : node.color;
+        this.drawNodeBody(ctx, node, pos, color, isSelected, isHovered);
+
+        // Tint the node by how expensive it is
+        if (this.heatmap) {
+            this.drawHeat(ctx, node, pos, this.heatmap.getHeat(node.id));
+        }
 
         // Draw label (centered, no icon)
         this.drawLabel(ctx, node, pos, node.label, viewport);
 
         // Draw status indicator
-        this.drawStatusIndicator(ctx, node, pos, node.status);
+        this.drawStatusIndicator(ctx, node, pos, this.getStatus(node));
+
+        // Draw breakpoint marker
+        if (this.treeDebugger?.hasBreakpoint(node.id)) {
+            this.drawBreakpointMarker(ctx, node, pos);
+        }
 
         // Draw ports
         // Only draw input port if the node defines input ports
@@ -111,9 +159,102 @@ export class NodeRenderer {
             this.drawOutputPorts(ctx, node, pos, node.children.length, false);
         }
 
+        // Expanded SubTree nodes show the referenced tree below them
+        if (node instanceof SubTreeNode) {
+            this.drawSubTreeOutline(ctx, node, pos, viewport);
+        }
+
         ctx.restore();
     }
 
+    /**
+     * Gets the status to draw for a node (live, or from the replayed tick)
+     */
+    public getStatus(node: TreeNode): NodeStatus {
+        if (this.replayStatuses) {
+            return this.replayStatuses[node.id] || NodeStatus.IDLE;
+        }
+        return node.status;
+    }
+
+    /**
+     * Draws the offset outline behind a SubTree node
+     */
+    private drawSubTreeStack(ctx: CanvasRenderingContext2D, node: SubTreeNode, pos: Vector2): void {
+        const nodeWidth = NodeRenderer.getNodeWidth(node);
+        const offset = SubTreeConstants.STACK_OFFSET;
+        const x = pos.x - nodeWidth / 2 + offset;
+        const y = pos.y - NodeRenderer.NODE_HEIGHT / 2 + offset;
+
+        ctx.save();
+        ctx.globalAlpha = SubTreeConstants.STACK_OPACITY;
+        ctx.fillStyle = Theme.grid;
+        ctx.strokeStyle = node.lastError ? Theme.status.failure : node.color;
+        ctx.lineWidth = StrokeConstants.NODE_NORMAL;
+        this.roundRect(ctx, x, y, nodeWidth, NodeRenderer.NODE_HEIGHT, NodeRenderer.NODE_RADIUS);
+        ctx.fill();
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    /**
+     * Draws the referenced tree (or the reference error) below an expanded SubTree node
+     */
+    private drawSubTreeOutline(ctx: CanvasRenderingContext2D, node: SubTreeNode, pos: Vector2, viewport: Viewport): void {
+        if (!node.config.expanded || viewport.zoom < 0.5) {
+            return;
+        }
+
+        const outline = node.getOutline();
+        const lines = outline.slice(0, SubTreeConstants.OUTLINE_MAX_LINES).map(entry => ({
+            text: entry.node.label,
+            depth: entry.depth,
+            status: entry.node.status
+        }));
+
+        if (outline.length > SubTreeConstants.OUTLINE_MAX_LINES) {
+            lines.push({ text: '…', depth: 0, status: NodeStatus.IDLE });
+        }
+        if (lines.length === 0) {
+            lines.push({ text: node.lastError || 'Empty tree', depth: 0, status: NodeStatus.FAILURE });
+        }
+
+        const padding = SubTreeConstants.OUTLINE_PADDING;
+        const lineHeight = SubTreeConstants.OUTLINE_LINE_HEIGHT;
+        const width = Math.max(SubTreeConstants.OUTLINE_MIN_WIDTH, NodeRenderer.getNodeWidth(node));
+        const height = lines.length * lineHeight + padding * 2;
+        const x = pos.x - width / 2;
+        const y = pos.y + NodeRenderer.NODE_HEIGHT / 2 + SubTreeConstants.OUTLINE_MARGIN_TOP;
+
+        // Background card
+        ctx.fillStyle = Theme.background;
+        ctx.strokeStyle = node.color;
+        ctx.lineWidth = StrokeConstants.NODE_NORMAL;
+        ctx.setLineDash([4, 3]);
+        this.roundRect(ctx, x, y, width, height, NodeRenderer.NODE_RADIUS);
+        ctx.fill();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        // One line per node, with a status dot
+        ctx.font = `${SubTreeConstants.OUTLINE_FONT_SIZE}px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+
+        lines.forEach((line, index) => {
+            const lineY = y + padding + index * lineHeight + lineHeight / 2;
+            const lineX = x + padding + line.depth * SubTreeConstants.OUTLINE_INDENT;
+
+            ctx.fillStyle = NodeRenderer.STATUS_COLORS[line.status];
+            ctx.beginPath();
+            ctx.arc(lineX + 3, lineY, 3, 0, Math.PI * 2);
+            ctx.fill();
+
+            ctx.fillStyle = '#E0E0E0';
+            ctx.fillText(line.text, lineX + 10, lineY);
+        });
+    }
+
     /**
      * Draws node shadow (for selection/hover)
      */
@@ -132,7 +273,7 @@ export class NodeRenderer {
     }
 
     /**
-     * Draws the node body (rounded rectangle)
+     * Draws the node body (rounded rectangle, hexagon for conditions)
      */
     private drawNodeBody(
         ctx: CanvasRenderingContext2D,
@@ -148,12 +289,12 @@ export class NodeRenderer {
 
         // Draw background
         ctx.fillStyle = Theme.grid;
-        this.roundRect(ctx, x, y, nodeWidth, NodeRenderer.NODE_HEIGHT, NodeRenderer.NODE_RADIUS);
+        this.nodeShape(ctx, node, x, y, nodeWidth, NodeRenderer.NODE_HEIGHT, NodeRenderer.NODE_RADIUS);
         ctx.fill();
 
         // Draw progress bar for composite nodes that are executing
         if ((node.category === 'composite' || node.category === 'decorator') &&
-            node.status === NodeStatus.RUNNING &&
+            this.getStatus(node) === NodeStatus.RUNNING &&
             node.children.length > 0) {
             this.drawProgressBar(ctx, node, pos, nodeWidth);
         }
@@ -165,15 +306,16 @@ export class NodeRenderer {
         // Draw border
         ctx.strokeStyle = color;
         ctx.lineWidth = isSelected ? StrokeConstants.NODE_SELECTED : StrokeConstants.NODE_NORMAL;
-        this.roundRect(ctx, x, y, nodeWidth, NodeRenderer.NODE_HEIGHT, NodeRenderer.NODE_RADIUS);
+        this.nodeShape(ctx, node, x, y, nodeWidth, NodeRenderer.NODE_HEIGHT, NodeRenderer.NODE_RADIUS);
         ctx.stroke();
 
         // Draw hover highlight
         if (isHovered && !isSelected) {
             ctx.strokeStyle = `rgba(255, 255, 255, ${HoverConstants.HIGHLIGHT_OPACITY})`;
             ctx.lineWidth = StrokeConstants.NODE_HOVER_HIGHLIGHT;
-            this.roundRect(
+            this.nodeShape(
                 ctx,
+                node,
                 x + HoverConstants.HIGHLIGHT_INSET,
                 y + HoverConstants.HIGHLIGHT_INSET,
                 nodeWidth - HoverConstants.HIGHLIGHT_INSET * 2,
@@ -316,6 +458,100 @@ export class NodeRenderer {
         ctx.shadowColor = 'transparent';
     }
 
+    /**
+     * Draws the breakpoint marker (top-left corner, hollow when disabled)
+     */
+    private drawBreakpointMarker(ctx: CanvasRenderingContext2D, node: TreeNode, pos: Vector2): void {
+        const breakpoint = this.treeDebugger!.getBreakpoint(node.id)!;
+        const nodeWidth = NodeRenderer.getNodeWidth(node);
+        const x = pos.x - nodeWidth / 2 + BreakpointConstants.MARKER_OFFSET;
+        const y = pos.y - NodeRenderer.NODE_HEIGHT / 2 + BreakpointConstants.MARKER_OFFSET;
+
+        ctx.beginPath();
+        ctx.arc(x, y, BreakpointConstants.MARKER_RADIUS, 0, Math.PI * 2);
+        if (breakpoint.enabled) {
+            ctx.fillStyle = Theme.ui.breakpoint;
+            ctx.fill();
+        }
+        ctx.strokeStyle = Theme.ui.breakpoint;
+        ctx.lineWidth = StrokeConstants.PORT_BORDER;
+        ctx.stroke();
+    }
+
+    /**
+     * Draws a glowing outline around the node the tree is paused at
+     */
+    private drawBreakpointHit(ctx: CanvasRenderingContext2D, node: TreeNode, pos: Vector2): void {
+        const margin = BreakpointConstants.HIT_OUTLINE_MARGIN;
+        const nodeWidth = NodeRenderer.getNodeWidth(node);
+
+        ctx.save();
+        ctx.shadowColor = Theme.ui.breakpoint;
+        ctx.shadowBlur = BreakpointConstants.HIT_BLUR;
+        ctx.strokeStyle = Theme.ui.breakpoint;
+        ctx.lineWidth = BreakpointConstants.HIT_OUTLINE_WIDTH;
+        this.nodeShape(
+            ctx,
+            node,
+            pos.x - nodeWidth / 2 - margin,
+            pos.y - NodeRenderer.NODE_HEIGHT / 2 - margin,
+            nodeWidth + margin * 2,
+            NodeRenderer.NODE_HEIGHT + margin * 2,
+            NodeRenderer.NODE_RADIUS + margin
+        );
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    /**
+     * Tints a node from green (cheap) to red (the most expensive node)
+     */
+    private drawHeat(ctx: CanvasRenderingContext2D, node: TreeNode, pos: Vector2, heat: number): void {
+        if (heat <= 0) return;
+
+        const nodeWidth = NodeRenderer.getNodeWidth(node);
+        const hue = HeatmapConstants.COLD_HUE + (HeatmapConstants.HOT_HUE - HeatmapConstants.COLD_HUE) * heat;
+        const opacity = HeatmapConstants.MIN_OPACITY + (HeatmapConstants.MAX_OPACITY - HeatmapConstants.MIN_OPACITY) * heat;
+
+        ctx.save();
+        ctx.fillStyle = `hsla(${hue}, 85%, 50%, ${opacity})`;
+        this.nodeShape(
+            ctx,
+            node,
+            pos.x - nodeWidth / 2,
+            pos.y - NodeRenderer.NODE_HEIGHT / 2,
+            nodeWidth,
+            NodeRenderer.NODE_HEIGHT,
+            NodeRenderer.NODE_RADIUS
+        );
+        ctx.fill();
+        ctx.restore();
+    }
+
+    /**
+     * Draws a dashed outline around the node a stepped tick executes next
+     */
+    private drawNextNode(ctx: CanvasRenderingContext2D, node: TreeNode, pos: Vector2): void {
+        const margin = StepConstants.NEXT_OUTLINE_MARGIN;
+        const nodeWidth = NodeRenderer.getNodeWidth(node);
+
+        ctx.save();
+        ctx.strokeStyle = Theme.ui.nextStep;
+        ctx.lineWidth = StepConstants.NEXT_OUTLINE_WIDTH;
+        ctx.setLineDash([...StepConstants.NEXT_OUTLINE_DASH]);
+        this.nodeShape(
+            ctx,
+            node,
+            pos.x - nodeWidth / 2 - margin,
+            pos.y - NodeRenderer.NODE_HEIGHT / 2 - margin,
+            nodeWidth + margin * 2,
+            NodeRenderer.NODE_HEIGHT + margin * 2,
+            NodeRenderer.NODE_RADIUS + margin
+        );
+        ctx.stroke();
+        ctx.restore();
+    }
+
     /**
      * Draws the input port (top center)
      */
@@ -521,6 +757,34 @@ export class NodeRenderer {
         return null;
     }
 
+    /**
+     * Traces the outline of a node: a rounded rectangle, or a hexagon for conditions
+     */
+    private nodeShape(
+        ctx: CanvasRenderingContext2D,
+        node: TreeNode,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        radius: number
+    ): void {
+        if (node.category !== 'condition') {
+            this.roundRect(ctx, x, y, width, height, radius);
+            return;
+        }
+
+        const inset = Math.min(ConditionShapeConstants.POINT_INSET, width / 4);
+        ctx.beginPath();
+        ctx.moveTo(x + inset, y);
+        ctx.lineTo(x + width - inset, y);
+        ctx.lineTo(x + width, y + height / 2);
+        ctx.lineTo(x + width - inset, y + height);
+        ctx.lineTo(x + inset, y + height);
+        ctx.lineTo(x, y + height / 2);
+        ctx.closePath();
+    }
+
     /**
      * Helper to draw rounded rectangles
      */
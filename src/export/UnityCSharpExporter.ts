@@ -1,8 +1,11 @@
 import { TreeNode } from '../core/TreeNode.js';
 import { BehaviorTree } from '../core/BehaviorTree.js';
+import { ConditionNode } from '../nodes/leaves/ConditionNode.js';
 
 /**
  * Exports behavior tree to Unity C# code with action registration stubs.
+ * Script conditions get condition stubs; builder conditions need none, the
+ * Unity runtime evaluates them against the blackboard.
  */
 export class UnityCSharpExporter {
     /**
@@ -16,8 +19,16 @@ export class UnityCSharpExporter {
 
         const className = 'GeneratedBehaviorTreeAI';
         const distinctActions = this.getDistinctActionNames(actionNodes);
+        const distinctConditions = this.getDistinctActionNames(this.getScriptConditions(allNodes));
 
-        return this.generateClassCode(className, distinctActions);
+        return this.generateClassCode(className, distinctActions, distinctConditions);
+    }
+
+    /**
+     * Get the condition nodes that need a Unity implementation
+     */
+    private static getScriptConditions(nodes: TreeNode[]): TreeNode[] {
+        return nodes.filter(node => node instanceof ConditionNode && node.getMode() === 'script');
     }
 
     /**
@@ -36,14 +47,16 @@ export class UnityCSharpExporter {
     /**
      * Generate complete C# class with action registration
      */
-    private static generateClassCode(className: string, actionNames: string[]): string {
-        const actionRegistrations = actionNames
-            .map(name => this.generateActionRegistration(name))
-            .join('\n        ');
+    private static generateClassCode(className: string, actionNames: string[], conditionNames: string[] = []): string {
+        const actionRegistrations = [
+            ...actionNames.map(name => this.generateActionRegistration(name)),
+            ...conditionNames.map(name => this.generateConditionRegistration(name))
+        ].join('\n        ');
 
-        const actionMethods = actionNames
-            .map(name => this.generateActionMethod(name))
-            .join('\n\n    ');
+        const actionMethods = [
+            ...actionNames.map(name => this.generateActionMethod(name)),
+            ...conditionNames.map(name => this.generateConditionMethod(name))
+        ].join('\n\n    ');
 
         return `using UnityEngine;
 using WebBehaviorTree;
@@ -91,7 +104,8 @@ public class ${className} : MonoBehaviour
 
     // ===== Action Implementations =====
     // Implement these methods to define your AI behavior
-    // Each method should return NodeStatus.Success, Failure, or Running
+    // Each action should return NodeStatus.Success, Failure, or Running
+    // Each condition should return true or false
 
     ${actionMethods}
 }
@@ -133,6 +147,32 @@ public class ${className} : MonoBehaviour
     }`;
     }
 
+    /**
+     * Generate condition registration line
+     */
+    private static generateConditionRegistration(conditionName: string): string {
+        const methodName = this.toMethodName(conditionName);
+        return `treeRunner.RegisterCondition("${conditionName}", ${methodName});`;
+    }
+
+    /**
+     * Generate condition method stub
+     */
+    private static generateConditionMethod(conditionName: string): string {
+        const methodName = this.toMethodName(conditionName);
+
+        return `/// <summary>
+    /// Condition: ${conditionName}
+    /// </summary>
+    bool ${methodName}()
+    {
+        // TODO: Implement ${conditionName} check (conditions never run over several ticks)
+
+        Debug.LogWarning("${conditionName} not implemented yet!");
+        return false;
+    }`;
+    }
+
     /**
      * Generate XML documentation comment for action
      */
@@ -164,17 +204,16 @@ public class ${className} : MonoBehaviour
         );
 
         const distinctActions = this.getDistinctActionNames(actionNodes);
+        const distinctConditions = this.getDistinctActionNames(this.getScriptConditions(allNodes));
 
-        if (distinctActions.length === 0) {
+        if (distinctActions.length === 0 && distinctConditions.length === 0) {
             return '// No action nodes found in tree';
         }
 
-        const registrations = distinctActions
-            .map(name => {
-                const methodName = this.toMethodName(name);
-                return `treeRunner.RegisterAction("${name}", ${methodName});`;
-            })
-            .join('\n');
+        const registrations = [
+            ...distinctActions.map(name => this.generateActionRegistration(name)),
+            ...distinctConditions.map(name => this.generateConditionRegistration(name))
+        ].join('\n');
 
         return `// Register these actions in your Start() method:\n${registrations}`;
     }
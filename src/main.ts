@@ -4,29 +4,44 @@
 
 import { TreeNode } from './core/TreeNode.js';
 import { EditorState } from './state/EditorState.js';
+import { Workspace } from './state/Workspace.js';
 import { Canvas } from './editor/Canvas.js';
 import { InteractionManager } from './editor/InteractionManager.js';
 import { Toolbar } from './ui/Toolbar.js';
 import { StatusBar } from './ui/StatusBar.js';
 import { SettingsPanel } from './ui/SettingsPanel.js';
+import { BlackboardPanel } from './ui/BlackboardPanel.js';
+import { TimelinePanel } from './ui/TimelinePanel.js';
+import { ProfilerPanel } from './ui/ProfilerPanel.js';
 import { CodeEditorPanel } from './ui/CodeEditorPanel.js';
 import { ContextMenu } from './ui/ContextMenu.js';
 import { InspectorPanel } from './ui/InspectorPanel.js';
 import { ExamplesMenu } from './ui/ExamplesMenu.js';
+import { DocumentTabs } from './ui/DocumentTabs.js';
 import { FileIO } from './utils/FileIO.js';
 import { Vector2 } from './utils/Vector2.js';
 import { NodeExecutor } from './core/NodeExecutor.js';
 import { NodeRegistry } from './core/NodeRegistry.js';
+import { BehaviorTree } from './core/BehaviorTree.js';
+import { TraceRecorder } from './core/TraceRecorder.js';
+import { TreeDebugger } from './core/TreeDebugger.js';
+import { NodeProfiler } from './core/NodeProfiler.js';
 import { registerDefaultNodes } from './core/DefaultNodes.js';
 import { Toast } from './ui/Toast.js';
 import { CustomNodeCatalog } from './utils/CustomNodeCatalog.js';
 import { CustomActionNode } from './nodes/leaves/CustomActionNode.js';
-import { AddNodeOperation, ClearAllNodesOperation, ImportTreeOperation, ConnectNodesOperation, UpdateNodeCodeOperation, BatchOperation } from './actions/EditorActions.js';
+import { SubTreeNode } from './nodes/leaves/SubTreeNode.js';
+import { GoToNode } from './nodes/leaves/GoToNode.js';
+import { TreeLibrary } from './utils/TreeLibrary.js';
+import { AddNodeOperation, ClearAllNodesOperation, ImportTreeOperation, ConnectNodesOperation, UpdateNodeCodeOperation, UpdateNodeConfigOperation, BatchOperation } from './actions/EditorActions.js';
 import { UnityCSharpExporter } from './export/UnityCSharpExporter.js';
 
 // Initialize custom node catalog
 CustomNodeCatalog.initialize();
 
+// Initialize library of trees referenced by SubTree nodes
+TreeLibrary.initialize();
+
 // Register all default node types
 registerDefaultNodes();
 
@@ -66,11 +81,17 @@ function registerCustomNodesFromCatalog(): void {
 
 // Global application state
 let editorState: EditorState;
+let workspace: Workspace;
+let documentTabs: DocumentTabs;
+const observedTrees = new WeakSet<BehaviorTree>();
 let canvas: Canvas;
 let interactionManager: InteractionManager;
 let toolbar: Toolbar;
 let statusBar: StatusBar;
 let settingsPanel: SettingsPanel;
+let blackboardPanel: BlackboardPanel;
+let timelinePanel: TimelinePanel;
+let profilerPanel: ProfilerPanel;
 let codeEditorPanel: CodeEditorPanel;
 let contextMenu: ContextMenu;
 let inspectorPanel: InspectorPanel;
@@ -103,33 +124,53 @@ function createNode(type: string, worldPos: Vector2): TreeNode {
 }
 
 /**
- * Exports the current tree to JSON
- * Exports ALL nodes from editorState, including disconnected ones
+ * Serializes the current tree to JSON
+ * Includes ALL nodes from editorState, including disconnected ones
  */
-function exportTree(): void {
-    // Serialize all nodes from EditorState (not just from BehaviorTree)
-    const data = {
+function buildTreeData(): any {
+    return {
+        ...workspace.serializeDocument(workspace.getActiveDocument()),
+        customNodes: CustomNodeCatalog.exportCustomNodes(),
+        subtrees: TreeLibrary.exportDocuments()
+    };
+}
+
+/**
+ * Serializes all open trees to JSON
+ */
+function buildWorkspaceData(): any {
+    return {
         version: '1.2',
         metadata: {
             created: new Date().toISOString(),
             modified: new Date().toISOString(),
-            nodeCount: editorState.nodes.length,
             editorVersion: 1.2
         },
-        tree: {
-            nodes: editorState.nodes.map(node => node.toJSON()),
-            root: editorState.behaviorTree.root?.id || null
-        },
-        blackboard: {
-            initialValues: editorState.behaviorTree.blackboard.toJSON()
-        },
-        customNodes: CustomNodeCatalog.exportCustomNodes()
+        workspace: workspace.toJSON(),
+        customNodes: CustomNodeCatalog.exportCustomNodes(),
+        subtrees: TreeLibrary.exportDocuments()
     };
+}
+
+/**
+ * Exports the current tree to JSON
+ * Exports ALL nodes from editorState, including disconnected ones
+ */
+function exportTree(): void {
+    const data = buildTreeData();
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
     FileIO.downloadJSON(data, `behavior-tree-${timestamp}.json`);
 }
 
+/**
+ * Exports all open trees to one JSON file
+ */
+function exportWorkspace(): void {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    FileIO.downloadJSON(buildWorkspaceData(), `workspace-${timestamp}.json`);
+}
+
 /**
  * Exports the current tree as Unity C# code
  */
@@ -141,55 +182,58 @@ function exportUnityCS(): void {
 }
 
 /**
- * Saves the current tree to localStorage
- * Saves ALL nodes from editorState, including disconnected ones
+ * Saves all open trees to localStorage
+ * Saves ALL nodes of every document, including disconnected ones
  */
-function saveTree(): void {
+function saveWorkspace(): void {
     try {
-        // Serialize all nodes from EditorState (not just from BehaviorTree)
-        const data = {
-            version: '1.2',
-            metadata: {
-                created: new Date().toISOString(),
-                modified: new Date().toISOString(),
-                nodeCount: editorState.nodes.length,
-                editorVersion: 1.2
-            },
-            tree: {
-                nodes: editorState.nodes.map(node => node.toJSON()),
-                root: editorState.behaviorTree.root?.id || null
-            },
-            blackboard: {
-                initialValues: editorState.behaviorTree.blackboard.toJSON()
-            },
-            customNodes: CustomNodeCatalog.exportCustomNodes()
-        };
+        const data = buildWorkspaceData();
 
-        const result = FileIO.saveToLocalStorage(data);
+        const result = FileIO.saveToLocalStorage(data, FileIO.WORKSPACE_KEY);
         if (result.success) {
+            workspace.markSaved();
             Toast.show('Saved', 1500);
         } else {
             Toast.show(result.error || 'Save failed', 2000);
         }
     } catch (error) {
-        console.error('Failed to save tree:', error);
+        console.error('Failed to save workspace:', error);
         Toast.show('Save failed', 2000);
     }
 }
 
 /**
- * Imports a tree from JSON data
+ * Imports the custom nodes and referenced trees bundled with exported JSON
+ */
+function importLibraries(data: any): void {
+    // Import custom nodes if present
+    if (data.customNodes && Array.isArray(data.customNodes)) {
+        CustomNodeCatalog.importCustomNodes(data.customNodes);
+
+        // Re-register custom nodes with NodeRegistry
+        registerCustomNodesFromCatalog();
+    }
+
+    // Import referenced trees if present
+    if (data.subtrees && Array.isArray(data.subtrees)) {
+        TreeLibrary.importDocuments(data.subtrees);
+        settingsPanel.updateSubtrees();
+    }
+}
+
+/**
+ * Imports a tree from JSON data into the current tab
+ * Workspace files replace all open trees instead.
  */
 function importTree(data: any): void {
     try {
-        // Import custom nodes if present
-        if (data.customNodes && Array.isArray(data.customNodes)) {
-            CustomNodeCatalog.importCustomNodes(data.customNodes);
-
-            // Re-register custom nodes with NodeRegistry
-            registerCustomNodesFromCatalog();
+        if (Workspace.isWorkspaceData(data)) {
+            importWorkspace(data);
+            return;
         }
 
+        importLibraries(data);
+
         // Use ImportTreeOperation for undo/redo support
         const operation = new ImportTreeOperation(editorState, data);
         editorState.operationHistory.execute(operation);
@@ -197,6 +241,27 @@ function importTree(data: any): void {
         // Rebuild port cache after importing
         canvas.rebuildPortCache();
 
+        // Show the imported blackboard schema
+        blackboardPanel.render();
+
+        // Report missing or cyclic subtree references
+        const brokenSubtree = editorState.nodes.find(
+            node => node instanceof SubTreeNode && !node.getInstance()
+        ) as SubTreeNode | undefined;
+        if (brokenSubtree) {
+            Toast.show(`${brokenSubtree.label}: ${brokenSubtree.lastError}`, 3000);
+            return;
+        }
+
+        // Report missing or cyclic GoTo targets
+        const brokenGoTo = editorState.nodes.find(
+            node => node instanceof GoToNode && !node.validate()
+        ) as GoToNode | undefined;
+        if (brokenGoTo) {
+            Toast.show(`${brokenGoTo.label}: ${brokenGoTo.lastError}`, 3000);
+            return;
+        }
+
         Toast.show('Tree loaded successfully', 2000);
     } catch (error) {
         console.error('Failed to import tree:', error);
@@ -206,12 +271,35 @@ function importTree(data: any): void {
 }
 
 /**
- * Loads the tree from localStorage (auto-load on startup)
+ * Replaces all open trees with the trees of a workspace file
+ */
+function importWorkspace(data: any): void {
+    if (workspace.hasUnsavedChanges() &&
+        !confirm('Opening this workspace closes all open trees, including unsaved changes. Continue?')) {
+        return;
+    }
+
+    importLibraries(data);
+    workspace.load(data.workspace);
+    refreshDocumentView();
+
+    Toast.show(`Workspace loaded (${workspace.getDocuments().length} trees)`, 2000);
+}
+
+/**
+ * Loads the workspace from localStorage (auto-load on startup)
+ * Falls back to the single tree saved by older versions of the editor.
  * Note: Uses ImportTreeOperation directly (not via commandHistory) since this
  * is an initialization step that shouldn't be undoable
  */
-function loadTreeFromStorage(): boolean {
+function loadWorkspaceFromStorage(): boolean {
     try {
+        const saved = FileIO.loadFromLocalStorage(FileIO.WORKSPACE_KEY);
+        if (saved && Workspace.isWorkspaceData(saved)) {
+            workspace.load(saved.workspace);
+            return true;
+        }
+
         const data = FileIO.loadFromLocalStorage();
         if (data) {
             // Use operation directly for consistency, but don't add to history
@@ -223,11 +311,42 @@ function loadTreeFromStorage(): boolean {
     } catch (error) {
         console.error('Failed to load from localStorage:', error);
         // Clear corrupted data
-        localStorage.removeItem('behaviorTree_autosave');
+        FileIO.clearLocalStorage(FileIO.WORKSPACE_KEY);
+        FileIO.clearLocalStorage();
         return false;
     }
 }
 
+/**
+ * Opens a new, empty tree in another tab
+ */
+function newDocument(): void {
+    workspace.createDocument();
+    refreshDocumentView();
+}
+
+/**
+ * Refreshes the canvas, toolbar and panels after another tree was opened
+ */
+function refreshDocumentView(): void {
+    canvas.selectionManager.clearSelection();
+    codeEditorPanel.hide();
+
+    toolbar.setBehaviorTree(editorState.behaviorTree);
+    statusBar.setBehaviorTree(editorState.behaviorTree);
+    observeTree(editorState.behaviorTree);
+    timelinePanel.goLive();
+    profilerPanel.render();
+    profilerPanel.updateHeatmap();
+    canvas.nodeRenderer.treeDebugger = editorState.behaviorTree.getDebugger();
+    canvas.nodeRenderer.behaviorTree = editorState.behaviorTree;
+
+    canvas.rebuildPortCache();
+    blackboardPanel.render();
+    settingsPanel.updateBlackboard();
+    settingsPanel.updateWatches();
+}
+
 /**
  * Clears the entire tree
  */
@@ -250,6 +369,7 @@ function initializeApp(): void {
 
     // Initialize state
     editorState = new EditorState();
+    workspace = new Workspace(editorState);
 
     // Initialize canvas
     canvas = new Canvas(canvasElement, editorState);
@@ -271,7 +391,17 @@ function initializeApp(): void {
 
     // Handle double-click to edit code (all leaf nodes have code)
     interactionManager.onNodeDoubleClick = (node: TreeNode) => {
-        if (node.category === 'leaf') {
+        if (node instanceof SubTreeNode) {
+            // SubTrees have no code: expand/collapse the referenced tree instead
+            const operation = new UpdateNodeConfigOperation(node, { ...node.config, expanded: !node.config.expanded });
+            editorState.operationHistory.execute(operation);
+        } else if (node instanceof GoToNode) {
+            // GoTos have no code either: follow the jump
+            const target = node.getTarget();
+            if (target) {
+                canvas.selectionManager.selectNode(target);
+            }
+        } else if (node.category === 'leaf') {
             codeEditorPanel.openForNode(node);
         }
     };
@@ -287,17 +417,52 @@ function initializeApp(): void {
         );
     };
 
+    // Handle right-click on a node: breakpoint actions
+    interactionManager.onNodeContextMenu = (node: TreeNode, worldPos: Vector2) => {
+        const treeDebugger = editorState.behaviorTree.getDebugger();
+        if (!treeDebugger) return;
+
+        const breakpoint = treeDebugger.getBreakpoint(node.id);
+        const actions = TreeDebugger.TRIGGERS.map(({ trigger, label }) => ({
+            label: `Break ${label.toLowerCase()}`,
+            icon: 'fa-circle',
+            checked: breakpoint?.trigger === trigger,
+            onSelect: () => {
+                treeDebugger.setBreakpoint(node.id, trigger);
+                inspectorPanel.refresh();
+            }
+        }));
+        if (breakpoint) {
+            actions.push({
+                label: 'Remove Breakpoint',
+                icon: 'fa-times',
+                checked: false,
+                onSelect: () => {
+                    treeDebugger.removeBreakpoint(node.id);
+                    inspectorPanel.refresh();
+                }
+            });
+        }
+
+        const rect = canvasElement.getBoundingClientRect();
+        const screenPos = canvas.worldToScreen(worldPos);
+        contextMenu.showActions(rect.left + screenPos.x, rect.top + screenPos.y, actions);
+    };
+
     // Initialize UI components
     toolbar = new Toolbar(editorState.behaviorTree);
     statusBar = new StatusBar(editorState.behaviorTree, editorState);
-    settingsPanel = new SettingsPanel(editorState, editorState.operationHistory);
-    codeEditorPanel = new CodeEditorPanel(editorState, editorState.operationHistory, NodeExecutor, CustomNodeCatalog);
+    settingsPanel = new SettingsPanel(editorState);
+    blackboardPanel = new BlackboardPanel(editorState);
+    timelinePanel = new TimelinePanel(editorState);
+    profilerPanel = new ProfilerPanel(editorState);
+    codeEditorPanel = new CodeEditorPanel(editorState, NodeExecutor, CustomNodeCatalog);
     contextMenu = new ContextMenu();
-    inspectorPanel = new InspectorPanel(editorState.operationHistory);
+    inspectorPanel = new InspectorPanel(editorState);
     examplesMenu = new ExamplesMenu();
 
     // Wire up code editor panel save callback (for Ctrl+S)
-    codeEditorPanel.onSaveToFile = saveTree;
+    codeEditorPanel.onSaveToFile = saveWorkspace;
 
     // Wire up custom node saved callback
     codeEditorPanel.onCustomNodeSaved = (customNodeDef: any) => {
@@ -379,7 +544,7 @@ function initializeApp(): void {
         });
 
         // Save the tree after syncing
-        saveTree();
+        saveWorkspace();
     };
 
     // Wire up toolbar
@@ -387,6 +552,34 @@ function initializeApp(): void {
         settingsPanel.toggle();
     };
 
+    toolbar.onBlackboardClick = () => {
+        blackboardPanel.toggle();
+    };
+
+    toolbar.onTimelineClick = () => {
+        timelinePanel.toggle();
+    };
+
+    toolbar.onProfilerClick = () => {
+        profilerPanel.toggle();
+    };
+
+    // Replayed ticks are drawn instead of the live statuses
+    timelinePanel.onScrub = (statuses) => {
+        canvas.nodeRenderer.replayStatuses = statuses;
+    };
+
+    // Profiler rows select their node; the heatmap is drawn over the canvas
+    profilerPanel.onSelectNode = (nodeId) => {
+        const node = editorState.findNodeById(nodeId);
+        if (node) {
+            canvas.selectionManager.selectNode(node);
+        }
+    };
+    profilerPanel.onHeatmapChange = (profiler) => {
+        canvas.nodeRenderer.heatmap = profiler;
+    };
+
     // Wire up examples button
     const examplesBtn = document.getElementById('btn-examples');
     examplesBtn?.addEventListener('click', () => {
@@ -395,6 +588,7 @@ function initializeApp(): void {
 
     // Wire up settings panel
     settingsPanel.onExport = exportTree;
+    settingsPanel.onExportWorkspace = exportWorkspace;
     settingsPanel.onExportUnity = exportUnityCS;
     settingsPanel.onImport = importTree;
     settingsPanel.onClear = clearTree;
@@ -449,22 +643,120 @@ function initializeApp(): void {
     };
 
     // Wire up save shortcut (Ctrl+S)
-    interactionManager.onSave = saveTree;
+    interactionManager.onSave = saveWorkspace;
 
-    // Update blackboard inspector periodically
-    setInterval(() => {
-        if (editorState.isPanelOpen === 'settings') {
-            settingsPanel.updateBlackboard();
+    // Update the UI from the trees' blackboard changes and ticks
+    observeTree(editorState.behaviorTree);
+
+    // Try to load from localStorage first, if nothing found create demo tree
+    const loaded = loadWorkspaceFromStorage();
+    if (!loaded) {
+        createDemoTree();
+    }
+
+    // Start without unsaved changes
+    workspace.markSaved();
+
+    // Wire up document tabs
+    documentTabs = new DocumentTabs(workspace);
+    documentTabs.onNewDocument = newDocument;
+    workspace.onChange = () => documentTabs.render();
+    workspace.onActivate = () => refreshDocumentView();
+
+    // Warn before leaving with unsaved trees
+    window.addEventListener('beforeunload', (e) => {
+        if (workspace.hasUnsavedChanges()) {
+            e.preventDefault();
+            e.returnValue = '';
+        }
+    });
+
+    // Refresh after the saved workspace was loaded (builds initial port cache)
+    refreshDocumentView();
+}
+
+/**
+ * Hooks the editor UI into a tree's blackboard changes and ticks
+ * (once per tree; only the tree of the open tab updates the UI)
+ */
+function observeTree(tree: BehaviorTree): void {
+    if (observedTrees.has(tree)) return;
+    observedTrees.add(tree);
+
+    // Record every tick for the execution timeline
+    tree.setRecorder(new TraceRecorder());
+
+    // Collect per-node statistics for the profiler
+    tree.setProfiler(new NodeProfiler());
+
+    // Pause at breakpoints and show where
+    tree.setDebugger(new TreeDebugger());
+    tree.onBreak(hit => {
+        if (tree !== editorState.behaviorTree) return;
+
+        const node = hit.nodeId ? editorState.findNodeById(hit.nodeId) : null;
+        if (node) {
+            canvas.selectionManager.selectNode(node); // Shows its blackboard in the inspector
         }
-    }, 500);
+
+        if (hit.watch) {
+            const writer = node ? `, last written by "${node.label}"` : '';
+            Toast.show(`Paused: watch "${hit.watch.expression}" became true (tick ${hit.tick})${writer}`, 4000);
+            settingsPanel.updateWatches();
+        } else if (node) {
+            const reason = hit.status ? `returned ${hit.status}` : 'entered';
+            Toast.show(`Paused at breakpoint: "${node.label}" ${reason} (tick ${hit.tick})`, 3000);
+        }
+    });
+    tree.onStateChange(state => {
+        // Resuming leaves the breakpoint (hides its blackboard in the inspector)
+        if (tree === editorState.behaviorTree && state === 'running') {
+            inspectorPanel.refresh();
+            settingsPanel.updateWatches();
+        }
+    });
+
+    // Update blackboard inspector when the blackboard changes
+    // (coalesced to one refresh per frame, since a tick may write many keys)
+    let blackboardRefreshPending = false;
+    tree.blackboard.onChange('*', () => {
+        if (blackboardRefreshPending || tree !== editorState.behaviorTree || editorState.isPanelOpen !== 'settings') {
+            return;
+        }
+        blackboardRefreshPending = true;
+        requestAnimationFrame(() => {
+            blackboardRefreshPending = false;
+            settingsPanel.updateBlackboard();
+        });
+    });
 
     // Hook into behavior tree tick to show floating messages for node execution
     let previousNodeStatuses = new Map<string, string>();
 
-    editorState.behaviorTree.onTick(() => {
+    let debugRefreshPending = false;
+    tree.onTick(() => {
+        if (tree !== editorState.behaviorTree) return;
+
         // Update status bar on each tick
         statusBar.update();
 
+        // Update the timeline, profiler and watch values (once per frame)
+        if ((timelinePanel.isVisible() || profilerPanel.isVisible() || editorState.isPanelOpen === 'settings') && !debugRefreshPending) {
+            debugRefreshPending = true;
+            requestAnimationFrame(() => {
+                debugRefreshPending = false;
+                if (timelinePanel.isVisible()) {
+                    timelinePanel.render();
+                }
+                if (profilerPanel.isVisible()) {
+                    profilerPanel.render();
+                }
+                if (editorState.isPanelOpen === 'settings') {
+                    settingsPanel.updateWatches();
+                }
+            });
+        }
+
         // Check all nodes for status changes
         editorState.nodes.forEach(node => {
             const prevStatus = previousNodeStatuses.get(node.id);
@@ -487,15 +779,6 @@ function initializeApp(): void {
             previousNodeStatuses.set(node.id, currentStatus);
         });
     });
-
-    // Try to load from localStorage first, if nothing found create demo tree
-    const loaded = loadTreeFromStorage();
-    if (!loaded) {
-        createDemoTree();
-    }
-
-    // Build initial port cache after tree is loaded
-    canvas.rebuildPortCache();
 }
 
 /**
@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -13,6 +13,8 @@ import { Theme } from '../../utils/Theme.js';
  * - minSuccess: Minimum number of children that must succeed (default: all)
  * - minFailure: Minimum number of children that must fail to cause failure (default: 1)
  *
+ * Children still RUNNING when the parallel completes are halted.
+ *
  * Use case: "Do multiple things at once"
  */
 export class ParallelNode extends TreeNode {
@@ -24,7 +26,7 @@ export class ParallelNode extends TreeNode {
         this.config.minFailure = 1;   // Fail if any child fails
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         if (this.children.length === 0) {
             this.status = NodeStatus.SUCCESS;
             return this.status;
@@ -43,7 +45,7 @@ export class ParallelNode extends TreeNode {
         let runningCount = 0;
 
         for (const child of this.children) {
-            const childStatus = child.tick(blackboard);
+            const childStatus = yield { child, blackboard };
 
             if (childStatus === NodeStatus.SUCCESS) {
                 successCount++;
@@ -56,12 +58,14 @@ export class ParallelNode extends TreeNode {
 
         // Check if we have enough successes
         if (successCount >= minSuccess) {
+            this.haltRunningChildren(blackboard);
             this.status = NodeStatus.SUCCESS;
             return this.status;
         }
 
         // Check if we have too many failures
         if (failureCount >= minFailure) {
+            this.haltRunningChildren(blackboard);
             this.status = NodeStatus.FAILURE;
             return this.status;
         }
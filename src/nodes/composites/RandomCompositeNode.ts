@@ -0,0 +1,100 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * RandomCompositeNode: Base of composites that try their children in a
+ * random order, drawn anew for every run from the tree's random numbers.
+ *
+ * The run ends as soon as a child returns `stopStatus` (SUCCESS for selectors,
+ * FAILURE for sequences); when every child has been tried, the other status
+ * is returned. A RUNNING child is resumed on the next tick, in the same order.
+ */
+export abstract class RandomCompositeNode extends TreeNode {
+    // Children (indices) in the order they are tried in the current run
+    private order: number[] = [];
+
+    // Position in the order (the child to resume)
+    private orderIndex: number = 0;
+
+    // Status of a child that ends the run
+    private readonly stopStatus: NodeStatus;
+
+    constructor(type: string, label: string, icon: string, stopStatus: NodeStatus) {
+        super(type, label, 'composite', icon, Theme.node.composite);
+        this.stopStatus = stopStatus;
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        const exhaustedStatus = this.stopStatus === NodeStatus.SUCCESS ? NodeStatus.FAILURE : NodeStatus.SUCCESS;
+
+        if (this.children.length === 0) {
+            this.status = exhaustedStatus;
+            return this.status;
+        }
+
+        // A new run draws a new order
+        if (this.status !== NodeStatus.RUNNING || this.orderIndex >= this.order.length) {
+            this.order = this.drawOrder();
+            this.orderIndex = 0;
+        }
+
+        for (let i = this.orderIndex; i < this.order.length; i++) {
+            const child = this.children[this.order[i]];
+            this.currentChildIndex = this.order[i];
+            const childStatus = yield { child, blackboard };
+
+            if (childStatus === NodeStatus.RUNNING) {
+                this.orderIndex = i;
+                this.status = NodeStatus.RUNNING;
+                return this.status;
+            }
+
+            if (childStatus === this.stopStatus) {
+                return this.finish(this.stopStatus);
+            }
+        }
+
+        return this.finish(exhaustedStatus);
+    }
+
+    public reset(): void {
+        super.reset();
+        this.clearOrder();
+    }
+
+    /**
+     * Gets the order of the current run (child indices; empty when not running)
+     */
+    public getOrder(): number[] {
+        return [...this.order];
+    }
+
+    /**
+     * Draws the order the children are tried in (a shuffle by default)
+     */
+    protected drawOrder(): number[] {
+        const order = this.children.map((_, index) => index);
+
+        // Fisher-Yates shuffle
+        for (let i = order.length - 1; i > 0; i--) {
+            const j = Math.floor(this.nextRandom() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+
+        return order;
+    }
+
+    private finish(status: NodeStatus): NodeStatus {
+        this.clearOrder();
+        this.status = status;
+        return this.status;
+    }
+
+    private clearOrder(): void {
+        this.order = [];
+        this.orderIndex = 0;
+        this.currentChildIndex = 0;
+    }
+}
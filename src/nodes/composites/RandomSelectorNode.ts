@@ -0,0 +1,20 @@
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { RandomCompositeNode } from './RandomCompositeNode.js';
+
+/**
+ * RandomSelectorNode: A selector that tries its children in a random order.
+ *
+ * - Returns SUCCESS as soon as a child succeeds
+ * - Returns FAILURE only if ALL children fail
+ * - Returns RUNNING if a child is still running
+ *
+ * The order is shuffled for every run, using the tree's seedable random
+ * numbers (see BehaviorTree.random).
+ *
+ * Use case: "Pick one of the idle animations"
+ */
+export class RandomSelectorNode extends RandomCompositeNode {
+    constructor() {
+        super('random-selector', 'Random Selector', 'fa-dice', NodeStatus.SUCCESS);
+    }
+}
@@ -0,0 +1,20 @@
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { RandomCompositeNode } from './RandomCompositeNode.js';
+
+/**
+ * RandomSequenceNode: A sequence that runs its children in a random order.
+ *
+ * - Returns SUCCESS only if ALL children succeed
+ * - Returns FAILURE as soon as a child fails
+ * - Returns RUNNING if a child is still running
+ *
+ * The order is shuffled for every run, using the tree's seedable random
+ * numbers (see BehaviorTree.random).
+ *
+ * Use case: "Visit all patrol points, in a different order each time"
+ */
+export class RandomSequenceNode extends RandomCompositeNode {
+    constructor() {
+        super('random-sequence', 'Random Sequence', 'fa-shuffle', NodeStatus.FAILURE);
+    }
+}
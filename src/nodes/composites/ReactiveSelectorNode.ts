@@ -0,0 +1,63 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * ReactiveSelectorNode: A selector that re-evaluates higher-priority children every tick.
+ *
+ * Unlike SelectorNode, it does not resume from the running child. Every tick
+ * starts again from the first child, so a higher-priority branch that becomes
+ * viable takes over immediately:
+ * - If an earlier child succeeds or becomes RUNNING, lower-priority children
+ *   that were running are halted
+ *
+ * Use case: "Attack if an enemy is seen, otherwise patrol"
+ */
+export class ReactiveSelectorNode extends TreeNode {
+    constructor() {
+        super('reactive-selector', 'Reactive Selector', 'composite', 'fa-code-branch', Theme.node.composite);
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        // No children means failure
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        // Always start from the highest-priority child
+        for (let i = 0; i < this.children.length; i++) {
+            const child = this.children[i];
+            const childStatus = yield { child, blackboard };
+
+            if (childStatus === NodeStatus.SUCCESS) {
+                // Child succeeded: abort lower-priority branches
+                this.haltRunningChildren(blackboard, i + 1);
+                this.currentChildIndex = 0;
+                this.status = NodeStatus.SUCCESS;
+                return this.status;
+            }
+
+            if (childStatus === NodeStatus.RUNNING) {
+                // Lower-priority branches are preempted
+                this.haltRunningChildren(blackboard, i + 1);
+                this.currentChildIndex = i;
+                this.status = NodeStatus.RUNNING;
+                return this.status;
+            }
+
+            // Child failed, try next
+        }
+
+        // All children failed
+        this.currentChildIndex = 0;
+        this.status = NodeStatus.FAILURE;
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.currentChildIndex = 0;
+    }
+}
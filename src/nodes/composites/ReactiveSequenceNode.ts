@@ -0,0 +1,63 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * ReactiveSequenceNode: A sequence that re-evaluates earlier children every tick.
+ *
+ * Unlike SequenceNode, it does not resume from the running child. Every tick
+ * starts again from the first child, so guard conditions placed before a
+ * long-running action are checked continuously:
+ * - If an earlier child fails, the running child is halted and the sequence fails
+ * - If an earlier child becomes RUNNING, children after it are halted
+ *
+ * Use case: "Keep patrolling while no enemy is seen"
+ */
+export class ReactiveSequenceNode extends TreeNode {
+    constructor() {
+        super('reactive-sequence', 'Reactive Sequence', 'composite', 'fa-stream', Theme.node.composite);
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        // No children means success
+        if (this.children.length === 0) {
+            this.status = NodeStatus.SUCCESS;
+            return this.status;
+        }
+
+        // Always start from the first child
+        for (let i = 0; i < this.children.length; i++) {
+            const child = this.children[i];
+            const childStatus = yield { child, blackboard };
+
+            if (childStatus === NodeStatus.FAILURE) {
+                // Child failed: abort whatever was running further down
+                this.haltRunningChildren(blackboard, i + 1);
+                this.currentChildIndex = 0;
+                this.status = NodeStatus.FAILURE;
+                return this.status;
+            }
+
+            if (childStatus === NodeStatus.RUNNING) {
+                // Children after this one are no longer being executed
+                this.haltRunningChildren(blackboard, i + 1);
+                this.currentChildIndex = i;
+                this.status = NodeStatus.RUNNING;
+                return this.status;
+            }
+
+            // Child succeeded, continue to next
+        }
+
+        // All children succeeded
+        this.currentChildIndex = 0;
+        this.status = NodeStatus.SUCCESS;
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.currentChildIndex = 0;
+    }
+}
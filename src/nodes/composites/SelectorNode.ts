@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -10,6 +10,10 @@ import { Theme } from '../../utils/Theme.js';
  * - Returns FAILURE only if ALL children fail
  * - Returns RUNNING if a child is still running
  *
+ * While a lower-priority child is RUNNING, higher-priority children may
+ * request an observer abort (see TreeNode.shouldAbortLowerPriority): the
+ * running branch is halted and the selector resumes from the requesting child.
+ *
  * Use case: "Try A, else try B, else try C"
  */
 export class SelectorNode extends TreeNode {
@@ -17,17 +21,28 @@ export class SelectorNode extends TreeNode {
         super('selector', 'Selector', 'composite', 'fa-random', Theme.node.composite);
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         // No children means failure
         if (this.children.length === 0) {
             this.status = NodeStatus.FAILURE;
             return this.status;
         }
 
+        // Let higher-priority branches interrupt the running one
+        if (this.status === NodeStatus.RUNNING) {
+            for (let j = 0; j < this.currentChildIndex; j++) {
+                if (this.children[j].shouldAbortLowerPriority(blackboard)) {
+                    this.haltRunningChildren(blackboard, j + 1);
+                    this.currentChildIndex = j;
+                    break;
+                }
+            }
+        }
+
         // Continue from where we left off
         for (let i = this.currentChildIndex; i < this.children.length; i++) {
             const child = this.children[i];
-            const childStatus = child.tick(blackboard);
+            const childStatus = yield { child, blackboard };
 
             if (childStatus === NodeStatus.SUCCESS) {
                 // Child succeeded, selector succeeds
@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -17,7 +17,7 @@ export class SequenceNode extends TreeNode {
         super('sequence', 'Sequence', 'composite', 'fa-list', Theme.node.composite);
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         // No children means success
         if (this.children.length === 0) {
             this.status = NodeStatus.SUCCESS;
@@ -27,7 +27,7 @@ export class SequenceNode extends TreeNode {
         // Continue from where we left off
         for (let i = this.currentChildIndex; i < this.children.length; i++) {
             const child = this.children[i];
-            const childStatus = child.tick(blackboard);
+            const childStatus = yield { child, blackboard };
 
             if (childStatus === NodeStatus.FAILURE) {
                 // Child failed, sequence fails
@@ -0,0 +1,65 @@
+import { TreeNode } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { RandomCompositeNode } from './RandomCompositeNode.js';
+
+/**
+ * WeightedRandomSelectorNode: A selector that picks its children at random,
+ * in proportion to their weights.
+ *
+ * Each child's weight is stored in the child's config (`config.weight`,
+ * default 1) and edited in the inspector of the child; it is shown on the
+ * connection. A child with weight 3 is picked first three times as often as
+ * a child with weight 1. When the picked child fails, the next one is picked
+ * from the remaining children the same way. Children with weight 0 never run.
+ *
+ * Use case: "Usually taunt, sometimes charge, rarely flee"
+ */
+export class WeightedRandomSelectorNode extends RandomCompositeNode {
+    public static readonly DEFAULT_WEIGHT = 1;
+
+    constructor() {
+        super('weighted-random-selector', 'Weighted Random Selector', 'fa-scale-balanced', NodeStatus.SUCCESS);
+    }
+
+    /**
+     * Gets the weight of a child (non-negative; the default if not set or invalid)
+     */
+    public static getWeight(child: TreeNode): number {
+        const weight = Number(child.config.weight ?? WeightedRandomSelectorNode.DEFAULT_WEIGHT);
+        return Number.isFinite(weight) ? Math.max(0, weight) : WeightedRandomSelectorNode.DEFAULT_WEIGHT;
+    }
+
+    /**
+     * Gets the chance (0 to 1) that a child is picked first
+     */
+    public getChance(child: TreeNode): number {
+        const total = this.children.reduce((sum, other) => sum + WeightedRandomSelectorNode.getWeight(other), 0);
+        return total > 0 ? WeightedRandomSelectorNode.getWeight(child) / total : 0;
+    }
+
+    /**
+     * Draws children one by one, each in proportion to its weight among the rest
+     */
+    protected drawOrder(): number[] {
+        const remaining = this.children
+            .map((child, index) => ({ index, weight: WeightedRandomSelectorNode.getWeight(child) }))
+            .filter(entry => entry.weight > 0);
+        const order: number[] = [];
+
+        while (remaining.length > 0) {
+            const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+            let pick = this.nextRandom() * total;
+
+            let i = 0;
+            while (i < remaining.length - 1 && pick >= remaining[i].weight) {
+                pick -= remaining[i].weight;
+                i++;
+            }
+
+            order.push(remaining[i].index);
+            remaining.splice(i, 1);
+        }
+
+        return order;
+    }
+}
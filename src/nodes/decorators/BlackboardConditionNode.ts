@@ -0,0 +1,88 @@
+import { Blackboard } from '../../core/Blackboard.js';
+import { ConditionExpression, BlackboardCondition, ConditionOperator, ConditionOperand } from '../../core/ConditionExpression.js';
+import { ConditionalNode } from './ConditionalNode.js';
+
+/**
+ * BlackboardConditionNode: Only runs its child while a blackboard key
+ * compares to a value (or to another key), without writing a script.
+ *
+ * Parameters:
+ * - key, operator, compareTo, value: The condition, e.g. `health < 20`
+ *   (same as a Condition node in builder mode, see ConditionExpression)
+ * - observedKeys, abortMode: Observer aborts (see ConditionalNode)
+ *
+ * Returns FAILURE when the condition is false or cannot be evaluated (the
+ * reason is kept in lastError), otherwise the child's status.
+ *
+ * Use case: "Attack while the enemy is closer than 5 meters"
+ */
+export class BlackboardConditionNode extends ConditionalNode {
+    // Why the last evaluation failed with an error (null if it did not)
+    public lastError: string | null = null;
+
+    constructor() {
+        super('blackboard-condition', 'Blackboard Condition', 'fa-clipboard-check');
+    }
+
+    protected defineCondition(): void {
+        this.parameters.define('key', {
+            type: 'string',
+            label: 'Key',
+            defaultValue: '',
+            description: 'Blackboard key to check'
+        });
+
+        this.parameters.define('operator', {
+            type: 'select',
+            label: 'Operator',
+            defaultValue: '==',
+            options: [...ConditionExpression.OPERATORS]
+        });
+
+        this.parameters.define('compareTo', {
+            type: 'select',
+            label: 'Compare To',
+            defaultValue: 'value',
+            options: [...ConditionExpression.OPERANDS],
+            description: 'Compare with a value, or with another blackboard key'
+        });
+
+        this.parameters.define('value', {
+            type: 'string',
+            label: 'Value',
+            defaultValue: '',
+            description: 'Value (e.g. 20, true, "idle") or key to compare with'
+        });
+    }
+
+    protected evaluateCondition(blackboard: Blackboard): boolean {
+        this.lastError = null;
+
+        try {
+            return ConditionExpression.evaluate(this.getCondition(), blackboard, this.id);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            console.error(`Blackboard Condition "${this.label}" (${this.id}): ${this.lastError}`);
+            return false;
+        }
+    }
+
+    /**
+     * Gets the condition from the parameters
+     */
+    public getCondition(): BlackboardCondition {
+        return {
+            key: this.parameters.get<string>('key') || '',
+            operator: this.parameters.get<ConditionOperator>('operator') || '==',
+            compareTo: this.parameters.get<ConditionOperand>('compareTo') || 'value',
+            value: String(this.parameters.get('value') ?? '')
+        };
+    }
+
+    /**
+     * Describes the condition as text, e.g. `health < 20`
+     */
+    public describe(): string {
+        return ConditionExpression.describe(this.getCondition());
+    }
+}
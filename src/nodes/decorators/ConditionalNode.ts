@@ -0,0 +1,205 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { NodeExecutor } from '../../core/NodeExecutor.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * Observer abort modes (same semantics as Unreal Engine decorators)
+ * - none: The condition is only checked when the node is entered
+ * - self: Abort the running child when the condition becomes false
+ * - lower-priority: Interrupt lower-priority branches of the parent Selector
+ *   when the condition becomes true
+ * - both: self + lower-priority
+ */
+export type ObserverAbortMode = 'none' | 'self' | 'lower-priority' | 'both';
+
+/**
+ * ConditionalNode: Only runs its child while a condition holds.
+ *
+ * Parameters:
+ * - condition: JavaScript expression, e.g. `blackboard.get('health') < 20`
+ * - observedKeys: Comma-separated blackboard keys that trigger re-evaluation
+ *   (wildcards such as `enemy.*` are allowed; if empty, the condition is
+ *   re-evaluated every tick)
+ * - abortMode: Observer abort mode (see ObserverAbortMode)
+ *
+ * Returns FAILURE when the condition is false, otherwise the child's status.
+ *
+ * Lower-priority aborts are handled by the parent SelectorNode, which asks its
+ * higher-priority children before resuming a running branch. Under a Sequence
+ * they have no effect, as in Unreal.
+ *
+ * Subclasses with other kinds of conditions (e.g. BlackboardConditionNode)
+ * override defineCondition() and evaluateCondition().
+ *
+ * Use case: "Flee while health is low, abort fleeing once healed"
+ */
+export class ConditionalNode extends TreeNode {
+    // Set when an observed key changes; cleared when the condition is evaluated
+    private dirty: boolean = true;
+
+    // Result of the last evaluation (used to detect false → true flips)
+    private lastResult?: boolean;
+
+    // Active blackboard subscriptions
+    private observedBlackboard: Blackboard | null = null;
+    private observedKeyList: string = '';
+    private unsubscribers: Array<() => void> = [];
+
+    constructor(type: string = 'conditional', label: string = 'Conditional', icon: string = 'fa-eye') {
+        super(type, label, 'decorator', icon, Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.defineCondition();
+
+        this.parameters.define('observedKeys', {
+            type: 'string',
+            label: 'Observed Keys',
+            defaultValue: '',
+            description: 'Comma-separated blackboard keys to watch (empty = re-check every tick)'
+        });
+
+        this.parameters.define('abortMode', {
+            type: 'select',
+            label: 'Observer Aborts',
+            defaultValue: 'none',
+            options: ['none', 'self', 'lower-priority', 'both'],
+            description: 'What to interrupt when the condition changes'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        this.observe(blackboard);
+
+        const child = this.children[0];
+        const resuming = this.status === NodeStatus.RUNNING;
+        const abortsSelf = this.getAbortMode() === 'self' || this.getAbortMode() === 'both';
+
+        // Check on entry, and while running if observing self
+        if (!resuming || (abortsSelf && this.needsEvaluation())) {
+            if (!this.evaluate(blackboard)) {
+                // Condition no longer holds: abort the running child
+                this.haltRunningChildren(blackboard);
+                this.status = NodeStatus.FAILURE;
+                return this.status;
+            }
+        }
+
+        this.status = yield { child, blackboard };
+        return this.status;
+    }
+
+    /**
+     * Returns true when the condition has just become true and the abort mode
+     * allows this branch to interrupt lower-priority siblings
+     */
+    public shouldAbortLowerPriority(blackboard: Blackboard): boolean {
+        const mode = this.getAbortMode();
+        if (mode !== 'lower-priority' && mode !== 'both') {
+            return false;
+        }
+
+        this.observe(blackboard);
+
+        if (!this.needsEvaluation()) {
+            return false;
+        }
+
+        const wasTrue = this.lastResult === true;
+        return this.evaluate(blackboard) && !wasTrue;
+    }
+
+    public getAbortMode(): ObserverAbortMode {
+        return this.parameters.get<ObserverAbortMode>('abortMode') || 'none';
+    }
+
+    /**
+     * Defines the parameters of the condition (called by the constructor,
+     * before the observer parameters)
+     */
+    protected defineCondition(): void {
+        this.parameters.define('condition', {
+            type: 'string',
+            label: 'Condition',
+            defaultValue: 'true',
+            description: "Expression that must be true to run the child, e.g. blackboard.get('health') < 20"
+        });
+    }
+
+    /**
+     * Evaluates the condition. Override in subclasses that use a different kind
+     * of condition than a script expression.
+     */
+    protected evaluateCondition(blackboard: Blackboard): boolean {
+        const expression = this.parameters.get<string>('condition');
+        return Boolean(NodeExecutor.evaluate(expression, blackboard, this.id, this.parameters.getValues(), this));
+    }
+
+    /**
+     * Evaluates the condition and records the result
+     */
+    private evaluate(blackboard: Blackboard): boolean {
+        this.dirty = false;
+        this.lastResult = this.evaluateCondition(blackboard);
+        return this.lastResult;
+    }
+
+    /**
+     * Checks whether the condition may have changed since the last evaluation
+     */
+    private needsEvaluation(): boolean {
+        // Without observed keys the condition is polled every tick
+        return this.dirty || this.unsubscribers.length === 0 || this.lastResult === undefined;
+    }
+
+    /**
+     * Subscribes to the observed keys on the given blackboard
+     * (re-subscribes when the blackboard or the key list changes)
+     */
+    private observe(blackboard: Blackboard): void {
+        const keyList = this.parameters.get<string>('observedKeys') || '';
+        if (blackboard === this.observedBlackboard && keyList === this.observedKeyList) {
+            return;
+        }
+
+        this.unobserve();
+        this.observedBlackboard = blackboard;
+        this.observedKeyList = keyList;
+        this.dirty = true;
+
+        keyList.split(',')
+            .map(key => key.trim())
+            .filter(key => key !== '')
+            .forEach(key => {
+                this.unsubscribers.push(blackboard.onChange(key, () => {
+                    this.dirty = true;
+                }));
+            });
+    }
+
+    /**
+     * Removes all blackboard subscriptions
+     */
+    private unobserve(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.observedBlackboard = null;
+        this.observedKeyList = '';
+    }
+
+    public unlink(): void {
+        this.unobserve();
+    }
+
+    public reset(): void {
+        super.reset();
+        // Subscriptions survive a reset, but the condition must be re-checked
+        this.dirty = true;
+    }
+}
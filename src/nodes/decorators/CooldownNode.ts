@@ -0,0 +1,63 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * CooldownNode: Blocks its child for a while after it completed.
+ *
+ * Parameters:
+ * - seconds: Time after the child finished during which it cannot run again (default: 2)
+ *
+ * Returns FAILURE without ticking the child while cooling down, otherwise the
+ * child's status. The cooldown survives resets, so it also spans tree runs.
+ * Time comes from the tree's clock.
+ *
+ * Use case: "Throw a grenade at most every 5 seconds"
+ */
+export class CooldownNode extends TreeNode {
+    // Time the child last completed (null if it never did)
+    private completedTime: number | null = null;
+
+    constructor() {
+        super('cooldown', 'Cooldown', 'decorator', 'fa-snowflake', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('seconds', {
+            type: 'number',
+            label: 'Seconds',
+            defaultValue: 2,
+            min: 0,
+            description: 'Time after completion before the child can run again'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        if (this.status !== NodeStatus.RUNNING && this.isCoolingDown()) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        this.status = yield { child: this.children[0], blackboard };
+        if (this.status !== NodeStatus.RUNNING) {
+            this.completedTime = this.now();
+        }
+        return this.status;
+    }
+
+    /**
+     * Checks if the child completed less than the cooldown ago
+     */
+    public isCoolingDown(): boolean {
+        if (this.completedTime === null) return false;
+
+        // A clock that went back (e.g. a new tree clock) ends the cooldown
+        const elapsed = this.now() - this.completedTime;
+        return elapsed >= 0 && elapsed < (this.parameters.get<number>('seconds') || 0) * 1000;
+    }
+}
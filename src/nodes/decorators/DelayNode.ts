@@ -0,0 +1,68 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * DelayNode: Waits before starting its child.
+ *
+ * Parameters:
+ * - seconds: Time to wait (default: 1)
+ *
+ * Returns RUNNING while waiting, then the child's status (the child is ticked
+ * in the same tick the delay ends). Time comes from the tree's clock.
+ *
+ * Use case: "Wait a second before reacting to a noise"
+ */
+export class DelayNode extends TreeNode {
+    // Time the node was entered (null when not running)
+    private startTime: number | null = null;
+
+    // Set once the delay is over (until the node completes)
+    private started: boolean = false;
+
+    constructor() {
+        super('delay', 'Delay', 'decorator', 'fa-hourglass-start', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('seconds', {
+            type: 'number',
+            label: 'Seconds',
+            defaultValue: 1,
+            min: 0,
+            description: 'Time to wait before the child starts'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.SUCCESS;
+            return this.status;
+        }
+
+        if (this.status !== NodeStatus.RUNNING || this.startTime === null) {
+            this.startTime = this.now();
+            this.started = false;
+        }
+
+        const seconds = this.parameters.get<number>('seconds') || 0;
+        if (!this.started && this.now() - this.startTime < seconds * 1000) {
+            this.status = NodeStatus.RUNNING;
+            return this.status;
+        }
+        this.started = true;
+
+        this.status = yield { child: this.children[0], blackboard };
+        if (this.status !== NodeStatus.RUNNING) {
+            this.startTime = null;
+            this.started = false;
+        }
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.startTime = null;
+        this.started = false;
+    }
+}
@@ -0,0 +1,31 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * ForceFailureNode: Fails once its child completes, whatever the result.
+ *
+ * - SUCCESS → FAILURE
+ * - FAILURE → FAILURE
+ * - RUNNING → RUNNING
+ *
+ * Use case: "Play the alert sound, then let the Selector try the next option"
+ */
+export class ForceFailureNode extends TreeNode {
+    constructor() {
+        super('force-failure', 'Force Failure', 'decorator', 'fa-times', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        const childStatus = yield { child: this.children[0], blackboard };
+        this.status = childStatus === NodeStatus.RUNNING ? NodeStatus.RUNNING : NodeStatus.FAILURE;
+        return this.status;
+    }
+}
@@ -0,0 +1,31 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * ForceSuccessNode: Succeeds once its child completes, whatever the result.
+ *
+ * - SUCCESS → SUCCESS
+ * - FAILURE → SUCCESS
+ * - RUNNING → RUNNING
+ *
+ * Use case: "Try to pick up the item, but carry on with the sequence either way"
+ */
+export class ForceSuccessNode extends TreeNode {
+    constructor() {
+        super('force-success', 'Force Success', 'decorator', 'fa-check', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        const childStatus = yield { child: this.children[0], blackboard };
+        this.status = childStatus === NodeStatus.RUNNING ? NodeStatus.RUNNING : NodeStatus.SUCCESS;
+        return this.status;
+    }
+}
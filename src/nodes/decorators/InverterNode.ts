@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -18,7 +18,7 @@ export class InverterNode extends TreeNode {
         this.maxChildren = 1; // Decorators can only have one child
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         if (this.children.length === 0) {
             this.status = NodeStatus.FAILURE;
             return this.status;
@@ -26,7 +26,7 @@ export class InverterNode extends TreeNode {
 
         // Tick the only child (decorators have single child)
         const child = this.children[0];
-        const childStatus = child.tick(blackboard);
+        const childStatus = yield { child, blackboard };
 
         // Invert success and failure
         if (childStatus === NodeStatus.SUCCESS) {
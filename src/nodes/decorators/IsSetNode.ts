@@ -0,0 +1,71 @@
+import { Blackboard } from '../../core/Blackboard.js';
+import { ConditionExpression, BlackboardCondition } from '../../core/ConditionExpression.js';
+import { ConditionalNode } from './ConditionalNode.js';
+
+/**
+ * IsSetNode: Only runs its child while a blackboard key is set (holds a value
+ * other than undefined/null), or, as Is Not Set, while it is not.
+ *
+ * Parameters:
+ * - key: Blackboard key to check
+ * - observedKeys, abortMode: Observer aborts (see ConditionalNode)
+ *
+ * Returns FAILURE when the check fails (or no key is selected), otherwise
+ * the child's status.
+ *
+ * Use case: "Chase while there is a target" / "Patrol while there is none"
+ */
+export class IsSetNode extends ConditionalNode {
+    // true for Is Set, false for Is Not Set
+    private readonly expectSet: boolean;
+
+    /**
+     * @param expectSet - true for Is Set (default), false for Is Not Set
+     */
+    constructor(expectSet: boolean = true) {
+        super(
+            expectSet ? 'is-set' : 'is-not-set',
+            expectSet ? 'Is Set' : 'Is Not Set',
+            expectSet ? 'fa-check-square' : 'fa-square'
+        );
+        this.expectSet = expectSet;
+    }
+
+    protected defineCondition(): void {
+        this.parameters.define('key', {
+            type: 'string',
+            label: 'Key',
+            defaultValue: '',
+            description: 'Blackboard key to check'
+        });
+    }
+
+    protected evaluateCondition(blackboard: Blackboard): boolean {
+        const condition = this.getCondition();
+        if (!condition.key) {
+            console.error(`${this.label} (${this.id}): No blackboard key selected`);
+            return false;
+        }
+
+        return ConditionExpression.evaluate(condition, blackboard, this.id);
+    }
+
+    /**
+     * Gets the check as a blackboard condition
+     */
+    public getCondition(): BlackboardCondition {
+        return {
+            key: (this.parameters.get<string>('key') || '').trim(),
+            operator: this.expectSet ? 'is set' : 'is not set',
+            compareTo: 'value',
+            value: ''
+        };
+    }
+
+    /**
+     * Describes the check as text, e.g. `target is set`
+     */
+    public describe(): string {
+        return ConditionExpression.describe(this.getCondition());
+    }
+}
@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -26,7 +26,7 @@ export class RepeaterNode extends TreeNode {
         this.config.repeatForever = false;
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         if (this.children.length === 0) {
             this.status = NodeStatus.SUCCESS;
             return this.status;
@@ -38,7 +38,7 @@ export class RepeaterNode extends TreeNode {
 
         // If repeating forever, always run
         if (repeatForever) {
-            child.tick(blackboard);
+            yield { child, blackboard };
 
             // Reset child after each iteration
             if (child.status === NodeStatus.SUCCESS || child.status === NodeStatus.FAILURE) {
@@ -51,7 +51,7 @@ export class RepeaterNode extends TreeNode {
 
         // Repeat for a specific count
         while (this.currentIteration < count) {
-            const childStatus = child.tick(blackboard);
+            const childStatus = yield { child, blackboard };
 
             if (childStatus === NodeStatus.RUNNING) {
                 this.status = NodeStatus.RUNNING;
@@ -0,0 +1,193 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * Unit of the delay between attempts
+ */
+export type RetryDelayUnit = 'ticks' | 'seconds';
+
+/**
+ * RetryNode: Runs its child again when it fails, up to a number of attempts.
+ *
+ * Parameters:
+ * - maxAttempts: Number of attempts, the first run included (default: 3)
+ * - delay: Wait before the first retry, in delayUnit (default: 0, retry on the next tick)
+ * - delayUnit: 'ticks' (default) or 'seconds' (from the tree's clock)
+ * - backoff: Factor the delay grows by for every further retry (default: 1)
+ * - attemptKey: Blackboard key the current attempt (1-based) is written to (default: empty = none)
+ *
+ * Returns SUCCESS as soon as the child succeeds, RUNNING while the child runs
+ * or the node waits to retry, and FAILURE when the last attempt failed. If the
+ * attempt cannot be written (e.g. the key is not declared on a strict
+ * blackboard), the node keeps retrying and the reason is kept in lastError.
+ *
+ * Use case: "Try to open the door three times, waiting longer each time"
+ */
+export class RetryNode extends TreeNode {
+    // Why the attempt could not be written to the blackboard (null if it was)
+    public lastError: string | null = null;
+
+    // Attempt in progress (1-based, 0 when not running)
+    private attempt: number = 0;
+
+    // Wait before the next attempt (ticks left, or time to retry at)
+    private waitTicks: number = 0;
+    private retryTime: number | null = null;
+
+    constructor() {
+        super('retry', 'Retry', 'decorator', 'fa-sync', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('maxAttempts', {
+            type: 'number',
+            label: 'Max Attempts',
+            defaultValue: 3,
+            min: 1,
+            description: 'Number of attempts, the first run included'
+        });
+
+        this.parameters.define('delay', {
+            type: 'number',
+            label: 'Delay',
+            defaultValue: 0,
+            min: 0,
+            description: 'Wait before the first retry (0 = retry on the next tick)'
+        });
+
+        this.parameters.define('delayUnit', {
+            type: 'select',
+            label: 'Delay Unit',
+            defaultValue: 'ticks',
+            options: ['ticks', 'seconds']
+        });
+
+        this.parameters.define('backoff', {
+            type: 'number',
+            label: 'Backoff',
+            defaultValue: 1,
+            min: 1,
+            description: 'Factor the delay grows by for every further retry (2 doubles it)'
+        });
+
+        this.parameters.define('attemptKey', {
+            type: 'string',
+            label: 'Attempt Key',
+            defaultValue: '',
+            description: 'Blackboard key that holds the current attempt (empty = not written)'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        if (this.status !== NodeStatus.RUNNING || this.attempt === 0) {
+            this.clearWait();
+            this.setAttempt(1, blackboard);
+        }
+
+        if (this.isWaiting()) {
+            this.status = NodeStatus.RUNNING;
+            return this.status;
+        }
+
+        const child = this.children[0];
+        const childStatus = yield { child, blackboard };
+
+        if (childStatus !== NodeStatus.FAILURE) {
+            this.status = childStatus;
+            if (childStatus === NodeStatus.SUCCESS) {
+                this.attempt = 0;
+            }
+            return this.status;
+        }
+
+        if (this.attempt >= this.getMaxAttempts()) {
+            this.attempt = 0;
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        // Schedule the next attempt
+        child.reset();
+        this.setAttempt(this.attempt + 1, blackboard);
+        this.scheduleRetry();
+        this.status = NodeStatus.RUNNING;
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.attempt = 0;
+        this.clearWait();
+    }
+
+    /**
+     * Gets the attempt in progress (1-based, 0 when not running)
+     */
+    public getAttempt(): number {
+        return this.attempt;
+    }
+
+    private getMaxAttempts(): number {
+        return Math.max(1, Math.floor(this.parameters.get<number>('maxAttempts') || 1));
+    }
+
+    /**
+     * Delay before the given attempt: delay × backoff^(retries so far)
+     */
+    private getDelay(attempt: number): number {
+        const delay = Math.max(0, this.parameters.get<number>('delay') || 0);
+        const backoff = Math.max(1, this.parameters.get<number>('backoff') || 1);
+        return delay * Math.pow(backoff, attempt - 2);
+    }
+
+    private setAttempt(attempt: number, blackboard: Blackboard): void {
+        this.attempt = attempt;
+
+        this.lastError = null;
+
+        const key = (this.parameters.get<string>('attemptKey') || '').trim();
+        if (!key) return;
+
+        try {
+            blackboard.set(key, attempt, this.id);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            console.error(`Retry "${this.label}" (${this.id}): ${this.lastError}`);
+        }
+    }
+
+    private scheduleRetry(): void {
+        const delay = this.getDelay(this.attempt);
+        if (this.parameters.get<RetryDelayUnit>('delayUnit') === 'seconds') {
+            this.retryTime = this.now() + delay * 1000;
+        } else {
+            this.waitTicks = Math.round(delay);
+        }
+    }
+
+    /**
+     * Checks if the next attempt has to wait (counting down waited ticks)
+     */
+    private isWaiting(): boolean {
+        if (this.waitTicks > 0) {
+            this.waitTicks--;
+            return true;
+        }
+        if (this.retryTime !== null && this.now() < this.retryTime) {
+            return true;
+        }
+        this.retryTime = null;
+        return false;
+    }
+
+    private clearWait(): void {
+        this.waitTicks = 0;
+        this.retryTime = null;
+    }
+}
@@ -0,0 +1,82 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * ScopeNode: Runs its child with a local blackboard scope.
+ *
+ * Parameters:
+ * - ports: Key remapping into and out of the scope, e.g. `target=enemy, result=@squadTarget`
+ *   (reads and writes of `target` inside the subtree go to `enemy` outside)
+ * - isolated: If true, only ported keys are visible from the enclosing blackboard
+ *
+ * Keys written inside the subtree stay local and are discarded when the node
+ * is reset. The status of the child is returned unchanged.
+ *
+ * Use case: "Reuse a 'Move To' subtree with different targets without key clashes"
+ */
+export class ScopeNode extends TreeNode {
+    // Local scope, created for the blackboard the node is ticked with
+    private scope: Blackboard | null = null;
+    private scopeKey: string = '';
+
+    constructor() {
+        super('scope', 'Blackboard Scope', 'decorator', 'fa-layer-group', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('ports', {
+            type: 'string',
+            label: 'Ports',
+            defaultValue: '',
+            description: 'Comma-separated local=outer key remapping, e.g. target=enemy, result=@squadTarget'
+        });
+
+        this.parameters.define('isolated', {
+            type: 'boolean',
+            label: 'Isolated',
+            defaultValue: false,
+            description: 'Hide unmapped keys of the enclosing blackboard'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.SUCCESS;
+            return this.status;
+        }
+
+        this.status = yield { child: this.children[0], blackboard: this.getScope(blackboard) };
+        return this.status;
+    }
+
+    public halt(blackboard: Blackboard): void {
+        // Children were ticked with the local scope, so halt them with it too
+        super.halt(this.scope && this.scope.parent === blackboard ? this.scope : blackboard);
+    }
+
+    /**
+     * Gets the local scope for the given enclosing blackboard
+     * (recreated when the blackboard or the scope parameters change)
+     */
+    public getScope(blackboard: Blackboard): Blackboard {
+        const ports = this.parameters.get<string>('ports') || '';
+        const isolated = this.parameters.get<boolean>('isolated') === true;
+        const scopeKey = `${isolated}|${ports}`;
+
+        if (!this.scope || this.scope.parent !== blackboard || this.scopeKey !== scopeKey) {
+            this.scope = blackboard.createScope({ ports: Blackboard.parsePorts(ports), isolated });
+            this.scopeKey = scopeKey;
+        }
+
+        return this.scope;
+    }
+
+    public reset(): void {
+        super.reset();
+        // Local keys only live for one run of the subtree
+        if (this.scope) {
+            this.scope.clear();
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -18,7 +18,7 @@ export class StartNode extends TreeNode {
         this.numInputs = 0; // Start nodes have no inputs (they are the root of execution)
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         if (this.children.length === 0) {
             this.status = NodeStatus.SUCCESS;
             return this.status;
@@ -26,7 +26,7 @@ export class StartNode extends TreeNode {
 
         // Execute the child and pass through its result
         const child = this.children[0];
-        this.status = child.tick(blackboard);
+        this.status = yield { child, blackboard };
 
         return this.status;
     }
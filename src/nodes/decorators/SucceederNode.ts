@@ -0,0 +1,33 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * SucceederNode: Always succeeds, at once.
+ *
+ * Ticks its child (if it has one) and returns SUCCESS whatever the child
+ * returns. Unlike Force Success it never returns RUNNING: a child that is
+ * still running is halted. Without a child it simply succeeds, which makes it
+ * a placeholder for a branch that is not built yet.
+ *
+ * Use case: "Nudge the camera towards the target, but never wait for it"
+ */
+export class SucceederNode extends TreeNode {
+    constructor() {
+        super('succeeder', 'Succeeder', 'decorator', 'fa-check-double', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length > 0) {
+            const childStatus = yield { child: this.children[0], blackboard };
+            if (childStatus === NodeStatus.RUNNING) {
+                this.haltRunningChildren(blackboard);
+            }
+        }
+
+        this.status = NodeStatus.SUCCESS;
+        return this.status;
+    }
+}
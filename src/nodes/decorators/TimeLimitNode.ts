@@ -0,0 +1,64 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * TimeLimitNode: Runs its child for at most a fixed time, then stops it.
+ *
+ * Parameters:
+ * - seconds: Time the child may run (default: 10)
+ *
+ * Returns the child's status, or SUCCESS once the time is up (the running
+ * child is halted). Unlike Timeout, running out of time is the expected end.
+ * Time comes from the tree's clock.
+ *
+ * Use case: "Patrol for 10 seconds, then go back to guarding"
+ */
+export class TimeLimitNode extends TreeNode {
+    // Time the child was entered (null when not running)
+    private startTime: number | null = null;
+
+    constructor() {
+        super('time-limit', 'Time Limit', 'decorator', 'fa-stopwatch', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('seconds', {
+            type: 'number',
+            label: 'Seconds',
+            defaultValue: 10,
+            min: 0,
+            description: 'Time the child runs before it is stopped and the node succeeds'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.SUCCESS;
+            return this.status;
+        }
+
+        if (this.status !== NodeStatus.RUNNING || this.startTime === null) {
+            this.startTime = this.now();
+        }
+
+        const seconds = this.parameters.get<number>('seconds') || 0;
+        if (this.now() - this.startTime >= seconds * 1000) {
+            this.haltRunningChildren(blackboard);
+            this.startTime = null;
+            this.status = NodeStatus.SUCCESS;
+            return this.status;
+        }
+
+        this.status = yield { child: this.children[0], blackboard };
+        if (this.status !== NodeStatus.RUNNING) {
+            this.startTime = null;
+        }
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.startTime = null;
+    }
+}
@@ -0,0 +1,63 @@
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * TimeoutNode: Fails its child if it runs for too long.
+ *
+ * Parameters:
+ * - seconds: Time the child may run (default: 5)
+ *
+ * Returns the child's status, or FAILURE once the time is up (the running
+ * child is halted). Time comes from the tree's clock.
+ *
+ * Use case: "Give up pathfinding after 5 seconds"
+ */
+export class TimeoutNode extends TreeNode {
+    // Time the child was entered (null when not running)
+    private startTime: number | null = null;
+
+    constructor() {
+        super('timeout', 'Timeout', 'decorator', 'fa-hourglass-end', Theme.node.decorator);
+        this.maxChildren = 1; // Decorators can only have one child
+
+        this.parameters.define('seconds', {
+            type: 'number',
+            label: 'Seconds',
+            defaultValue: 5,
+            min: 0,
+            description: 'Time the child may run before it fails'
+        });
+    }
+
+    public *traverse(blackboard: Blackboard): TickTraversal {
+        if (this.children.length === 0) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        if (this.status !== NodeStatus.RUNNING || this.startTime === null) {
+            this.startTime = this.now();
+        }
+
+        const seconds = this.parameters.get<number>('seconds') || 0;
+        if (this.now() - this.startTime >= seconds * 1000) {
+            this.haltRunningChildren(blackboard);
+            this.startTime = null;
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        this.status = yield { child: this.children[0], blackboard };
+        if (this.status !== NodeStatus.RUNNING) {
+            this.startTime = null;
+        }
+        return this.status;
+    }
+
+    public reset(): void {
+        super.reset();
+        this.startTime = null;
+    }
+}
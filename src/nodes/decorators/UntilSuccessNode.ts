@@ -1,4 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TickTraversal } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
 import { Theme } from '../../utils/Theme.js';
@@ -17,14 +17,14 @@ export class UntilSuccessNode extends TreeNode {
         this.maxChildren = 1; // Decorators can only have one child
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
+    public *traverse(blackboard: Blackboard): TickTraversal {
         if (this.children.length === 0) {
             this.status = NodeStatus.SUCCESS;
             return this.status;
         }
 
         const child = this.children[0];
-        const childStatus = child.tick(blackboard);
+        const childStatus = yield { child, blackboard };
 
         if (childStatus === NodeStatus.SUCCESS) {
             // Child succeeded, we succeed
@@ -0,0 +1,165 @@
+import { TreeNode } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { NodeExecutor } from '../../core/NodeExecutor.js';
+import { ConditionExpression, BlackboardCondition, ConditionOperator, ConditionOperand } from '../../core/ConditionExpression.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * How a Condition node is defined
+ * - builder: A declarative blackboard condition (key, operator, value or key)
+ * - script: A JavaScript expression
+ */
+export type ConditionMode = 'builder' | 'script';
+
+/**
+ * ConditionNode: Checks the blackboard without changing it.
+ *
+ * Parameters:
+ * - mode: 'builder' (default) or 'script' (see ConditionMode)
+ * - key, operator, compareTo, value: The condition in builder mode, e.g. `health < 20`
+ * - script: Expression in script mode, e.g. `blackboard.get('health') < 20`
+ *
+ * Returns SUCCESS when the condition holds, otherwise FAILURE. Conditions
+ * never return RUNNING: scripts that evaluate to RUNNING or to a promise fail
+ * (with the reason in lastError).
+ *
+ * Use case: "Only attack if the enemy is in range"
+ */
+export class ConditionNode extends TreeNode {
+    // Parameters used in each mode (the others are hidden in the inspector)
+    private static readonly MODE_PARAMETERS: Record<ConditionMode, string[]> = {
+        builder: ['key', 'operator', 'compareTo', 'value'],
+        script: ['script']
+    };
+
+    // Why the last check failed with an error (null if it did not)
+    public lastError: string | null = null;
+
+    constructor(label: string = 'Condition') {
+        super('condition', label, 'condition', 'fa-question', Theme.node.condition);
+
+        this.parameters.define('mode', {
+            type: 'select',
+            label: 'Mode',
+            defaultValue: 'builder',
+            options: ['builder', 'script'],
+            description: 'Build the condition from a blackboard key, or write an expression'
+        });
+
+        this.parameters.define('key', {
+            type: 'string',
+            label: 'Key',
+            defaultValue: '',
+            description: 'Blackboard key to check'
+        });
+
+        this.parameters.define('operator', {
+            type: 'select',
+            label: 'Operator',
+            defaultValue: '==',
+            options: [...ConditionExpression.OPERATORS]
+        });
+
+        this.parameters.define('compareTo', {
+            type: 'select',
+            label: 'Compare To',
+            defaultValue: 'value',
+            options: [...ConditionExpression.OPERANDS],
+            description: 'Compare with a value, or with another blackboard key'
+        });
+
+        this.parameters.define('value', {
+            type: 'string',
+            label: 'Value',
+            defaultValue: '',
+            description: 'Value (e.g. 20, true, "idle") or key to compare with'
+        });
+
+        this.parameters.define('script', {
+            type: 'string',
+            label: 'Script',
+            defaultValue: 'true',
+            description: "Expression that must be true, e.g. blackboard.get('health') < 20"
+        });
+    }
+
+    public tick(blackboard: Blackboard): NodeStatus {
+        this.status = this.check(blackboard) ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+        return this.status;
+    }
+
+    /**
+     * Evaluates the condition (false if it cannot be evaluated)
+     */
+    public check(blackboard: Blackboard): boolean {
+        this.lastError = null;
+
+        try {
+            return this.getMode() === 'script'
+                ? this.checkScript(blackboard)
+                : ConditionExpression.evaluate(this.getCondition(), blackboard, this.id);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            console.error(`Condition "${this.label}" (${this.id}): ${this.lastError}`);
+            return false;
+        }
+    }
+
+    public getMode(): ConditionMode {
+        return this.parameters.get<ConditionMode>('mode') === 'script' ? 'script' : 'builder';
+    }
+
+    /**
+     * Gets the builder-mode condition
+     */
+    public getCondition(): BlackboardCondition {
+        return {
+            key: this.parameters.get<string>('key') || '',
+            operator: this.parameters.get<ConditionOperator>('operator') || '==',
+            compareTo: this.parameters.get<ConditionOperand>('compareTo') || 'value',
+            value: String(this.parameters.get('value') ?? '')
+        };
+    }
+
+    /**
+     * Describes the condition as text, e.g. `health < 20`
+     */
+    public describe(): string {
+        return this.getMode() === 'script'
+            ? this.parameters.get<string>('script') || ''
+            : ConditionExpression.describe(this.getCondition());
+    }
+
+    /**
+     * Checks if a parameter is used in the current mode
+     */
+    public usesParameter(name: string): boolean {
+        const other = this.getMode() === 'script' ? 'builder' : 'script';
+        return !ConditionNode.MODE_PARAMETERS[other].includes(name);
+    }
+
+    /**
+     * Evaluates the script, mapping NodeStatus results to booleans
+     */
+    private checkScript(blackboard: Blackboard): boolean {
+        const result = NodeExecutor.evaluate(
+            this.parameters.get<string>('script'),
+            blackboard,
+            this.id,
+            this.parameters.getValues(),
+            this
+        );
+
+        if (NodeExecutor.isPromiseLike(result)) {
+            // Not awaited, but must not be reported as unhandled
+            Promise.resolve(result).catch(() => {});
+            throw new Error('Conditions must be synchronous (the script returned a promise)');
+        }
+        if (result === NodeStatus.RUNNING) {
+            throw new Error('Conditions cannot return RUNNING');
+        }
+
+        return result === NodeStatus.SUCCESS || (result !== NodeStatus.FAILURE && Boolean(result));
+    }
+}
@@ -1,7 +1,4 @@
-import { TreeNode } from '../../core/TreeNode.js';
-import { NodeStatus } from '../../core/NodeStatus.js';
-import { Blackboard } from '../../core/Blackboard.js';
-import { NodeExecutor } from '../../core/NodeExecutor.js';
+import { ScriptNode } from '../../core/ScriptNode.js';
 import { Theme } from '../../utils/Theme.js';
 
 /**
@@ -10,9 +7,7 @@ import { Theme } from '../../utils/Theme.js';
  * Similar to ActionNode but initialized with pre-defined custom code
  * from the CustomNodeCatalog.
  */
-export class CustomActionNode extends TreeNode {
-    private ticksSinceStart: number = 0;
-
+export class CustomActionNode extends ScriptNode {
     constructor(
         type: string,
         label: string,
@@ -22,35 +17,4 @@ export class CustomActionNode extends TreeNode {
         super(type, label, 'leaf', icon, Theme.node.leaf);
         this.code = code;
     }
-
-    public tick(blackboard: Blackboard): NodeStatus {
-        if (!this.code) {
-            this.status = NodeStatus.SUCCESS;
-            this.ticksSinceStart = 0;
-            return this.status;
-        }
-
-        // Execute the custom code with tick count and parameters
-        this.status = NodeExecutor.execute(
-            this.code,
-            blackboard,
-            this.id,
-            this.ticksSinceStart,
-            this.parameters.getValues()
-        );
-
-        // Increment tick count if still running
-        if (this.status === NodeStatus.RUNNING) {
-            this.ticksSinceStart++;
-        } else {
-            this.ticksSinceStart = 0;
-        }
-
-        return this.status;
-    }
-
-    public reset(): void {
-        super.reset();
-        this.ticksSinceStart = 0;
-    }
 }
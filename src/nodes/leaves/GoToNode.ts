@@ -1,27 +1,60 @@
-import { TreeNode } from '../../core/TreeNode.js';
+import { TreeNode, TreeContext } from '../../core/TreeNode.js';
 import { NodeStatus } from '../../core/NodeStatus.js';
 import { Blackboard } from '../../core/Blackboard.js';
-import { NodeExecutor } from '../../core/NodeExecutor.js';
 import { Theme } from '../../utils/Theme.js';
 
 /**
- * GoToNode: Finds and executes another action node by name.
+ * A resolved target with the result of the jump check
+ */
+interface ResolvedTarget {
+    target: TreeNode | null;
+    error: string | null;
+
+    // GoTo nodes whose targets were followed, with the reference each had
+    // (the result is stale once one of them changes)
+    references: Array<[GoToNode, string]>;
+}
+
+/**
+ * GoToNode: Runs another node of the same tree, like a function call.
+ *
+ * Parameters:
+ * - targetName: Id of the target node (a label also works, the first node with it is used)
+ * - failIfNotFound: If true (default), a missing target returns FAILURE instead of SUCCESS
+ *
+ * The target is the actual node instance, resolved through the tree the GoTo
+ * belongs to (see TreeContext.findNode), so it keeps its own state: a running
+ * target resumes on the next tick, and it is reset once it completes. Targets
+ * are usually disconnected subtrees, but any node works. Jumping to this node,
+ * one of its ancestors or into a loop of jumps returns FAILURE.
  *
- * This allows for dynamic branching and reusable action sequences.
- * The target node's code is executed in this node's context.
+ * The target and the jump check are resolved once and cached until the tree
+ * links its nodes again (its structure changed) or a followed target
+ * reference changes, so ticks do not search the tree.
+ *
+ * Use case: "Run the shared 'Reload' branch from several places of the tree"
  */
 export class GoToNode extends TreeNode {
-    private ticksSinceStart: number = 0;
+    // Targets being run by a GoTo (a target cannot be entered again while it runs)
+    private static running: Set<TreeNode> = new Set();
+
+    // Tree the target is looked up in (see link())
+    private tree: TreeContext | null = null;
+
+    // Cached result of resolve() (null until resolved, or after the tree changed)
+    private resolved: ResolvedTarget | null = null;
+
+    // Why the target could not be resolved (null when it is valid)
+    public lastError: string | null = null;
 
     constructor(label: string = 'GoTo') {
         super('goto', label, 'leaf', 'fa-arrow-right', Theme.node.leaf);
 
-        // Define parameters
         this.parameters.define('targetName', {
             type: 'string',
-            label: 'Target Action Name',
+            label: 'Target',
             defaultValue: '',
-            description: 'Name of the action node to execute'
+            description: 'Id or label of the node to run'
         });
 
         this.parameters.define('failIfNotFound', {
@@ -30,118 +63,144 @@ export class GoToNode extends TreeNode {
             defaultValue: true,
             description: 'Return FAILURE if target node is not found'
         });
-
-        // Initialize with template code
-        this.code = this.getTemplateCode();
     }
 
-    private getTemplateCode(): string {
-        return `// GoTo Node - Executes another action by name
-
-function OnStart() {
-    // Initialize GoTo execution
-}
+    public link(tree: TreeContext): void {
+        this.tree = tree;
+        this.resolved = null;
+    }
 
-function OnUpdate(tick) {
-    // Get the target node name from parameters
-    const targetName = params.targetName;
+    public tick(blackboard: Blackboard): NodeStatus {
+        const target = this.validate();
+        if (!target) {
+            // Cycles always fail, only missing targets may be skipped
+            const missing = this.resolve().target === null;
+            this.status = missing && this.parameters.get<boolean>('failIfNotFound') === false
+                ? NodeStatus.SUCCESS
+                : NodeStatus.FAILURE;
+            return this.status;
+        }
 
-    if (!targetName) {
-        return params.failIfNotFound ? NodeStatus.FAILURE : NodeStatus.SUCCESS;
-    }
+        if (GoToNode.running.has(target)) {
+            this.lastError = `Jump cycle: "${this.label}" re-entered "${target.label}"`;
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
 
-    // Try to get the target node from the blackboard
-    // (The editor should populate this with a reference to all nodes)
-    const allNodes = blackboard.get('__allNodes') || [];
+        GoToNode.running.add(target);
+        try {
+            this.status = target.executeTick(blackboard);
+        } finally {
+            GoToNode.running.delete(target);
+        }
 
-    // Find the target node by label
-    const targetNode = allNodes.find(node =>
-        node.label === targetName &&
-        (node.type === 'action' || node.type === 'wait' || node.type === 'goto')
-    );
+        // The next jump runs the target from the start
+        if (this.status !== NodeStatus.RUNNING) {
+            target.reset();
+        }
 
-    if (!targetNode) {
-        return params.failIfNotFound ? NodeStatus.FAILURE : NodeStatus.SUCCESS;
+        return this.status;
     }
 
-    // Execute the target node's code
-    if (targetNode.code) {
-        // Create a function to execute the target's code
-        try {
-            const executeFunction = new Function(
-                'blackboard',
-                'NodeStatus',
-                'nodeId',
-                'console',
-                'tick',
-                'params',
-                targetNode.code
-            );
-
-            const result = executeFunction(
-                blackboard,
-                NodeStatus,
-                nodeId,
-                console,
-                tick,
-                targetNode.parameters || {}
-            );
-
-            return result;
-        } catch (error) {
-            return NodeStatus.FAILURE;
+    protected onAbort(blackboard: Blackboard): void {
+        const target = this.getTarget();
+        if (target && target.status === NodeStatus.RUNNING) {
+            target.halt(blackboard);
         }
     }
 
-    return NodeStatus.SUCCESS;
-}
-
-function OnEnd(status) {
-    // Cleanup if needed
-}
-
-// Execute lifecycle
-if (tick === 0) {
-    OnStart();
-}
+    public reset(): void {
+        super.reset();
 
-const result = OnUpdate(tick);
+        const target = this.getTarget();
+        if (target && target.status !== NodeStatus.IDLE) {
+            target.reset();
+        }
+    }
 
-if (result !== NodeStatus.RUNNING) {
-    OnEnd(result);
-}
+    /**
+     * Gets the target node (null if it cannot be resolved)
+     */
+    public getTarget(): TreeNode | null {
+        return this.resolve().target;
+    }
 
-return result;`;
+    /**
+     * Resolves the target, checking for missing targets and jumps that would
+     * run this node again
+     * @returns The target, or null with the reason in lastError
+     */
+    public validate(): TreeNode | null {
+        const { target, error } = this.resolve();
+        this.lastError = error;
+        return error ? null : target;
     }
 
-    public tick(blackboard: Blackboard): NodeStatus {
-        if (!this.code) {
-            this.status = NodeStatus.SUCCESS;
-            this.ticksSinceStart = 0;
-            return this.status;
+    /**
+     * Gets the cached target and jump check, resolving them again if stale
+     */
+    private resolve(): ResolvedTarget {
+        if (this.resolved && this.resolved.references.every(([node, reference]) => node.getReference() === reference)) {
+            return this.resolved;
         }
 
-        // Execute the code with tick count and parameters
-        this.status = NodeExecutor.execute(
-            this.code,
-            blackboard,
-            this.id,
-            this.ticksSinceStart,
-            this.parameters.getValues()
-        );
-
-        // Increment tick count if still running
-        if (this.status === NodeStatus.RUNNING) {
-            this.ticksSinceStart++;
+        const reference = this.getReference();
+        const references: Array<[GoToNode, string]> = [[this, reference]];
+        const target = this.findTarget();
+        let error: string | null = null;
+
+        if (!reference) {
+            error = 'No target selected';
+        } else if (!target) {
+            error = `Target "${reference}" not found`;
         } else {
-            this.ticksSinceStart = 0;
+            const cycle = this.findCycle(target, [this], references);
+            if (cycle) {
+                error = `Jump cycle: ${cycle.map(node => node.label).join(' → ')}`;
+            }
         }
 
-        return this.status;
+        this.resolved = { target, error, references };
+        return this.resolved;
     }
 
-    public reset(): void {
-        super.reset();
-        this.ticksSinceStart = 0;
+    private getReference(): string {
+        return (this.parameters.get<string>('targetName') || '').trim();
+    }
+
+    /**
+     * Looks the target up in the tree (without the cache or the jump check)
+     */
+    private findTarget(): TreeNode | null {
+        const reference = this.getReference();
+        if (!reference || !this.tree) return null;
+        return this.tree.findNode(reference, this);
+    }
+
+    /**
+     * Follows the jumps inside a target's subtree
+     * @param references - Collects the GoTo nodes followed, with their references
+     * @returns The path back to a GoTo already on the path, or null
+     */
+    private findCycle(target: TreeNode, path: GoToNode[], references: Array<[GoToNode, string]>): TreeNode[] | null {
+        const nodes = [target, ...target.getAllDescendants()];
+
+        for (const node of nodes) {
+            if (!(node instanceof GoToNode)) continue;
+
+            const index = path.indexOf(node);
+            if (index !== -1) {
+                return [...path.slice(index), node];
+            }
+
+            references.push([node, node.getReference()]);
+            const next = node.findTarget();
+            if (next) {
+                const cycle = this.findCycle(next, [...path, node], references);
+                if (cycle) return cycle;
+            }
+        }
+
+        return null;
     }
 }
@@ -0,0 +1,231 @@
+import { TreeNode, TreeContext } from '../../core/TreeNode.js';
+import { NodeStatus } from '../../core/NodeStatus.js';
+import { Blackboard } from '../../core/Blackboard.js';
+import { BehaviorTree } from '../../core/BehaviorTree.js';
+import { NodeRegistry } from '../../core/NodeRegistry.js';
+import { TreeLibrary, TreeDocument } from '../../utils/TreeLibrary.js';
+import { Theme } from '../../utils/Theme.js';
+
+/**
+ * A loaded copy of the referenced tree
+ */
+interface SubTreeInstance {
+    documentId: string;
+    revision: number;
+    entry: TreeNode | null;             // Root, or the leftmost Start node
+    nodes: TreeNode[];                  // All nodes of the document
+    initialValues: Record<string, any>; // Blackboard defaults of the document
+}
+
+/**
+ * An entry of the collapsed/expanded outline drawn on the canvas
+ */
+export interface SubTreeOutlineEntry {
+    node: TreeNode;
+    depth: number;
+}
+
+/**
+ * SubTreeNode: Runs another saved tree (from the TreeLibrary) as a child.
+ *
+ * Parameters:
+ * - treeId: Id or name of the referenced tree document
+ * - ports: Key remapping into and out of the subtree, e.g. `target=enemy, result=@squadTarget`
+ * - isolated: If true (default), the subtree only sees ported keys of the outer blackboard
+ *
+ * The subtree runs with its own blackboard scope, seeded with the referenced
+ * tree's blackboard defaults. Returns the status of the referenced tree's
+ * entry node, or FAILURE if the reference is missing, part of a cycle (the
+ * tree this node is in counts as part of the reference path) or contains
+ * node types that are not registered.
+ *
+ * Use case: "Reuse the 'Take Cover' tree in every soldier behavior"
+ */
+export class SubTreeNode extends TreeNode {
+    private instance: SubTreeInstance | null = null;
+    private scope: Blackboard | null = null;
+    private scopeKey: string = '';
+
+    // Tree this node is in (see link())
+    private tree: TreeContext | null = null;
+
+    // Why the reference could not be resolved (null when it is valid)
+    public lastError: string | null = null;
+
+    constructor(label: string = 'SubTree') {
+        super(TreeLibrary.SUBTREE_TYPE, label, 'leaf', 'fa-project-diagram', Theme.node.leaf);
+
+        this.parameters.define('treeId', {
+            type: 'string',
+            label: 'Tree',
+            defaultValue: '',
+            description: 'Id or name of the tree to run'
+        });
+
+        this.parameters.define('ports', {
+            type: 'string',
+            label: 'Ports',
+            defaultValue: '',
+            description: 'Comma-separated subtree=outer key remapping, e.g. target=enemy'
+        });
+
+        this.parameters.define('isolated', {
+            type: 'boolean',
+            label: 'Isolated',
+            defaultValue: true,
+            description: 'Hide unmapped keys of the outer blackboard from the subtree'
+        });
+
+        // Canvas state: show the referenced tree's outline below the node
+        this.config.expanded = false;
+    }
+
+    public link(tree: TreeContext): void {
+        this.tree = tree;
+    }
+
+    public tick(blackboard: Blackboard): NodeStatus {
+        const instance = this.getInstance();
+        if (!instance || !instance.entry) {
+            this.status = NodeStatus.FAILURE;
+            return this.status;
+        }
+
+        this.status = instance.entry.executeTick(this.getScope(blackboard, instance));
+        return this.status;
+    }
+
+    protected onAbort(_blackboard: Blackboard): void {
+        if (this.instance && this.instance.entry && this.scope) {
+            this.instance.entry.halt(this.scope);
+        }
+    }
+
+    public reset(): void {
+        super.reset();
+
+        if (this.instance) {
+            this.instance.nodes.forEach(node => node.reset());
+
+            // Local keys only live for one run of the subtree
+            if (this.scope) {
+                this.scope.fromJSON(this.instance.initialValues);
+            }
+        }
+    }
+
+    /**
+     * Gets the referenced tree document (null if it cannot be resolved)
+     */
+    public getDocument(): TreeDocument | null {
+        return TreeLibrary.get(this.parameters.get<string>('treeId')) || null;
+    }
+
+    /**
+     * Gets the nodes of the referenced tree in depth-first order (for rendering)
+     */
+    public getOutline(): SubTreeOutlineEntry[] {
+        const instance = this.getInstance();
+        if (!instance || !instance.entry) return [];
+
+        const outline: SubTreeOutlineEntry[] = [];
+        const visit = (node: TreeNode, depth: number) => {
+            outline.push({ node, depth });
+            node.children.forEach(child => visit(child, depth + 1));
+        };
+        visit(instance.entry, 0);
+        return outline;
+    }
+
+    /**
+     * Loads (or reuses) the referenced tree, checking for missing documents and cycles
+     */
+    public getInstance(): SubTreeInstance | null {
+        const treeId = this.parameters.get<string>('treeId');
+        const document = this.getDocument();
+
+        if (!document) {
+            this.lastError = treeId ? `Tree "${treeId}" not found` : 'No tree selected';
+            this.instance = null;
+            return null;
+        }
+
+        if (this.instance && this.instance.documentId === document.id && this.instance.revision === document.revision) {
+            return this.instance;
+        }
+
+        // The tree this node is in is the start of the reference path
+        const host = this.tree?.documentId;
+        const cycle = TreeLibrary.findCycle(document.id, host ? [host] : []);
+        if (cycle) {
+            this.lastError = `Subtree cycle: ${cycle.join(' → ')}`;
+            this.instance = null;
+            return null;
+        }
+
+        try {
+            this.instance = SubTreeNode.instantiate(document);
+            this.scope = null;
+            this.lastError = this.instance.entry ? null : `Tree "${document.name}" has no root or Start node`;
+        } catch (error) {
+            this.lastError = `Failed to load tree "${document.name}": ${error instanceof Error ? error.message : String(error)}`;
+            this.instance = null;
+        }
+
+        if (this.lastError) {
+            console.error(`SubTree "${this.label}" (${this.id}): ${this.lastError}`);
+        }
+
+        return this.instance;
+    }
+
+    /**
+     * Gets the subtree's blackboard scope for the given outer blackboard
+     * (recreated when the blackboard or the port parameters change)
+     */
+    private getScope(blackboard: Blackboard, instance: SubTreeInstance): Blackboard {
+        const ports = this.parameters.get<string>('ports') || '';
+        const isolated = this.parameters.get<boolean>('isolated') !== false;
+        const scopeKey = `${isolated}|${ports}`;
+
+        if (!this.scope || this.scope.parent !== blackboard || this.scopeKey !== scopeKey) {
+            this.scope = blackboard.createScope({ ports: Blackboard.parsePorts(ports), isolated });
+            this.scope.fromJSON(instance.initialValues);
+            this.scopeKey = scopeKey;
+        }
+
+        return this.scope;
+    }
+
+    /**
+     * Creates fresh node instances for a tree document
+     * @throws Error if the document uses node types that are not registered
+     */
+    private static instantiate(document: TreeDocument): SubTreeInstance {
+        const nodeData: any[] = document.data?.tree?.nodes || [];
+        const unknownTypes = Array.from(new Set(
+            nodeData.map(data => data?.type).filter(type => !NodeRegistry.has(type))
+        ));
+        if (unknownTypes.length > 0) {
+            const types = unknownTypes.map(type => `"${type}"`).join(', ');
+            throw new Error(`Unknown node type${unknownTypes.length > 1 ? 's' : ''} ${types}`);
+        }
+
+        const tree = new BehaviorTree();
+        tree.documentId = document.id;
+        tree.fromJSON(document.data, (type: string) => NodeRegistry.create(type)!);
+
+        const nodes = tree.getAllDeserializedNodes();
+        const startNodes = nodes
+            .filter(node => node.type === 'start')
+            .sort((a, b) => a.position.x - b.position.x);
+
+        return {
+            documentId: document.id,
+            revision: document.revision,
+            entry: tree.root || startNodes[0] || null,
+            nodes,
+            initialValues: tree.blackboard.toJSON()
+        };
+    }
+}
@@ -0,0 +1,203 @@
+import { BehaviorTree, BehaviorTreeOptions, TreeExecutionState } from '../core/BehaviorTree.js';
+import { Blackboard } from '../core/Blackboard.js';
+import { NodeRegistry } from '../core/NodeRegistry.js';
+import { NodeStatus } from '../core/NodeStatus.js';
+import { TreeNode } from '../core/TreeNode.js';
+import { registerDefaultNodes } from '../core/DefaultNodes.js';
+import { CustomActionNode } from '../nodes/leaves/CustomActionNode.js';
+import { CustomNodeDefinition } from '../utils/CustomNodeCatalog.js';
+import { TreeLibrary } from '../utils/TreeLibrary.js';
+
+/**
+ * Options for creating a headless runtime
+ */
+export interface HeadlessRuntimeOptions extends BehaviorTreeOptions {
+    tickRate?: number; // ticks per second for start()
+}
+
+/**
+ * HeadlessRuntime: Runs trees exported by the editor without any DOM dependency.
+ *
+ * Loads v1.2 tree JSON through BehaviorTree.fromJSON and the NodeRegistry,
+ * registers any custom nodes embedded in the file, and drives execution with
+ * an injectable clock and scheduler (e.g. a ManualScheduler in a fixed-step
+ * server simulation).
+ *
+ * Usage:
+ * ```typescript
+ * const runtime = HeadlessRuntime.fromJSON(treeJson);
+ * runtime.onTick(status => console.log('tick', status));
+ * await runtime.tick();
+ * ```
+ */
+export class HeadlessRuntime {
+    public readonly tree: BehaviorTree;
+
+    // All nodes loaded from the last load() call (including disconnected ones)
+    private nodes: TreeNode[] = [];
+
+    constructor(options: HeadlessRuntimeOptions = {}) {
+        HeadlessRuntime.ensureDefaultNodes();
+
+        this.tree = new BehaviorTree(options);
+        if (options.tickRate !== undefined) {
+            this.tree.setTickRate(options.tickRate);
+        }
+    }
+
+    /**
+     * Creates a runtime and loads a tree in one step
+     */
+    public static fromJSON(data: any, options: HeadlessRuntimeOptions = {}): HeadlessRuntime {
+        const runtime = new HeadlessRuntime(options);
+        runtime.load(data);
+        return runtime;
+    }
+
+    /**
+     * Loads a tree from exported JSON (object or string)
+     */
+    public load(data: any): void {
+        if (typeof data === 'string') {
+            data = JSON.parse(data);
+        }
+
+        if (data && Array.isArray(data.customNodes)) {
+            HeadlessRuntime.registerCustomNodes(data.customNodes);
+        }
+
+        // Trees referenced by SubTree nodes
+        if (data && Array.isArray(data.subtrees)) {
+            TreeLibrary.importDocuments(data.subtrees);
+        }
+
+        this.tree.fromJSON(data, (type: string) => NodeRegistry.create(type)!);
+
+        // Start nodes are found through the full node list, not just the root hierarchy
+        this.nodes = this.tree.getAllDeserializedNodes();
+        this.tree.setAllNodes(this.nodes);
+    }
+
+    /**
+     * Executes a single tick
+     */
+    public tick(): Promise<NodeStatus> {
+        return this.tree.tick();
+    }
+
+    /**
+     * Starts continuous execution using the injected scheduler
+     */
+    public start(): void {
+        this.tree.start();
+    }
+
+    /**
+     * Pauses continuous execution
+     */
+    public pause(): void {
+        this.tree.pause();
+    }
+
+    /**
+     * Stops execution and resets the tree and blackboard
+     */
+    public stop(): void {
+        this.tree.stop();
+    }
+
+    /**
+     * Registers a callback for tick events
+     */
+    public onTick(callback: (status: NodeStatus) => void): void {
+        this.tree.onTick(callback);
+    }
+
+    /**
+     * Registers a callback for state change events
+     */
+    public onStateChange(callback: (state: TreeExecutionState) => void): void {
+        this.tree.onStateChange(callback);
+    }
+
+    /**
+     * Gets the shared blackboard
+     */
+    public get blackboard(): Blackboard {
+        return this.tree.blackboard;
+    }
+
+    /**
+     * Gets all loaded nodes
+     */
+    public getNodes(): TreeNode[] {
+        return this.nodes;
+    }
+
+    /**
+     * Finds a loaded node by ID, falling back to its label
+     */
+    public findNode(idOrLabel: string): TreeNode | null {
+        return this.nodes.find(node => node.id === idOrLabel)
+            || this.nodes.find(node => node.label === idOrLabel)
+            || null;
+    }
+
+    /**
+     * Gets the current status of every loaded node, keyed by node ID
+     */
+    public getNodeStatuses(): Record<string, NodeStatus> {
+        const statuses: Record<string, NodeStatus> = {};
+        this.nodes.forEach(node => {
+            statuses[node.id] = node.status;
+        });
+        return statuses;
+    }
+
+    /**
+     * Cleanup (call this when disposing the runtime)
+     */
+    public dispose(): void {
+        this.tree.dispose();
+        this.nodes = [];
+    }
+
+    /**
+     * Registers the built-in node types if nothing has registered them yet
+     */
+    private static ensureDefaultNodes(): void {
+        if (!NodeRegistry.has('start')) {
+            registerDefaultNodes();
+        }
+    }
+
+    /**
+     * Registers custom node definitions embedded in an exported tree
+     */
+    private static registerCustomNodes(definitions: CustomNodeDefinition[]): void {
+        for (const definition of definitions) {
+            if (!definition || !definition.type) continue;
+
+            NodeRegistry.register({
+                type: definition.type,
+                category: definition.category,
+                label: definition.label,
+                description: definition.description || 'Custom user-defined node',
+                icon: definition.icon,
+                factory: () => {
+                    const node = new CustomActionNode(
+                        definition.type,
+                        definition.label,
+                        definition.code,
+                        definition.icon
+                    );
+                    node.libraryType = definition.type;
+                    node.libraryVersion = definition.version;
+                    node.isModified = false;
+                    return node;
+                },
+                tags: definition.tags || ['custom', String(definition.label).toLowerCase()]
+            });
+        }
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Headless runtime entry point.
+ *
+ * Everything exported here is free of DOM dependencies and can be imported
+ * from Node.js (game servers, CLIs, simulations) as well as the browser.
+ */
+
+export { HeadlessRuntime } from './HeadlessRuntime.js';
+export { BehaviorTree } from '../core/BehaviorTree.js';
+export { Blackboard } from '../core/Blackboard.js';
+export { BlackboardSchema } from '../core/BlackboardSchema.js';
+export { NodeStatus } from '../core/NodeStatus.js';
+export { TreeNode } from '../core/TreeNode.js';
+export { NodeRegistry } from '../core/NodeRegistry.js';
+export { NodeExecutor } from '../core/NodeExecutor.js';
+export { registerDefaultNodes } from '../core/DefaultNodes.js';
+export { TreeLibrary } from '../utils/TreeLibrary.js';
+export { TraceRecorder } from '../core/TraceRecorder.js';
+export { TreeDebugger } from '../core/TreeDebugger.js';
+export { TickStepper } from '../core/TickStepper.js';
+export { NodeProfiler } from '../core/NodeProfiler.js';
+export { SystemClock, IntervalScheduler, ManualScheduler } from '../core/Scheduler.js';
+
+// Type-only exports (kept separate so transpile-only tooling can drop them)
+export type { HeadlessRuntimeOptions } from './HeadlessRuntime.js';
+export type { BehaviorTreeOptions, TreeExecutionState } from '../core/BehaviorTree.js';
+export type { BlackboardChange, BlackboardChangeHandler, BlackboardScopeOptions } from '../core/Blackboard.js';
+export type { BlackboardKeyDefinition, BlackboardValueType } from '../core/BlackboardSchema.js';
+export type { TreeDocument } from '../utils/TreeLibrary.js';
+export type { TraceFrame, StatusTransition } from '../core/TraceRecorder.js';
+export type { Breakpoint, BreakpointHit, BreakpointTrigger } from '../core/TreeDebugger.js';
+export type { NodeProfile, ProfileSortKey } from '../core/NodeProfiler.js';
+export type { NodeCategory, TickListener, ChildTick, TickTraversal } from '../core/TreeNode.js';
+export type { NodeRegistration } from '../core/NodeRegistry.js';
+export type { Clock, TickScheduler } from '../core/Scheduler.js';
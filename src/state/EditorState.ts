@@ -89,7 +89,7 @@ export class EditorState {
      * Which panel is currently open (settings, code editor, or none)
      * @mutation
      */
-    public isPanelOpen: 'settings' | 'code' | null = null;
+    public isPanelOpen: 'settings' | 'code' | 'blackboard' | 'profiler' | null = null;
 
     /**
      * The node currently being edited in Monaco editor
@@ -138,6 +138,7 @@ export class EditorState {
      * - The nodes array
      * - The behavior tree (if it's the root)
      * - Its parent's children list
+     * - Whatever it subscribed to (see TreeNode.unlink)
      *
      * @mutation Removes node from all internal structures
      * @param node - The node to remove
@@ -160,6 +161,7 @@ export class EditorState {
 
         // Sync with BehaviorTree
         this.behaviorTree.setAllNodes(this.nodes);
+        node.unlink();
     }
 
     /**
@@ -337,6 +339,7 @@ export class EditorState {
      * @mutation Clears all editor state
      */
     public clearAll(): void {
+        this.nodes.forEach(node => node.unlink());
         this.nodes = [];
         this.behaviorTree.setRoot(null);
         this.behaviorTree.setAllNodes(this.nodes); // Sync with BehaviorTree
@@ -363,6 +366,8 @@ export class EditorState {
      * @param data - The JSON data containing the tree structure
      */
     public importTree(data: any): void {
+        this.nodes.forEach(node => node.unlink());
+
         // Import the tree (this deserializes ALL nodes from JSON, including disconnected ones)
         this.behaviorTree.fromJSON(data, (type: string) => {
             const registration = NodeRegistry.get(type);
@@ -0,0 +1,342 @@
+import { BehaviorTree } from '../core/BehaviorTree.js';
+import { TreeNode } from '../core/TreeNode.js';
+import { OperationHistory } from '../core/Operation.js';
+import { EditorState } from './EditorState.js';
+
+/**
+ * A tree open in the workspace (one editor tab)
+ */
+export interface WorkspaceDocument {
+    id: string;
+    name: string;
+    behaviorTree: BehaviorTree;
+    nodes: TreeNode[];
+    operationHistory: OperationHistory;
+}
+
+/**
+ * Workspace: The set of tree documents open in the editor
+ *
+ * The active document's tree, nodes and operation history are swapped into
+ * EditorState, so the canvas, operations and panels keep working against
+ * `editorState` without knowing about documents.
+ *
+ * **Per-document state:**
+ * - Each document has its own BehaviorTree (and blackboard)
+ * - Each document has its own OperationHistory (undo/redo stays per tab)
+ * - A document is dirty when its history moved away from its last save point
+ *
+ * **Usage Pattern:**
+ * ```typescript
+ * const workspace = new Workspace(editorState);
+ * const doc = workspace.createDocument('Guard', treeJson); // opens and activates
+ * workspace.activate(workspace.getDocuments()[0]);         // switch tabs
+ * FileIO.saveToLocalStorage(workspace.toJSON(), FileIO.WORKSPACE_KEY);
+ * workspace.markSaved();
+ * ```
+ */
+export class Workspace {
+    private editorState: EditorState;
+    private documents: WorkspaceDocument[] = [];
+    private activeDocument: WorkspaceDocument;
+
+    /**
+     * Called when documents are opened, closed, renamed, switched or change dirty state
+     */
+    public onChange?: () => void;
+
+    /**
+     * Called after another document became the active one
+     */
+    public onActivate?: (document: WorkspaceDocument) => void;
+
+    constructor(editorState: EditorState, name: string = 'Untitled') {
+        this.editorState = editorState;
+
+        // Adopt the tree the editor was created with as the first document
+        this.activeDocument = this.track({
+            id: this.generateId(),
+            name,
+            behaviorTree: editorState.behaviorTree,
+            nodes: editorState.nodes,
+            operationHistory: editorState.operationHistory
+        });
+        this.documents.push(this.activeDocument);
+    }
+
+    // ===========================
+    // DOCUMENT QUERIES (READ-ONLY)
+    // ===========================
+
+    /**
+     * Gets all documents in tab order
+     */
+    public getDocuments(): WorkspaceDocument[] {
+        this.syncActiveDocument();
+        return [...this.documents];
+    }
+
+    /**
+     * Gets the document currently shown in the editor
+     */
+    public getActiveDocument(): WorkspaceDocument {
+        this.syncActiveDocument();
+        return this.activeDocument;
+    }
+
+    /**
+     * Finds a document by id
+     */
+    public getDocument(id: string): WorkspaceDocument | null {
+        return this.getDocuments().find(document => document.id === id) || null;
+    }
+
+    /**
+     * Checks if a document has changes that were not saved
+     */
+    public isDirty(document: WorkspaceDocument): boolean {
+        return document.operationHistory.isDirty();
+    }
+
+    /**
+     * Checks if any document has changes that were not saved
+     */
+    public hasUnsavedChanges(): boolean {
+        return this.documents.some(document => this.isDirty(document));
+    }
+
+    // ===========================
+    // DOCUMENT MANAGEMENT
+    // ===========================
+
+    /**
+     * Opens a new document and makes it the active one
+     * @param name - Tab name (made unique within the workspace)
+     * @param data - Optional tree JSON to load into the document
+     */
+    public createDocument(name: string = 'Untitled', data?: any): WorkspaceDocument {
+        const document = this.track({
+            id: this.generateId(),
+            name: this.getUniqueName(name),
+            behaviorTree: new BehaviorTree(),
+            nodes: [],
+            operationHistory: new OperationHistory()
+        });
+
+        const index = this.documents.indexOf(this.activeDocument);
+        this.documents.splice(index + 1, 0, document);
+        this.activate(document);
+
+        if (data) {
+            try {
+                this.editorState.importTree(data);
+            } catch (error) {
+                this.closeDocument(document);
+                throw error;
+            }
+        }
+
+        return document;
+    }
+
+    /**
+     * Shows a document in the editor
+     * A running tree is paused when its tab is left.
+     */
+    public activate(document: WorkspaceDocument): void {
+        if (document === this.activeDocument) return;
+        if (!this.documents.includes(document)) {
+            throw new Error(`Document "${document.name}" is not part of the workspace`);
+        }
+
+        this.syncActiveDocument();
+        if (this.activeDocument.behaviorTree.state === 'running') {
+            this.activeDocument.behaviorTree.pause();
+        }
+
+        this.activeDocument = document;
+        this.editorState.behaviorTree = document.behaviorTree;
+        this.editorState.nodes = document.nodes;
+        this.editorState.operationHistory = document.operationHistory;
+        this.editorState.tempConnection = null;
+        this.editorState.editingNode = null;
+
+        if (this.onActivate) {
+            this.onActivate(document);
+        }
+        this.notifyChange();
+    }
+
+    /**
+     * Closes a document (a new empty document is opened when the last one closes)
+     */
+    public closeDocument(document: WorkspaceDocument): void {
+        const index = this.documents.indexOf(document);
+        if (index === -1) return;
+
+        if (document === this.activeDocument) {
+            const neighbor = this.documents[index + 1] || this.documents[index - 1];
+            if (neighbor) {
+                this.activate(neighbor);
+            } else {
+                this.createDocument();
+            }
+        }
+
+        document.behaviorTree.dispose();
+        document.operationHistory.onChange = undefined;
+        this.documents.splice(this.documents.indexOf(document), 1);
+        this.notifyChange();
+    }
+
+    /**
+     * Renames a document (made unique within the workspace)
+     */
+    public renameDocument(document: WorkspaceDocument, name: string): void {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed === document.name) return;
+
+        document.name = this.getUniqueName(trimmed, document);
+        document.behaviorTree.documentId = document.name;
+        this.notifyChange();
+    }
+
+    /**
+     * Marks all documents as saved
+     */
+    public markSaved(): void {
+        this.documents.forEach(document => document.operationHistory.markSaved());
+    }
+
+    // ===========================
+    // SERIALIZATION
+    // ===========================
+
+    /**
+     * Serializes one document as tree JSON (same format as a single-tree export)
+     * Includes ALL nodes of the document, including disconnected ones
+     */
+    public serializeDocument(document: WorkspaceDocument): any {
+        this.syncActiveDocument();
+        const data = document.behaviorTree.toJSON();
+
+        return {
+            ...data,
+            metadata: {
+                ...data.metadata,
+                name: document.name,
+                nodeCount: document.nodes.length
+            },
+            tree: {
+                ...data.tree,
+                nodes: document.nodes.map(node => node.toJSON())
+            }
+        };
+    }
+
+    /**
+     * Serializes all documents
+     */
+    public toJSON(): { activeDocumentId: string; documents: Array<{ id: string; name: string; data: any }> } {
+        return {
+            activeDocumentId: this.activeDocument.id,
+            documents: this.getDocuments().map(document => ({
+                id: document.id,
+                name: document.name,
+                data: this.serializeDocument(document)
+            }))
+        };
+    }
+
+    /**
+     * Replaces all documents with saved ones (see toJSON)
+     * Documents that fail to load are skipped; the result is marked as saved.
+     */
+    public load(data: { activeDocumentId?: string; documents: Array<{ id?: string; name?: string; data: any }> }): void {
+        const previous = [...this.documents];
+        const loaded: Array<{ document: WorkspaceDocument; id?: string; name?: string }> = [];
+
+        data.documents.forEach(entry => {
+            try {
+                const document = this.createDocument(entry.name || 'Untitled', entry.data);
+                loaded.push({ document, id: entry.id, name: entry.name });
+            } catch (error) {
+                console.warn(`Skipping workspace document "${entry.name}":`, error);
+            }
+        });
+
+        if (loaded.length === 0) {
+            throw new Error('Workspace contains no valid documents');
+        }
+
+        previous.forEach(document => this.closeDocument(document));
+
+        // Ids and names could clash with the closed documents, so restore them now
+        loaded.forEach(({ document, id, name }) => {
+            if (id && !this.documents.some(other => other !== document && other.id === id)) {
+                document.id = id;
+            }
+            if (name) {
+                document.name = this.getUniqueName(name, document);
+                document.behaviorTree.documentId = document.name;
+            }
+        });
+
+        const active = loaded.find(({ document }) => document.id === data.activeDocumentId) || loaded[0];
+        this.activate(active.document);
+        this.markSaved();
+        this.notifyChange();
+    }
+
+    /**
+     * Checks if JSON data is a saved workspace rather than a single tree
+     */
+    public static isWorkspaceData(data: any): boolean {
+        return !!data && typeof data === 'object' && Array.isArray(data.workspace?.documents);
+    }
+
+    // ===========================
+    // HELPERS
+    // ===========================
+
+    /**
+     * Copies the editor's node array back into the active document
+     * (EditorState replaces the array on import and clear)
+     */
+    private syncActiveDocument(): void {
+        this.activeDocument.nodes = this.editorState.nodes;
+    }
+
+    /**
+     * Forwards history changes of a document, so tabs can show its dirty state
+     */
+    private track(document: WorkspaceDocument): WorkspaceDocument {
+        document.operationHistory.onChange = () => this.notifyChange();
+        document.behaviorTree.documentId = document.name;
+        return document;
+    }
+
+    /**
+     * Appends " 2", " 3", ... to a name already used by another document
+     */
+    private getUniqueName(name: string, except?: WorkspaceDocument): string {
+        const taken = (candidate: string) =>
+            this.documents.some(document => document !== except && document.name === candidate);
+
+        let unique = name;
+        for (let i = 2; taken(unique); i++) {
+            unique = `${name} ${i}`;
+        }
+        return unique;
+    }
+
+    private generateId(): string {
+        return `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    }
+
+    private notifyChange(): void {
+        if (this.onChange) {
+            this.onChange();
+        }
+    }
+}
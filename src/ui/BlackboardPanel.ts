@@ -0,0 +1,280 @@
+import { EditorState } from '../state/EditorState.js';
+import { OperationHistory } from '../core/Operation.js';
+import { Blackboard } from '../core/Blackboard.js';
+import { BlackboardSchema, BlackboardKeyDefinition, BlackboardValueType } from '../core/BlackboardSchema.js';
+import {
+    DefineBlackboardKeyOperation,
+    RemoveBlackboardKeyOperation,
+    SetBlackboardStrictOperation
+} from '../actions/EditorActions.js';
+import { Toast } from './Toast.js';
+
+/**
+ * BlackboardPanel: Sidebar for declaring blackboard keys (name, type, default, description)
+ */
+export class BlackboardPanel {
+    private editorState: EditorState;
+    private panel: HTMLElement;
+    private btnClose: HTMLButtonElement;
+    private btnAddKey: HTMLButtonElement;
+    private strictCheckbox: HTMLInputElement;
+    private schemaList: HTMLElement;
+
+    constructor(editorState: EditorState) {
+        this.editorState = editorState;
+
+        // Get DOM elements
+        this.panel = document.getElementById('blackboard-panel')!;
+        this.btnClose = document.getElementById('btn-close-blackboard') as HTMLButtonElement;
+        this.btnAddKey = document.getElementById('btn-add-blackboard-key') as HTMLButtonElement;
+        this.strictCheckbox = document.getElementById('blackboard-strict') as HTMLInputElement;
+        this.schemaList = document.getElementById('blackboard-schema-list')!;
+
+        this.setupEventListeners();
+        this.render();
+    }
+
+    /**
+     * Operation history of the document that is currently open
+     */
+    private get commandHistory(): OperationHistory {
+        return this.editorState.operationHistory;
+    }
+
+    /**
+     * The blackboard being edited
+     */
+    private get blackboard(): Blackboard {
+        return this.editorState.behaviorTree.blackboard;
+    }
+
+    /**
+     * Sets up event listeners
+     */
+    private setupEventListeners(): void {
+        this.btnClose.addEventListener('click', () => {
+            this.hide();
+        });
+
+        this.btnAddKey.addEventListener('click', () => {
+            this.addKey();
+        });
+
+        this.strictCheckbox.addEventListener('change', () => {
+            if (this.blackboard.strict !== this.strictCheckbox.checked) {
+                const operation = new SetBlackboardStrictOperation(this.blackboard, this.strictCheckbox.checked);
+                this.commandHistory.execute(operation);
+            }
+        });
+    }
+
+    /**
+     * Declares a new key with a unique placeholder name
+     */
+    private addKey(): void {
+        const schema = this.blackboard.getSchema();
+        let key = 'newKey';
+        for (let i = 1; schema.has(key); i++) {
+            key = `newKey${i}`;
+        }
+
+        this.execute(new DefineBlackboardKeyOperation(this.blackboard, {
+            key,
+            type: 'number',
+            defaultValue: BlackboardSchema.getDefaultValue('number'),
+            description: ''
+        }));
+    }
+
+    /**
+     * Renders the list of declared keys
+     */
+    public render(): void {
+        this.strictCheckbox.checked = this.blackboard.strict;
+
+        const definitions = this.blackboard.getSchema().getDefinitions();
+        if (definitions.length === 0) {
+            this.schemaList.innerHTML = '<em class="blackboard-schema-empty">No keys declared</em>';
+            return;
+        }
+
+        this.schemaList.innerHTML = definitions.map((definition, index) => `
+            <div class="blackboard-schema-item" data-index="${index}">
+                <div class="blackboard-schema-row">
+                    <input type="text" class="blackboard-schema-key" value="${this.escape(definition.key)}" title="Key name" />
+                    <select class="blackboard-schema-type" title="Value type">
+                        ${BlackboardSchema.TYPES.map(type => `
+                            <option value="${type}" ${type === definition.type ? 'selected' : ''}>${type}</option>
+                        `).join('')}
+                    </select>
+                    <button class="btn-close blackboard-schema-remove" title="Remove key">
+                        <i class="fas fa-trash"></i>
+                    </button>
+                </div>
+                <div class="blackboard-schema-row">
+                    ${this.renderDefaultInput(definition)}
+                </div>
+                <input type="text" class="blackboard-schema-description" value="${this.escape(definition.description || '')}" placeholder="Description" />
+            </div>
+        `).join('');
+
+        this.attachItemListeners(definitions);
+    }
+
+    /**
+     * Renders the input for a key's default value
+     */
+    private renderDefaultInput(definition: BlackboardKeyDefinition): string {
+        switch (definition.type) {
+            case 'boolean':
+                return `
+                    <label class="settings-checkbox-item">
+                        <input type="checkbox" class="blackboard-schema-default" ${definition.defaultValue ? 'checked' : ''} />
+                        <span>Default</span>
+                    </label>
+                `;
+
+            case 'number':
+                return `<input type="number" class="blackboard-schema-default" value="${definition.defaultValue}" title="Default value" />`;
+
+            case 'vector':
+            case 'object':
+                return `<input type="text" class="blackboard-schema-default" value="${this.escape(JSON.stringify(definition.defaultValue))}" title="Default value (JSON)" />`;
+
+            case 'entity-ref':
+                return `<input type="text" class="blackboard-schema-default" value="${this.escape(definition.defaultValue || '')}" placeholder="Entity ID (empty = none)" title="Default value" />`;
+
+            default:
+                return `<input type="text" class="blackboard-schema-default" value="${this.escape(definition.defaultValue)}" title="Default value" />`;
+        }
+    }
+
+    /**
+     * Attaches change handlers to each rendered key
+     */
+    private attachItemListeners(definitions: BlackboardKeyDefinition[]): void {
+        const items = this.schemaList.querySelectorAll<HTMLElement>('.blackboard-schema-item');
+
+        items.forEach(item => {
+            const definition = definitions[Number(item.dataset.index)];
+            const keyInput = item.querySelector('.blackboard-schema-key') as HTMLInputElement;
+            const typeSelect = item.querySelector('.blackboard-schema-type') as HTMLSelectElement;
+            const defaultInput = item.querySelector('.blackboard-schema-default') as HTMLInputElement;
+            const descriptionInput = item.querySelector('.blackboard-schema-description') as HTMLInputElement;
+            const removeButton = item.querySelector('.blackboard-schema-remove') as HTMLButtonElement;
+
+            keyInput.addEventListener('change', () => {
+                const key = keyInput.value.trim();
+                if (key !== definition.key && this.blackboard.getSchema().has(key)) {
+                    Toast.show(`Key "${key}" is already declared`, 2000);
+                    keyInput.value = definition.key;
+                    return;
+                }
+                this.update(definition, { ...definition, key });
+            });
+
+            typeSelect.addEventListener('change', () => {
+                // Changing the type resets the default to one that fits
+                const type = typeSelect.value as BlackboardValueType;
+                this.update(definition, { ...definition, type, defaultValue: BlackboardSchema.getDefaultValue(type) });
+            });
+
+            defaultInput.addEventListener('change', () => {
+                try {
+                    const defaultValue = this.parseDefaultValue(definition.type, defaultInput);
+                    this.update(definition, { ...definition, defaultValue });
+                } catch {
+                    Toast.show(`Invalid default for "${definition.key}"`, 2000);
+                    this.render();
+                }
+            });
+
+            descriptionInput.addEventListener('change', () => {
+                this.update(definition, { ...definition, description: descriptionInput.value });
+            });
+
+            removeButton.addEventListener('click', () => {
+                this.execute(new RemoveBlackboardKeyOperation(this.blackboard, definition.key));
+            });
+        });
+    }
+
+    /**
+     * Replaces a declaration through an undoable operation
+     */
+    private update(previous: BlackboardKeyDefinition, updated: BlackboardKeyDefinition): void {
+        this.execute(new DefineBlackboardKeyOperation(this.blackboard, updated, previous.key));
+    }
+
+    /**
+     * Executes an operation, reporting schema errors instead of throwing
+     */
+    private execute(operation: DefineBlackboardKeyOperation | RemoveBlackboardKeyOperation): void {
+        try {
+            this.commandHistory.execute(operation);
+        } catch (error) {
+            Toast.show(error instanceof Error ? error.message : String(error), 2500);
+        }
+        this.render();
+    }
+
+    /**
+     * Parses the default value input for a type
+     * @throws Error if the input cannot be parsed
+     */
+    private parseDefaultValue(type: BlackboardValueType, input: HTMLInputElement): any {
+        switch (type) {
+            case 'boolean':
+                return input.checked;
+            case 'number':
+                return parseFloat(input.value);
+            case 'vector':
+            case 'object':
+                return JSON.parse(input.value);
+            case 'entity-ref':
+                return input.value.trim() === '' ? null : input.value.trim();
+            default:
+                return input.value;
+        }
+    }
+
+    /**
+     * Escapes a value for use inside an HTML attribute
+     */
+    private escape(value: any): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;');
+    }
+
+    /**
+     * Shows the panel
+     */
+    public show(): void {
+        this.panel.classList.remove('hidden');
+        this.editorState.isPanelOpen = 'blackboard';
+        this.render();
+    }
+
+    /**
+     * Hides the panel
+     */
+    public hide(): void {
+        this.panel.classList.add('hidden');
+        if (this.editorState.isPanelOpen === 'blackboard') {
+            this.editorState.isPanelOpen = null;
+        }
+    }
+
+    /**
+     * Toggles the panel
+     */
+    public toggle(): void {
+        if (this.panel.classList.contains('hidden')) {
+            this.show();
+        } else {
+            this.hide();
+        }
+    }
+}
@@ -4,15 +4,25 @@ import { UpdateNodeCodeOperation } from '../actions/EditorActions.js';
 import { OperationHistory } from '../core/Operation.js';
 import { NodeExecutor } from '../core/NodeExecutor.js';
 import { CustomNodeCatalog } from '../utils/CustomNodeCatalog.js';
+import { NodeTypings } from '../core/NodeTypings.js';
 
 declare const monaco: any;
 
+/**
+ * Languages node code can be authored in
+ */
+type CodeLanguage = 'javascript' | 'typescript';
+
 /**
  * CodeEditorPanel: Manages the Monaco code editor panel
+ *
+ * Code can be authored in JavaScript or TypeScript. TypeScript is type checked
+ * against declarations generated for the node (see NodeTypings), and is
+ * transpiled by Monaco's TypeScript worker when saved: the node keeps the
+ * source in sourceCode and the JavaScript that NodeExecutor runs in code.
  */
 export class CodeEditorPanel {
     private editorState: EditorState;
-    private commandHistory: OperationHistory;
     private nodeExecutor: typeof NodeExecutor;
     private customNodeCatalog: typeof CustomNodeCatalog;
     private panel: HTMLElement;
@@ -27,9 +37,12 @@ export class CodeEditorPanel {
     private nodeLabel: HTMLElement;
     private deviationIndicator: HTMLElement | null = null;
     private syncStatusIndicator: HTMLElement | null = null;
+    private languageSelect: HTMLSelectElement | null = null;
     private resizeHandle: HTMLElement | null = null;
 
     private monacoEditor: any = null;
+    // Declarations of the open node's variables (one per language service)
+    private typingsLibs: any[] = [];
     private currentNode: TreeNode | null = null;
     private defaultCode: string = '';
 
@@ -42,12 +55,10 @@ export class CodeEditorPanel {
 
     constructor(
         editorState: EditorState,
-        commandHistory: OperationHistory,
         nodeExecutor: typeof NodeExecutor,
         customNodeCatalog: typeof CustomNodeCatalog
     ) {
         this.editorState = editorState;
-        this.commandHistory = commandHistory;
         this.nodeExecutor = nodeExecutor;
         this.customNodeCatalog = customNodeCatalog;
 
@@ -68,11 +79,19 @@ export class CodeEditorPanel {
         this.setupResizeHandle();
         this.setupDeviationIndicator();
         this.setupSyncStatusIndicator();
+        this.setupLanguageSelect();
         this.setupHeaderButtons();
         this.setupEventListeners();
         this.initializeMonaco();
     }
 
+    /**
+     * Operation history of the document that is currently open
+     */
+    private get commandHistory(): OperationHistory {
+        return this.editorState.operationHistory;
+    }
+
     /**
      * Creates a button element
      */
@@ -154,6 +173,27 @@ export class CodeEditorPanel {
         editorToolbar.appendChild(this.syncStatusIndicator);
     }
 
+    /**
+     * Sets up the language switch (JavaScript / TypeScript)
+     */
+    private setupLanguageSelect(): void {
+        const editorToolbar = this.panel.querySelector('.editor-toolbar');
+        if (!editorToolbar) return;
+
+        this.languageSelect = document.createElement('select');
+        this.languageSelect.className = 'editor-language';
+        this.languageSelect.title = 'Language the node code is written in';
+        this.languageSelect.innerHTML = `
+            <option value="javascript">JavaScript</option>
+            <option value="typescript">TypeScript</option>
+        `;
+        editorToolbar.appendChild(this.languageSelect);
+
+        this.languageSelect.addEventListener('change', () => {
+            this.switchLanguage(this.languageSelect!.value as CodeLanguage);
+        });
+    }
+
     /**
      * Sets up the header buttons
      */
@@ -239,21 +279,25 @@ export class CodeEditorPanel {
             tabSize: 2
         });
 
-        // Provide type definitions
-        monaco.languages.typescript.javascriptDefaults.addExtraLib(`
-            declare const blackboard: {
-                get<T>(key: string): T | undefined;
-                set<T>(key: string, value: T): void;
-                has(key: string): boolean;
-            };
-
-            declare const NodeStatus: {
-                SUCCESS: 'success';
-                FAILURE: 'failure';
-                RUNNING: 'running';
-                IDLE: 'idle';
-            };
-        `, 'bt-types.d.ts');
+        // Node code runs in a sandbox without DOM globals, so only the ES library
+        // and the declarations of NodeTypings are available
+        const compilerOptions = {
+            target: monaco.languages.typescript.ScriptTarget.ES2020,
+            lib: ['es2020'],
+            // Keeps `export function onUpdate` as is (NodeExecutor reads the exports)
+            module: monaco.languages.typescript.ModuleKind.ESNext,
+            allowNonTsExtensions: true,
+            noImplicitAny: false
+        };
+        monaco.languages.typescript.javascriptDefaults.setCompilerOptions(compilerOptions);
+        monaco.languages.typescript.typescriptDefaults.setCompilerOptions(compilerOptions);
+
+        // Node code is a function body: top-level return and await are allowed
+        monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
+            noSemanticValidation: false,
+            noSyntaxValidation: false,
+            diagnosticCodesToIgnore: [1108, 1375, 1378]
+        });
 
         // Add Ctrl+S handler
         this.monacoEditor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
@@ -289,8 +333,11 @@ export class CodeEditorPanel {
         // Store the default code for this node type
         this.defaultCode = this.getDefaultCodeForNode(node);
 
+        const language: CodeLanguage = node.sourceCode !== undefined ? 'typescript' : 'javascript';
+        this.updateTypings(node);
+        this.setLanguage(language);
         if (this.monacoEditor) {
-            this.monacoEditor.setValue(node.code || '');
+            this.monacoEditor.setValue(language === 'typescript' ? node.sourceCode : node.code || '');
         }
 
         this.updateDeviationIndicator();
@@ -299,6 +346,92 @@ export class CodeEditorPanel {
         this.show();
     }
 
+    /**
+     * Declares the variables of the node's code for completions and type checking
+     */
+    private updateTypings(node: TreeNode): void {
+        if (typeof monaco === 'undefined') return;
+
+        this.typingsLibs.forEach(lib => lib.dispose());
+
+        const typings = NodeTypings.generate(node.parameters, this.editorState.behaviorTree.blackboard.getSchema());
+        this.typingsLibs = [
+            monaco.languages.typescript.javascriptDefaults.addExtraLib(typings, 'bt-types.d.ts'),
+            monaco.languages.typescript.typescriptDefaults.addExtraLib(typings, 'bt-types.d.ts')
+        ];
+    }
+
+    /**
+     * Gets the language of the code in the editor
+     */
+    private getLanguage(): CodeLanguage {
+        return this.languageSelect && this.languageSelect.value === 'typescript' ? 'typescript' : 'javascript';
+    }
+
+    /**
+     * Sets the language of the editor (without converting its code)
+     */
+    private setLanguage(language: CodeLanguage): void {
+        if (this.languageSelect) {
+            this.languageSelect.value = language;
+        }
+        if (this.monacoEditor) {
+            monaco.editor.setModelLanguage(this.monacoEditor.getModel(), language);
+        }
+    }
+
+    /**
+     * Switches the language of the code in the editor. JavaScript is valid
+     * TypeScript, so it is kept as is; TypeScript is replaced by its transpiled
+     * JavaScript.
+     */
+    private async switchLanguage(language: CodeLanguage): Promise<void> {
+        if (!this.monacoEditor) return;
+
+        if (language === 'javascript') {
+            try {
+                const code = await this.transpile();
+                this.setLanguage(language);
+                this.monacoEditor.setValue(code);
+            } catch (error) {
+                this.setLanguage('typescript');
+                alert('Failed to convert to JavaScript: ' + (error as Error).message);
+            }
+            return;
+        }
+
+        this.setLanguage(language);
+    }
+
+    /**
+     * Transpiles the TypeScript in the editor to JavaScript (type errors do not
+     * prevent it; they are shown inline)
+     */
+    private async transpile(): Promise<string> {
+        const model = this.monacoEditor.getModel();
+        const getWorker = await monaco.languages.typescript.getTypeScriptWorker();
+        const worker = await getWorker(model.uri);
+        const output = await worker.getEmitOutput(model.uri.toString());
+
+        const file = output.outputFiles.find((outputFile: any) => outputFile.name.endsWith('.js'));
+        if (!file) {
+            throw new Error('TypeScript produced no output');
+        }
+        return file.text;
+    }
+
+    /**
+     * Gets the code to run from the editor: the JavaScript, and the TypeScript
+     * source it was transpiled from (if any)
+     */
+    private async getEditorCode(): Promise<{ code: string; sourceCode?: string }> {
+        const value = this.monacoEditor.getValue();
+        if (this.getLanguage() !== 'typescript') {
+            return { code: value };
+        }
+        return { code: await this.transpile(), sourceCode: value };
+    }
+
     /**
      * Converts hex color to rgba with specified alpha
      */
@@ -362,10 +495,22 @@ export class CodeEditorPanel {
     /**
      * Saves the code and triggers a full file save (Ctrl+S handler)
      */
-    private saveCodeAndFile(): void {
+    private async saveCodeAndFile(): Promise<void> {
         if (this.currentNode && this.monacoEditor) {
-            const newCode = this.monacoEditor.getValue();
-            const operation = new UpdateNodeCodeOperation(this.currentNode, newCode);
+            const node = this.currentNode;
+            let newCode: string;
+            let sourceCode: string | undefined;
+            try {
+                ({ code: newCode, sourceCode } = await this.getEditorCode());
+            } catch (error) {
+                alert('Failed to compile TypeScript: ' + (error as Error).message);
+                return;
+            }
+
+            // The panel may have switched to another node meanwhile
+            if (this.currentNode !== node) return;
+
+            const operation = new UpdateNodeCodeOperation(this.currentNode, newCode, sourceCode);
             this.commandHistory.execute(operation);
 
             // Mark node as modified ONLY if code differs from library definition
@@ -405,7 +550,7 @@ export class CodeEditorPanel {
     /**
      * Saves as a new custom node in the library
      */
-    private saveAsNewNode(): void {
+    private async saveAsNewNode(): Promise<void> {
         if (!this.currentNode || !this.monacoEditor) return;
 
         const nodeName = prompt('Enter a name for this custom node:', '');
@@ -413,9 +558,11 @@ export class CodeEditorPanel {
 
         const nodeDescription = prompt('Enter a description (optional):', '') || '';
 
-        const code = this.monacoEditor.getValue();
-
         try {
+            // The library stores the JavaScript that runs
+            const { code } = await this.getEditorCode();
+            if (!this.currentNode) return;
+
             const customNodeDef = {
                 type: `custom_${nodeName.toLowerCase().replace(/\s+/g, '_')}`,
                 label: nodeName,
@@ -463,7 +610,7 @@ export class CodeEditorPanel {
     /**
      * Overrides the existing library definition and syncs all instances
      */
-    private overrideExistingDefinition(): void {
+    private async overrideExistingDefinition(): Promise<void> {
         if (!this.currentNode || !this.monacoEditor) return;
 
         // Check if this node has a library type
@@ -485,9 +632,10 @@ export class CodeEditorPanel {
             return;
         }
 
-        const newCode = this.monacoEditor.getValue();
-
         try {
+            const { code: newCode } = await this.getEditorCode();
+            if (!this.currentNode || !this.currentNode.libraryType) return;
+
             // Update the library definition
             const updated = this.customNodeCatalog.updateCustomNode(this.currentNode.libraryType, {
                 code: newCode,
@@ -561,10 +709,12 @@ export class CodeEditorPanel {
 
         // Restore library code
         this.currentNode.code = libraryDef.code;
+        this.currentNode.sourceCode = undefined;
         this.currentNode.libraryVersion = libraryDef.version;
         this.currentNode.isModified = false;
 
         // Update editor
+        this.setLanguage('javascript');
         this.monacoEditor.setValue(libraryDef.code);
 
         // Update indicators and button visibility
@@ -621,10 +771,12 @@ export class CodeEditorPanel {
 
         // Update to latest version
         this.currentNode.code = libraryDef.code;
+        this.currentNode.sourceCode = undefined;
         this.currentNode.libraryVersion = libraryDef.version;
         this.currentNode.isModified = false;
 
         // Update editor
+        this.setLanguage('javascript');
         this.monacoEditor.setValue(libraryDef.code);
 
         // Update indicators and button visibility
@@ -696,7 +848,7 @@ export class CodeEditorPanel {
     /**
      * Saves the current node to the custom node catalog
      */
-    private saveToCatalog(): void {
+    private async saveToCatalog(): Promise<void> {
         if (!this.currentNode || !this.monacoEditor) return;
 
         const nodeName = prompt('Enter a name for this custom node:', this.currentNode.label);
@@ -704,9 +856,8 @@ export class CodeEditorPanel {
 
         const nodeDescription = prompt('Enter a description (optional):', '') || '';
 
-        const code = this.monacoEditor.getValue();
-
         try {
+            const { code } = await this.getEditorCode();
             const customNodeDef: any = {
                 type: `custom_${nodeName.toLowerCase().replace(/\s+/g, '_')}`,
                 label: nodeName,
@@ -1,14 +1,26 @@
 import { Vector2 } from '../utils/Vector2.js';
 import { NodeRegistry, NodeRegistration } from '../core/NodeRegistry.js';
 
+/**
+ * An entry of a node's context menu
+ */
+export interface ContextMenuAction {
+    label: string;
+    icon: string;
+    checked?: boolean;
+    onSelect: () => void;
+}
+
 /**
  * ContextMenu: Manages the right-click context menu with search
+ * (or a list of actions when a node is right-clicked)
  */
 export class ContextMenu {
     private menu: HTMLElement;
     private searchInput: HTMLInputElement;
     private menuContent: HTMLElement;
     private worldPosition: Vector2 | null = null;
+    private actions: ContextMenuAction[] = [];
     private boundDocumentClickHandler: () => void;
 
     /**
@@ -97,6 +109,11 @@ export class ContextMenu {
             const target = e.target as HTMLElement;
             const item = target.closest('.context-menu-item') as HTMLElement;
             if (item) {
+                const actionIndex = item.getAttribute('data-action-index');
+                if (actionIndex !== null) {
+                    this.actions[parseInt(actionIndex)]?.onSelect();
+                }
+
                 const nodeType = item.getAttribute('data-node-type');
                 if (nodeType && this.worldPosition && this.onNodeTypeSelect) {
                     this.onNodeTypeSelect(nodeType, this.worldPosition);
@@ -117,7 +134,8 @@ export class ContextMenu {
         const grouped = {
             composite: nodes.filter(n => n.category === 'composite'),
             decorator: nodes.filter(n => n.category === 'decorator'),
-            leaf: nodes.filter(n => n.category === 'leaf')
+            leaf: nodes.filter(n => n.category === 'leaf'),
+            condition: nodes.filter(n => n.category === 'condition')
         };
 
         // Build HTML
@@ -138,6 +156,11 @@ export class ContextMenu {
             html += grouped.leaf.map(n => this.createMenuItem(n)).join('');
         }
 
+        if (grouped.condition.length > 0) {
+            html += '<div class="context-menu-category">Conditions</div>';
+            html += grouped.condition.map(n => this.createMenuItem(n)).join('');
+        }
+
         if (html === '') {
             html = '<div class="context-menu-empty">No nodes found</div>';
         }
@@ -192,12 +215,36 @@ export class ContextMenu {
         }, 10);
     }
 
+    /**
+     * Shows a list of actions (e.g. for a right-clicked node) at a screen position
+     */
+    public showActions(screenX: number, screenY: number, actions: ContextMenuAction[]): void {
+        this.worldPosition = null;
+        this.actions = actions;
+
+        this.menu.classList.add('actions-only');
+        this.menuContent.innerHTML = actions.map((action, index) => `
+            <div class="context-menu-item" data-action-index="${index}">
+                <i class="fas ${action.checked ? 'fa-check' : action.icon}"></i>
+                <div class="context-menu-item-content">
+                    <div class="context-menu-item-label">${action.label}</div>
+                </div>
+            </div>
+        `).join('');
+
+        this.menu.style.left = `${screenX}px`;
+        this.menu.style.top = `${screenY}px`;
+        this.menu.classList.remove('hidden');
+    }
+
     /**
      * Hides the context menu
      */
     public hide(): void {
         this.menu.classList.add('hidden');
+        this.menu.classList.remove('actions-only');
         this.worldPosition = null;
+        this.actions = [];
         this.searchInput.value = '';
     }
 
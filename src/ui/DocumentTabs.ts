@@ -0,0 +1,96 @@
+import { Workspace, WorkspaceDocument } from '../state/Workspace.js';
+
+/**
+ * DocumentTabs: Tab strip above the canvas for switching between workspace documents
+ *
+ * - Click a tab to open its tree
+ * - Double-click a tab to rename it
+ * - Unsaved documents show a dot; closing them asks for confirmation
+ */
+export class DocumentTabs {
+    private workspace: Workspace;
+    private container: HTMLElement;
+
+    public onNewDocument?: () => void;
+
+    constructor(workspace: Workspace) {
+        this.workspace = workspace;
+
+        // Get DOM elements
+        this.container = document.getElementById('document-tabs')!;
+
+        this.render();
+    }
+
+    /**
+     * Rebuilds the tabs from the workspace
+     */
+    public render(): void {
+        const active = this.workspace.getActiveDocument();
+        this.container.innerHTML = '';
+
+        this.workspace.getDocuments().forEach(doc => {
+            const tab = document.createElement('div');
+            tab.className = 'document-tab';
+            tab.classList.toggle('active', doc === active);
+            tab.classList.toggle('dirty', this.workspace.isDirty(doc));
+            tab.title = this.workspace.isDirty(doc) ? `${doc.name} (unsaved changes)` : doc.name;
+
+            const name = document.createElement('span');
+            name.className = 'document-tab-name';
+            name.textContent = doc.name;
+            tab.appendChild(name);
+
+            const dirty = document.createElement('span');
+            dirty.className = 'document-tab-dirty';
+            dirty.innerHTML = '<i class="fas fa-circle"></i>';
+            tab.appendChild(dirty);
+
+            const close = document.createElement('button');
+            close.className = 'document-tab-close';
+            close.title = 'Close';
+            close.innerHTML = '<i class="fas fa-times"></i>';
+            tab.appendChild(close);
+
+            tab.addEventListener('click', () => {
+                this.workspace.activate(doc);
+            });
+
+            tab.addEventListener('dblclick', () => {
+                const newName = prompt('Rename tree:', doc.name);
+                if (newName !== null) {
+                    this.workspace.renameDocument(doc, newName);
+                }
+            });
+
+            close.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.close(doc);
+            });
+
+            this.container.appendChild(tab);
+        });
+
+        const add = document.createElement('button');
+        add.className = 'document-tab-add';
+        add.title = 'New tree';
+        add.innerHTML = '<i class="fas fa-plus"></i>';
+        add.addEventListener('click', () => {
+            if (this.onNewDocument) {
+                this.onNewDocument();
+            }
+        });
+        this.container.appendChild(add);
+    }
+
+    /**
+     * Closes a document, confirming first if it has unsaved changes
+     */
+    private close(doc: WorkspaceDocument): void {
+        if (this.workspace.isDirty(doc) && !confirm(`"${doc.name}" has unsaved changes. Close it anyway?`)) {
+            return;
+        }
+
+        this.workspace.closeDocument(doc);
+    }
+}
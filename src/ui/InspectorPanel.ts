@@ -1,7 +1,13 @@
 import { TreeNode } from '../core/TreeNode.js';
 import { ParameterDefinition } from '../core/NodeParameter.js';
 import { OperationHistory } from '../core/Operation.js';
-import { UpdateNodeLabelOperation, UpdateNodeParameterOperation } from '../actions/EditorActions.js';
+import { EditorState } from '../state/EditorState.js';
+import { UpdateNodeLabelOperation, UpdateNodeParameterOperation, UpdateNodeConfigOperation } from '../actions/EditorActions.js';
+import { TreeDebugger, BreakpointTrigger } from '../core/TreeDebugger.js';
+import { ConditionNode } from '../nodes/leaves/ConditionNode.js';
+import { BlackboardConditionNode } from '../nodes/decorators/BlackboardConditionNode.js';
+import { IsSetNode } from '../nodes/decorators/IsSetNode.js';
+import { WeightedRandomSelectorNode } from '../nodes/composites/WeightedRandomSelectorNode.js';
 
 /**
  * InspectorPanel: Unity-style inspector for viewing and editing node properties
@@ -9,14 +15,21 @@ import { UpdateNodeLabelOperation, UpdateNodeParameterOperation } from '../actio
 export class InspectorPanel {
     private panel: HTMLElement;
     private currentNode: TreeNode | null = null;
-    private commandHistory: OperationHistory;
+    private editorState: EditorState;
 
-    constructor(commandHistory: OperationHistory) {
-        this.commandHistory = commandHistory;
+    constructor(editorState: EditorState) {
+        this.editorState = editorState;
         // Panel will be created in the HTML
         this.panel = document.getElementById('inspector-panel')!;
     }
 
+    /**
+     * Operation history of the document that is currently open
+     */
+    private get commandHistory(): OperationHistory {
+        return this.editorState.operationHistory;
+    }
+
     /**
      * Shows the inspector for a specific node
      */
@@ -86,14 +99,20 @@ export class InspectorPanel {
             html += '<div class="inspector-section-title">Parameters</div>';
 
             paramDefs.forEach((def, name) => {
+                // Conditions only show the parameters of their mode
+                if (node instanceof ConditionNode && !node.usesParameter(name)) return;
                 html += this.renderParameter(name, def, node.parameters.get(name));
             });
 
+            if (this.isBlackboardCondition(node)) {
+                html += this.renderConditionPreview(node);
+            }
+
             html += '</div>';
         }
 
         // Add children count for composite/decorator nodes
-        if (node.category !== 'leaf') {
+        if (node.category === 'composite' || node.category === 'decorator') {
             html += `
                 <div class="inspector-section">
                     <div class="inspector-section-title">Children</div>
@@ -105,12 +124,130 @@ export class InspectorPanel {
             `;
         }
 
+        // Children of a Weighted Random Selector carry their weight
+        if (node.parent instanceof WeightedRandomSelectorNode) {
+            html += this.renderWeight(node, node.parent);
+        }
+
+        // Add breakpoint settings (and the blackboard when paused at this node)
+        html += this.renderDebugging(node);
+
         this.panel.innerHTML = html;
 
         // Attach event listeners
         this.attachEventListeners();
     }
 
+    /**
+     * Renders the breakpoint select and, if the tree is paused at this node,
+     * the blackboard as it was when the breakpoint fired
+     */
+    private renderDebugging(node: TreeNode): string {
+        const treeDebugger = this.editorState.behaviorTree.getDebugger();
+        if (!treeDebugger) return '';
+
+        const breakpoint = treeDebugger.getBreakpoint(node.id);
+        const options = TreeDebugger.TRIGGERS.map(({ trigger, label }) => `
+            <option value="${trigger}" ${breakpoint?.trigger === trigger ? 'selected' : ''}>${label}</option>
+        `).join('');
+
+        let hitHtml = '';
+        const hit = treeDebugger.getLastHit();
+        if (hit && hit.nodeId === node.id) {
+            const values = Object.entries(hit.blackboard).map(([key, value]) => `
+                <div class="inspector-breakpoint-value">
+                    <span class="blackboard-key">${this.escape(key)}:</span>
+                    ${this.escape(JSON.stringify(value))}
+                </div>
+            `).join('');
+
+            hitHtml = `
+                <div class="inspector-breakpoint-hit">
+                    <i class="fas fa-pause-circle"></i>
+                    ${hit.watch
+                        ? `Last wrote a key of watch "${this.escape(hit.watch.expression)}" before it became true (tick ${hit.tick})`
+                        : `Paused here at tick ${hit.tick} (${hit.status ? `returned ${hit.status}` : 'entered'})`}
+                </div>
+                <div class="inspector-breakpoint-blackboard">
+                    ${values || '<em>Blackboard is empty</em>'}
+                </div>
+            `;
+        }
+
+        return `
+            <div class="inspector-section">
+                <div class="inspector-section-title">Debugging</div>
+                <div class="inspector-property">
+                    <label>Breakpoint</label>
+                    <select id="inspector-breakpoint">
+                        <option value="" ${breakpoint ? '' : 'selected'}>None</option>
+                        ${options}
+                    </select>
+                </div>
+                ${breakpoint ? `
+                    <div class="inspector-property">
+                        <label>Enabled</label>
+                        <input type="checkbox" id="inspector-breakpoint-enabled" ${breakpoint.enabled ? 'checked' : ''} />
+                    </div>
+                ` : ''}
+                ${hitHtml}
+            </div>
+        `;
+    }
+
+    /**
+     * Renders the condition built from the parameters, and the blackboard keys
+     * suggested in the key inputs
+     */
+    private renderConditionPreview(node: ConditionNode | BlackboardConditionNode | IsSetNode): string {
+        const blackboard = this.editorState.behaviorTree.blackboard;
+        const keys = new Set([
+            ...blackboard.getSchema().getDefinitions().map(definition => definition.key),
+            ...blackboard.keys()
+        ]);
+
+        return `
+            <div class="inspector-property">
+                <label>Expression</label>
+                <input type="text" id="inspector-condition-preview" value="${this.escape(node.describe())}" readonly />
+            </div>
+            <datalist id="inspector-blackboard-keys">
+                ${Array.from(keys).sort().map(key => `<option value="${this.escape(key)}"></option>`).join('')}
+            </datalist>
+        `;
+    }
+
+    /**
+     * Renders the weight of a child of a Weighted Random Selector
+     */
+    private renderWeight(node: TreeNode, parent: WeightedRandomSelectorNode): string {
+        const chance = Math.round(parent.getChance(node) * 100);
+
+        return `
+            <div class="inspector-section">
+                <div class="inspector-section-title">Random Weight</div>
+                <div class="inspector-property">
+                    <label title="How often ${this.escape(parent.label)} picks this child first, relative to its siblings (0 = never)">Weight</label>
+                    <input type="number" id="inspector-weight" min="0" step="any" value="${WeightedRandomSelectorNode.getWeight(node)}" />
+                </div>
+                <div class="inspector-property">
+                    <label>Chance</label>
+                    <input type="text" id="inspector-weight-chance" value="${chance}%" readonly />
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Escapes a value for use inside HTML
+     */
+    private escape(value: any): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;');
+    }
+
     /**
      * Renders a single parameter input
      */
@@ -137,7 +274,8 @@ export class InspectorPanel {
                     <input
                         type="text"
                         id="${inputId}"
-                        value="${value}"
+                        value="${this.escape(value)}"
+                        ${this.isKeyParameter(name) ? 'list="inspector-blackboard-keys"' : ''}
                     />
                 `;
                 break;
@@ -173,6 +311,22 @@ export class InspectorPanel {
         `;
     }
 
+    /**
+     * Checks if a node checks a blackboard condition (Condition leaves and guard decorators)
+     */
+    private isBlackboardCondition(node: TreeNode | null): node is ConditionNode | BlackboardConditionNode | IsSetNode {
+        return node instanceof ConditionNode || node instanceof BlackboardConditionNode || node instanceof IsSetNode;
+    }
+
+    /**
+     * Checks if a parameter of the inspected node names a blackboard key
+     */
+    private isKeyParameter(name: string): boolean {
+        const node = this.currentNode;
+        return this.isBlackboardCondition(node) &&
+            (name === 'key' || (name === 'value' && node.parameters.get('compareTo') === 'key'));
+    }
+
     /**
      * Attaches event listeners to inspector inputs
      */
@@ -190,6 +344,51 @@ export class InspectorPanel {
             });
         }
 
+        // Weight input (children of a Weighted Random Selector)
+        const weightInput = document.getElementById('inspector-weight') as HTMLInputElement;
+        if (weightInput) {
+            weightInput.addEventListener('change', () => {
+                if (!this.currentNode) return;
+
+                const weight = parseFloat(weightInput.value);
+                if (isNaN(weight) || weight < 0) {
+                    weightInput.value = String(WeightedRandomSelectorNode.getWeight(this.currentNode));
+                    return;
+                }
+
+                if (weight !== WeightedRandomSelectorNode.getWeight(this.currentNode)) {
+                    const operation = new UpdateNodeConfigOperation(this.currentNode, { ...this.currentNode.config, weight });
+                    this.commandHistory.execute(operation);
+                    this.render();
+                }
+            });
+        }
+
+        // Breakpoint inputs (debugging state, not part of the undo history)
+        const treeDebugger = this.editorState.behaviorTree.getDebugger();
+        const breakpointSelect = document.getElementById('inspector-breakpoint') as HTMLSelectElement;
+        if (treeDebugger && breakpointSelect) {
+            breakpointSelect.addEventListener('change', () => {
+                if (!this.currentNode) return;
+
+                if (breakpointSelect.value) {
+                    treeDebugger.setBreakpoint(this.currentNode.id, breakpointSelect.value as BreakpointTrigger);
+                } else {
+                    treeDebugger.removeBreakpoint(this.currentNode.id);
+                }
+                this.render();
+            });
+        }
+
+        const breakpointEnabled = document.getElementById('inspector-breakpoint-enabled') as HTMLInputElement;
+        if (treeDebugger && breakpointEnabled) {
+            breakpointEnabled.addEventListener('change', () => {
+                if (this.currentNode) {
+                    treeDebugger.setBreakpointEnabled(this.currentNode.id, breakpointEnabled.checked);
+                }
+            });
+        }
+
         // Parameter inputs
         const paramDefs = this.currentNode.parameters.getDefinitions();
         paramDefs.forEach((def, name) => {
@@ -214,6 +413,16 @@ export class InspectorPanel {
                     const operation = new UpdateNodeParameterOperation(this.currentNode, name, value);
                     this.commandHistory.execute(operation);
                 }
+
+                // Selects change which condition parameters are shown
+                if (this.isBlackboardCondition(this.currentNode)) {
+                    if (def.type === 'select') {
+                        this.render();
+                    } else {
+                        const preview = document.getElementById('inspector-condition-preview') as HTMLInputElement;
+                        if (preview) preview.value = this.currentNode.describe();
+                    }
+                }
             };
 
             if (def.type === 'boolean') {
@@ -0,0 +1,230 @@
+import { EditorState } from '../state/EditorState.js';
+import { NodeProfiler, NodeProfile, ProfileSortKey } from '../core/NodeProfiler.js';
+
+/**
+ * ProfilerPanel: Sidebar with per-node execution statistics of the open tree
+ *
+ * Shows a sortable table (click a column header to sort, click again to flip
+ * the order) and toggles the heatmap overlay on the canvas (via onHeatmapChange).
+ */
+export class ProfilerPanel {
+    private editorState: EditorState;
+    private panel: HTMLElement;
+    private btnClose: HTMLButtonElement;
+    private btnClear: HTMLButtonElement;
+    private enabledCheckbox: HTMLInputElement;
+    private heatmapCheckbox: HTMLInputElement;
+    private summary: HTMLElement;
+    private table: HTMLElement;
+
+    private sortKey: ProfileSortKey = 'selfTime';
+    private descending: boolean = true;
+
+    // Table columns: sort key, header, tooltip
+    private static readonly COLUMNS: ReadonlyArray<{ key: ProfileSortKey; label: string; title: string }> = [
+        { key: 'count', label: 'Ticks', title: 'Number of times the node was ticked' },
+        { key: 'selfTime', label: 'Self', title: 'Total time without children (ms)' },
+        { key: 'totalTime', label: 'Total', title: 'Total time with children (ms)' },
+        { key: 'averageTime', label: 'Avg', title: 'Average time per tick with children (ms)' },
+        { key: 'maxTime', label: 'Max', title: 'Longest tick with children (ms)' },
+        { key: 'successRate', label: 'S / F / R', title: 'Returned SUCCESS / FAILURE / RUNNING (sorts by success rate)' }
+    ];
+
+    /**
+     * Called when a row is clicked
+     */
+    public onSelectNode?: (nodeId: string) => void;
+
+    /**
+     * Called with the profiler to draw as a heatmap (null = heatmap off)
+     */
+    public onHeatmapChange?: (profiler: NodeProfiler | null) => void;
+
+    constructor(editorState: EditorState) {
+        this.editorState = editorState;
+
+        // Get DOM elements
+        this.panel = document.getElementById('profiler-panel')!;
+        this.btnClose = document.getElementById('btn-close-profiler') as HTMLButtonElement;
+        this.btnClear = document.getElementById('btn-profiler-clear') as HTMLButtonElement;
+        this.enabledCheckbox = document.getElementById('profiler-enabled') as HTMLInputElement;
+        this.heatmapCheckbox = document.getElementById('profiler-heatmap') as HTMLInputElement;
+        this.summary = document.getElementById('profiler-summary')!;
+        this.table = document.getElementById('profiler-table')!;
+
+        this.setupEventListeners();
+        this.render();
+    }
+
+    /**
+     * The profiler of the tree that is currently open
+     */
+    private get profiler(): NodeProfiler | null {
+        return this.editorState.behaviorTree.getProfiler();
+    }
+
+    /**
+     * Sets up event listeners
+     */
+    private setupEventListeners(): void {
+        this.btnClose.addEventListener('click', () => {
+            this.hide();
+        });
+
+        this.btnClear.addEventListener('click', () => {
+            this.profiler?.clear();
+            this.render();
+        });
+
+        this.enabledCheckbox.addEventListener('change', () => {
+            if (this.profiler) {
+                this.profiler.enabled = this.enabledCheckbox.checked;
+            }
+        });
+
+        this.heatmapCheckbox.addEventListener('change', () => {
+            this.updateHeatmap();
+        });
+
+        this.table.addEventListener('click', (e) => {
+            const target = e.target as HTMLElement;
+
+            const header = target.closest('[data-sort]') as HTMLElement | null;
+            if (header) {
+                const key = header.dataset.sort as ProfileSortKey;
+                this.descending = key === this.sortKey ? !this.descending : true;
+                this.sortKey = key;
+                this.render();
+                return;
+            }
+
+            const row = target.closest('[data-node-id]') as HTMLElement | null;
+            if (row && this.onSelectNode) {
+                this.onSelectNode(row.dataset.nodeId!);
+            }
+        });
+    }
+
+    /**
+     * Tells the canvas which profiler to draw as a heatmap
+     */
+    public updateHeatmap(): void {
+        if (this.onHeatmapChange) {
+            this.onHeatmapChange(this.heatmapCheckbox.checked ? this.profiler : null);
+        }
+    }
+
+    /**
+     * Updates the table from the profiler
+     */
+    public render(): void {
+        const profiler = this.profiler;
+        this.enabledCheckbox.checked = !!profiler && profiler.enabled;
+
+        const profiles = profiler ? profiler.getProfiles(this.sortKey, this.descending) : [];
+        if (!profiler || profiles.length === 0) {
+            this.summary.textContent = '';
+            this.table.innerHTML = '<div class="profiler-empty">Run or step the tree to collect statistics</div>';
+            return;
+        }
+
+        const totalSelf = profiles.reduce((sum, profile) => sum + profile.selfTime, 0);
+        this.summary.textContent = `${profiler.getTickCount()} ticks · ${this.formatTime(totalSelf)} ms in nodes`;
+
+        const headers = ProfilerPanel.COLUMNS.map(column => {
+            const arrow = column.key === this.sortKey ? (this.descending ? ' ▼' : ' ▲') : '';
+            const active = column.key === this.sortKey ? ' active' : '';
+            return `<th class="profiler-sortable${active}" data-sort="${column.key}" title="${this.escape(column.title)}">${column.label}${arrow}</th>`;
+        }).join('');
+
+        const rows = profiles.map(profile => this.renderRow(profile, profiler.getHeat(profile.nodeId))).join('');
+
+        this.table.innerHTML = `
+            <table>
+                <thead><tr><th>Node</th>${headers}</tr></thead>
+                <tbody>${rows}</tbody>
+            </table>
+        `;
+    }
+
+    /**
+     * Builds the table row of one node
+     */
+    private renderRow(profile: NodeProfile, heat: number): string {
+        const node = this.editorState.findNodeById(profile.nodeId);
+        const label = node ? node.label : profile.nodeId;
+        const percent = (value: number) => (profile.count > 0 ? (value / profile.count) * 100 : 0);
+
+        return `
+            <tr data-node-id="${this.escape(profile.nodeId)}">
+                <td class="profiler-node">
+                    ${this.escape(label)}
+                    <div class="profiler-heat" title="Share of the most expensive node's self time"><span style="width: ${heat * 100}%"></span></div>
+                </td>
+                <td>${profile.count}</td>
+                <td>${this.formatTime(profile.selfTime)}</td>
+                <td>${this.formatTime(profile.totalTime)}</td>
+                <td>${this.formatTime(NodeProfiler.getValue(profile, 'averageTime'))}</td>
+                <td>${this.formatTime(profile.maxTime)}</td>
+                <td title="${profile.success} / ${profile.failure} / ${profile.running}">
+                    <div class="profiler-statuses">
+                        <span class="status-success" style="width: ${percent(profile.success)}%"></span>
+                        <span class="status-failure" style="width: ${percent(profile.failure)}%"></span>
+                        <span class="status-running" style="width: ${percent(profile.running)}%"></span>
+                    </div>
+                </td>
+            </tr>
+        `;
+    }
+
+    private formatTime(ms: number): string {
+        return ms < 10 ? ms.toFixed(2) : ms.toFixed(1);
+    }
+
+    /**
+     * Escapes a value for use inside HTML
+     */
+    private escape(value: any): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;');
+    }
+
+    /**
+     * Checks if the panel is visible
+     */
+    public isVisible(): boolean {
+        return !this.panel.classList.contains('hidden');
+    }
+
+    /**
+     * Shows the panel
+     */
+    public show(): void {
+        this.panel.classList.remove('hidden');
+        this.editorState.isPanelOpen = 'profiler';
+        this.render();
+    }
+
+    /**
+     * Hides the panel
+     */
+    public hide(): void {
+        this.panel.classList.add('hidden');
+        if (this.editorState.isPanelOpen === 'profiler') {
+            this.editorState.isPanelOpen = null;
+        }
+    }
+
+    /**
+     * Toggles the panel
+     */
+    public toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+}
@@ -1,45 +1,69 @@
 import { EditorState } from '../state/EditorState.js';
 import { ToggleGridOperation } from '../actions/EditorActions.js';
 import { OperationHistory } from '../core/Operation.js';
+import { TreeLibrary } from '../utils/TreeLibrary.js';
+import { Toast } from './Toast.js';
 
 /**
  * SettingsPanel: Manages the settings sidebar
  */
 export class SettingsPanel {
     private editorState: EditorState;
-    private commandHistory: OperationHistory;
     private panel: HTMLElement;
     private btnClose: HTMLButtonElement;
     private btnExport: HTMLButtonElement;
+    private btnExportWorkspace: HTMLButtonElement;
     private btnExportUnity: HTMLButtonElement;
     private btnImport: HTMLButtonElement;
     private btnClear: HTMLButtonElement;
     private fileInput: HTMLInputElement;
     private showGridCheckbox: HTMLInputElement;
     private blackboardInspector: HTMLElement;
+    private btnAddSubtree: HTMLButtonElement;
+    private subtreeFileInput: HTMLInputElement;
+    private subtreeList: HTMLElement;
+    private watchList: HTMLElement;
+    private watchInput: HTMLInputElement;
+    private btnAddWatch: HTMLButtonElement;
 
     public onExport?: () => void;
+    public onExportWorkspace?: () => void;
     public onExportUnity?: () => void;
     public onImport?: (data: any) => void;
     public onClear?: () => void;
 
-    constructor(editorState: EditorState, commandHistory: OperationHistory) {
+    constructor(editorState: EditorState) {
         this.editorState = editorState;
-        this.commandHistory = commandHistory;
 
         // Get DOM elements
         this.panel = document.getElementById('settings-panel')!;
         this.btnClose = document.getElementById('btn-close-settings') as HTMLButtonElement;
         this.btnExport = document.getElementById('btn-export') as HTMLButtonElement;
+        this.btnExportWorkspace = document.getElementById('btn-export-workspace') as HTMLButtonElement;
         this.btnExportUnity = document.getElementById('btn-export-unity') as HTMLButtonElement;
         this.btnImport = document.getElementById('btn-import') as HTMLButtonElement;
         this.btnClear = document.getElementById('btn-clear') as HTMLButtonElement;
         this.fileInput = document.getElementById('file-input') as HTMLInputElement;
         this.showGridCheckbox = document.getElementById('show-grid') as HTMLInputElement;
         this.blackboardInspector = document.getElementById('blackboard-inspector')!;
+        this.btnAddSubtree = document.getElementById('btn-add-subtree') as HTMLButtonElement;
+        this.subtreeFileInput = document.getElementById('subtree-file-input') as HTMLInputElement;
+        this.subtreeList = document.getElementById('subtree-list')!;
+        this.watchList = document.getElementById('watch-list')!;
+        this.watchInput = document.getElementById('watch-expression') as HTMLInputElement;
+        this.btnAddWatch = document.getElementById('btn-add-watch') as HTMLButtonElement;
 
         this.setupEventListeners();
         this.updateBlackboard();
+        this.updateWatches();
+        this.updateSubtrees();
+    }
+
+    /**
+     * Operation history of the document that is currently open
+     */
+    private get commandHistory(): OperationHistory {
+        return this.editorState.operationHistory;
     }
 
     /**
@@ -56,6 +80,12 @@ export class SettingsPanel {
             }
         });
 
+        this.btnExportWorkspace.addEventListener('click', () => {
+            if (this.onExportWorkspace) {
+                this.onExportWorkspace();
+            }
+        });
+
         this.btnExportUnity.addEventListener('click', () => {
             if (this.onExportUnity) {
                 this.onExportUnity();
@@ -85,6 +115,43 @@ export class SettingsPanel {
             }
         });
 
+        this.btnAddSubtree.addEventListener('click', () => {
+            this.subtreeFileInput.click();
+        });
+
+        this.subtreeFileInput.addEventListener('change', async (e) => {
+            const files = Array.from((e.target as HTMLInputElement).files || []);
+            for (const file of files) {
+                try {
+                    const data = JSON.parse(await file.text());
+                    // Referenced by file name, e.g. "TakeCover.json" → "TakeCover"
+                    const id = file.name.replace(/\.json$/i, '');
+                    TreeLibrary.register(id, data, file.name);
+
+                    const cycle = TreeLibrary.findCycle(id);
+                    if (cycle) {
+                        Toast.show(`Subtree cycle: ${cycle.join(' → ')}`, 3000);
+                    }
+                } catch (error) {
+                    console.error(`Failed to add subtree "${file.name}":`, error);
+                    Toast.show(`Failed to add ${file.name}`, 2000);
+                }
+            }
+            this.updateSubtrees();
+            // Reset file input
+            this.subtreeFileInput.value = '';
+        });
+
+        this.btnAddWatch.addEventListener('click', () => {
+            this.addWatch();
+        });
+
+        this.watchInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                this.addWatch();
+            }
+        });
+
         this.showGridCheckbox.addEventListener('change', () => {
             // Only execute operation if the value actually changed
             if (this.editorState.showGrid !== this.showGridCheckbox.checked) {
@@ -101,6 +168,8 @@ export class SettingsPanel {
         this.panel.classList.remove('hidden');
         this.editorState.isPanelOpen = 'settings';
         this.updateBlackboard();
+        this.updateWatches();
+        this.updateSubtrees();
     }
 
     /**
@@ -147,4 +216,125 @@ export class SettingsPanel {
 
         this.blackboardInspector.innerHTML = html;
     }
+
+    /**
+     * Adds the typed watch expression to the open tree's debugger
+     */
+    private addWatch(): void {
+        const treeDebugger = this.editorState.behaviorTree.getDebugger();
+        if (!treeDebugger || !this.watchInput.value.trim()) return;
+
+        try {
+            treeDebugger.addWatch(this.watchInput.value);
+            this.watchInput.value = '';
+            this.updateWatches();
+        } catch (error) {
+            Toast.show(error instanceof Error ? error.message : String(error), 3000);
+        }
+    }
+
+    /**
+     * Updates the watch expressions (the watch the tree is paused at lists
+     * the keys it reads, who last wrote them and which nodes accessed them)
+     */
+    public updateWatches(): void {
+        const treeDebugger = this.editorState.behaviorTree.getDebugger();
+        const watches = treeDebugger ? treeDebugger.getWatches() : [];
+
+        if (!treeDebugger || watches.length === 0) {
+            this.watchList.innerHTML = '<em>No watches</em>';
+            return;
+        }
+
+        const hit = treeDebugger.getLastHit();
+        let html = '';
+        watches.forEach(watch => {
+            const isHit = hit?.watch?.id === watch.id;
+            const keys = isHit ? (hit!.keys || []).map(key => `
+                <div class="watch-key">
+                    ${this.escape(key.key)} = ${this.escape(JSON.stringify(key.value))}
+                    · written by ${this.escape(this.getNodeLabel(key.lastWriter))}
+                    ${key.dependencies.length > 0 ? `· accessed by ${this.escape(key.dependencies.map(id => this.getNodeLabel(id)).join(', '))}` : ''}
+                </div>
+            `).join('') : '';
+
+            html += `
+                <div class="watch-item ${isHit ? 'hit' : ''}">
+                    <div class="watch-row">
+                        <input type="checkbox" class="watch-enabled" data-id="${watch.id}" ${watch.enabled ? 'checked' : ''} title="Enabled">
+                        <span class="watch-expression">${this.escape(watch.expression)}</span>
+                        <span class="watch-value">${watch.value === undefined ? '' : this.escape(JSON.stringify(watch.value))}</span>
+                        <button class="subtree-remove" data-id="${watch.id}" title="Remove watch">
+                            <i class="fas fa-times"></i>
+                        </button>
+                    </div>
+                    ${keys}
+                </div>
+            `;
+        });
+
+        this.watchList.innerHTML = html;
+
+        this.watchList.querySelectorAll('.watch-enabled').forEach(checkbox => {
+            checkbox.addEventListener('change', () => {
+                treeDebugger.setWatchEnabled((checkbox as HTMLInputElement).dataset.id!, (checkbox as HTMLInputElement).checked);
+            });
+        });
+
+        this.watchList.querySelectorAll('.subtree-remove').forEach(button => {
+            button.addEventListener('click', () => {
+                treeDebugger.removeWatch((button as HTMLElement).dataset.id!);
+                this.updateWatches();
+            });
+        });
+    }
+
+    private getNodeLabel(nodeId: string | null): string {
+        if (!nodeId) return 'unknown';
+        const node = this.editorState.findNodeById(nodeId);
+        return node ? node.label : nodeId;
+    }
+
+    /**
+     * Escapes a value for use inside HTML
+     */
+    private escape(value: any): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;');
+    }
+
+    /**
+     * Updates the list of trees SubTree nodes can reference
+     */
+    public updateSubtrees(): void {
+        const documents = TreeLibrary.getAll();
+
+        if (documents.length === 0) {
+            this.subtreeList.innerHTML = '<em>No subtrees</em>';
+            return;
+        }
+
+        let html = '';
+        documents.forEach(document => {
+            html += `
+                <div class="subtree-item">
+                    <span class="subtree-name" title="${document.name}">${document.id}</span>
+                    <button class="subtree-remove" data-id="${document.id}" title="Remove from library">
+                        <i class="fas fa-times"></i>
+                    </button>
+                </div>
+            `;
+        });
+
+        this.subtreeList.innerHTML = html;
+
+        this.subtreeList.querySelectorAll('.subtree-remove').forEach(button => {
+            button.addEventListener('click', () => {
+                TreeLibrary.unregister((button as HTMLElement).dataset.id!);
+                this.updateSubtrees();
+            });
+        });
+    }
 }
@@ -6,6 +6,7 @@ import { EditorState } from '../state/EditorState.js';
  */
 export class StatusBar {
     private behaviorTree: BehaviorTree;
+    private observedTrees: WeakSet<BehaviorTree> = new WeakSet();
     private editorState: EditorState;
 
     private statusBar: HTMLElement;
@@ -36,9 +37,7 @@ export class StatusBar {
      */
     private setupEventListeners(): void {
         // Update when tree state changes
-        this.behaviorTree.onStateChange(() => {
-            this.update();
-        });
+        this.observeTree(this.behaviorTree);
 
         // Make tick rate item clickable to focus toolbar tick rate input
         const tickRateItem = document.getElementById('status-tick-rate');
@@ -96,4 +95,27 @@ export class StatusBar {
         // Update node count
         this.nodesValue.textContent = nodeCount.toString();
     }
+
+    /**
+     * Switches to another tree (e.g. when another document tab is opened)
+     */
+    public setBehaviorTree(behaviorTree: BehaviorTree): void {
+        this.behaviorTree = behaviorTree;
+        this.observeTree(behaviorTree);
+        this.update();
+    }
+
+    /**
+     * Listens to state changes of a tree (once per tree; only the shown tree updates the UI)
+     */
+    private observeTree(behaviorTree: BehaviorTree): void {
+        if (this.observedTrees.has(behaviorTree)) return;
+        this.observedTrees.add(behaviorTree);
+
+        behaviorTree.onStateChange(() => {
+            if (behaviorTree === this.behaviorTree) {
+                this.update();
+            }
+        });
+    }
 }
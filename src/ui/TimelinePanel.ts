@@ -0,0 +1,278 @@
+import { EditorState } from '../state/EditorState.js';
+import { NodeStatus } from '../core/NodeStatus.js';
+import { TraceRecorder, TraceFrame } from '../core/TraceRecorder.js';
+
+/**
+ * TimelinePanel: Strip under the canvas for scrubbing through recorded ticks
+ *
+ * Selecting a tick pauses the tree and shows that tick's node statuses on the
+ * canvas (via onScrub), together with its status transitions and blackboard
+ * writes. "Live" (or resuming the tree) goes back to the live statuses.
+ */
+export class TimelinePanel {
+    private editorState: EditorState;
+    private panel: HTMLElement;
+    private btnClose: HTMLButtonElement;
+    private btnRecord: HTMLButtonElement;
+    private btnPrev: HTMLButtonElement;
+    private btnNext: HTMLButtonElement;
+    private btnLive: HTMLButtonElement;
+    private btnClear: HTMLButtonElement;
+    private slider: HTMLInputElement;
+    private label: HTMLElement;
+    private details: HTMLElement;
+
+    // Index of the replayed frame (null = live view)
+    private selectedIndex: number | null = null;
+
+    /**
+     * Called with the statuses to draw (null = live statuses)
+     */
+    public onScrub?: (statuses: Record<string, NodeStatus> | null) => void;
+
+    constructor(editorState: EditorState) {
+        this.editorState = editorState;
+
+        // Get DOM elements
+        this.panel = document.getElementById('timeline-panel')!;
+        this.btnClose = document.getElementById('btn-close-timeline') as HTMLButtonElement;
+        this.btnRecord = document.getElementById('btn-timeline-record') as HTMLButtonElement;
+        this.btnPrev = document.getElementById('btn-timeline-prev') as HTMLButtonElement;
+        this.btnNext = document.getElementById('btn-timeline-next') as HTMLButtonElement;
+        this.btnLive = document.getElementById('btn-timeline-live') as HTMLButtonElement;
+        this.btnClear = document.getElementById('btn-timeline-clear') as HTMLButtonElement;
+        this.slider = document.getElementById('timeline-slider') as HTMLInputElement;
+        this.label = document.getElementById('timeline-label')!;
+        this.details = document.getElementById('timeline-details')!;
+
+        this.setupEventListeners();
+        this.render();
+    }
+
+    /**
+     * The recorder of the tree that is currently open
+     */
+    private get recorder(): TraceRecorder | null {
+        return this.editorState.behaviorTree.getRecorder();
+    }
+
+    /**
+     * Sets up event listeners
+     */
+    private setupEventListeners(): void {
+        this.btnClose.addEventListener('click', () => {
+            this.hide();
+        });
+
+        this.btnRecord.addEventListener('click', () => {
+            if (this.recorder) {
+                this.recorder.enabled = !this.recorder.enabled;
+                this.render();
+            }
+        });
+
+        this.slider.addEventListener('input', () => {
+            this.selectFrame(parseInt(this.slider.value));
+        });
+
+        this.btnPrev.addEventListener('click', () => {
+            const last = (this.recorder?.size() || 0) - 1;
+            this.selectFrame((this.selectedIndex ?? last + 1) - 1);
+        });
+
+        this.btnNext.addEventListener('click', () => {
+            if (this.selectedIndex !== null) {
+                this.selectFrame(this.selectedIndex + 1);
+            }
+        });
+
+        this.btnLive.addEventListener('click', () => {
+            this.goLive();
+        });
+
+        this.btnClear.addEventListener('click', () => {
+            if (this.recorder) {
+                this.recorder.clear();
+            }
+            this.goLive();
+        });
+    }
+
+    /**
+     * Replays a recorded tick (pauses the tree while scrubbing)
+     */
+    public selectFrame(index: number): void {
+        const recorder = this.recorder;
+        if (!recorder || recorder.size() === 0) return;
+
+        this.selectedIndex = Math.max(0, Math.min(recorder.size() - 1, index));
+
+        const tree = this.editorState.behaviorTree;
+        if (tree.state === 'running') {
+            tree.pause();
+        }
+
+        if (this.onScrub) {
+            this.onScrub(recorder.getFrame(this.selectedIndex)!.statuses);
+        }
+        this.render();
+    }
+
+    /**
+     * Leaves replay and shows the live statuses again
+     */
+    public goLive(): void {
+        const wasReplaying = this.selectedIndex !== null;
+        this.selectedIndex = null;
+
+        if (wasReplaying && this.onScrub) {
+            this.onScrub(null);
+        }
+        this.render();
+    }
+
+    /**
+     * Checks if a recorded tick is being replayed
+     */
+    public isReplaying(): boolean {
+        return this.selectedIndex !== null;
+    }
+
+    /**
+     * Updates the slider and details from the recorder
+     */
+    public render(): void {
+        // Resuming the tree ends the replay
+        if (this.selectedIndex !== null && this.editorState.behaviorTree.state === 'running') {
+            this.goLive();
+            return;
+        }
+
+        const recorder = this.recorder;
+        const size = recorder ? recorder.size() : 0;
+
+        this.btnRecord.classList.toggle('active', !!recorder && recorder.enabled);
+        this.btnRecord.title = recorder && recorder.enabled ? 'Recording (click to stop)' : 'Not recording (click to record)';
+        this.btnLive.classList.toggle('active', this.selectedIndex === null);
+
+        if (!recorder || size === 0) {
+            this.slider.max = '0';
+            this.slider.value = '0';
+            this.slider.disabled = true;
+            this.label.textContent = 'No ticks recorded';
+            this.details.innerHTML = '<em>Run or step the tree to record ticks</em>';
+            return;
+        }
+
+        if (this.selectedIndex !== null && this.selectedIndex >= size) {
+            this.selectedIndex = size - 1;
+        }
+
+        const index = this.selectedIndex ?? size - 1;
+        const frame = recorder.getFrame(index)!;
+
+        this.slider.disabled = false;
+        this.slider.max = String(size - 1);
+        this.slider.value = String(index);
+        this.label.textContent = `Tick ${frame.tick} (${index + 1}/${size})${this.selectedIndex === null ? ' · live' : ''}`;
+
+        this.details.innerHTML = this.renderFrame(frame, recorder.getBlackboardAt(index));
+    }
+
+    /**
+     * Builds the details of one frame
+     */
+    private renderFrame(frame: TraceFrame, blackboard: Record<string, any>): string {
+        const transitions = frame.transitions.map(transition => `
+            <div class="timeline-item">
+                <span class="timeline-node">${this.escape(this.getNodeLabel(transition.nodeId))}</span>
+                <span class="timeline-status status-${transition.from}">${transition.from}</span>
+                →
+                <span class="timeline-status status-${transition.to}">${transition.to}</span>
+            </div>
+        `).join('');
+
+        const changes = frame.changes.map(change => `
+            <div class="timeline-item">
+                <span class="blackboard-key">${this.escape(change.key)}</span>
+                ${this.escape(this.format(change.oldValue))} → ${this.escape(this.format(change.newValue))}
+                ${change.nodeId ? `<span class="timeline-writer">by ${this.escape(this.getNodeLabel(change.nodeId))}</span>` : ''}
+            </div>
+        `).join('');
+
+        const values = Object.entries(blackboard).map(([key, value]) => `
+            <div class="timeline-item">
+                <span class="blackboard-key">${this.escape(key)}:</span>
+                ${this.escape(this.format(value))}
+            </div>
+        `).join('');
+
+        return `
+            <div class="timeline-column">
+                <h4>Status changes (${frame.status})</h4>
+                ${transitions || '<em>None</em>'}
+            </div>
+            <div class="timeline-column">
+                <h4>Blackboard writes</h4>
+                ${changes || '<em>None</em>'}
+            </div>
+            <div class="timeline-column">
+                <h4>Blackboard after tick</h4>
+                ${values || '<em>Empty</em>'}
+            </div>
+        `;
+    }
+
+    private getNodeLabel(nodeId: string): string {
+        const node = this.editorState.findNodeById(nodeId);
+        return node ? node.label : nodeId;
+    }
+
+    private format(value: any): string {
+        return value === undefined ? '(unset)' : JSON.stringify(value);
+    }
+
+    /**
+     * Escapes a value for use inside HTML
+     */
+    private escape(value: any): string {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;');
+    }
+
+    /**
+     * Checks if the panel is visible
+     */
+    public isVisible(): boolean {
+        return !this.panel.classList.contains('hidden');
+    }
+
+    /**
+     * Shows the panel
+     */
+    public show(): void {
+        this.panel.classList.remove('hidden');
+        this.render();
+    }
+
+    /**
+     * Hides the panel (and leaves replay)
+     */
+    public hide(): void {
+        this.panel.classList.add('hidden');
+        this.goLive();
+    }
+
+    /**
+     * Toggles the panel
+     */
+    public toggle(): void {
+        if (this.isVisible()) {
+            this.hide();
+        } else {
+            this.show();
+        }
+    }
+}
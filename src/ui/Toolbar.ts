@@ -5,15 +5,26 @@ import { BehaviorTree } from '../core/BehaviorTree.js';
  */
 export class Toolbar {
     private behaviorTree: BehaviorTree;
+    private observedTrees: WeakSet<BehaviorTree> = new WeakSet();
 
     private btnPlay: HTMLButtonElement;
     private btnPause: HTMLButtonElement;
     private btnStep: HTMLButtonElement;
+    private btnStepInto: HTMLButtonElement;
+    private btnStepOver: HTMLButtonElement;
+    private btnStepOut: HTMLButtonElement;
     private btnReset: HTMLButtonElement;
     private btnSettings: HTMLButtonElement;
+    private btnBlackboard: HTMLButtonElement;
+    private btnTimeline: HTMLButtonElement;
+    private btnProfiler: HTMLButtonElement;
     private tickRateInput: HTMLInputElement;
+    private seedInput: HTMLInputElement;
 
     public onSettingsClick?: () => void;
+    public onBlackboardClick?: () => void;
+    public onTimelineClick?: () => void;
+    public onProfilerClick?: () => void;
 
     constructor(behaviorTree: BehaviorTree) {
         this.behaviorTree = behaviorTree;
@@ -22,9 +33,16 @@ export class Toolbar {
         this.btnPlay = document.getElementById('btn-play') as HTMLButtonElement;
         this.btnPause = document.getElementById('btn-pause') as HTMLButtonElement;
         this.btnStep = document.getElementById('btn-step') as HTMLButtonElement;
+        this.btnStepInto = document.getElementById('btn-step-into') as HTMLButtonElement;
+        this.btnStepOver = document.getElementById('btn-step-over') as HTMLButtonElement;
+        this.btnStepOut = document.getElementById('btn-step-out') as HTMLButtonElement;
         this.btnReset = document.getElementById('btn-reset') as HTMLButtonElement;
         this.btnSettings = document.getElementById('btn-settings') as HTMLButtonElement;
+        this.btnBlackboard = document.getElementById('btn-blackboard') as HTMLButtonElement;
+        this.btnTimeline = document.getElementById('btn-timeline') as HTMLButtonElement;
+        this.btnProfiler = document.getElementById('btn-profiler') as HTMLButtonElement;
         this.tickRateInput = document.getElementById('toolbar-tick-rate') as HTMLInputElement;
+        this.seedInput = document.getElementById('toolbar-seed') as HTMLInputElement;
 
         this.setupEventListeners();
         this.updateUI();
@@ -49,6 +67,21 @@ export class Toolbar {
             this.updateUI();
         });
 
+        this.btnStepInto.addEventListener('click', () => {
+            this.behaviorTree.stepInto();
+            this.updateUI();
+        });
+
+        this.btnStepOver.addEventListener('click', () => {
+            this.behaviorTree.stepOver();
+            this.updateUI();
+        });
+
+        this.btnStepOut.addEventListener('click', () => {
+            this.behaviorTree.stepOut();
+            this.updateUI();
+        });
+
         this.btnReset.addEventListener('click', () => {
             this.behaviorTree.stop();
             this.updateUI();
@@ -60,6 +93,24 @@ export class Toolbar {
             }
         });
 
+        this.btnBlackboard.addEventListener('click', () => {
+            if (this.onBlackboardClick) {
+                this.onBlackboardClick();
+            }
+        });
+
+        this.btnTimeline.addEventListener('click', () => {
+            if (this.onTimelineClick) {
+                this.onTimelineClick();
+            }
+        });
+
+        this.btnProfiler.addEventListener('click', () => {
+            if (this.onProfilerClick) {
+                this.onProfilerClick();
+            }
+        });
+
         // Tick rate input
         this.tickRateInput.addEventListener('input', () => {
             const rate = parseInt(this.tickRateInput.value);
@@ -77,10 +128,17 @@ export class Toolbar {
             this.behaviorTree.setTickRate(rate);
         });
 
-        // Update UI when tree state changes
-        this.behaviorTree.onStateChange(() => {
-            this.updateUI();
+        // Random seed input (takes effect from the start of the sequence)
+        this.seedInput.addEventListener('change', () => {
+            const seed = parseInt(this.seedInput.value);
+            if (!isNaN(seed) && seed >= 0) {
+                this.behaviorTree.random.setSeed(seed);
+            }
+            this.seedInput.value = this.behaviorTree.random.getSeed().toString();
         });
+
+        // Update UI when tree state changes
+        this.observeTree(this.behaviorTree);
     }
 
     /**
@@ -96,5 +154,36 @@ export class Toolbar {
         // Disable play when running
         this.btnPlay.disabled = state === 'running';
         this.btnPause.disabled = state !== 'running';
+
+        // Step out only applies inside a stepped tick
+        this.btnStepOut.disabled = this.behaviorTree.getNextNode() === null;
+
+        // Each tree has its own seed
+        if (document.activeElement !== this.seedInput) {
+            this.seedInput.value = this.behaviorTree.random.getSeed().toString();
+        }
+    }
+
+    /**
+     * Switches to another tree (e.g. when another document tab is opened)
+     */
+    public setBehaviorTree(behaviorTree: BehaviorTree): void {
+        this.behaviorTree = behaviorTree;
+        this.observeTree(behaviorTree);
+        this.updateUI();
+    }
+
+    /**
+     * Listens to state changes of a tree (once per tree; only the shown tree updates the UI)
+     */
+    private observeTree(behaviorTree: BehaviorTree): void {
+        if (this.observedTrees.has(behaviorTree)) return;
+        this.observedTrees.add(behaviorTree);
+
+        behaviorTree.onStateChange(() => {
+            if (behaviorTree === this.behaviorTree) {
+                this.updateUI();
+            }
+        });
     }
 }
@@ -4,6 +4,9 @@
 export class FileIO {
     private static readonly LOCALSTORAGE_KEY = 'behaviorTree_autosave';
 
+    // Key of the saved workspace (all open tree documents)
+    public static readonly WORKSPACE_KEY = 'behaviorTree_workspace';
+
     /**
      * Downloads data as a JSON file
      */
@@ -101,8 +104,9 @@ export class FileIO {
 
     /**
      * Saves data to browser localStorage
+     * @param key - Storage key (defaults to the single-tree autosave)
      */
-    public static saveToLocalStorage(data: any): { success: boolean; error?: string } {
+    public static saveToLocalStorage(data: any, key: string = this.LOCALSTORAGE_KEY): { success: boolean; error?: string } {
         try {
             const json = JSON.stringify(data);
 
@@ -112,7 +116,7 @@ export class FileIO {
                 console.warn(`LocalStorage save size: ${sizeKB.toFixed(0)}KB (large data may fail)`);
             }
 
-            localStorage.setItem(this.LOCALSTORAGE_KEY, json);
+            localStorage.setItem(key, json);
             return { success: true };
         } catch (error) {
             if ((error as any).name === 'QuotaExceededError') {
@@ -131,10 +135,11 @@ export class FileIO {
     /**
      * Loads data from browser localStorage
      * Returns null if no saved data exists
+     * @param key - Storage key (defaults to the single-tree autosave)
      */
-    public static loadFromLocalStorage(): any | null {
+    public static loadFromLocalStorage(key: string = this.LOCALSTORAGE_KEY): any | null {
         try {
-            const json = localStorage.getItem(this.LOCALSTORAGE_KEY);
+            const json = localStorage.getItem(key);
             if (!json) {
                 return null;
             }
@@ -156,8 +161,9 @@ export class FileIO {
 
     /**
      * Clears the auto-saved data from localStorage
+     * @param key - Storage key (defaults to the single-tree autosave)
      */
-    public static clearLocalStorage(): void {
-        localStorage.removeItem(this.LOCALSTORAGE_KEY);
+    public static clearLocalStorage(key: string = this.LOCALSTORAGE_KEY): void {
+        localStorage.removeItem(key);
     }
 }
@@ -233,6 +233,77 @@ export const PulseAnimationConstants = {
     PULSE_OPACITY: 0.3,
 } as const;
 
+/**
+ * SubTree node constants (stacked outline and expanded tree outline)
+ */
+export const SubTreeConstants = {
+    STACK_OFFSET: 4, // Offset of the "stacked card" outline behind collapsed subtrees
+    STACK_OPACITY: 0.5,
+    OUTLINE_MARGIN_TOP: 8, // Gap between node and expanded outline
+    OUTLINE_LINE_HEIGHT: 16,
+    OUTLINE_PADDING: 6,
+    OUTLINE_INDENT: 12, // Indentation per tree depth
+    OUTLINE_MIN_WIDTH: 180,
+    OUTLINE_FONT_SIZE: 11,
+    OUTLINE_MAX_LINES: 20, // Longer outlines are truncated with "…"
+} as const;
+
+/**
+ * Condition node shape constants (hexagon with pointed left and right ends)
+ */
+export const ConditionShapeConstants = {
+    POINT_INSET: 12, // Horizontal distance from the points to the straight edges
+} as const;
+
+/**
+ * GoTo jump link constants (dashed link from a GoTo node to its target)
+ */
+export const JumpLinkConstants = {
+    LINE_WIDTH: 1.5,
+    DASH: [4, 4],
+    OPACITY: 0.8,
+    ARROW_SIZE: 6, // Arrow head at the target's input port
+} as const;
+
+/**
+ * Weight label constants (weights on the connections of Weighted Random Selectors)
+ */
+export const WeightLabelConstants = {
+    FONT_SIZE: 10,
+    HEIGHT: 16,
+    PADDING: 5, // Horizontal padding around the text
+} as const;
+
+/**
+ * Breakpoint marker constants
+ */
+export const BreakpointConstants = {
+    MARKER_RADIUS: 5, // Dot in the top-left corner
+    MARKER_OFFSET: 8, // Offset from corner
+    HIT_OUTLINE_WIDTH: 3, // Outline of the node the tree is paused at
+    HIT_OUTLINE_MARGIN: 4,
+    HIT_BLUR: 12,
+} as const;
+
+/**
+ * Step-through constants
+ */
+export const StepConstants = {
+    NEXT_OUTLINE_WIDTH: 2, // Dashed outline of the node a stepped tick executes next
+    NEXT_OUTLINE_MARGIN: 4,
+    NEXT_OUTLINE_DASH: [6, 4],
+} as const;
+
+/**
+ * Profiler heatmap constants
+ */
+export const HeatmapConstants = {
+    COLD_HUE: 120, // Green for the cheapest nodes
+    HOT_HUE: 0, // Red for the most expensive node
+    MIN_OPACITY: 0.15,
+    MAX_OPACITY: 0.6,
+} as const;
+
 /**
  * Hover highlight constants
  */
@@ -11,7 +11,8 @@ export const Theme = {
     node: {
         composite: '#4A90E2',
         decorator: '#9B59B6',
-        leaf: '#2ECC71'
+        leaf: '#2ECC71',
+        condition: '#1ABC9C'
     },
 
     // Execution status colors
@@ -28,7 +29,12 @@ export const Theme = {
         activeConnection: '#00D9FF', // Bright cyan for active execution flow
         selection: '#F39C12',
         hover: '#3498DB',
-        port: '#BDC3C7'
+        port: '#BDC3C7',
+        breakpoint: '#E5484D',
+        nextStep: '#00D9FF', // Node a stepped tick executes next
+        jumpLink: '#9B59B6', // GoTo node to its target
+        weightLabel: '#2D2D2D', // Background of the weights on Weighted Random Selector connections
+        weightText: '#CCCCCC'
     },
 
     // Layout constants
@@ -0,0 +1,193 @@
+/**
+ * TreeLibrary: Registry of tree documents that SubTree nodes can reference
+ *
+ * This allows users to:
+ * - Reuse a whole saved tree as a node in another tree
+ * - Store referenced trees in localStorage or embed them in exported JSON
+ * - Detect reference cycles (A → B → A) before they are executed
+ */
+
+/**
+ * A saved tree that can be referenced by id or name
+ */
+export interface TreeDocument {
+    id: string;
+    name: string;
+    data: any;          // Tree JSON as produced by the editor export
+    revision: number;   // Incremented whenever the document is replaced
+}
+
+export class TreeLibrary {
+    private static readonly STORAGE_KEY = 'behaviorTree_treeLibrary';
+    private static documents: Map<string, TreeDocument> = new Map();
+    private static nextRevision: number = 1;
+
+    // Node type of SubTree nodes (used to find references inside tree JSON)
+    public static readonly SUBTREE_TYPE = 'subtree';
+
+    /**
+     * Initializes the library by loading from localStorage
+     */
+    public static initialize(): void {
+        this.loadFromLocalStorage();
+    }
+
+    /**
+     * Registers a tree document (replaces any document with the same id)
+     */
+    public static register(id: string, data: any, name: string = id): TreeDocument {
+        if (!id || !data || typeof data !== 'object') {
+            throw new Error('Tree document must have an id and tree data');
+        }
+
+        const document: TreeDocument = {
+            id,
+            name,
+            data,
+            revision: this.nextRevision++
+        };
+
+        this.documents.set(id, document);
+        this.saveToLocalStorage();
+        return document;
+    }
+
+    /**
+     * Removes a tree document
+     */
+    public static unregister(id: string): boolean {
+        const removed = this.documents.delete(id);
+        if (removed) {
+            this.saveToLocalStorage();
+        }
+        return removed;
+    }
+
+    /**
+     * Finds a document by id, then by name (a trailing `.json` is ignored)
+     */
+    public static get(reference: string): TreeDocument | undefined {
+        if (!reference) return undefined;
+
+        const byId = this.documents.get(reference);
+        if (byId) return byId;
+
+        const name = reference.replace(/\.json$/i, '');
+        return Array.from(this.documents.values()).find(
+            document => document.name === reference || document.name.replace(/\.json$/i, '') === name
+        );
+    }
+
+    /**
+     * Checks if a document can be resolved
+     */
+    public static has(reference: string): boolean {
+        return this.get(reference) !== undefined;
+    }
+
+    /**
+     * Gets all documents
+     */
+    public static getAll(): TreeDocument[] {
+        return Array.from(this.documents.values());
+    }
+
+    /**
+     * Lists the tree references made by SubTree nodes in tree JSON
+     */
+    public static getReferences(data: any): string[] {
+        const nodes: any[] = data?.tree?.nodes || [];
+        return nodes
+            .filter(node => node && node.type === this.SUBTREE_TYPE)
+            .map(node => node.parameters?.treeId)
+            .filter((treeId: any): treeId is string => typeof treeId === 'string' && treeId !== '');
+    }
+
+    /**
+     * Finds a reference cycle reachable from a document
+     * @param reference - The document to start from
+     * @param ancestors - Documents already on the reference path (e.g. the tree being edited)
+     * @returns The cycle as a list of document ids/names (first = last), or null if none
+     */
+    public static findCycle(reference: string, ancestors: string[] = []): string[] | null {
+        const visit = (ref: string, path: string[]): string[] | null => {
+            const document = this.get(ref);
+            const id = document ? document.id : ref;
+
+            const index = path.indexOf(id);
+            if (index !== -1) {
+                return [...path.slice(index), id];
+            }
+
+            if (!document) return null;
+
+            for (const child of this.getReferences(document.data)) {
+                const cycle = visit(child, [...path, id]);
+                if (cycle) return cycle;
+            }
+            return null;
+        };
+
+        return visit(reference, ancestors.map(ref => this.get(ref)?.id || ref));
+    }
+
+    /**
+     * Exports all documents for embedding in a tree export
+     */
+    public static exportDocuments(): Array<{ id: string; name: string; data: any }> {
+        return this.getAll().map(({ id, name, data }) => ({ id, name, data }));
+    }
+
+    /**
+     * Imports documents (e.g. from a tree export)
+     */
+    public static importDocuments(documents: Array<{ id: string; name?: string; data: any }>): void {
+        documents.forEach(document => {
+            try {
+                this.register(document.id, document.data, document.name || document.id);
+            } catch (error) {
+                console.warn('Skipping invalid tree document:', document, error);
+            }
+        });
+    }
+
+    /**
+     * Removes all documents
+     */
+    public static clearAll(): void {
+        this.documents.clear();
+        this.saveToLocalStorage();
+    }
+
+    /**
+     * Saves documents to localStorage (no-op outside the browser)
+     */
+    private static saveToLocalStorage(): void {
+        if (typeof localStorage === 'undefined') return;
+
+        try {
+            localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.exportDocuments()));
+        } catch (error) {
+            console.error('Failed to save tree library to localStorage:', error);
+        }
+    }
+
+    /**
+     * Loads documents from localStorage
+     */
+    private static loadFromLocalStorage(): void {
+        if (typeof localStorage === 'undefined') return;
+
+        try {
+            const json = localStorage.getItem(this.STORAGE_KEY);
+            if (!json) return;
+
+            const data = JSON.parse(json);
+            if (Array.isArray(data)) {
+                this.importDocuments(data);
+            }
+        } catch (error) {
+            console.error('Failed to load tree library from localStorage:', error);
+        }
+    }
+}
@@ -234,4 +234,166 @@ describe('ActionNode', () => {
       expect(blackboard.get('result')).toBe(50);
     });
   });
+
+  describe('Async Code', () => {
+    // Lets pending promise callbacks run without relying on timers
+    const flushMicrotasks = async () => {
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
+    };
+
+    const createGate = () => {
+      let open!: (value?: unknown) => void;
+      let fail!: (error: Error) => void;
+      const promise = new Promise((resolve, reject) => {
+        open = resolve;
+        fail = reject;
+      });
+      return { promise, open, fail };
+    };
+
+    it('reports RUNNING until awaited work settles, then its result', async () => {
+      const action = new ActionNode('Async Action');
+      const gate = createGate();
+      blackboard.set('gate', gate.promise);
+
+      action.code = `
+        await blackboard.get('gate');
+        blackboard.set('loaded', true);
+        return NodeStatus.SUCCESS;
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(action.isPending()).toBe(true);
+
+      // Still pending on later ticks (code is not re-run)
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      gate.open();
+      await flushMicrotasks();
+      expect(blackboard.get('loaded')).toBe(true);
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(action.isPending()).toBe(false);
+    });
+
+    it('supports code that returns a Promise', async () => {
+      const action = new ActionNode('Promise Action');
+      action.code = `return Promise.resolve(NodeStatus.FAILURE);`;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      await flushMicrotasks();
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('returns FAILURE when the promise rejects', async () => {
+      const action = new ActionNode('Rejecting Action');
+      const gate = createGate();
+      blackboard.set('gate', gate.promise);
+
+      action.code = `
+        await blackboard.get('gate');
+        return NodeStatus.SUCCESS;
+      `;
+
+      action.tick(blackboard);
+      gate.fail(new Error('network down'));
+      await flushMicrotasks();
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(blackboard.get(`__error_${action.id}`).message).toBe('network down');
+    });
+
+    it('aborts the signal and discards the result when reset', async () => {
+      const action = new ActionNode('Cancelled Action');
+      const gate = createGate();
+      blackboard.set('gate', gate.promise);
+
+      action.code = `
+        blackboard.set('signal', signal);
+        await blackboard.get('gate');
+        return NodeStatus.FAILURE;
+      `;
+
+      action.tick(blackboard);
+      const signal = blackboard.get('signal') as AbortSignal;
+      expect(signal.aborted).toBe(false);
+
+      action.reset();
+      expect(signal.aborted).toBe(true);
+      expect(action.isPending()).toBe(false);
+
+      gate.open();
+      await flushMicrotasks();
+
+      // Next tick starts a fresh execution instead of reporting the stale result
+      action.code = 'return NodeStatus.SUCCESS;';
+      expect(action.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+  });
+
+  describe('Lifecycle Hooks', () => {
+    const code = `
+      export function onStart() {
+        this.state.updates = 0;
+        blackboard.set('log', [...(blackboard.get('log') || []), 'start']);
+      }
+
+      export function onUpdate(tick) {
+        this.state.updates++;
+        blackboard.set('log', [...blackboard.get('log'), 'update ' + tick]);
+        return this.state.updates < params.updates ? NodeStatus.RUNNING : NodeStatus.SUCCESS;
+      }
+
+      export function onEnd(status) {
+        blackboard.set('log', [...blackboard.get('log'), 'end ' + status]);
+      }
+
+      export function onAbort() {
+        blackboard.set('log', [...blackboard.get('log'), 'abort']);
+      }
+    `;
+
+    it('drives exported hooks with state on this', () => {
+      const action = new ActionNode('Structured');
+      action.code = code;
+      action.parameters.define('updates', { type: 'number', label: 'Updates', defaultValue: 2 });
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(action.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(blackboard.get('log')).toEqual(['start', 'update 0', 'update 1', 'end success']);
+    });
+
+    it('calls onAbort when a RUNNING node is halted', () => {
+      const action = new ActionNode('Structured');
+      action.code = code;
+      action.parameters.define('updates', { type: 'number', label: 'Updates', defaultValue: 5 });
+
+      action.tick(blackboard);
+      action.halt(blackboard);
+      expect(blackboard.get('log')).toEqual(['start', 'update 0', 'abort']);
+    });
+
+    it('ends after async hooks settle', async () => {
+      const action = new ActionNode('Async Structured');
+      action.code = `
+        export async function onUpdate() {
+          await Promise.resolve();
+          return NodeStatus.FAILURE;
+        }
+        export function onEnd(status) { blackboard.set('ended', status); }
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      for (let i = 0; i < 10; i++) await Promise.resolve();
+      expect(blackboard.get('ended')).toBe(NodeStatus.FAILURE);
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('runs the default template', () => {
+      const action = new ActionNode();
+      expect(action.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Blackboard } from '../../src/core/Blackboard.js';
 
 describe('Blackboard', () => {
@@ -129,6 +129,24 @@ describe('Blackboard', () => {
       const dependencies = blackboard.getDependencies('neverAccessed');
       expect(dependencies).toEqual([]);
     });
+
+    it('remembers the last node that wrote a key', () => {
+      blackboard.set('target', 'enemy-1', 'scan-node');
+      blackboard.set('target', 'enemy-2', 'aim-node');
+      expect(blackboard.getLastWriter('target')).toBe('aim-node');
+
+      // Anonymous writes make the writer unknown
+      blackboard.set('target', null);
+      expect(blackboard.getLastWriter('target')).toBeNull();
+      expect(blackboard.getLastWriter('neverWritten')).toBeNull();
+    });
+
+    it('reports the writer of keys inherited from an enclosing scope', () => {
+      blackboard.set('alarm', true, 'guard-node');
+      const scope = blackboard.createScope();
+
+      expect(scope.getLastWriter('alarm')).toBe('guard-node');
+    });
   });
 
   describe('Utility Methods', () => {
@@ -233,4 +251,81 @@ describe('Blackboard', () => {
       expect(blackboard.has('key3')).toBe(false);
     });
   });
+
+  describe('Change Notification', () => {
+    it('onChange() reports old and new values with the writing node', () => {
+      const changes: any[] = [];
+      blackboard.onChange('health', change => changes.push(change));
+
+      blackboard.set('health', 100);
+      blackboard.set('health', 80, 'node-1');
+
+      expect(changes).toEqual([
+        { key: 'health', oldValue: undefined, newValue: 100, nodeId: undefined },
+        { key: 'health', oldValue: 100, newValue: 80, nodeId: 'node-1' }
+      ]);
+    });
+
+    it('does not notify when a primitive value is unchanged', () => {
+      let count = 0;
+      blackboard.onChange('flag', () => count++);
+
+      blackboard.set('flag', true);
+      blackboard.set('flag', true);
+      blackboard.set('other', 1);
+
+      expect(count).toBe(1);
+    });
+
+    it('notifies on delete() and clear()', () => {
+      const changes: any[] = [];
+      blackboard.set('a', 1);
+      blackboard.set('b', 2);
+      blackboard.onChange('a', change => changes.push(change.newValue));
+      blackboard.onChange('b', change => changes.push(change.newValue));
+
+      blackboard.delete('a');
+      blackboard.clear();
+
+      expect(changes).toEqual([undefined, undefined]);
+    });
+
+    it('supports wildcard subscriptions', () => {
+      const all: string[] = [];
+      const enemy: string[] = [];
+      blackboard.onChange('*', change => all.push(change.key));
+      blackboard.onChange('enemy.*', change => enemy.push(change.key));
+
+      blackboard.set('health', 50);
+      blackboard.set('enemy.position', { x: 1, y: 2 });
+      blackboard.set('enemy.visible', true);
+
+      expect(all).toEqual(['health', 'enemy.position', 'enemy.visible']);
+      expect(enemy).toEqual(['enemy.position', 'enemy.visible']);
+    });
+
+    it('keeps notifying other handlers when one throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      let count = 0;
+      blackboard.onChange('key', () => { throw new Error('boom'); });
+      blackboard.onChange('*', () => count++);
+
+      blackboard.set('key', 1);
+
+      expect(count).toBe(1);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('returns an unsubscribe function', () => {
+      let count = 0;
+      const unsubscribe = blackboard.onChange('key', () => count++);
+
+      blackboard.set('key', 1);
+      unsubscribe();
+      blackboard.set('key', 2);
+
+      expect(count).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BlackboardSchema } from '../../src/core/BlackboardSchema.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('BlackboardSchema', () => {
+  let schema: BlackboardSchema;
+
+  beforeEach(() => {
+    schema = new BlackboardSchema();
+    schema.define({ key: 'health', type: 'number', defaultValue: 100, description: 'Hit points' });
+    schema.define({ key: 'target', type: 'entity-ref', defaultValue: null });
+    schema.define({ key: 'home', type: 'vector', defaultValue: { x: 1, y: 2 } });
+  });
+
+  describe('Declarations', () => {
+    it('rejects defaults that do not match the type', () => {
+      expect(() => schema.define({ key: 'name', type: 'string', defaultValue: 5 }))
+        .toThrow('must be of type string');
+    });
+
+    it('rejects empty keys and unknown types', () => {
+      expect(() => schema.define({ key: ' ', type: 'number', defaultValue: 0 })).toThrow();
+      expect(() => schema.define({ key: 'x', type: 'date' as any, defaultValue: 0 })).toThrow();
+    });
+
+    it('returns copies of object defaults', () => {
+      const defaults = schema.getDefaults();
+      defaults.home.x = 99;
+
+      expect(schema.getDefaults().home).toEqual({ x: 1, y: 2 });
+    });
+
+    it('round-trips through JSON and skips invalid entries', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const data = [...schema.toJSON(), { key: 'broken', type: 'number', defaultValue: 'oops' }];
+
+      const loaded = BlackboardSchema.fromJSON(data);
+
+      expect(loaded.getDefinitions().map(d => d.key)).toEqual(['health', 'target', 'home']);
+      expect(loaded.get('health')?.description).toBe('Hit points');
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Validation', () => {
+    it('accepts values of the declared type', () => {
+      expect(schema.validate('health', 50)).toBeNull();
+      expect(schema.validate('target', 'enemy-7')).toBeNull();
+      expect(schema.validate('target', null)).toBeNull();
+      expect(schema.validate('home', { x: 0, y: 0, z: 3 })).toBeNull();
+    });
+
+    it('reports unknown keys and type mismatches', () => {
+      expect(schema.validate('helth', 50)).toContain('Unknown blackboard key "helth"');
+      expect(schema.validate('health', '50')).toBe('Blackboard key "health" expects number, got string');
+      expect(schema.validate('home', { x: 0 })).toContain('expects vector');
+    });
+  });
+
+  describe('Strict Blackboard', () => {
+    let blackboard: Blackboard;
+
+    beforeEach(() => {
+      blackboard = new Blackboard();
+      blackboard.setSchema(schema);
+    });
+
+    it('is not enforced unless strict', () => {
+      blackboard.set('anything', 'goes');
+      expect(blackboard.get('anything')).toBe('goes');
+    });
+
+    it('throws on undeclared keys and mistyped values in strict mode', () => {
+      blackboard.strict = true;
+
+      expect(() => blackboard.set('helth', 5)).toThrow('Unknown blackboard key');
+      expect(() => blackboard.set('health', 'full')).toThrow('expects number');
+      expect(() => blackboard.get('helth')).toThrow('Unknown blackboard key');
+
+      blackboard.set('health', 5);
+      expect(blackboard.get('health')).toBe(5);
+    });
+
+    it('never checks reserved editor keys', () => {
+      blackboard.strict = true;
+      blackboard.set('__error_node-1', { message: 'boom' });
+      expect(blackboard.get('__error_node-1')).toEqual({ message: 'boom' });
+    });
+
+    it('makes typos in action code fail the node', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      blackboard.strict = true;
+      const action = new ActionNode('Heal');
+      action.code = `blackboard.set('helth', 100); return NodeStatus.SUCCESS;`;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(blackboard.get(`__error_${action.id}`).message).toContain('helth');
+      errorSpy.mockRestore();
+    });
+
+    it('reset() seeds declared keys with their defaults', () => {
+      blackboard.set('health', 10);
+      blackboard.set('scratch', true);
+
+      blackboard.reset();
+
+      expect(blackboard.toJSON()).toEqual({ health: 100, target: null, home: { x: 1, y: 2 } });
+    });
+  });
+
+  describe('BehaviorTree integration', () => {
+    it('saves the schema and seeds defaults when loading', () => {
+      const tree = new BehaviorTree();
+      tree.blackboard.setSchema(schema);
+      tree.blackboard.strict = true;
+      tree.blackboard.set('health', 42);
+
+      const data = tree.toJSON();
+      expect(data.blackboard.schema).toHaveLength(3);
+      expect(data.blackboard.strict).toBe(true);
+
+      const loaded = new BehaviorTree();
+      loaded.fromJSON(data, () => new ActionNode());
+
+      expect(loaded.blackboard.strict).toBe(true);
+      expect(loaded.blackboard.get('health')).toBe(42);
+      expect(loaded.blackboard.get('home')).toEqual({ x: 1, y: 2 });
+    });
+
+    it('stop() restores schema defaults', () => {
+      const tree = new BehaviorTree();
+      tree.blackboard.setSchema(schema);
+      tree.blackboard.set('health', 5);
+
+      tree.stop();
+
+      expect(tree.blackboard.get('health')).toBe(100);
+      expect(tree.blackboard.size()).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { BlackboardSchema } from '../../src/core/BlackboardSchema.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { ScopeNode } from '../../src/nodes/decorators/ScopeNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { StartNode } from '../../src/nodes/decorators/StartNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('Blackboard Scopes', () => {
+  let parent: Blackboard;
+
+  beforeEach(() => {
+    parent = new Blackboard();
+    parent.set('health', 100);
+    parent.set('enemy', 'orc-1');
+  });
+
+  describe('Scope chain', () => {
+    it('reads fall back to the parent scope', () => {
+      const scope = parent.createScope();
+
+      expect(scope.get('health')).toBe(100);
+      expect(scope.has('health')).toBe(true);
+      expect(scope.parent).toBe(parent);
+    });
+
+    it('writes stay local and shadow the parent', () => {
+      const scope = parent.createScope();
+
+      scope.set('health', 5);
+      scope.set('temp', true);
+
+      expect(scope.get('health')).toBe(5);
+      expect(parent.get('health')).toBe(100);
+      expect(parent.has('temp')).toBe(false);
+      expect(scope.keys()).toEqual(['health', 'temp']);
+    });
+
+    it('ported keys are read and written through to the parent', () => {
+      const scope = parent.createScope({ ports: { target: 'enemy' } });
+
+      expect(scope.get('target')).toBe('orc-1');
+
+      scope.set('target', 'orc-2', 'node-1');
+
+      expect(parent.get('enemy')).toBe('orc-2');
+      expect(parent.getDependencies('enemy')).toEqual(['node-1']);
+      expect(scope.keys()).toEqual([]);
+    });
+
+    it('isolated scopes only see ported keys', () => {
+      const scope = parent.createScope({ ports: { target: 'enemy' }, isolated: true });
+
+      expect(scope.get('health')).toBeUndefined();
+      expect(scope.has('health')).toBe(false);
+      expect(scope.get('target')).toBe('orc-1');
+    });
+
+    it('@ keys address the root of the chain', () => {
+      const inner = parent.createScope().createScope();
+
+      inner.set('@alert', true);
+
+      expect(parent.get('alert')).toBe(true);
+      expect(inner.get('@alert')).toBe(true);
+      expect(inner.getRoot()).toBe(parent);
+    });
+
+    it('notifies observers of the scope that owns the key', () => {
+      const scope = parent.createScope({ ports: { target: 'enemy' } });
+      const changes: string[] = [];
+      parent.onChange('*', change => changes.push(change.key));
+
+      scope.set('target', 'orc-3');
+      scope.set('local', 1);
+
+      expect(changes).toEqual(['enemy']);
+    });
+
+    it('strict mode still allows reads that fall back to the parent', () => {
+      const scope = parent.createScope();
+      const schema = new BlackboardSchema();
+      schema.define({ key: 'local', type: 'number', defaultValue: 0 });
+      scope.setSchema(schema);
+      scope.strict = true;
+
+      expect(scope.get('health')).toBe(100);
+      expect(() => scope.get('helth')).toThrow('Unknown blackboard key');
+    });
+
+    it('inherits strict mode and the schema chain from the parent', () => {
+      const schema = new BlackboardSchema();
+      schema.define({ key: 'ammo', type: 'number', defaultValue: 0 });
+      parent.setSchema(schema);
+      parent.strict = true;
+
+      const scope = parent.createScope();
+      expect(scope.strict).toBe(true);
+      scope.set('ammo', 3);
+      expect(scope.get('ammo')).toBe(3);
+      expect(parent.get('ammo')).toBeUndefined();
+      expect(() => scope.set('ammo', 'lots')).toThrow('expects number');
+      expect(() => scope.set('scratch', 1)).toThrow('Unknown blackboard key');
+
+      // Isolated scopes do not see the parent's declarations
+      const isolated = parent.createScope({ isolated: true });
+      expect(() => isolated.set('ammo', 3)).toThrow('Unknown blackboard key');
+
+      // A scope can opt out
+      scope.strict = false;
+      scope.set('scratch', 1);
+      expect(parent.strict).toBe(true);
+    });
+
+    it('parses port remappings', () => {
+      expect(Blackboard.parsePorts('target = enemy, result=@squad, speed')).toEqual({
+        target: 'enemy',
+        result: '@squad',
+        speed: 'speed'
+      });
+      expect(Blackboard.parsePorts('')).toEqual({});
+    });
+  });
+
+  describe('ScopeNode', () => {
+    it('runs its child in a local scope with port remapping', () => {
+      const scopeNode = new ScopeNode();
+      scopeNode.parameters.set('ports', 'target=enemy, result=lastResult');
+
+      const action = new ActionNode('Attack');
+      action.code = `
+        blackboard.set('scratch', 1);
+        blackboard.set('result', 'hit ' + blackboard.get('target'));
+        return NodeStatus.SUCCESS;
+      `;
+      scopeNode.addChild(action);
+
+      expect(scopeNode.tick(parent)).toBe(NodeStatus.SUCCESS);
+      expect(parent.get('lastResult')).toBe('hit orc-1');
+      expect(parent.has('scratch')).toBe(false);
+      expect(scopeNode.getScope(parent).get('scratch')).toBe(1);
+
+      // Local keys are discarded on reset
+      scopeNode.reset();
+      expect(scopeNode.getScope(parent).has('scratch')).toBe(false);
+    });
+  });
+
+  describe('Global blackboard', () => {
+    it('is shared between trees while each tree keeps local state', async () => {
+      const global = new Blackboard();
+      const agents = [new BehaviorTree({ globalBlackboard: global }), new BehaviorTree({ globalBlackboard: global })];
+
+      agents.forEach((tree, index) => {
+        const start = new StartNode();
+        const action = new ActionNode('Report');
+        action.code = `
+          blackboard.set('id', ${index});
+          blackboard.set('@reports', (blackboard.get('@reports') || 0) + 1);
+          return NodeStatus.SUCCESS;
+        `;
+        start.addChild(action);
+        tree.setAllNodes([start, action]);
+      });
+
+      for (const tree of agents) {
+        await tree.tick();
+      }
+
+      expect(global.get('reports')).toBe(2);
+      expect(agents[0].blackboard.get('id')).toBe(0);
+      expect(agents[1].blackboard.get('id')).toBe(1);
+      expect(agents[1].blackboard.get('reports')).toBe(2);
+
+      // Resetting a tree leaves the global blackboard alone
+      agents[0].stop();
+      expect(global.get('reports')).toBe(2);
+    });
+  });
+});
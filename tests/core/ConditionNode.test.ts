@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConditionNode } from '../../src/nodes/leaves/ConditionNode.js';
+import { ConditionExpression } from '../../src/core/ConditionExpression.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { UnityCSharpExporter } from '../../src/export/UnityCSharpExporter.js';
+
+function condition(key: string, operator: string, value: string, compareTo: string = 'value'): ConditionNode {
+  const node = new ConditionNode();
+  node.parameters.set('key', key);
+  node.parameters.set('operator', operator);
+  node.parameters.set('compareTo', compareTo);
+  node.parameters.set('value', value);
+  return node;
+}
+
+describe('ConditionNode', () => {
+  let blackboard: Blackboard;
+
+  beforeEach(() => {
+    blackboard = new Blackboard();
+    blackboard.set('health', 15);
+    blackboard.set('maxHealth', 100);
+    blackboard.set('state', 'idle');
+    blackboard.set('target', { x: 1, y: 2 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is a leaf of the condition category', () => {
+    const node = new ConditionNode();
+    expect(node.category).toBe('condition');
+    expect(node.type).toBe('condition');
+  });
+
+  describe('builder mode', () => {
+    it('compares a key with a value', () => {
+      expect(condition('health', '<', '20').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('health', '>=', '20').tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(condition('state', '==', 'idle').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('state', '==', '"idle"').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('target', '==', '{"x": 1, "y": 2}').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('health', '!=', '"15"').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('compares a key with another key', () => {
+      expect(condition('health', '<', 'maxHealth', 'key').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('health', '==', 'maxHealth', 'key').tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('checks whether a key is set', () => {
+      expect(condition('target', 'is set', '').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(condition('enemy', 'is set', '').tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(condition('enemy', 'is not set', '').tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('does not order values of different types', () => {
+      expect(condition('state', '<', '20').tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(condition('state', '>=', '20').tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('fails without a key', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const node = condition('', '==', '1');
+
+      expect(node.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(node.lastError).toBe('No blackboard key selected');
+    });
+
+    it('describes the condition', () => {
+      expect(condition('health', '<', '20').describe()).toBe('health < 20');
+      expect(condition('state', '==', 'idle').describe()).toBe('state == "idle"');
+      expect(condition('health', '<', 'maxHealth', 'key').describe()).toBe('health < maxHealth');
+      expect(ConditionExpression.describe({ key: 'enemy', operator: 'is set', compareTo: 'value', value: '' })).toBe('enemy is set');
+    });
+  });
+
+  describe('script mode', () => {
+    function script(expression: string): ConditionNode {
+      const node = new ConditionNode();
+      node.parameters.set('mode', 'script');
+      node.parameters.set('script', expression);
+      return node;
+    }
+
+    it('evaluates the expression', () => {
+      expect(script("blackboard.get('health') < 20").tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(script("blackboard.get('health') > 20").tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(script('NodeStatus.FAILURE').tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('never returns RUNNING', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const running = script('NodeStatus.RUNNING');
+      expect(running.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(running.lastError).toMatch(/RUNNING/);
+
+      const pending = script('new Promise(() => {})');
+      expect(pending.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(pending.lastError).toMatch(/synchronous/);
+    });
+
+    it('only uses the parameters of its mode', () => {
+      const node = script('true');
+      expect(node.usesParameter('script')).toBe(true);
+      expect(node.usesParameter('key')).toBe(false);
+      expect(node.usesParameter('mode')).toBe(true);
+    });
+  });
+
+  it('exports script conditions to Unity as conditions', () => {
+    const tree = new BehaviorTree();
+    const root = new ConditionNode('Enemy Visible');
+    root.parameters.set('mode', 'script');
+    tree.setRoot(root);
+
+    const code = UnityCSharpExporter.export(tree);
+    expect(code).toContain('treeRunner.RegisterCondition("Enemy Visible", EnemyVisible);');
+    expect(code).toContain('bool EnemyVisible()');
+    expect(code).not.toContain('RegisterAction');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NodeRegistry } from '../../src/core/NodeRegistry.js';
+import { registerDefaultNodes } from '../../src/core/DefaultNodes.js';
+import { HeadlessRuntime } from '../../src/runtime/HeadlessRuntime.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { GoToNode } from '../../src/nodes/leaves/GoToNode.js';
+
+/**
+ * Builds a tree export: Start → sequence of the given children, plus detached nodes
+ */
+function createTreeJSON(children: any[], detached: any[] = []): any {
+  const nodes = [...children, ...detached];
+  return {
+    version: '1.2',
+    metadata: { created: '2025-01-01T00:00:00.000Z' },
+    tree: {
+      nodes: [
+        { id: 'start', type: 'start', label: 'Start', position: { x: 0, y: 0 }, children: ['main'] },
+        { id: 'main', type: 'sequence', label: 'Main', position: { x: 0, y: 100 }, children: children.map(node => node.id) },
+        ...nodes.map(node => ({ position: { x: 0, y: 200 }, children: [], ...node }))
+      ],
+      root: null
+    },
+    blackboard: { initialValues: { calls: 0 } }
+  };
+}
+
+function goTo(id: string, target: string, failIfNotFound: boolean = true): any {
+  return { id, type: 'goto', label: id, parameters: { targetName: target, failIfNotFound } };
+}
+
+const countCall = {
+  id: 'count',
+  type: 'action',
+  label: 'Count Call',
+  code: `blackboard.set('calls', blackboard.get('calls') + 1); return NodeStatus.SUCCESS;`
+};
+
+describe('GoToNode', () => {
+  beforeEach(() => {
+    if (!NodeRegistry.has('start')) {
+      registerDefaultNodes();
+    }
+  });
+
+  it('runs the target instance, found by id or label', async () => {
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON(
+      [goTo('byId', 'count'), goTo('byLabel', 'Count Call')],
+      [countCall]
+    ));
+
+    expect(await runtime.tick()).toBe(NodeStatus.SUCCESS);
+    expect(runtime.blackboard.get('calls')).toBe(2);
+
+    const jump = runtime.findNode('byId') as GoToNode;
+    expect(jump.getTarget()).toBe(runtime.findNode('count'));
+  });
+
+  it('keeps the state of a running target between ticks', async () => {
+    const wait = { id: 'wait', type: 'wait', label: 'Wait', parameters: { waitTicks: 2 } };
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON([goTo('jump', 'wait'), countCall], [wait]));
+
+    expect(await runtime.tick()).toBe(NodeStatus.RUNNING);
+    expect(runtime.findNode('wait')!.status).toBe(NodeStatus.RUNNING);
+    expect(await runtime.tick()).toBe(NodeStatus.RUNNING);
+    expect(await runtime.tick()).toBe(NodeStatus.SUCCESS);
+    expect(runtime.blackboard.get('calls')).toBe(1);
+
+    // The completed target starts over on the next jump
+    expect(runtime.findNode('wait')!.status).toBe(NodeStatus.IDLE);
+  });
+
+  it('reports missing targets', async () => {
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON([goTo('missing', 'nowhere', false), goTo('strict', 'nowhere')]));
+    const missing = runtime.findNode('missing') as GoToNode;
+
+    expect(missing.validate()).toBeNull();
+    expect(missing.lastError).toBe('Target "nowhere" not found');
+
+    expect(missing.tick(runtime.blackboard)).toBe(NodeStatus.SUCCESS);
+    expect(runtime.findNode('strict')!.tick(runtime.blackboard)).toBe(NodeStatus.FAILURE);
+    expect(await runtime.tick()).toBe(NodeStatus.FAILURE);
+  });
+
+  it('rejects jumps back into themselves', async () => {
+    const loop = { id: 'loop', type: 'sequence', label: 'Loop', children: ['back'] };
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON(
+      [goTo('self', 'self'), goTo('ancestor', 'main'), goTo('into', 'loop')],
+      [loop, goTo('back', 'into')]
+    ));
+
+    const into = runtime.findNode('into') as GoToNode;
+    expect(into.validate()).toBeNull();
+    expect(into.lastError).toBe('Jump cycle: into → back → into');
+    expect((runtime.findNode('self') as GoToNode).validate()).toBeNull();
+    expect((runtime.findNode('ancestor') as GoToNode).validate()).toBeNull();
+
+    expect(await runtime.tick()).toBe(NodeStatus.FAILURE);
+  });
+
+  it('resolves the target once until the reference or the tree changes', async () => {
+    const other = { ...countCall, id: 'other', label: 'Other' };
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON([goTo('jump', 'count')], [countCall, other]));
+    const jump = runtime.findNode('jump') as GoToNode;
+    const findNode = vi.spyOn(runtime.tree, 'findNode');
+
+    await runtime.tick();
+    await runtime.tick();
+    expect(findNode).toHaveBeenCalledTimes(1);
+
+    jump.parameters.set('targetName', 'other');
+    expect(jump.getTarget()).toBe(runtime.findNode('other'));
+    expect(findNode).toHaveBeenCalledTimes(2);
+
+    runtime.tree.setRoot(runtime.tree.root);
+    expect(jump.getTarget()).toBe(runtime.findNode('other'));
+    expect(findNode).toHaveBeenCalledTimes(3);
+  });
+
+  it('notices when a followed jump changes its target', () => {
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON([goTo('first', 'second')], [goTo('second', 'count'), countCall]));
+    const first = runtime.findNode('first') as GoToNode;
+
+    expect(first.validate()).toBe(runtime.findNode('second'));
+
+    runtime.findNode('second')!.parameters.set('targetName', 'first');
+    expect(first.validate()).toBeNull();
+    expect(first.lastError).toBe('Jump cycle: first → second → first');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { TreeNode } from '../../src/core/TreeNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { BlackboardConditionNode } from '../../src/nodes/decorators/BlackboardConditionNode.js';
+import { IsSetNode } from '../../src/nodes/decorators/IsSetNode.js';
+import { ForceSuccessNode } from '../../src/nodes/decorators/ForceSuccessNode.js';
+import { ForceFailureNode } from '../../src/nodes/decorators/ForceFailureNode.js';
+import { SucceederNode } from '../../src/nodes/decorators/SucceederNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+
+describe('Guard Decorators', () => {
+  let tree: BehaviorTree;
+
+  // Counts its runs in the blackboard; runs for `ticks` ticks, then returns `result`
+  function action(ticks: number = 0, result: string = 'SUCCESS'): ActionNode {
+    const node = new ActionNode();
+    node.code = `
+      if (tick === 0) blackboard.set('runs', (blackboard.get('runs') || 0) + 1);
+      return tick < ${ticks} ? NodeStatus.RUNNING : NodeStatus.${result};
+    `;
+    return node;
+  }
+
+  function decorate<T extends TreeNode>(decorator: T, child?: TreeNode, parameters: Record<string, any> = {}): T {
+    Object.entries(parameters).forEach(([name, value]) => decorator.parameters.set(name, value));
+    if (child) decorator.addChild(child);
+    tree.setRoot(decorator);
+    return decorator;
+  }
+
+  beforeEach(() => {
+    tree = new BehaviorTree();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('BlackboardConditionNode', () => {
+    it('runs the child only while the key compares to the value', async () => {
+      decorate(new BlackboardConditionNode(), action(), { key: 'health', operator: '<', value: '20' });
+
+      tree.blackboard.set('health', 50);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(tree.blackboard.get('runs')).toBeUndefined();
+
+      tree.blackboard.set('health', 10);
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      expect(tree.blackboard.get('runs')).toBe(1);
+    });
+
+    it('compares with another key and aborts itself when the condition fails', async () => {
+      const child = action(100);
+      decorate(new BlackboardConditionNode(), child, {
+        key: 'distance', operator: '<=', compareTo: 'key', value: 'range', abortMode: 'self'
+      });
+      tree.blackboard.set('range', 5);
+      tree.blackboard.set('distance', 3);
+
+      expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+      tree.blackboard.set('distance', 8);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(child.status).toBe(NodeStatus.IDLE);
+    });
+
+    it('fails without a key', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const guard = decorate(new BlackboardConditionNode(), action());
+
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(guard.lastError).toBe('No blackboard key selected');
+    });
+
+    it('only defines the builder parameters and observer aborts', () => {
+      const guard = new BlackboardConditionNode();
+      expect(Array.from(guard.parameters.getDefinitions().keys()))
+        .toEqual(['key', 'operator', 'compareTo', 'value', 'observedKeys', 'abortMode']);
+      guard.parameters.set('key', 'state');
+      guard.parameters.set('value', 'idle');
+      expect(guard.describe()).toBe('state == "idle"');
+    });
+  });
+
+  describe('IsSetNode', () => {
+    it('checks whether the key is set', async () => {
+      const isSet = decorate(new IsSetNode(), action(), { key: 'target' });
+
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      tree.blackboard.set('target', { x: 1 });
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      expect(isSet.describe()).toBe('target is set');
+    });
+
+    it('checks whether the key is not set', async () => {
+      const isNotSet = decorate(new IsSetNode(false), action(), { key: 'target' });
+      expect(isNotSet.type).toBe('is-not-set');
+
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      tree.blackboard.set('target', 0);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+    });
+  });
+
+  describe('ForceSuccessNode and ForceFailureNode', () => {
+    it('replace the result once the child completes', async () => {
+      decorate(new ForceSuccessNode(), action(1, 'FAILURE'));
+      expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+
+      decorate(new ForceFailureNode(), action(1));
+      expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+    });
+
+    it('fail without a child', async () => {
+      decorate(new ForceSuccessNode());
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+    });
+  });
+
+  describe('SucceederNode', () => {
+    it('succeeds at once and halts a running child', async () => {
+      const child = action(100, 'FAILURE');
+      decorate(new SucceederNode(), child);
+
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      expect(child.status).toBe(NodeStatus.IDLE);
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      expect(tree.blackboard.get('runs')).toBe(2);
+    });
+
+    it('succeeds without a child', async () => {
+      decorate(new SucceederNode());
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { ParallelNode } from '../../src/nodes/composites/ParallelNode.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { StartNode } from '../../src/nodes/decorators/StartNode.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+/**
+ * Creates an action that keeps RUNNING and records lifecycle hooks in a shared log
+ */
+function createRunningAction(label: string): ActionNode {
+  const action = new ActionNode(label);
+  action.code = `
+    function OnAbort() {
+      blackboard.get('log').push('abort:' + nodeId + ':' + tick);
+    }
+
+    function OnEnd(status) {
+      blackboard.get('log').push('end:' + nodeId);
+    }
+
+    return NodeStatus.RUNNING;
+  `;
+  return action;
+}
+
+describe('Halt Protocol', () => {
+  let blackboard: Blackboard;
+  let log: string[];
+
+  beforeEach(() => {
+    blackboard = new Blackboard();
+    log = [];
+    blackboard.set('log', log);
+  });
+
+  it('calls OnAbort() when a RUNNING action is halted', () => {
+    const action = createRunningAction('Animate');
+
+    action.tick(blackboard);
+    action.tick(blackboard);
+    action.halt(blackboard);
+
+    expect(log).toEqual([`abort:${action.id}:2`]);
+    expect(action.status).toBe(NodeStatus.IDLE);
+  });
+
+  it('does not call hooks when the node is not RUNNING', () => {
+    const action = createRunningAction('Idle');
+
+    action.halt(blackboard);
+
+    expect(log).toEqual([]);
+  });
+
+  it('falls back to OnEnd(IDLE) for scripts without OnAbort()', () => {
+    const action = new ActionNode('Legacy');
+    action.code = `
+      function OnEnd(status) {
+        blackboard.get('log').push('end:' + status);
+      }
+      return NodeStatus.RUNNING;
+    `;
+
+    action.tick(blackboard);
+    action.halt(blackboard);
+
+    expect(log).toEqual([`end:${NodeStatus.IDLE}`]);
+  });
+
+  it('propagates down the running subtree', () => {
+    const sequence = new SequenceNode();
+    const done = new ActionNode('Done');
+    done.code = 'return NodeStatus.SUCCESS;';
+    const running = createRunningAction('Running');
+
+    sequence.addChild(done);
+    sequence.addChild(running);
+
+    expect(sequence.tick(blackboard)).toBe(NodeStatus.RUNNING);
+    sequence.halt(blackboard);
+
+    expect(log).toEqual([`abort:${running.id}:1`]);
+    expect(sequence.status).toBe(NodeStatus.IDLE);
+    expect(sequence.currentChildIndex).toBe(0);
+    expect(done.status).toBe(NodeStatus.IDLE);
+  });
+
+  it('Parallel halts children still RUNNING when it completes', () => {
+    const parallel = new ParallelNode();
+    parallel.config.minFailure = 1;
+
+    const running = createRunningAction('Long Task');
+    const failing = new ActionNode('Fail');
+    failing.code = 'return NodeStatus.FAILURE;';
+
+    parallel.addChild(running);
+    parallel.addChild(failing);
+
+    expect(parallel.tick(blackboard)).toBe(NodeStatus.FAILURE);
+    expect(log).toEqual([`abort:${running.id}:1`]);
+    expect(running.status).toBe(NodeStatus.IDLE);
+  });
+
+  it('BehaviorTree.stop() halts running nodes before resetting', async () => {
+    const tree = new BehaviorTree();
+    tree.blackboard.set('log', log);
+
+    const start = new StartNode();
+    const running = createRunningAction('Patrol');
+    start.addChild(running);
+    tree.setAllNodes([start, running]);
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    tree.stop();
+
+    expect(log).toEqual([`abort:${running.id}:1`]);
+    expect(running.status).toBe(NodeStatus.IDLE);
+    expect(start.status).toBe(NodeStatus.IDLE);
+  });
+
+  it('aborts the signal of pending async code on halt', () => {
+    const action = new ActionNode('Async');
+    action.code = `
+      blackboard.set('signal', signal);
+      await new Promise(() => {});
+      return NodeStatus.SUCCESS;
+    `;
+
+    action.tick(blackboard);
+    action.halt(blackboard);
+
+    expect((blackboard.get('signal') as AbortSignal).aborted).toBe(true);
+    expect(action.isPending()).toBe(false);
+  });
+});
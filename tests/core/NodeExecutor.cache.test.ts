@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeExecutor } from '../../src/core/NodeExecutor.js';
+import { ScriptHoister } from '../../src/core/ScriptHoister.js';
+import { Sandbox } from '../../src/core/Sandbox.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { UpdateNodeCodeOperation } from '../../src/actions/NodeOperations.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+
+describe('NodeExecutor compile cache', () => {
+  let blackboard: Blackboard;
+
+  beforeEach(() => {
+    NodeExecutor.invalidate();
+    blackboard = new Blackboard();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('compiles code once for all ticks and nodes', () => {
+    const compile = vi.spyOn(Sandbox.prototype, 'compile');
+    const first = new ActionNode();
+    const second = new ActionNode();
+
+    for (let i = 0; i < 3; i++) {
+      first.tick(blackboard);
+      second.tick(blackboard);
+    }
+
+    expect(first.status).toBe(NodeStatus.SUCCESS);
+    expect(compile).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches syntax errors too', () => {
+    const compile = vi.spyOn(Sandbox.prototype, 'compile');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(NodeExecutor.execute('return (', blackboard, 'broken')).toBe(NodeStatus.FAILURE);
+    expect(NodeExecutor.execute('return (', blackboard, 'broken')).toBe(NodeStatus.FAILURE);
+    expect(NodeExecutor.validateSyntax('return (')).toBeTruthy();
+    expect(compile).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps top-level functions between ticks', () => {
+    const code = `
+      function OnUpdate() {
+        blackboard.set('same', blackboard.get('previous') === OnUpdate);
+        blackboard.set('previous', OnUpdate);
+        return NodeStatus.SUCCESS;
+      }
+      return OnUpdate();
+    `;
+
+    const node = new ActionNode();
+    NodeExecutor.execute(code, blackboard, node.id, 0, {}, undefined, node);
+    expect(blackboard.get('same')).toBe(false);
+    NodeExecutor.execute(code, blackboard, node.id, 0, {}, undefined, node);
+    expect(blackboard.get('same')).toBe(true);
+  });
+
+  it('keeps state per node until its code is updated', () => {
+    const node = new ActionNode();
+    node.code = `state.runs = (state.runs || 0) + 1; blackboard.set('runs', state.runs); return NodeStatus.SUCCESS;`;
+    const other = new ActionNode();
+    other.code = node.code;
+
+    node.tick(blackboard);
+    node.tick(blackboard);
+    expect(blackboard.get('runs')).toBe(2);
+
+    other.tick(blackboard);
+    expect(blackboard.get('runs')).toBe(1);
+
+    const operation = new UpdateNodeCodeOperation(node, node.code);
+    operation.execute();
+    node.tick(blackboard);
+    expect(blackboard.get('runs')).toBe(1);
+  });
+
+  it('keeps state per node object when trees share node IDs', () => {
+    const data = {
+      version: '1.2',
+      metadata: {},
+      tree: {
+        nodes: [{
+          id: 'counter',
+          type: 'action',
+          label: 'Counter',
+          position: { x: 0, y: 0 },
+          code: `state.runs = (state.runs || 0) + 1; blackboard.set('runs', state.runs); return NodeStatus.SUCCESS;`,
+          children: []
+        }],
+        root: 'counter'
+      },
+      blackboard: { initialValues: {} }
+    };
+    const first = new BehaviorTree();
+    const second = new BehaviorTree();
+    first.fromJSON(data, () => new ActionNode());
+    second.fromJSON(data, () => new ActionNode());
+
+    first.root!.tick(first.blackboard);
+    first.root!.tick(first.blackboard);
+    second.root!.tick(second.blackboard);
+
+    expect(first.blackboard.get('runs')).toBe(2);
+    expect(second.blackboard.get('runs')).toBe(1);
+  });
+
+  it('leaves functions in place when they use script variables', () => {
+    const code = `
+      const speed = params.speed;
+      function OnUpdate() { blackboard.set('speed', speed); return NodeStatus.SUCCESS; }
+      return OnUpdate();
+    `;
+
+    expect(ScriptHoister.hoist(code)).toBeNull();
+
+    const node = new ActionNode();
+    NodeExecutor.execute(code, blackboard, node.id, 0, { speed: 1 }, undefined, node);
+    NodeExecutor.execute(code, blackboard, node.id, 0, { speed: 2 }, undefined, node);
+    expect(blackboard.get('speed')).toBe(2);
+  });
+});
+
+describe('ScriptHoister', () => {
+  it('splits top-level function declarations from the rest', () => {
+    const code = `function a() { return function () {}; }
+async function b() {}
+const x = a();
+if (x) { function c() {} }`;
+
+    const hoisted = ScriptHoister.hoist(code)!;
+
+    expect(hoisted.declarations).toBe('function a() { return function () {}; }\nasync function b() {}');
+    expect(hoisted.body.split('\n').map(line => line.trim())).toEqual(['', '', 'const x = a();', 'if (x) { function c() {} }']);
+  });
+
+  it('strips export from top-level function declarations only', () => {
+    const code = `export function onUpdate() { return 1; }\nexport async function onEnd() {}\nconst o = { export: 1 };`;
+    const { code: stripped, exports } = ScriptHoister.stripExports(code);
+
+    expect(exports).toEqual(['onUpdate', 'onEnd']);
+    expect(stripped).toBe(code.replace(/^export/gm, '      '));
+  });
+
+  it('does not hoist scripts with destructuring or without functions', () => {
+    expect(ScriptHoister.hoist('const { a } = params; function f() {}')).toBeNull();
+    expect(ScriptHoister.hoist('return NodeStatus.SUCCESS;')).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { NodeProfiler } from '../../src/core/NodeProfiler.js';
+import { TreeDebugger } from '../../src/core/TreeDebugger.js';
+import { TreeNode } from '../../src/core/TreeNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { SelectorNode } from '../../src/nodes/composites/SelectorNode.js';
+
+let now = 0;
+
+/**
+ * Leaf that takes a fixed amount of (fake) time and returns the given statuses in turn
+ */
+class CostlyNode extends TreeNode {
+  private calls = 0;
+
+  constructor(label: string, private cost: number, private statuses: NodeStatus[]) {
+    super('costly', label, 'leaf', '', '#000000');
+  }
+
+  public tick(): NodeStatus {
+    now += this.cost;
+    const status = this.statuses[Math.min(this.calls++, this.statuses.length - 1)];
+    this.status = status;
+    return status;
+  }
+}
+
+describe('NodeProfiler', () => {
+  let tree: BehaviorTree;
+  let profiler: NodeProfiler;
+  let root: SelectorNode;
+  let cheap: CostlyNode;
+  let expensive: CostlyNode;
+
+  beforeEach(() => {
+    now = 0;
+
+    // Selector(Cheap: FAILURE, Expensive: RUNNING, SUCCESS)
+    root = new SelectorNode();
+    cheap = new CostlyNode('Cheap', 1, [NodeStatus.FAILURE]);
+    expensive = new CostlyNode('Expensive', 10, [NodeStatus.RUNNING, NodeStatus.SUCCESS]);
+    root.addChild(cheap);
+    root.addChild(expensive);
+
+    tree = new BehaviorTree();
+    tree.setRoot(root);
+    profiler = new NodeProfiler({ now: () => now });
+    tree.setProfiler(profiler);
+  });
+
+  it('counts ticks and statuses per node', async () => {
+    await tree.tick();
+    await tree.tick();
+
+    expect(profiler.getTickCount()).toBe(2);
+    expect(profiler.getProfile(expensive.id)).toMatchObject({ count: 2, running: 1, success: 1, failure: 0 });
+    expect(profiler.getProfile(root.id)).toMatchObject({ count: 2, running: 1, success: 1 });
+    // The selector resumes at the running child, so Cheap only ran once
+    expect(profiler.getProfile(cheap.id)).toMatchObject({ count: 1, failure: 1 });
+  });
+
+  it('measures total, self and max time', async () => {
+    await tree.tick();
+    await tree.tick();
+
+    expect(profiler.getProfile(expensive.id)).toMatchObject({ totalTime: 20, selfTime: 20, maxTime: 10 });
+    expect(profiler.getProfile(root.id)).toMatchObject({ totalTime: 21, selfTime: 0, maxTime: 11 });
+  });
+
+  it('sorts profiles and computes the heat of each node', async () => {
+    await tree.tick();
+
+    const sorted = profiler.getProfiles('selfTime').map(profile => profile.nodeId);
+    expect(sorted).toEqual([expensive.id, cheap.id, root.id]);
+    expect(profiler.getProfiles('selfTime', false)[0].nodeId).toBe(root.id);
+
+    expect(profiler.getHeat(expensive.id)).toBe(1);
+    expect(profiler.getHeat(cheap.id)).toBeCloseTo(0.1);
+    expect(profiler.getHeat('unknown')).toBe(0);
+  });
+
+  it('starts over when the tree is reset', async () => {
+    await tree.tick();
+    tree.reset();
+    await tree.tick();
+
+    expect(profiler.getTickCount()).toBe(1);
+    expect(profiler.getProfile(root.id)!.count).toBe(1);
+  });
+
+  it('records nothing while disabled', async () => {
+    profiler.enabled = false;
+    await tree.tick();
+
+    expect(profiler.getProfiles()).toEqual([]);
+  });
+
+  it('profiles alongside the debugger', async () => {
+    const treeDebugger = new TreeDebugger();
+    treeDebugger.setBreakpoint(expensive.id, NodeStatus.RUNNING);
+    tree.setDebugger(treeDebugger);
+
+    await tree.tick();
+
+    expect(treeDebugger.getLastHit()).toMatchObject({ nodeId: expensive.id });
+    expect(profiler.getProfile(expensive.id)!.count).toBe(1);
+    expect(TreeNode.tickListener).toBeNull();
+  });
+});
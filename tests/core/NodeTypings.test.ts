@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { NodeTypings } from '../../src/core/NodeTypings.js';
+import { NodeParameters } from '../../src/core/NodeParameter.js';
+import { BlackboardSchema } from '../../src/core/BlackboardSchema.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { UpdateNodeCodeOperation } from '../../src/actions/NodeOperations.js';
+
+/**
+ * Type checks node code against the declarations, like the code editor does
+ * (returns the messages of all errors)
+ */
+function check(typings: string, code: string): string[] {
+  const options: ts.CompilerOptions = { target: ts.ScriptTarget.ES2020, lib: ['lib.es2020.d.ts'], noEmit: true };
+  const files: Record<string, string> = { 'bt-types.d.ts': typings, 'node.ts': code };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, version, ...rest) =>
+    name in files ? ts.createSourceFile(name, files[name], version) : getSourceFile(name, version, ...rest);
+
+  const program = ts.createProgram(Object.keys(files), options, host);
+  return ts.getPreEmitDiagnostics(program)
+    // Top-level return and await are allowed in node code
+    .filter(diagnostic => ![1108, 1375, 1378].includes(diagnostic.code))
+    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+describe('NodeTypings', () => {
+  const parameters = new NodeParameters();
+  parameters.define('speed', { type: 'number', label: 'Speed', defaultValue: 1 });
+  parameters.define('mode', { type: 'select', label: 'Mode', defaultValue: 'walk', options: ['walk', 'run'] });
+
+  const schema = new BlackboardSchema();
+  schema.define({ key: 'health', type: 'number', defaultValue: 100 });
+  schema.define({ key: 'target', type: 'vector', defaultValue: { x: 0, y: 0 } });
+
+  const typings = NodeTypings.generate(parameters, schema);
+
+  it('accepts well-typed node code', () => {
+    const code = `
+      function OnUpdate(tick: number): NodeStatus {
+        const health: number = blackboard.get('health');
+        const target = blackboard.get('target');
+        blackboard.set('health', health - params.speed * target.x);
+        state.last = nodeId;
+        const other = blackboard.get<string>('undeclared');
+        if (params.mode === 'run' && other) console.log(other);
+        return tick > 10 ? NodeStatus.SUCCESS : NodeStatus.RUNNING;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return OnUpdate(tick);
+    `;
+
+    expect(check(typings, code)).toEqual([]);
+  });
+
+  it('reports type errors against params, blackboard keys and NodeStatus', () => {
+    const errors = check(typings, `
+      blackboard.set('health', 'full');
+      const mode: 'fly' = params.mode;
+      params.missing;
+      document.title;
+      const status: NodeStatus = NodeStatus.DONE;
+      return status;
+    `);
+
+    expect(errors).toHaveLength(5);
+    expect(errors.join('\n')).toMatch(/'missing'/);
+    expect(errors.join('\n')).toMatch(/'document'/);
+  });
+
+  it('declares a node without parameters or schema', () => {
+    expect(check(NodeTypings.generate(new NodeParameters()), 'return NodeStatus.SUCCESS;')).toEqual([]);
+  });
+});
+
+describe('TypeScript node code', () => {
+  it('keeps the source next to the transpiled code, undoably', () => {
+    const node = new ActionNode();
+    const javascript = node.code!;
+
+    const operation = new UpdateNodeCodeOperation(node, 'return NodeStatus.SUCCESS;', 'return NodeStatus.SUCCESS as NodeStatus;');
+    operation.execute();
+
+    const copy = new ActionNode();
+    copy.fromJSON(node.toJSON());
+    expect(copy.sourceCode).toBe('return NodeStatus.SUCCESS as NodeStatus;');
+
+    operation.undo();
+    expect(node.code).toBe(javascript);
+    expect(node.sourceCode).toBeUndefined();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConditionalNode, ObserverAbortMode } from '../../src/nodes/decorators/ConditionalNode.js';
+import { SelectorNode } from '../../src/nodes/composites/SelectorNode.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { EditorState } from '../../src/state/EditorState.js';
+
+/**
+ * Creates a Conditional decorator
+ */
+function createConditional(condition: string, abortMode: ObserverAbortMode, observedKeys: string = ''): ConditionalNode {
+  const conditional = new ConditionalNode();
+  conditional.parameters.set('condition', condition);
+  conditional.parameters.set('abortMode', abortMode);
+  conditional.parameters.set('observedKeys', observedKeys);
+  return conditional;
+}
+
+/**
+ * Action that runs forever and logs ticks and aborts
+ */
+function createLongAction(label: string): ActionNode {
+  const action = new ActionNode(label);
+  action.code = `
+    function OnAbort() {
+      blackboard.get('log').push('abort:${label}');
+    }
+    blackboard.get('log').push('tick:${label}');
+    return NodeStatus.RUNNING;
+  `;
+  return action;
+}
+
+describe('Observer Aborts', () => {
+  let blackboard: Blackboard;
+  let log: string[];
+
+  beforeEach(() => {
+    blackboard = new Blackboard();
+    log = [];
+    blackboard.set('log', log);
+  });
+
+  describe('ConditionalNode', () => {
+    it('fails without ticking the child when the condition is false', () => {
+      const conditional = createConditional("blackboard.get('ready') === true", 'none');
+      conditional.addChild(createLongAction('Work'));
+
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(log).toEqual([]);
+    });
+
+    it('mode "none" only checks the condition on entry', () => {
+      const conditional = createConditional("blackboard.get('ready')", 'none');
+      conditional.addChild(createLongAction('Work'));
+
+      blackboard.set('ready', true);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      blackboard.set('ready', false);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(log).toEqual(['tick:Work', 'tick:Work']);
+    });
+
+    it('mode "self" aborts the running child when an observed key changes', () => {
+      const conditional = createConditional("blackboard.get('health') < 20", 'self', 'health');
+      conditional.addChild(createLongAction('Flee'));
+
+      blackboard.set('health', 10);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      blackboard.set('health', 90);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(log).toEqual(['tick:Flee', 'abort:Flee']);
+    });
+
+    it('does not re-evaluate while running when observed keys are unchanged', () => {
+      const conditional = createConditional("blackboard.get('count') === 1", 'self', 'trigger');
+      conditional.addChild(createLongAction('Work'));
+
+      blackboard.set('count', 1);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      // 'count' is not observed, so the change goes unnoticed
+      blackboard.set('count', 2);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      blackboard.set('trigger', true);
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('treats expression errors as false', () => {
+      const conditional = createConditional('missing.value > 1', 'none');
+      conditional.addChild(createLongAction('Work'));
+
+      expect(conditional.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(blackboard.has(`__error_${conditional.id}`)).toBe(true);
+    });
+
+    it('stops observing the blackboard once removed from the tree', () => {
+      const editorState = new EditorState();
+      const treeBlackboard = editorState.behaviorTree.blackboard;
+      const conditional = createConditional("blackboard.get('ready') === true", 'self', 'ready');
+      conditional.addChild(new ActionNode('Work'));
+      editorState.addNode(conditional);
+
+      // Counts the calls of the handlers the node subscribes
+      let calls = 0;
+      const onChange = treeBlackboard.onChange.bind(treeBlackboard);
+      vi.spyOn(treeBlackboard, 'onChange').mockImplementation((key, handler) => onChange(key, (...args) => {
+        calls++;
+        handler(...args);
+      }));
+
+      conditional.tick(treeBlackboard);
+      treeBlackboard.set('ready', true);
+      expect(calls).toBe(1);
+
+      editorState.removeNode(conditional);
+      treeBlackboard.set('ready', false);
+      expect(calls).toBe(1);
+    });
+
+    it('stops observing the blackboard when the tree is disposed', () => {
+      const editorState = new EditorState();
+      const treeBlackboard = editorState.behaviorTree.blackboard;
+      const conditional = createConditional("blackboard.get('ready') === true", 'self', 'ready');
+      conditional.addChild(new ActionNode('Work'));
+      editorState.addNode(conditional);
+
+      const unsubscribe = vi.fn();
+      vi.spyOn(treeBlackboard, 'onChange').mockReturnValue(unsubscribe);
+
+      conditional.tick(treeBlackboard);
+      editorState.behaviorTree.dispose();
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Lower-priority aborts', () => {
+    function createCombatTree(mode: ObserverAbortMode): SelectorNode {
+      const selector = new SelectorNode();
+      const combat = createConditional("blackboard.get('enemySeen') === true", mode, 'enemySeen');
+      combat.addChild(createLongAction('Attack'));
+      selector.addChild(combat);
+      selector.addChild(createLongAction('Patrol'));
+      return selector;
+    }
+
+    it('Selector interrupts a lower-priority branch when the condition becomes true', () => {
+      const selector = createCombatTree('lower-priority');
+
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.currentChildIndex).toBe(1);
+
+      blackboard.set('enemySeen', true);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.currentChildIndex).toBe(0);
+      expect(log).toEqual(['tick:Patrol', 'tick:Patrol', 'abort:Patrol', 'tick:Attack']);
+    });
+
+    it('mode "self" does not interrupt lower-priority branches', () => {
+      const selector = createCombatTree('self');
+
+      selector.tick(blackboard);
+      blackboard.set('enemySeen', true);
+      selector.tick(blackboard);
+
+      expect(selector.currentChildIndex).toBe(1);
+      expect(log).toEqual(['tick:Patrol', 'tick:Patrol']);
+    });
+
+    it('mode "both" preempts lower priorities and aborts itself', () => {
+      const selector = createCombatTree('both');
+
+      selector.tick(blackboard);
+      blackboard.set('enemySeen', true);
+      selector.tick(blackboard);
+
+      blackboard.set('enemySeen', false);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.currentChildIndex).toBe(1);
+      expect(log).toEqual(['tick:Patrol', 'abort:Patrol', 'tick:Attack', 'abort:Attack', 'tick:Patrol']);
+    });
+
+    it('has no effect under a Sequence', () => {
+      const sequence = new SequenceNode();
+      const conditional = createConditional("blackboard.get('stop') === true", 'lower-priority', 'stop');
+      conditional.addChild(createLongAction('Never'));
+      const first = new ActionNode('First');
+      first.code = 'return NodeStatus.SUCCESS;';
+      sequence.addChild(first);
+      sequence.addChild(createLongAction('Work'));
+      sequence.addChild(conditional);
+
+      sequence.tick(blackboard);
+      blackboard.set('stop', true);
+
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(log).toEqual(['tick:Work', 'tick:Work']);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { SeededRandom } from '../../src/core/Random.js';
+import { TreeNode } from '../../src/core/TreeNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { RandomSelectorNode } from '../../src/nodes/composites/RandomSelectorNode.js';
+import { RandomSequenceNode } from '../../src/nodes/composites/RandomSequenceNode.js';
+import { WeightedRandomSelectorNode } from '../../src/nodes/composites/WeightedRandomSelectorNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+
+describe('Random Composites', () => {
+  let tree: BehaviorTree;
+
+  // Appends its name to the blackboard's `ran` list; runs for `ticks` ticks, then returns `result`
+  function action(name: string, result: string = 'SUCCESS', ticks: number = 0): ActionNode {
+    const node = new ActionNode(name);
+    node.code = `
+      if (tick === 0) blackboard.set('ran', [...(blackboard.get('ran') || []), '${name}']);
+      return tick < ${ticks} ? NodeStatus.RUNNING : NodeStatus.${result};
+    `;
+    return node;
+  }
+
+  function compose<T extends TreeNode>(composite: T, children: TreeNode[]): T {
+    children.forEach(child => composite.addChild(child));
+    tree.setRoot(composite);
+    return composite;
+  }
+
+  // Runs the tree once per run and collects the order the children ran in
+  async function runOrders(runs: number): Promise<string[]> {
+    const orders: string[] = [];
+    for (let i = 0; i < runs; i++) {
+      tree.blackboard.set('ran', []);
+      await tree.tick();
+      orders.push(tree.blackboard.get('ran').join(''));
+    }
+    return orders;
+  }
+
+  beforeEach(() => {
+    tree = new BehaviorTree({ seed: 42 });
+  });
+
+  describe('SeededRandom', () => {
+    it('repeats the sequence of a seed', () => {
+      const a = new SeededRandom(7);
+      const b = new SeededRandom(7);
+      const values = [a.next(), a.next(), a.next()];
+
+      expect([b.next(), b.next(), b.next()]).toEqual(values);
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+
+      a.restart();
+      expect(a.next()).toBe(values[0]);
+      a.setSeed(8);
+      expect(a.next()).not.toBe(values[0]);
+    });
+  });
+
+  describe('RandomSequenceNode', () => {
+    it('runs all children in a new order every run', async () => {
+      compose(new RandomSequenceNode(), [action('a'), action('b'), action('c')]);
+
+      const orders = await runOrders(20);
+      orders.forEach(order => expect(order.split('').sort().join('')).toBe('abc'));
+      expect(new Set(orders).size).toBeGreaterThan(1);
+    });
+
+    it('resumes a running child in the same order', async () => {
+      compose(new RandomSequenceNode(), [action('a', 'SUCCESS', 1), action('b', 'SUCCESS', 1)]);
+
+      expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+      expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+      expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+      expect([...tree.blackboard.get('ran')].sort()).toEqual(['a', 'b']);
+    });
+
+    it('fails as soon as a child fails', async () => {
+      compose(new RandomSequenceNode(), [action('a', 'FAILURE'), action('b', 'FAILURE')]);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(tree.blackboard.get('ran')).toHaveLength(1);
+    });
+  });
+
+  describe('RandomSelectorNode', () => {
+    it('tries children until one succeeds', async () => {
+      compose(new RandomSelectorNode(), [action('a', 'FAILURE'), action('b', 'FAILURE'), action('c')]);
+
+      const orders = await runOrders(20);
+      orders.forEach(order => expect(order.endsWith('c')).toBe(true));
+      expect(new Set(orders.map(order => order[0])).size).toBe(3);
+    });
+
+    it('fails when every child fails', async () => {
+      compose(new RandomSelectorNode(), [action('a', 'FAILURE'), action('b', 'FAILURE')]);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(tree.blackboard.get('ran')).toHaveLength(2);
+    });
+  });
+
+  describe('WeightedRandomSelectorNode', () => {
+    it('picks children in proportion to their weights', async () => {
+      const heavy = action('h');
+      const light = action('l');
+      const never = action('n');
+      heavy.config.weight = 3;
+      never.config.weight = 0;
+      const selector = compose(new WeightedRandomSelectorNode(), [heavy, light, never]);
+
+      expect(selector.getChance(heavy)).toBe(0.75);
+      expect(WeightedRandomSelectorNode.getWeight(light)).toBe(1);
+
+      const orders = await runOrders(400);
+      const heavyFirst = orders.filter(order => order === 'h').length;
+      expect(orders.every(order => order === 'h' || order === 'l')).toBe(true);
+      expect(heavyFirst / orders.length).toBeGreaterThan(0.65);
+      expect(heavyFirst / orders.length).toBeLessThan(0.85);
+    });
+
+    it('tries the remaining children when the picked one fails', async () => {
+      compose(new WeightedRandomSelectorNode(), [action('a', 'FAILURE'), action('b', 'FAILURE')]);
+      expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+      expect(tree.blackboard.get('ran')).toHaveLength(2);
+    });
+  });
+
+  it('reproduces a run from the seed after a reset', async () => {
+    compose(new RandomSequenceNode(), [action('a'), action('b'), action('c'), action('d')]);
+
+    const first = await runOrders(10);
+    tree.reset();
+    expect(await runOrders(10)).toEqual(first);
+
+    const other = new BehaviorTree({ seed: 42 });
+    other.setRoot(tree.root);
+    tree = other;
+    expect(await runOrders(10)).toEqual(first);
+  });
+
+  it('saves the seed with the tree', () => {
+    compose(new RandomSelectorNode(), [action('a')]);
+    tree.random.setSeed(1234);
+
+    const data = tree.toJSON();
+    expect(data.tree.randomSeed).toBe(1234);
+
+    const factory = (type: string) => (type === 'action' ? new ActionNode() : new RandomSelectorNode());
+    const loaded = new BehaviorTree();
+    loaded.fromJSON(data, factory);
+    expect(loaded.random.getSeed()).toBe(1234);
+
+    // Trees saved without a seed keep their own
+    delete data.tree.randomSeed;
+    loaded.fromJSON(data, factory);
+    expect(loaded.random.getSeed()).toBe(1234);
+  });
+});
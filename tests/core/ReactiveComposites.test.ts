@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReactiveSequenceNode } from '../../src/nodes/composites/ReactiveSequenceNode.js';
+import { ReactiveSelectorNode } from '../../src/nodes/composites/ReactiveSelectorNode.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+/**
+ * Condition that succeeds while a blackboard flag is set
+ */
+function createCondition(label: string, key: string): ActionNode {
+  const condition = new ActionNode(label);
+  condition.code = `return blackboard.get('${key}') ? NodeStatus.SUCCESS : NodeStatus.FAILURE;`;
+  return condition;
+}
+
+/**
+ * Action that runs forever and logs ticks and aborts
+ */
+function createLongAction(label: string): ActionNode {
+  const action = new ActionNode(label);
+  action.code = `
+    function OnAbort() {
+      blackboard.get('log').push('abort:${label}');
+    }
+    blackboard.get('log').push('tick:${label}');
+    return NodeStatus.RUNNING;
+  `;
+  return action;
+}
+
+describe('Reactive Composites', () => {
+  let blackboard: Blackboard;
+  let log: string[];
+
+  beforeEach(() => {
+    blackboard = new Blackboard();
+    log = [];
+    blackboard.set('log', log);
+  });
+
+  describe('ReactiveSequenceNode', () => {
+    it('re-checks the guard every tick while a later child is RUNNING', () => {
+      const sequence = new ReactiveSequenceNode();
+      const guard = createCondition('No Enemy', 'clear');
+      const patrol = createLongAction('Patrol');
+      sequence.addChild(guard);
+      sequence.addChild(patrol);
+
+      blackboard.set('clear', true);
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(sequence.currentChildIndex).toBe(1);
+
+      // Guard flips: running child is halted and the sequence fails
+      blackboard.set('clear', false);
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.FAILURE);
+
+      expect(log).toEqual(['tick:Patrol', 'tick:Patrol', 'abort:Patrol']);
+      expect(patrol.status).toBe(NodeStatus.IDLE);
+    });
+
+    it('behaves differently from a regular sequence', () => {
+      const sequence = new SequenceNode();
+      const guard = createCondition('No Enemy', 'clear');
+      const patrol = createLongAction('Patrol');
+      sequence.addChild(guard);
+      sequence.addChild(patrol);
+
+      blackboard.set('clear', true);
+      sequence.tick(blackboard);
+      blackboard.set('clear', false);
+
+      // Regular sequence resumes at the running child and never notices
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.RUNNING);
+    });
+
+    it('succeeds when all children succeed', () => {
+      const sequence = new ReactiveSequenceNode();
+      sequence.addChild(createCondition('A', 'a'));
+      sequence.addChild(createCondition('B', 'b'));
+
+      blackboard.set('a', true);
+      blackboard.set('b', true);
+
+      expect(sequence.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('returns SUCCESS with no children', () => {
+      expect(new ReactiveSequenceNode().tick(blackboard)).toBe(NodeStatus.SUCCESS);
+    });
+  });
+
+  describe('ReactiveSelectorNode', () => {
+    it('preempts a lower-priority branch when a higher one becomes viable', () => {
+      const selector = new ReactiveSelectorNode();
+
+      const combat = new SequenceNode();
+      combat.addChild(createCondition('Enemy Seen', 'enemySeen'));
+      combat.addChild(createLongAction('Attack'));
+
+      const patrol = createLongAction('Patrol');
+
+      selector.addChild(combat);
+      selector.addChild(patrol);
+
+      // No enemy: patrol runs
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.currentChildIndex).toBe(1);
+
+      // Enemy appears: combat takes over and patrol is halted
+      blackboard.set('enemySeen', true);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      expect(selector.currentChildIndex).toBe(0);
+
+      expect(log).toEqual(['tick:Patrol', 'tick:Patrol', 'tick:Attack', 'abort:Patrol']);
+      expect(patrol.status).toBe(NodeStatus.IDLE);
+    });
+
+    it('halts running lower-priority children when a higher one succeeds', () => {
+      const selector = new ReactiveSelectorNode();
+      const shortcut = createCondition('Shortcut', 'shortcut');
+      const slow = createLongAction('Slow Path');
+      selector.addChild(shortcut);
+      selector.addChild(slow);
+
+      expect(selector.tick(blackboard)).toBe(NodeStatus.RUNNING);
+
+      blackboard.set('shortcut', true);
+      expect(selector.tick(blackboard)).toBe(NodeStatus.SUCCESS);
+      expect(log).toEqual(['tick:Slow Path', 'abort:Slow Path']);
+    });
+
+    it('fails when all children fail', () => {
+      const selector = new ReactiveSelectorNode();
+      selector.addChild(createCondition('A', 'a'));
+      selector.addChild(createCondition('B', 'b'));
+
+      expect(selector.tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+
+    it('returns FAILURE with no children', () => {
+      expect(new ReactiveSelectorNode().tick(blackboard)).toBe(NodeStatus.FAILURE);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { ManualScheduler } from '../../src/core/Scheduler.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { RetryNode } from '../../src/nodes/decorators/RetryNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+
+describe('RetryNode', () => {
+  let clock: ManualScheduler;
+  let tree: BehaviorTree;
+  let retry: RetryNode;
+
+  // Fails until the given attempt (counted in the blackboard), then succeeds
+  function succeedOnAttempt(attempt: number): ActionNode {
+    const node = new ActionNode();
+    node.code = `
+      blackboard.set('runs', (blackboard.get('runs') || 0) + 1);
+      return blackboard.get('runs') >= ${attempt} ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+    `;
+    return node;
+  }
+
+  function setup(parameters: Record<string, any>, child: ActionNode): void {
+    Object.entries(parameters).forEach(([name, value]) => retry.parameters.set(name, value));
+    retry.addChild(child);
+    tree.setRoot(retry);
+  }
+
+  beforeEach(() => {
+    clock = new ManualScheduler();
+    tree = new BehaviorTree({ clock, scheduler: clock });
+    retry = new RetryNode();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('defines its settings as parameters', () => {
+    expect(Array.from(retry.parameters.getDefinitions().keys()))
+      .toEqual(['maxAttempts', 'delay', 'delayUnit', 'backoff', 'attemptKey']);
+  });
+
+  it('retries on the next tick until the child succeeds', async () => {
+    setup({ maxAttempts: 3, attemptKey: 'retryAttempt' }, succeedOnAttempt(3));
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(tree.blackboard.get('retryAttempt')).toBe(2);
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(tree.blackboard.get('retryAttempt')).toBe(3);
+    expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+    expect(tree.blackboard.get('runs')).toBe(3);
+  });
+
+  it('runs on a strict blackboard without an attempt key', async () => {
+    tree.blackboard.strict = true;
+    tree.blackboard.getSchema().define({ key: 'runs', type: 'number', defaultValue: 0 });
+    setup({ maxAttempts: 3 }, succeedOnAttempt(2));
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+    expect(tree.blackboard.keys()).toEqual(['runs']);
+  });
+
+  it('reports an attempt key a strict blackboard rejects and keeps retrying', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    tree.blackboard.strict = true;
+    tree.blackboard.getSchema().define({ key: 'runs', type: 'number', defaultValue: 0 });
+    setup({ maxAttempts: 3, attemptKey: 'tries' }, succeedOnAttempt(2));
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(retry.lastError).toMatch(/tries/);
+    expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+    expect(tree.blackboard.has('tries')).toBe(false);
+  });
+
+  it('fails when the last attempt fails', async () => {
+    setup({ maxAttempts: 2, attemptKey: 'tries' }, succeedOnAttempt(10));
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(await tree.tick()).toBe(NodeStatus.FAILURE);
+    expect(tree.blackboard.get('tries')).toBe(2);
+    expect(tree.blackboard.has('retryAttempt')).toBe(false);
+
+    // A new run starts from the first attempt
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    expect(tree.blackboard.get('tries')).toBe(2);
+    expect(tree.blackboard.get('runs')).toBe(3);
+  });
+
+  it('waits a growing number of ticks between attempts', async () => {
+    setup({ maxAttempts: 4, delay: 1, backoff: 2 }, succeedOnAttempt(4));
+
+    const statuses: NodeStatus[] = [];
+    const runs: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      statuses.push(await tree.tick());
+      runs.push(tree.blackboard.get('runs'));
+    }
+
+    // Attempt 1, wait 1, attempt 2, wait 2, attempt 3, wait 4 (cut short below)
+    expect(runs).toEqual([1, 1, 2, 2, 2, 3, 3, 3]);
+    expect(statuses.every(status => status === NodeStatus.RUNNING)).toBe(true);
+  });
+
+  it('waits seconds from the tree clock between attempts', async () => {
+    setup({ maxAttempts: 3, delay: 0.5, delayUnit: 'seconds', backoff: 2 }, succeedOnAttempt(3));
+
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    clock.advance(499);
+    await tree.tick();
+    expect(tree.blackboard.get('runs')).toBe(1);
+
+    clock.advance(1);
+    await tree.tick();
+    expect(tree.blackboard.get('runs')).toBe(2);
+
+    // The second retry waits twice as long
+    clock.advance(999);
+    expect(await tree.tick()).toBe(NodeStatus.RUNNING);
+    clock.advance(1);
+    expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScriptGuard } from '../../src/core/ScriptGuard.js';
+import { NodeExecutor } from '../../src/core/NodeExecutor.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('ScriptGuard', () => {
+  const instrument = (code: string) => ScriptGuard.instrument(code, 'g');
+
+  it('guards loop conditions and bodies', () => {
+    expect(instrument('while (a) b();')).toBe('while (g(), (a)) b();');
+    expect(instrument('for (let i = 0; i < n; i++) x();')).toBe('for (let i = 0;(g(), ( i < n)); i++) x();');
+    expect(instrument('for (;;) {}')).toBe('for (;(g(), true);) {}');
+    expect(instrument('for (const k of items) { k(); }')).toBe('for (const k of items) {g(); k(); }');
+    expect(instrument('do { a(); } while (b);')).toBe('do {g(); a(); } while (g(), (b));');
+  });
+
+  it('guards function bodies but not other blocks', () => {
+    expect(instrument('function f(a) { if (a) { return 1; } }')).toBe('function f(a) {g(); if (a) { return 1; } }');
+    expect(instrument('const f = (x) => { return x; };')).toBe('const f = (x) => {g(); return x; };');
+    expect(instrument('class A extends B { m() { } }')).toBe('class A extends B { m() {g(); } }');
+  });
+
+  it('leaves strings, comments and regular expressions alone', () => {
+    const code = `const s = "while (x) {"; // for (;;) {
+const r = /\\)\\s*{/; const t = \`\${ {a: 1}.a } while (y)\`;`;
+    expect(instrument(code)).toBe(code);
+  });
+
+  it('rejects dynamic import()', () => {
+    expect(() => instrument(`import('data:text/javascript,1')`)).toThrow(SyntaxError);
+  });
+});
+
+describe('Sandbox', () => {
+  let blackboard: Blackboard;
+  const originalBudget = NodeExecutor.timeBudget;
+
+  beforeEach(() => {
+    // Timers may still be faked by an earlier test file
+    vi.useRealTimers();
+    blackboard = new Blackboard();
+    NodeExecutor.timeBudget = 20;
+  });
+
+  afterEach(() => {
+    NodeExecutor.timeBudget = originalBudget;
+  });
+
+  it('fails code over budget even if it catches the error', () => {
+    const code = `
+      try {
+        while (true) {}
+      } catch (e) {
+        while (true) {}
+      }
+      return NodeStatus.SUCCESS;
+    `;
+
+    expect(NodeExecutor.execute(code, blackboard, 'loop')).toBe(NodeStatus.FAILURE);
+    expect(blackboard.get('__error_loop')).toMatchObject({
+      message: 'Script exceeded its time budget of 20 ms',
+      budgetExceeded: true
+    });
+  });
+
+  it('runs the body of a for loop without a test until it breaks', () => {
+    const code = `
+      let n = 0;
+      for (;;) { n++; if (n > 5) break; }
+      for (let i = 0; ; i++) { if (i === 3) { blackboard.set('i', i); break; } }
+      blackboard.set('n', n);
+      return NodeStatus.SUCCESS;
+    `;
+
+    expect(NodeExecutor.execute(code, blackboard)).toBe(NodeStatus.SUCCESS);
+    expect(blackboard.get('n')).toBe(6);
+    expect(blackboard.get('i')).toBe(3);
+  });
+
+  it('stops a for loop without a test or exit', () => {
+    const code = `for (;;) {} return NodeStatus.SUCCESS;`;
+
+    expect(NodeExecutor.execute(code, blackboard, 'forever')).toBe(NodeStatus.FAILURE);
+    expect(blackboard.get('__error_forever')).toMatchObject({ budgetExceeded: true });
+  });
+
+  it('stops runaway recursion without loops', () => {
+    const code = `
+      function spin(n) { return n <= 0 ? 0 : spin(n - 1) + spin(n - 1); }
+      spin(64);
+      return NodeStatus.SUCCESS;
+    `;
+
+    expect(NodeExecutor.execute(code, blackboard)).toBe(NodeStatus.FAILURE);
+  });
+
+  it('only budgets the synchronous part of async code', async () => {
+    const code = `
+      await new Promise(resolve => setTimeout(resolve, 30));
+      let sum = 0;
+      for (let i = 0; i < 1000; i++) sum += i;
+      blackboard.set('sum', sum);
+      return NodeStatus.SUCCESS;
+    `;
+
+    expect(await NodeExecutor.execute(code, blackboard)).toBe(NodeStatus.SUCCESS);
+    expect(blackboard.get('sum')).toBe(499500);
+  });
+
+  it('hides globals outside the whitelist', () => {
+    const types = NodeExecutor.evaluate(
+      `[typeof process, typeof globalThis, typeof Function, typeof eval, typeof Math, typeof JSON, typeof setTimeout].join()`,
+      blackboard
+    );
+
+    expect(types).toBe('undefined,undefined,undefined,undefined,object,object,function');
+  });
+
+  it('blocks code generation through function constructors', () => {
+    const code = `(() => {}).constructor('return this')(); return NodeStatus.SUCCESS;`;
+
+    expect(NodeExecutor.execute(code, blackboard)).toBe(NodeStatus.FAILURE);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TreeLibrary } from '../../src/utils/TreeLibrary.js';
+import { SubTreeNode } from '../../src/nodes/leaves/SubTreeNode.js';
+import { Blackboard } from '../../src/core/Blackboard.js';
+import { NodeRegistry } from '../../src/core/NodeRegistry.js';
+import { registerDefaultNodes } from '../../src/core/DefaultNodes.js';
+import { HeadlessRuntime } from '../../src/runtime/HeadlessRuntime.js';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+/**
+ * Builds a tree export: Start → nodes[0], with an optional initial blackboard
+ */
+function createTreeJSON(nodes: any[], initialValues: Record<string, any> = {}): any {
+  return {
+    version: '1.2',
+    metadata: { created: '2025-01-01T00:00:00.000Z' },
+    tree: {
+      nodes: [
+        { id: 'start', type: 'start', label: 'Start', position: { x: 0, y: 0 }, children: [nodes[0].id] },
+        ...nodes.map(node => ({ position: { x: 0, y: 100 }, children: [], ...node }))
+      ],
+      root: null
+    },
+    blackboard: { initialValues }
+  };
+}
+
+function action(id: string, code: string): any {
+  return { id, type: 'action', label: id, code };
+}
+
+function subtree(id: string, treeId: string): any {
+  return { id, type: 'subtree', label: id, parameters: { treeId } };
+}
+
+describe('SubTree', () => {
+  beforeEach(() => {
+    if (!NodeRegistry.has('start')) {
+      registerDefaultNodes();
+    }
+    TreeLibrary.clearAll();
+  });
+
+  describe('TreeLibrary', () => {
+    it('resolves documents by id or file name', () => {
+      TreeLibrary.register('take-cover', createTreeJSON([action('a', 'return NodeStatus.SUCCESS;')]), 'TakeCover.json');
+
+      expect(TreeLibrary.get('take-cover')?.name).toBe('TakeCover.json');
+      expect(TreeLibrary.get('TakeCover')?.id).toBe('take-cover');
+      expect(TreeLibrary.has('Missing')).toBe(false);
+    });
+
+    it('lists the references made by SubTree nodes', () => {
+      const data = createTreeJSON([subtree('s1', 'patrol'), subtree('s2', 'flee'), subtree('s3', '')]);
+      expect(TreeLibrary.getReferences(data)).toEqual(['patrol', 'flee']);
+    });
+
+    it('detects reference cycles', () => {
+      TreeLibrary.register('a', createTreeJSON([subtree('s', 'b')]));
+      TreeLibrary.register('b', createTreeJSON([subtree('s', 'c')]));
+      TreeLibrary.register('c', createTreeJSON([subtree('s', 'a')]));
+      TreeLibrary.register('d', createTreeJSON([subtree('s', 'c')]));
+
+      expect(TreeLibrary.findCycle('a')).toEqual(['a', 'b', 'c', 'a']);
+      expect(TreeLibrary.findCycle('d')).toEqual(['c', 'a', 'b', 'c']);
+
+      TreeLibrary.register('e', createTreeJSON([action('x', 'return NodeStatus.SUCCESS;')]));
+      expect(TreeLibrary.findCycle('e')).toBeNull();
+
+      // A tree may not reference itself through the tree being edited
+      expect(TreeLibrary.findCycle('e', ['main'])).toBeNull();
+      expect(TreeLibrary.findCycle('e', ['e'])).toEqual(['e', 'e']);
+    });
+  });
+
+  describe('SubTreeNode', () => {
+    it('runs the referenced tree in its own scope with port remapping', () => {
+      TreeLibrary.register('attack', createTreeJSON([
+        action('hit', `
+          blackboard.set('swings', blackboard.get('swings') + 1);
+          blackboard.set('result', 'hit ' + blackboard.get('target'));
+          return NodeStatus.SUCCESS;
+        `)
+      ], { swings: 0 }));
+
+      const outer = new Blackboard();
+      outer.set('enemy', 'orc-1');
+      outer.set('health', 100);
+
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'attack');
+      node.parameters.set('ports', 'target=enemy, result=lastResult');
+
+      expect(node.tick(outer)).toBe(NodeStatus.SUCCESS);
+      expect(outer.get('lastResult')).toBe('hit orc-1');
+      expect(outer.has('swings')).toBe(false);
+      expect(node.getOutline().map(entry => entry.node.label)).toEqual(['Start', 'hit']);
+
+      // Local keys are re-seeded from the referenced tree's defaults on reset
+      node.tick(outer);
+      node.reset();
+      node.tick(outer);
+      expect(node.lastError).toBeNull();
+    });
+
+    it('is isolated from unmapped keys by default', () => {
+      TreeLibrary.register('peek', createTreeJSON([
+        action('peek', `return blackboard.has('health') ? NodeStatus.SUCCESS : NodeStatus.FAILURE;`)
+      ]));
+
+      const outer = new Blackboard();
+      outer.set('health', 100);
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'peek');
+
+      expect(node.tick(outer)).toBe(NodeStatus.FAILURE);
+
+      node.parameters.set('isolated', false);
+      expect(node.tick(outer)).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('fails when the reference is missing or cyclic', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'nowhere');
+
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.FAILURE);
+      expect(node.lastError).toBe('Tree "nowhere" not found');
+
+      TreeLibrary.register('loop', createTreeJSON([subtree('s', 'loop')]));
+      node.parameters.set('treeId', 'loop');
+
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.FAILURE);
+      expect(node.lastError).toBe('Subtree cycle: loop → loop');
+      errorSpy.mockRestore();
+    });
+
+    it('counts the tree it is in as part of the reference path', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      TreeLibrary.register('cover', createTreeJSON([subtree('s', 'guard')]));
+      TreeLibrary.register('guard', createTreeJSON([subtree('s', 'cover')]));
+
+      // The document being edited references itself through the library
+      const tree = new BehaviorTree();
+      tree.documentId = 'Guard Tab';
+      TreeLibrary.register('Guard Tab', createTreeJSON([action('a', 'return NodeStatus.SUCCESS;')]));
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'Guard Tab');
+      tree.setRoot(node);
+
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.FAILURE);
+      expect(node.lastError).toBe('Subtree cycle: Guard Tab → Guard Tab');
+      errorSpy.mockRestore();
+    });
+
+    it('fails when the document contains unknown node types', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      TreeLibrary.register('future', createTreeJSON([
+        { id: 'x', type: 'teleport', label: 'Teleport' },
+        { id: 'y', type: 'hover', label: 'Hover' }
+      ]));
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'future');
+
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.FAILURE);
+      expect(node.lastError).toBe('Failed to load tree "future": Unknown node types "teleport", "hover"');
+      errorSpy.mockRestore();
+    });
+
+    it('picks up a replaced document', () => {
+      TreeLibrary.register('flip', createTreeJSON([action('a', 'return NodeStatus.SUCCESS;')]));
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'flip');
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.SUCCESS);
+
+      TreeLibrary.register('flip', createTreeJSON([action('a', 'return NodeStatus.FAILURE;')]));
+      expect(node.tick(new Blackboard())).toBe(NodeStatus.FAILURE);
+    });
+
+    it('halts the running subtree when aborted', () => {
+      TreeLibrary.register('wait', createTreeJSON([
+        action('wait', `
+          function OnAbort() { blackboard.set('@aborted', true); }
+          return NodeStatus.RUNNING;
+        `)
+      ]));
+
+      const outer = new Blackboard();
+      const node = new SubTreeNode();
+      node.parameters.set('treeId', 'wait');
+
+      expect(node.tick(outer)).toBe(NodeStatus.RUNNING);
+      node.halt(outer);
+
+      expect(outer.get('aborted')).toBe(true);
+      expect(node.status).toBe(NodeStatus.IDLE);
+    });
+  });
+
+  describe('HeadlessRuntime', () => {
+    it('loads subtrees embedded in the export', async () => {
+      const data = createTreeJSON([subtree('call', 'greet')]);
+      data.subtrees = [{
+        id: 'greet',
+        name: 'Greet.json',
+        data: createTreeJSON([action('say', `blackboard.set('@greeted', true); return NodeStatus.SUCCESS;`)])
+      }];
+
+      const runtime = HeadlessRuntime.fromJSON(data);
+
+      expect(await runtime.tick()).toBe(NodeStatus.SUCCESS);
+      expect(runtime.blackboard.get('greeted')).toBe(true);
+      runtime.dispose();
+    });
+  });
+});
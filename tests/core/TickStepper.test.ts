@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { TreeDebugger } from '../../src/core/TreeDebugger.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { InverterNode } from '../../src/nodes/decorators/InverterNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('Stepping through a tick', () => {
+  let tree: BehaviorTree;
+  let root: SequenceNode;
+  let inverter: InverterNode;
+  let first: ActionNode;
+  let second: ActionNode;
+  let last: ActionNode;
+
+  const action = (label: string, status: string = 'SUCCESS'): ActionNode => {
+    const node = new ActionNode(label);
+    node.code = `blackboard.set('${label}', true); return NodeStatus.${status};`;
+    return node;
+  };
+
+  beforeEach(() => {
+    // Sequence(Inverter(Sequence(First, Second)), Last)
+    root = new SequenceNode();
+    inverter = new InverterNode();
+    const inner = new SequenceNode();
+    first = action('First', 'FAILURE');
+    second = action('Second');
+    last = action('Last');
+    inner.addChild(first);
+    inner.addChild(second);
+    inverter.addChild(inner);
+    root.addChild(inverter);
+    root.addChild(last);
+
+    tree = new BehaviorTree();
+    tree.setRoot(root);
+  });
+
+  it('starts a tick and stops before the root', () => {
+    expect(tree.stepInto()).toBe(root);
+
+    expect(tree.state).toBe('paused');
+    expect(tree.tickCount).toBe(1);
+    expect(root.status).toBe(NodeStatus.IDLE);
+    expect(tree.getActiveNodes()).toEqual([]);
+  });
+
+  it('steps into nodes one at a time', () => {
+    tree.stepInto();
+    expect(tree.stepInto()).toBe(inverter);
+    expect(tree.stepInto()).toBe(inverter.children[0]);
+    expect(tree.stepInto()).toBe(first);
+    expect(tree.getActiveNodes()).toEqual([root, inverter, inverter.children[0]]);
+
+    // First fails, so its sequence fails and the inverter succeeds
+    expect(tree.stepInto()).toBe(last);
+    expect(tree.blackboard.get('First')).toBe(true);
+    expect(tree.blackboard.has('Second')).toBe(false);
+    expect(tree.getActiveNodes()).toEqual([root]);
+
+    expect(tree.stepInto()).toBeNull();
+    expect(tree.blackboard.get('Last')).toBe(true);
+  });
+
+  it('steps over a whole subtree', () => {
+    tree.stepInto();
+    tree.stepInto();
+
+    expect(tree.stepOver()).toBe(last);
+    expect(inverter.status).toBe(NodeStatus.SUCCESS);
+    expect(tree.blackboard.get('First')).toBe(true);
+    expect(tree.blackboard.has('Last')).toBe(false);
+  });
+
+  it('steps out of the current parent', () => {
+    tree.stepInto();
+    tree.stepInto();
+    tree.stepInto();
+    tree.stepInto();
+
+    // Finishes the inner sequence and the inverter, then stops before Last
+    expect(tree.stepOut()).toBe(last);
+    expect(tree.getActiveNodes()).toEqual([root]);
+  });
+
+  it('finishes the stepped tick on the next tick', async () => {
+    tree.stepInto();
+    tree.stepInto();
+
+    expect(await tree.tick()).toBe(NodeStatus.SUCCESS);
+    expect(tree.tickCount).toBe(1);
+    expect(tree.getNextNode()).toBeNull();
+    expect(tree.blackboard.get('Last')).toBe(true);
+  });
+
+  it('forgets the stepped tick on reset', () => {
+    tree.stepInto();
+    tree.stepInto();
+
+    tree.reset();
+
+    expect(tree.getNextNode()).toBeNull();
+    expect(tree.stepInto()).toBe(root);
+    expect(tree.tickCount).toBe(1);
+  });
+
+  it('reports node ticks to the debugger while stepping', () => {
+    const treeDebugger = new TreeDebugger();
+    tree.setDebugger(treeDebugger);
+    treeDebugger.setBreakpoint(first.id, NodeStatus.FAILURE);
+
+    tree.stepInto();
+    tree.stepInto();
+    tree.stepOver();
+    expect(treeDebugger.getLastHit()).toBeNull();
+
+    tree.stepOver();
+    expect(treeDebugger.getLastHit()).toMatchObject({ nodeId: first.id, status: NodeStatus.FAILURE, tick: 1 });
+  });
+});
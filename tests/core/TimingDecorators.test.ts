@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { ManualScheduler } from '../../src/core/Scheduler.js';
+import { TreeNode } from '../../src/core/TreeNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+import { TimeoutNode } from '../../src/nodes/decorators/TimeoutNode.js';
+import { TimeLimitNode } from '../../src/nodes/decorators/TimeLimitNode.js';
+import { CooldownNode } from '../../src/nodes/decorators/CooldownNode.js';
+import { DelayNode } from '../../src/nodes/decorators/DelayNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+
+describe('Timing Decorators', () => {
+  let clock: ManualScheduler;
+  let tree: BehaviorTree;
+
+  // Counts its runs in the blackboard; runs for `ticks` ticks, then returns `result`
+  function action(ticks: number = 0, result: string = 'SUCCESS'): ActionNode {
+    const node = new ActionNode();
+    node.code = `
+      if (tick === 0) blackboard.set('runs', (blackboard.get('runs') || 0) + 1);
+      return tick < ${ticks} ? NodeStatus.RUNNING : NodeStatus.${result};
+    `;
+    return node;
+  }
+
+  function decorate<T extends TreeNode>(decorator: T, seconds: number, child: TreeNode): T {
+    decorator.parameters.set('seconds', seconds);
+    decorator.addChild(child);
+    tree.setRoot(decorator);
+    return decorator;
+  }
+
+  async function tickAfter(ms: number): Promise<NodeStatus> {
+    clock.advance(ms);
+    return tree.tick();
+  }
+
+  beforeEach(() => {
+    clock = new ManualScheduler();
+    tree = new BehaviorTree({ clock, scheduler: clock });
+  });
+
+  describe('TimeoutNode', () => {
+    it('fails and halts the child when time is up', async () => {
+      const child = action(100);
+      decorate(new TimeoutNode(), 1, child);
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(500)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(500)).toBe(NodeStatus.FAILURE);
+      expect(child.status).toBe(NodeStatus.IDLE);
+    });
+
+    it('returns the status of a child that finishes in time', async () => {
+      decorate(new TimeoutNode(), 1, action(1));
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(900)).toBe(NodeStatus.SUCCESS);
+
+      // The next run gets the full time again
+      expect(await tickAfter(900)).toBe(NodeStatus.RUNNING);
+    });
+  });
+
+  describe('TimeLimitNode', () => {
+    it('stops the child and succeeds when time is up', async () => {
+      decorate(new TimeLimitNode(), 2, action(100));
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(1999)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(1)).toBe(NodeStatus.SUCCESS);
+    });
+
+    it('returns the status of a child that finishes earlier', async () => {
+      decorate(new TimeLimitNode(), 2, action(0, 'FAILURE'));
+      expect(await tickAfter(0)).toBe(NodeStatus.FAILURE);
+    });
+  });
+
+  describe('CooldownNode', () => {
+    it('fails without running the child until the cooldown is over', async () => {
+      decorate(new CooldownNode(), 3, action());
+
+      expect(await tickAfter(0)).toBe(NodeStatus.SUCCESS);
+      expect(await tickAfter(1000)).toBe(NodeStatus.FAILURE);
+      expect(await tickAfter(1999)).toBe(NodeStatus.FAILURE);
+      expect(tree.blackboard.get('runs')).toBe(1);
+
+      expect(await tickAfter(1)).toBe(NodeStatus.SUCCESS);
+      expect(tree.blackboard.get('runs')).toBe(2);
+    });
+
+    it('starts the cooldown when a running child completes', async () => {
+      const cooldown = decorate(new CooldownNode(), 1, action(2));
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(5000)).toBe(NodeStatus.RUNNING);
+      expect(cooldown.isCoolingDown()).toBe(false);
+      expect(await tickAfter(5000)).toBe(NodeStatus.SUCCESS);
+      expect(await tickAfter(500)).toBe(NodeStatus.FAILURE);
+    });
+  });
+
+  describe('DelayNode', () => {
+    it('waits before starting the child', async () => {
+      decorate(new DelayNode(), 1.5, action());
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(1000)).toBe(NodeStatus.RUNNING);
+      expect(tree.blackboard.get('runs')).toBeUndefined();
+
+      expect(await tickAfter(500)).toBe(NodeStatus.SUCCESS);
+      expect(tree.blackboard.get('runs')).toBe(1);
+    });
+
+    it('does not wait again while the child is running', async () => {
+      decorate(new DelayNode(), 1, action(1));
+
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(1000)).toBe(NodeStatus.RUNNING);
+      expect(await tickAfter(0)).toBe(NodeStatus.SUCCESS);
+
+      // The next run waits again
+      expect(await tickAfter(0)).toBe(NodeStatus.RUNNING);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { TraceRecorder } from '../../src/core/TraceRecorder.js';
+import { StartNode } from '../../src/nodes/decorators/StartNode.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('TraceRecorder', () => {
+  let tree: BehaviorTree;
+  let recorder: TraceRecorder;
+  let sequence: SequenceNode;
+  let count: ActionNode;
+  let wait: ActionNode;
+
+  beforeEach(() => {
+    // Start → Count and Start → Sequence(Wait); Wait runs for two ticks, then succeeds
+    const countStart = new StartNode();
+    countStart.position.x = -100;
+    count = new ActionNode('Count');
+    count.code = `blackboard.set('count', (blackboard.get('count') || 0) + 1); return NodeStatus.SUCCESS;`;
+    countStart.addChild(count);
+
+    const waitStart = new StartNode();
+    waitStart.position.x = 100;
+    sequence = new SequenceNode();
+    wait = new ActionNode('Wait');
+    wait.code = `return tick >= 2 ? NodeStatus.SUCCESS : NodeStatus.RUNNING;`;
+    waitStart.addChild(sequence);
+    sequence.addChild(wait);
+
+    tree = new BehaviorTree();
+    tree.setAllNodes([countStart, count, waitStart, sequence, wait]);
+    recorder = new TraceRecorder();
+    tree.setRecorder(recorder);
+  });
+
+  it('records one frame per tick with node statuses', async () => {
+    await tree.tick();
+    await tree.tick();
+
+    const frames = recorder.getFrames();
+    expect(frames.map(frame => frame.tick)).toEqual([1, 2]);
+    expect(frames[0].status).toBe(NodeStatus.RUNNING);
+    expect(frames[0].statuses[sequence.id]).toBe(NodeStatus.RUNNING);
+    expect(frames[0].statuses[count.id]).toBe(NodeStatus.SUCCESS);
+    expect(frames[1].statuses[count.id]).toBe(NodeStatus.SUCCESS);
+    expect(frames[0].statuses[wait.id]).toBe(NodeStatus.RUNNING);
+  });
+
+  it('captures statuses before completed branches are reset', async () => {
+    for (let i = 0; i < 3; i++) {
+      await tree.tick();
+    }
+
+    const last = recorder.getLastFrame()!;
+    expect(last.status).toBe(NodeStatus.SUCCESS);
+    expect(last.statuses[wait.id]).toBe(NodeStatus.SUCCESS);
+    expect(wait.status).toBe(NodeStatus.IDLE); // Live status was reset after the tick
+  });
+
+  it('lists status transitions relative to the previous tick', async () => {
+    await tree.tick();
+    await tree.tick();
+    await tree.tick();
+
+    const frames = recorder.getFrames();
+    expect(frames[0].transitions).toContainEqual({ nodeId: wait.id, from: NodeStatus.IDLE, to: NodeStatus.RUNNING });
+    expect(frames[1].transitions).toEqual([]);
+    expect(frames[2].transitions).toContainEqual({ nodeId: wait.id, from: NodeStatus.RUNNING, to: NodeStatus.SUCCESS });
+  });
+
+  it('records blackboard diffs with their writer', async () => {
+    await tree.tick();
+    await tree.tick();
+
+    const frame = recorder.getFrame(1)!;
+    expect(frame.changes).toEqual([{ key: 'count', oldValue: 1, newValue: 2, nodeId: count.id }]);
+  });
+
+  it('reconstructs the blackboard at any recorded tick', async () => {
+    tree.blackboard.set('target', { x: 1 });
+    await tree.tick();
+    tree.blackboard.get('target').x = 99; // Later mutation must not rewrite history
+    tree.blackboard.set('target', { x: 2 });
+    await tree.tick();
+
+    expect(recorder.getBlackboardAt(0)).toEqual({ target: { x: 1 }, count: 1 });
+    expect(recorder.getBlackboardAt(1)).toEqual({ target: { x: 1 }, count: 2 });
+  });
+
+  it('keeps only the most recent frames', async () => {
+    recorder.maxFrames = 2;
+    for (let i = 0; i < 4; i++) {
+      await tree.tick();
+    }
+
+    expect(recorder.getFrames().map(frame => frame.tick)).toEqual([3, 4]);
+    expect(recorder.getBlackboardAt(0)).toEqual({ count: 3 });
+  });
+
+  it('starts a new trace when the tree restarts', async () => {
+    await tree.tick();
+    await tree.tick();
+    tree.stop();
+    await tree.tick();
+
+    expect(recorder.getFrames().map(frame => frame.tick)).toEqual([1]);
+  });
+
+  it('records nothing while disabled', async () => {
+    recorder.enabled = false;
+    await tree.tick();
+
+    expect(recorder.size()).toBe(0);
+  });
+});
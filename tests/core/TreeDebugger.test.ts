@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BehaviorTree } from '../../src/core/BehaviorTree.js';
+import { TreeDebugger } from '../../src/core/TreeDebugger.js';
+import { TreeNode } from '../../src/core/TreeNode.js';
+import { ManualScheduler } from '../../src/core/Scheduler.js';
+import { SequenceNode } from '../../src/nodes/composites/SequenceNode.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+describe('TreeDebugger', () => {
+  let tree: BehaviorTree;
+  let treeDebugger: TreeDebugger;
+  let scheduler: ManualScheduler;
+  let count: ActionNode;
+  let wait: ActionNode;
+
+  beforeEach(() => {
+    // Sequence(Count, Wait); Wait runs for one tick, then succeeds
+    const root = new SequenceNode();
+    count = new ActionNode('Count');
+    count.code = `blackboard.set('count', (blackboard.get('count') || 0) + 1); return NodeStatus.SUCCESS;`;
+    wait = new ActionNode('Wait');
+    wait.code = `return tick >= 1 ? NodeStatus.SUCCESS : NodeStatus.RUNNING;`;
+    root.addChild(count);
+    root.addChild(wait);
+
+    scheduler = new ManualScheduler();
+    tree = new BehaviorTree({ scheduler });
+    tree.setRoot(root);
+    treeDebugger = new TreeDebugger();
+    tree.setDebugger(treeDebugger);
+  });
+
+  it('pauses a running tree after the tick a breakpoint fired in', () => {
+    treeDebugger.setBreakpoint(wait.id);
+    tree.start();
+
+    scheduler.advance(100);
+
+    expect(tree.state).toBe('paused');
+    expect(tree.tickCount).toBe(1);
+    expect(treeDebugger.getLastHit()).toMatchObject({ nodeId: wait.id, trigger: 'enter', tick: 1, status: null });
+
+    // Paused: no more ticks
+    scheduler.advance(1000);
+    expect(tree.tickCount).toBe(1);
+  });
+
+  it('keeps the blackboard as it was when the breakpoint fired', async () => {
+    treeDebugger.setBreakpoint(count.id, 'enter');
+
+    await tree.tick();
+
+    expect(treeDebugger.getLastHit()!.blackboard).toEqual({});
+    expect(tree.blackboard.get('count')).toBe(1);
+  });
+
+  it('fires on a chosen status only', async () => {
+    treeDebugger.setBreakpoint(wait.id, NodeStatus.SUCCESS);
+
+    await tree.tick();
+    expect(treeDebugger.getLastHit()).toBeNull();
+
+    await tree.tick();
+    expect(treeDebugger.getLastHit()).toMatchObject({ nodeId: wait.id, status: NodeStatus.SUCCESS, tick: 2 });
+  });
+
+  it('notifies break listeners after pausing', () => {
+    const onBreak = vi.fn(() => expect(tree.state).toBe('paused'));
+    tree.onBreak(onBreak);
+    treeDebugger.setBreakpoint(count.id, NodeStatus.SUCCESS);
+    tree.start();
+
+    scheduler.advance(100);
+
+    expect(onBreak).toHaveBeenCalledTimes(1);
+    expect(onBreak).toHaveBeenCalledWith(expect.objectContaining({ nodeId: count.id }));
+  });
+
+  it('ignores disabled and removed breakpoints', async () => {
+    treeDebugger.setBreakpoint(count.id);
+    treeDebugger.setBreakpointEnabled(count.id, false);
+    await tree.tick();
+    expect(treeDebugger.getLastHit()).toBeNull();
+
+    expect(treeDebugger.toggleBreakpoint(count.id)).toBe(false);
+    expect(treeDebugger.hasBreakpoint(count.id)).toBe(false);
+    await tree.tick();
+    expect(treeDebugger.getLastHit()).toBeNull();
+  });
+
+  it('clears the hit when the tree resumes or resets', async () => {
+    treeDebugger.setBreakpoint(count.id);
+    await tree.tick();
+    expect(treeDebugger.getLastHit()).not.toBeNull();
+
+    tree.start();
+    expect(treeDebugger.getLastHit()).toBeNull();
+
+    scheduler.advance(100);
+    tree.stop();
+    expect(treeDebugger.getLastHit()).toBeNull();
+  });
+
+  describe('Watches', () => {
+    it('pauses when a watch becomes true and reports the last writer', () => {
+      const watch = treeDebugger.addWatch(`blackboard.get('count') >= 2`);
+      tree.start();
+
+      scheduler.advance(100);
+      expect(tree.state).toBe('running');
+      expect(watch.value).toBe(false);
+
+      // Count runs again once Wait has finished (tick 3)
+      scheduler.advance(200);
+      expect(tree.state).toBe('paused');
+
+      const hit = treeDebugger.getLastHit()!;
+      expect(hit).toMatchObject({ trigger: 'watch', tick: 3, nodeId: count.id });
+      expect(hit.watch!.expression).toBe(`blackboard.get('count') >= 2`);
+      expect(hit.keys).toEqual([{ key: 'count', value: 2, lastWriter: count.id, dependencies: [count.id] }]);
+    });
+
+    it('does not pause again while the watch stays true', () => {
+      treeDebugger.addWatch(`blackboard.get('count') >= 1`);
+      tree.start();
+      scheduler.advance(100);
+      expect(tree.state).toBe('paused');
+
+      tree.start();
+      scheduler.advance(300);
+
+      expect(tree.state).toBe('running');
+      expect(tree.tickCount).toBe(4);
+      tree.stop();
+    });
+
+    it('rejects expressions with syntax errors', () => {
+      expect(() => treeDebugger.addWatch('blackboard.get(')).toThrow(/Invalid watch expression/);
+      expect(() => treeDebugger.addWatch('  ')).toThrow(/empty/);
+      expect(treeDebugger.getWatches()).toEqual([]);
+    });
+
+    it('ignores disabled watches and finds the keys an expression reads', () => {
+      const watch = treeDebugger.addWatch(`blackboard.get("count") > 0 && blackboard.get('alert')`);
+      treeDebugger.setWatchEnabled(watch.id, false);
+
+      expect(TreeDebugger.getWatchedKeys(watch.expression)).toEqual(['count', 'alert']);
+      expect(treeDebugger.removeWatch(watch.id)).toBe(true);
+      expect(treeDebugger.getWatches()).toEqual([]);
+    });
+  });
+
+  it('only listens while its own tree ticks', async () => {
+    await tree.tick();
+
+    expect(TreeNode.tickListener).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessRuntime } from '../../src/runtime/HeadlessRuntime.js';
+import { ManualScheduler } from '../../src/core/Scheduler.js';
+import { NodeStatus } from '../../src/core/NodeStatus.js';
+
+/**
+ * Builds a minimal v1.2 export: Start → Sequence(Count, Check)
+ */
+function createTreeJSON(): any {
+  return {
+    version: '1.2',
+    metadata: { created: '2025-01-01T00:00:00.000Z' },
+    tree: {
+      nodes: [
+        { id: 'start-1', type: 'start', label: 'Start', position: { x: 0, y: 0 }, children: ['seq-1'] },
+        { id: 'seq-1', type: 'sequence', label: 'Main', position: { x: 0, y: 100 }, children: ['count', 'check'] },
+        {
+          id: 'count',
+          type: 'action',
+          label: 'Count',
+          position: { x: -100, y: 200 },
+          code: `blackboard.set('count', (blackboard.get('count') || 0) + 1); return NodeStatus.SUCCESS;`,
+          children: []
+        },
+        {
+          id: 'check',
+          type: 'action',
+          label: 'Check',
+          position: { x: 100, y: 200 },
+          code: `return tick >= 2 ? NodeStatus.SUCCESS : NodeStatus.RUNNING;`,
+          children: []
+        }
+      ],
+      root: null
+    },
+    blackboard: { initialValues: {} },
+    customNodes: []
+  };
+}
+
+/**
+ * Lets scheduled async ticks finish (avoids timers, which other suites may fake)
+ */
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('HeadlessRuntime', () => {
+  it('loads editor JSON and ticks through Start nodes', async () => {
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON());
+
+    expect(runtime.getNodes()).toHaveLength(4);
+    expect(await runtime.tick()).toBe(NodeStatus.RUNNING);
+    expect(runtime.blackboard.get('count')).toBe(1);
+    expect(runtime.getNodeStatuses()['check']).toBe(NodeStatus.RUNNING);
+  });
+
+  it('accepts JSON strings', async () => {
+    const runtime = HeadlessRuntime.fromJSON(JSON.stringify(createTreeJSON()));
+    expect(runtime.findNode('Check')?.id).toBe('check');
+    expect(await runtime.tick()).toBe(NodeStatus.RUNNING);
+  });
+
+  it('drives start() through an injected scheduler', async () => {
+    const scheduler = new ManualScheduler();
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON(), {
+      scheduler,
+      clock: scheduler,
+      tickRate: 10
+    });
+
+    const statuses: NodeStatus[] = [];
+    const states: string[] = [];
+    runtime.onTick(status => statuses.push(status));
+    runtime.onStateChange(state => states.push(state));
+
+    runtime.start();
+    expect(states).toEqual(['running']);
+
+    // 10 ticks per second → 3 ticks after 300ms
+    scheduler.advance(300);
+    await flushMicrotasks();
+
+    expect(runtime.tree.tickCount).toBe(3);
+    expect(statuses).toEqual([NodeStatus.RUNNING, NodeStatus.RUNNING, NodeStatus.SUCCESS]);
+    expect(runtime.tree.clock.now()).toBe(300);
+
+    runtime.pause();
+    expect(scheduler.getPendingCount()).toBe(0);
+    scheduler.advance(1000);
+    expect(runtime.tree.tickCount).toBe(3);
+  });
+
+  it('registers custom nodes embedded in the export', async () => {
+    const data = createTreeJSON();
+    data.customNodes = [{
+      type: 'custom_headless_greet',
+      label: 'Greet',
+      description: 'Writes a greeting',
+      code: `blackboard.set('greeting', 'hello'); return NodeStatus.SUCCESS;`,
+      icon: 'fa-star',
+      category: 'leaf',
+      version: 2,
+      createdAt: '',
+      updatedAt: ''
+    }];
+    data.tree.nodes[1].children = ['greet'];
+    data.tree.nodes.push({
+      id: 'greet',
+      type: 'custom_headless_greet',
+      label: 'Greet',
+      position: { x: 0, y: 200 },
+      children: []
+    });
+
+    const runtime = HeadlessRuntime.fromJSON(data);
+
+    expect(await runtime.tick()).toBe(NodeStatus.SUCCESS);
+    expect(runtime.blackboard.get('greeting')).toBe('hello');
+    expect(runtime.findNode('greet')?.libraryVersion).toBe(2);
+  });
+
+  it('stop() resets Start node subtrees', async () => {
+    const runtime = HeadlessRuntime.fromJSON(createTreeJSON());
+    await runtime.tick();
+
+    runtime.stop();
+
+    expect(runtime.findNode('check')?.status).toBe(NodeStatus.IDLE);
+    expect(runtime.findNode('start-1')?.status).toBe(NodeStatus.IDLE);
+    expect(runtime.blackboard.size()).toBe(0);
+  });
+});
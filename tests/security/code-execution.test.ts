@@ -14,7 +14,7 @@ import { NodeStatus } from '../../src/core/NodeStatus.js';
  * 3. Error sanitization - no info leaks
  * 4. Resource limits - can't exhaust memory
  */
-describe.skip('Security - Code Execution', () => {
+describe('Security - Code Execution', () => {
   let blackboard: Blackboard;
 
   beforeEach(() => {
@@ -272,7 +272,8 @@ describe.skip('Security - Code Execution', () => {
       const status = action.tick(blackboard);
 
       expect(status).toBe(NodeStatus.SUCCESS);
-      expect(blackboard.get('escaped')).toContain('\\n');
+      // The escapes in the code are decoded like in any string literal
+      expect(blackboard.get('escaped')).toBe('Line 1\nLine 2\tTabbed');
     });
   });
 
@@ -314,6 +315,70 @@ describe.skip('Security - Code Execution', () => {
       // Should not succeed in nested eval
       expect((globalThis as any).hacked).toBeUndefined();
     });
+
+    it('prevents reaching the host Function through blackboard methods', () => {
+      const action = new ActionNode('Blackboard Escape');
+
+      action.code = `
+        const host = blackboard.get.constructor('return globalThis')();
+        host.hacked = true;
+        return NodeStatus.SUCCESS;
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect((globalThis as any).hacked).toBeUndefined();
+    });
+
+    it('prevents reaching the host Function through NodeStatus', () => {
+      const action = new ActionNode('NodeStatus Escape');
+
+      action.code = `
+        const hostProcess = NodeStatus.constructor.constructor('return process')();
+        blackboard.set('pid', hostProcess.pid);
+        return NodeStatus.SUCCESS;
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect(blackboard.get('pid')).toBeUndefined();
+    });
+
+    it('prevents reaching the host Function through errors thrown by the editor', () => {
+      blackboard.strict = true;
+      const action = new ActionNode('Error Escape');
+
+      action.code = `
+        try {
+          blackboard.set('undeclared', 1);
+        } catch (e) {
+          e.constructor.constructor('return globalThis')().hacked = true;
+        }
+        return NodeStatus.SUCCESS;
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect((globalThis as any).hacked).toBeUndefined();
+    });
+
+    it('prevents reaching host objects through callbacks the editor calls', async () => {
+      const action = new ActionNode('Thenable Escape');
+
+      action.code = `
+        return {
+          then(resolve) {
+            resolve.constructor('return globalThis')().hacked = true;
+            resolve(NodeStatus.SUCCESS);
+          }
+        };
+      `;
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.RUNNING);
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
+
+      expect(action.tick(blackboard)).toBe(NodeStatus.FAILURE);
+      expect((globalThis as any).hacked).toBeUndefined();
+    });
   });
 
   describe('Prototype Pollution', () => {
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, beforeAll, vi } from 'vitest';
+import { EditorState } from '../../src/state/EditorState.js';
+import { Workspace } from '../../src/state/Workspace.js';
+import { OperationHistory } from '../../src/core/Operation.js';
+import { AddNodeOperation, UpdateNodeLabelOperation } from '../../src/actions/EditorActions.js';
+import { ActionNode } from '../../src/nodes/leaves/ActionNode.js';
+import { registerDefaultNodes } from '../../src/core/DefaultNodes.js';
+
+describe('Workspace', () => {
+  let editorState: EditorState;
+  let workspace: Workspace;
+
+  beforeAll(() => {
+    // Register default nodes for documents loaded from JSON
+    registerDefaultNodes();
+  });
+
+  beforeEach(() => {
+    editorState = new EditorState();
+    workspace = new Workspace(editorState, 'Guard');
+  });
+
+  function addAction(label: string): ActionNode {
+    const node = new ActionNode(label);
+    editorState.operationHistory.execute(new AddNodeOperation(editorState, node));
+    return node;
+  }
+
+  describe('Documents', () => {
+    it('adopts the editor tree as the first document', () => {
+      const document = workspace.getActiveDocument();
+
+      expect(workspace.getDocuments()).toEqual([document]);
+      expect(document.name).toBe('Guard');
+      expect(document.behaviorTree).toBe(editorState.behaviorTree);
+    });
+
+    it('swaps tree, nodes and history into the editor when switching', () => {
+      const guard = workspace.getActiveDocument();
+      addAction('Patrol');
+
+      const archer = workspace.createDocument('Archer');
+      expect(editorState.behaviorTree).toBe(archer.behaviorTree);
+      expect(editorState.nodes).toEqual([]);
+      expect(editorState.operationHistory.canUndo()).toBe(false);
+
+      addAction('Shoot');
+      workspace.activate(guard);
+
+      expect(editorState.nodes.map(n => n.label)).toEqual(['Patrol']);
+      expect(archer.nodes.map(n => n.label)).toEqual(['Shoot']);
+    });
+
+    it('keeps undo history per document', () => {
+      const guard = workspace.getActiveDocument();
+      const patrol = addAction('Patrol');
+
+      workspace.createDocument('Archer');
+      addAction('Shoot');
+      editorState.operationHistory.undo();
+      expect(editorState.nodes).toEqual([]);
+
+      workspace.activate(guard);
+      editorState.operationHistory.undo();
+      expect(editorState.nodes).not.toContain(patrol);
+    });
+
+    it('pauses a running tree when its tab is left', () => {
+      const guard = workspace.getActiveDocument();
+      guard.behaviorTree.start();
+
+      workspace.createDocument('Archer');
+
+      expect(guard.behaviorTree.state).toBe('paused');
+      guard.behaviorTree.stop();
+    });
+
+    it('makes names unique and renames documents', () => {
+      const second = workspace.createDocument('Guard');
+      expect(second.name).toBe('Guard 2');
+
+      workspace.renameDocument(second, '  Sniper ');
+      expect(second.name).toBe('Sniper');
+
+      workspace.renameDocument(second, '');
+      expect(second.name).toBe('Sniper');
+    });
+
+    it('activates a neighbor when the active document is closed', () => {
+      const guard = workspace.getActiveDocument();
+      const archer = workspace.createDocument('Archer');
+
+      workspace.closeDocument(archer);
+      expect(workspace.getActiveDocument()).toBe(guard);
+
+      // Closing the last document leaves an empty one open
+      workspace.closeDocument(guard);
+      expect(workspace.getDocuments()).toHaveLength(1);
+      expect(workspace.getActiveDocument().name).toBe('Untitled');
+      expect(editorState.nodes).toEqual([]);
+    });
+  });
+
+  describe('Dirty tracking', () => {
+    it('tracks changes since the last save point per document', () => {
+      const guard = workspace.getActiveDocument();
+      const node = addAction('Patrol');
+      expect(workspace.isDirty(guard)).toBe(true);
+
+      workspace.markSaved();
+      expect(workspace.hasUnsavedChanges()).toBe(false);
+
+      editorState.operationHistory.execute(new UpdateNodeLabelOperation(node, 'Walk'));
+      expect(workspace.isDirty(guard)).toBe(true);
+
+      // Undoing back to the save point makes the document clean again
+      editorState.operationHistory.undo();
+      expect(workspace.isDirty(guard)).toBe(false);
+    });
+
+    it('notifies listeners when a document becomes dirty', () => {
+      const onChange = vi.fn();
+      workspace.onChange = onChange;
+
+      addAction('Patrol');
+
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    it('treats an emptied history as a change', () => {
+      const history = new OperationHistory();
+      history.execute({ description: 'noop', execute: () => {}, undo: () => {} });
+      history.markSaved();
+
+      history.clear();
+
+      expect(history.isDirty()).toBe(true);
+    });
+  });
+
+  describe('Serialization', () => {
+    it('round-trips all documents', () => {
+      addAction('Patrol');
+      editorState.behaviorTree.blackboard.set('alert', false);
+      editorState.behaviorTree.random.setSeed(77);
+      workspace.createDocument('Archer');
+      addAction('Shoot');
+
+      const data = workspace.toJSON();
+      expect(data.documents.map(d => d.name)).toEqual(['Guard', 'Archer']);
+      expect(data.documents[0].data.tree.nodes).toHaveLength(1);
+
+      const loaded = new Workspace(new EditorState());
+      loaded.load(data);
+
+      const documents = loaded.getDocuments();
+      expect(documents.map(d => d.name)).toEqual(['Guard', 'Archer']);
+      expect(documents.map(d => d.id)).toEqual(data.documents.map(d => d.id));
+      expect(loaded.getActiveDocument().name).toBe('Archer');
+      expect(documents[0].nodes[0].label).toBe('Patrol');
+      expect(documents[0].behaviorTree.blackboard.get('alert')).toBe(false);
+      expect(documents[0].behaviorTree.random.getSeed()).toBe(77);
+      expect(loaded.hasUnsavedChanges()).toBe(false);
+    });
+
+    it('recognizes workspace files', () => {
+      expect(Workspace.isWorkspaceData({ version: '1.2', workspace: workspace.toJSON() })).toBe(true);
+      expect(Workspace.isWorkspaceData(workspace.serializeDocument(workspace.getActiveDocument()))).toBe(false);
+    });
+
+    it('skips documents that fail to load', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const data = workspace.toJSON();
+      data.documents.push({ id: 'broken', name: 'Broken', data: { version: '1.2' } });
+
+      workspace.load(data);
+
+      expect(workspace.getDocuments().map(d => d.name)).toEqual(['Guard']);
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+  });
+});